@@ -0,0 +1,127 @@
+/**
+ * Alert rules: thresholds on switch metrics, evaluated on a schedule, and the
+ * sinks firing and resolved alerts are delivered to
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Metrics a rule can watch. Per-port and per-neighbor metrics produce one
+ * value (and one alert) per port or neighbor.
+ */
+export const ALERT_METRICS = [
+  'cpu',
+  'memory',
+  'temperature',
+  'interface.inputErrors',
+  'interface.outputErrors',
+  'interface.crcErrors',
+  'optic.rxPower',
+  'optic.txPower',
+  'optic.temperature',
+  'stack.members',
+  'stack.degradedLinks',
+  'bgp.state',
+] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+/** `increasing` and `decreasing` compare each value with the previous evaluation */
+export const ALERT_OPERATORS = ['>', '>=', '<', '<=', '==', '!=', 'increasing', 'decreasing'] as const;
+
+export const AlertRuleSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    metric: z.enum(ALERT_METRICS),
+    op: z.enum(ALERT_OPERATORS),
+    threshold: z.union([z.number(), z.string()]).optional(),
+    /** Consecutive breaching evaluations before the alert fires */
+    for: z.number().int().min(1).default(1),
+    severity: z.enum(['info', 'warning', 'critical']).default('warning'),
+    /** Device name globs; all devices when omitted */
+    devices: z.array(z.string()).optional(),
+    /** Port or neighbor globs for per-instance metrics */
+    instances: z.array(z.string()).optional(),
+  })
+  .refine((rule) => rule.op === 'increasing' || rule.op === 'decreasing' || rule.threshold !== undefined, {
+    message: 'threshold is required for comparison operators',
+    path: ['threshold'],
+  })
+  .refine((rule) => typeof rule.threshold !== 'string' || rule.op === '==' || rule.op === '!=', {
+    message: 'text thresholds only work with == and !=',
+    path: ['threshold'],
+  });
+
+export const AlertSinkSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('log') }),
+  z.object({
+    type: z.literal('webhook'),
+    url: z.url(),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+  /** Logging notification to every connected MCP session */
+  z.object({ type: z.literal('mcp') }),
+]);
+
+export const AlertsConfigSchema = z.object({
+  /** Seconds between evaluations */
+  interval: z.number().min(10).default(60),
+  rules: z.array(AlertRuleSchema).min(1),
+  sinks: z.array(AlertSinkSchema).default([{ type: 'log' }, { type: 'mcp' }]),
+});
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+export type AlertSinkConfig = z.infer<typeof AlertSinkSchema>;
+export type AlertsConfig = z.infer<typeof AlertsConfigSchema>;
+
+/**
+ * Read and validate an alert rules file. YAML and JSON are both accepted;
+ * the format is chosen from the file extension.
+ */
+export function loadAlertsFile(filePath: string): AlertsConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigurationError(`Unable to read alert rules file ${filePath}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  try {
+    data = extension === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Alert rules file ${filePath} is not valid ${extension === '.json' ? 'JSON' : 'YAML'}`,
+      { error: error instanceof Error ? error.message : String(error) },
+    );
+  }
+
+  return parseAlertsConfig(data, filePath);
+}
+
+/**
+ * Validate raw alert rules and check that rule names are unique
+ */
+export function parseAlertsConfig(data: unknown, source = 'alert rules'): AlertsConfig {
+  const result = AlertsConfigSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new ConfigurationError(`Invalid ${source}: ${issues}`, result.error.issues);
+  }
+
+  const names = result.data.rules.map((rule) => rule.name);
+  const duplicates = [...new Set(names.filter((name, i) => names.indexOf(name) !== i))];
+  if (duplicates.length > 0) {
+    throw new ConfigurationError(`Duplicate rule name(s) in ${source}: ${duplicates.join(', ')}`);
+  }
+
+  return result.data;
+}
@@ -5,15 +5,73 @@
 import dotenv from 'dotenv';
 import winston from 'winston';
 import { z } from 'zod';
-import { BrocadeCommandExecutor } from '../lib/brocade-commands.js';
+import { AlertEngine } from '../lib/alert-engine.js';
+import { ApprovalQueue } from '../lib/approval-queue.js';
+import { AuditLog } from '../lib/audit-log.js';
+import { AuditedTransport } from '../lib/audited-transport.js';
+import { BackupStore } from '../lib/backup-store.js';
+import type { BrocadeCommandExecutor } from '../lib/brocade-commands.js';
+import { CommandGuard } from '../lib/command-guard.js';
+import { CommitConfirmManager } from '../lib/commit-confirm.js';
+import { DeviceRegistry } from '../lib/device-registry.js';
+import { InterfaceHistory } from '../lib/interface-history.js';
+import { PolicyEngine } from '../lib/policy-engine.js';
+import { RecordingTransport } from '../lib/recording-transport.js';
+import { ReplayTransport } from '../lib/replay-transport.js';
 import { BrocadeSSHClient } from '../lib/ssh-client.js';
 import { BrocadeTelnetClient } from '../lib/telnet-client.js';
 import type { BrocadeTransport } from '../lib/transport-interface.js';
+import { loadAlertsFile } from './alerts.js';
 import { ConfigurationError } from './errors.js';
+import { createSingleDeviceInventory, type Inventory, loadInventoryFile } from './inventory.js';
+import { loadPolicyFile, parsePolicy } from './policy.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Read tools that can be served over SNMP instead of the CLI
+ */
+export const SNMP_TOOLS = [
+  'get_system_info',
+  'get_system_health',
+  'get_interface_statistics',
+  'get_lldp_neighbors',
+  'get_optical_module_info',
+] as const;
+
+export type SnmpTool = (typeof SNMP_TOOLS)[number];
+
+/**
+ * SNMP read access to a switch. The selected tools, and the pollers reading
+ * the same data, use SNMP and fall back to the CLI when it fails.
+ */
+export const SnmpConfigSchema = z
+  .object({
+    version: z.enum(['2c', '3']).default('2c'),
+    port: z.number().min(1).max(65535).default(161),
+    community: z.string().min(1).default('public'),
+    /** SNMPv3 user; the security level follows from the keys given */
+    username: z.string().optional(),
+    authProtocol: z.enum(['md5', 'sha', 'sha224', 'sha256', 'sha384', 'sha512']).default('sha'),
+    authKey: z.string().min(8, 'SNMPv3 keys must be at least 8 characters').optional(),
+    privProtocol: z.enum(['des', 'aes', 'aes256b', 'aes256r']).default('aes'),
+    privKey: z.string().min(8, 'SNMPv3 keys must be at least 8 characters').optional(),
+    timeout: z.number().min(100).default(5000),
+    retries: z.number().min(0).default(1),
+    tools: z.array(z.enum(SNMP_TOOLS)).default([...SNMP_TOOLS]),
+  })
+  .superRefine((config, ctx) => {
+    if (config.version === '3' && !config.username) {
+      ctx.addIssue({ code: 'custom', path: ['username'], message: 'SNMPv3 needs a username' });
+    }
+    if (config.privKey && !config.authKey) {
+      ctx.addIssue({ code: 'custom', path: ['privKey'], message: 'SNMPv3 privacy needs an authKey as well' });
+    }
+  });
+
+export type SnmpConfig = z.infer<typeof SnmpConfigSchema>;
+
 /**
  * Brocade configuration schema
  */
@@ -22,28 +80,119 @@ export const BrocadeConfigSchema = z.object({
   port: z.number().min(1).max(65535).default(22),
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
-  transport: z.enum(['ssh', 'telnet']).default('ssh'),
+  transport: z.enum(['ssh', 'telnet', 'replay']).default('ssh'),
   enableUsername: z.string().optional(),
   enablePassword: z.string().optional(),
   timeout: z.number().min(1000).default(30000),
   keepaliveInterval: z.number().min(1000).default(10000),
   maxRetries: z.number().min(0).default(3),
   retryDelay: z.number().min(100).default(1000),
+  /** Session fixture served by the replay transport */
+  replayFile: z.string().optional(),
+  /** 1 replays at recorded speed, 0 without delays */
+  replaySpeed: z.number().min(0).default(0),
+  /** Record SSH or telnet sessions into this fixture file */
+  recordFile: z.string().optional(),
+  /** Serve monitoring reads over SNMP; CLI only when absent */
+  snmp: SnmpConfigSchema.optional(),
 });
 
 export type BrocadeConfig = z.infer<typeof BrocadeConfigSchema>;
 
+/**
+ * A regular expression given as a string (e.g. in an environment variable)
+ */
+const RegexPatternSchema = z.string().refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'must be a valid regular expression');
+
+/**
+ * Credential accepted by the SSE server, as a bearer token or X-API-Key header.
+ * Give the key itself or its SHA-256 hex digest.
+ */
+export const ApiKeySchema = z
+  .object({
+    name: z.string().min(1),
+    key: z.string().min(16, 'API keys must be at least 16 characters').optional(),
+    keySha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/i, 'must be a SHA-256 hex digest')
+      .optional(),
+    /** Policy role for this key; without it the policy maps the key name like a client name */
+    role: z.string().optional(),
+  })
+  .refine((apiKey) => (apiKey.key === undefined) !== (apiKey.keySha256 === undefined), {
+    message: 'set exactly one of key or keySha256',
+  });
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
 /**
  * Server configuration schema
  */
-export const ServerConfigSchema = z.object({
-  name: z.string().default('brocade-mcp-server'),
-  version: z.string().default('1.0.0'),
-  logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
-  logFile: z.string().optional(),
-  ssePort: z.number().min(1).max(65535).default(3000),
-  sseCorsOrigin: z.string().default('*'),
-});
+export const ServerConfigSchema = z
+  .object({
+    name: z.string().default('brocade-mcp-server'),
+    version: z.string().default('1.0.0'),
+    logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+    logFile: z.string().optional(),
+    ssePort: z.number().min(1).max(65535).default(3000),
+    sseCorsOrigin: z.string().default('*'),
+    sseApiKeys: z.array(ApiKeySchema).default([]),
+    sseAuthMethods: z.array(z.enum(['bearer', 'api-key'])).default(['bearer', 'api-key']),
+    sseTlsCert: z.string().optional(),
+    sseTlsKey: z.string().optional(),
+    /** CA bundle used to verify client certificates */
+    sseTlsCa: z.string().optional(),
+    sseClientCert: z.enum(['off', 'optional', 'required']).default('off'),
+    /** Streamable HTTP sessions without a request for this long are closed */
+    sseSessionIdleMinutes: z.number().min(1).default(30),
+    /** Switch readings for /metrics are reused for this long; 0 reads the switches on every scrape */
+    metricsCacheSeconds: z.number().min(0).default(30),
+    inventoryFile: z.string().optional(),
+    policyFile: z.string().optional(),
+    backupDir: z.string().default('backups'),
+    autoBackup: z.boolean().default(false),
+    requireApproval: z.boolean().default(false),
+    auditLogFile: z.string().default('brocade-audit.jsonl'),
+    /** Size in MB at which the audit log is rotated; 0 never rotates */
+    auditMaxMb: z.number().min(0).default(100),
+    /** Rotated audit log files kept; older ones are deleted */
+    auditMaxFiles: z.number().int().min(0).default(10),
+    alertRulesFile: z.string().optional(),
+    historyDir: z.string().default('history'),
+    /** Seconds between interface counter readings; history is not recorded when unset */
+    historyInterval: z.number().min(10).optional(),
+    historyRetentionDays: z.number().min(1).default(30),
+    commandGuard: z.enum(['off', 'block', 'confirm']).default('confirm'),
+    commandAllow: z.array(RegexPatternSchema).default([]),
+    commandDeny: z.array(RegexPatternSchema).default([]),
+  })
+  .superRefine((config, ctx) => {
+    if ((config.sseTlsCert === undefined) !== (config.sseTlsKey === undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['sseTlsCert'],
+        message: 'SSE_TLS_CERT and SSE_TLS_KEY must be set together',
+      });
+    }
+    if (config.sseClientCert !== 'off' && (config.sseTlsCert === undefined || config.sseTlsCa === undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['sseClientCert'],
+        message: 'client certificates need SSE_TLS_CERT, SSE_TLS_KEY and SSE_TLS_CA',
+      });
+    }
+    const names = config.sseApiKeys.map((apiKey) => apiKey.name);
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({ code: 'custom', path: ['sseApiKeys'], message: 'API key names must be unique' });
+    }
+  });
 
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 
@@ -60,17 +209,20 @@ export function loadBrocadeConfig(): BrocadeConfig {
       console.error('[config] BROCADE_ENABLE_PASSWORD is NOT set');
     }
 
-    const transport = (process.env.BROCADE_TRANSPORT || 'ssh') as 'ssh' | 'telnet';
+    const transport = (process.env.BROCADE_TRANSPORT || 'ssh') as 'ssh' | 'telnet' | 'replay';
 
     // Auto-default port: 23 for telnet, 22 for ssh
     const defaultPort = transport === 'telnet' ? 23 : 22;
     const port = process.env.BROCADE_PORT ? parseInt(process.env.BROCADE_PORT, 10) : defaultPort;
 
+    // Telnet consoles may be open access and replays log in nowhere, so both get placeholder credentials
+    const placeholderCredentials = transport !== 'ssh';
+
     const config = BrocadeConfigSchema.parse({
-      host: process.env.BROCADE_HOST,
+      host: process.env.BROCADE_HOST || (transport === 'replay' ? 'replay' : undefined),
       port,
-      username: process.env.BROCADE_USERNAME,
-      password: process.env.BROCADE_PASSWORD,
+      username: process.env.BROCADE_USERNAME || (placeholderCredentials ? 'admin' : undefined),
+      password: process.env.BROCADE_PASSWORD || (placeholderCredentials ? 'none' : undefined),
       transport,
       enableUsername: process.env.BROCADE_ENABLE_USERNAME ?? undefined,
       enablePassword: process.env.BROCADE_ENABLE_PASSWORD ?? undefined,
@@ -78,6 +230,10 @@ export function loadBrocadeConfig(): BrocadeConfig {
       keepaliveInterval: process.env.SSH_KEEPALIVE_INTERVAL ? parseInt(process.env.SSH_KEEPALIVE_INTERVAL, 10) : 10000,
       maxRetries: process.env.SSH_MAX_RETRIES ? parseInt(process.env.SSH_MAX_RETRIES, 10) : 3,
       retryDelay: process.env.SSH_RETRY_DELAY ? parseInt(process.env.SSH_RETRY_DELAY, 10) : 1000,
+      replayFile: process.env.BROCADE_REPLAY_FILE || undefined,
+      replaySpeed: process.env.BROCADE_REPLAY_SPEED ? parseFloat(process.env.BROCADE_REPLAY_SPEED) : undefined,
+      recordFile: process.env.BROCADE_RECORD_FILE || undefined,
+      snmp: loadSnmpConfig(),
     });
 
     return config;
@@ -90,6 +246,25 @@ export function loadBrocadeConfig(): BrocadeConfig {
   }
 }
 
+/**
+ * SNMP settings from BROCADE_SNMP_*; SNMP is off unless BROCADE_SNMP_VERSION is set
+ */
+function loadSnmpConfig(): unknown {
+  if (!process.env.BROCADE_SNMP_VERSION) return undefined;
+  return {
+    version: process.env.BROCADE_SNMP_VERSION,
+    port: process.env.BROCADE_SNMP_PORT ? parseInt(process.env.BROCADE_SNMP_PORT, 10) : undefined,
+    community: process.env.BROCADE_SNMP_COMMUNITY || undefined,
+    username: process.env.BROCADE_SNMP_USERNAME || undefined,
+    authProtocol: process.env.BROCADE_SNMP_AUTH_PROTOCOL || undefined,
+    authKey: process.env.BROCADE_SNMP_AUTH_KEY || undefined,
+    privProtocol: process.env.BROCADE_SNMP_PRIV_PROTOCOL || undefined,
+    privKey: process.env.BROCADE_SNMP_PRIV_KEY || undefined,
+    timeout: process.env.BROCADE_SNMP_TIMEOUT ? parseInt(process.env.BROCADE_SNMP_TIMEOUT, 10) : undefined,
+    tools: process.env.BROCADE_SNMP_TOOLS?.split(',').map((tool) => tool.trim()),
+  };
+}
+
 /**
  * Load and validate server configuration from environment
  */
@@ -102,6 +277,39 @@ export function loadServerConfig(): ServerConfig {
       logFile: process.env.LOG_FILE,
       ssePort: process.env.SSE_PORT ? parseInt(process.env.SSE_PORT, 10) : 3000,
       sseCorsOrigin: process.env.SSE_CORS_ORIGIN,
+      sseApiKeys: parseJsonList('SSE_API_KEYS', 'a JSON array of { name, key | keySha256, role? } objects'),
+      sseAuthMethods: process.env.SSE_AUTH_METHODS?.split(',').map((method) => method.trim()),
+      sseTlsCert: process.env.SSE_TLS_CERT || undefined,
+      sseTlsKey: process.env.SSE_TLS_KEY || undefined,
+      sseTlsCa: process.env.SSE_TLS_CA || undefined,
+      sseClientCert: process.env.SSE_CLIENT_CERT || undefined,
+      sseSessionIdleMinutes: process.env.SSE_SESSION_IDLE_MINUTES
+        ? parseInt(process.env.SSE_SESSION_IDLE_MINUTES, 10)
+        : undefined,
+      metricsCacheSeconds: process.env.METRICS_CACHE_SECONDS
+        ? parseInt(process.env.METRICS_CACHE_SECONDS, 10)
+        : undefined,
+      inventoryFile: process.env.BROCADE_INVENTORY || undefined,
+      policyFile: process.env.BROCADE_POLICY || undefined,
+      backupDir: process.env.BROCADE_BACKUP_DIR || undefined,
+      autoBackup: process.env.BROCADE_AUTO_BACKUP === 'true',
+      requireApproval: process.env.BROCADE_REQUIRE_APPROVAL === 'true',
+      auditLogFile: process.env.BROCADE_AUDIT_LOG || undefined,
+      auditMaxMb: process.env.BROCADE_AUDIT_MAX_MB ? parseFloat(process.env.BROCADE_AUDIT_MAX_MB) : undefined,
+      auditMaxFiles: process.env.BROCADE_AUDIT_MAX_FILES
+        ? parseInt(process.env.BROCADE_AUDIT_MAX_FILES, 10)
+        : undefined,
+      alertRulesFile: process.env.BROCADE_ALERT_RULES || undefined,
+      historyDir: process.env.BROCADE_HISTORY_DIR || undefined,
+      historyInterval: process.env.BROCADE_HISTORY_INTERVAL
+        ? parseInt(process.env.BROCADE_HISTORY_INTERVAL, 10)
+        : undefined,
+      historyRetentionDays: process.env.BROCADE_HISTORY_RETENTION_DAYS
+        ? parseInt(process.env.BROCADE_HISTORY_RETENTION_DAYS, 10)
+        : undefined,
+      commandGuard: process.env.BROCADE_COMMAND_GUARD || undefined,
+      commandAllow: parseJsonList('BROCADE_COMMAND_ALLOW'),
+      commandDeny: parseJsonList('BROCADE_COMMAND_DENY'),
     });
 
     return config;
@@ -114,10 +322,45 @@ export function loadServerConfig(): ServerConfig {
   }
 }
 
+/**
+ * Read an environment variable holding a JSON array
+ */
+function parseJsonList(name: string, expected = 'a JSON array of strings'): unknown {
+  const value = process.env[name];
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ConfigurationError(`${name} must be ${expected}`);
+  }
+}
+
 /**
  * Create the appropriate transport client based on configuration
  */
 export function createTransportClient(config: BrocadeConfig, logger: winston.Logger): BrocadeTransport {
+  if (config.transport === 'replay') {
+    if (!config.replayFile) {
+      throw new ConfigurationError('The replay transport needs a fixture file (BROCADE_REPLAY_FILE)');
+    }
+    logger.info('Using replay transport', { file: config.replayFile, speed: config.replaySpeed });
+    return new ReplayTransport(config.replayFile, logger, { speed: config.replaySpeed });
+  }
+
+  const client = createSwitchClient(config, logger);
+  if (config.recordFile) {
+    logger.info('Recording session', { file: config.recordFile });
+    return new RecordingTransport(
+      client,
+      config.recordFile,
+      { host: config.host, transport: config.transport },
+      logger,
+    );
+  }
+  return client;
+}
+
+function createSwitchClient(config: BrocadeConfig, logger: winston.Logger): BrocadeTransport {
   if (config.transport === 'telnet') {
     logger.info('Using telnet transport', {
       host: config.host,
@@ -133,9 +376,22 @@ export function createTransportClient(config: BrocadeConfig, logger: winston.Log
 }
 
 /**
- * Container for initialized clients
+ * Container for initialized clients.
+ * `switchClient`, `commandExecutor` and `brocadeConfig` refer to the default device.
  */
 export interface InitializedClients {
+  devices: DeviceRegistry;
+  commits: CommitConfirmManager;
+  backups: BackupStore;
+  /** Tool authorization; absent when no policy file is configured */
+  policy?: PolicyEngine;
+  commandGuard: CommandGuard;
+  approvals: ApprovalQueue;
+  auditLog: AuditLog;
+  /** Threshold alerting; absent when no alert rules file is configured. Started by the server. */
+  alerts?: AlertEngine;
+  /** Interface counter history; records only when an interval is configured. Started by the server. */
+  history: InterfaceHistory;
   switchClient: BrocadeTransport;
   commandExecutor: BrocadeCommandExecutor;
   logger: winston.Logger;
@@ -143,27 +399,104 @@ export interface InitializedClients {
   serverConfig: ServerConfig;
 }
 
+/**
+ * Load the device inventory: from BROCADE_INVENTORY when set, otherwise a
+ * single "default" device built from the BROCADE_* variables
+ */
+export function loadInventory(serverConfig: ServerConfig): Inventory {
+  if (serverConfig.inventoryFile) {
+    return loadInventoryFile(serverConfig.inventoryFile);
+  }
+  return createSingleDeviceInventory(loadBrocadeConfig(), serverConfig.requireApproval);
+}
+
 /**
  * Initialize all required clients and services
  */
 export function initializeClients(transportType: 'stdio' | 'sse' = 'stdio'): InitializedClients {
   const serverConfig = loadServerConfig();
-  const brocadeConfig = loadBrocadeConfig();
+  const inventory = loadInventory(serverConfig);
 
   // Create logger with transport-specific configuration
   const logger = createLogger(serverConfig, transportType);
 
-  // Create the transport client (SSH or Telnet) based on config
-  const switchClient = createTransportClient(brocadeConfig, logger);
+  if (serverConfig.inventoryFile) {
+    logger.info('Loaded device inventory', {
+      file: serverConfig.inventoryFile,
+      devices: inventory.devices.length,
+      defaultDevice: inventory.defaultDevice,
+    });
+  }
+
+  let policy: PolicyEngine | undefined;
+  if (serverConfig.policyFile) {
+    const loaded = loadPolicyFile(serverConfig.policyFile);
+    policy = new PolicyEngine(loaded);
+    logger.info('Loaded authorization policy', {
+      file: serverConfig.policyFile,
+      roles: Object.keys(loaded.roles),
+      defaultRole: loaded.defaultRole,
+    });
+  } else if (serverConfig.sseApiKeys.some((apiKey) => apiKey.role)) {
+    // Key roles need a policy; keys without one keep full access as before
+    policy = new PolicyEngine(parsePolicy({ defaultRole: 'admin' }));
+  }
 
-  // Initialize command executor with the transport client
-  const commandExecutor = new BrocadeCommandExecutor(switchClient);
+  const unknownRoles = serverConfig.sseApiKeys
+    .map((apiKey) => apiKey.role)
+    .filter((role): role is string => role !== undefined && !policy?.hasRole(role));
+  if (unknownRoles.length > 0) {
+    throw new ConfigurationError(`Unknown role(s) in SSE_API_KEYS: ${[...new Set(unknownRoles)].join(', ')}`);
+  }
+
+  // Transports (SSH, Telnet or replay) are created per device on first use;
+  // every command sent to a switch is recorded in the audit log
+  const auditLog = new AuditLog(serverConfig.auditLogFile, {
+    maxBytes: serverConfig.auditMaxMb > 0 ? serverConfig.auditMaxMb * 1024 * 1024 : undefined,
+    maxFiles: serverConfig.auditMaxFiles,
+  });
+  const devices = new DeviceRegistry(
+    inventory,
+    (config, deviceLogger, name) => {
+      const transport = createTransportClient(config, deviceLogger);
+      return config.transport === 'replay' ? transport : new AuditedTransport(transport, name, auditLog, deviceLogger);
+    },
+    logger,
+  );
+  const defaultDevice = devices.resolve();
+
+  let alerts: AlertEngine | undefined;
+  if (serverConfig.alertRulesFile) {
+    const loaded = loadAlertsFile(serverConfig.alertRulesFile);
+    alerts = new AlertEngine(loaded, devices, logger);
+    logger.info('Loaded alert rules', {
+      file: serverConfig.alertRulesFile,
+      rules: loaded.rules.length,
+      intervalSeconds: loaded.interval,
+    });
+  }
 
   return {
-    switchClient,
-    commandExecutor,
+    devices,
+    commits: new CommitConfirmManager(devices, logger),
+    backups: new BackupStore(serverConfig.backupDir),
+    policy,
+    commandGuard: new CommandGuard({
+      mode: serverConfig.commandGuard,
+      allow: serverConfig.commandAllow,
+      deny: serverConfig.commandDeny,
+    }),
+    approvals: new ApprovalQueue(logger),
+    auditLog,
+    alerts,
+    history: new InterfaceHistory(serverConfig.historyDir, devices, logger, {
+      intervalSeconds: serverConfig.historyInterval,
+      retentionDays: serverConfig.historyRetentionDays,
+    }),
+    switchClient: defaultDevice.switchClient,
+    commandExecutor: defaultDevice.commandExecutor,
     logger,
-    brocadeConfig,
+    brocadeConfig: defaultDevice.config,
     serverConfig,
   };
 }
@@ -214,23 +547,23 @@ export function createLogger(config: ServerConfig, transportType: 'stdio' | 'sse
  * Validate environment variables on startup
  */
 export function validateEnvironment(): void {
+  // With an inventory file the per-device settings come from the file instead
+  if (process.env.BROCADE_INVENTORY) {
+    return;
+  }
+
   const transport = process.env.BROCADE_TRANSPORT || 'ssh';
 
-  // Telnet connections may not need username/password (open access)
-  if (transport === 'telnet') {
-    const required = ['BROCADE_HOST'];
-    const missing = required.filter((key) => !process.env[key]);
-    if (missing.length > 0) {
-      throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
-    }
-    // Default username/password to empty for telnet if not set
-    if (!process.env.BROCADE_USERNAME) process.env.BROCADE_USERNAME = 'admin';
-    if (!process.env.BROCADE_PASSWORD) process.env.BROCADE_PASSWORD = 'none';
-  } else {
-    const required = ['BROCADE_HOST', 'BROCADE_USERNAME', 'BROCADE_PASSWORD'];
-    const missing = required.filter((key) => !process.env[key]);
-    if (missing.length > 0) {
-      throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
-    }
+  // Replayed sessions only need the fixture and telnet consoles may be open
+  // access; loadBrocadeConfig() fills in placeholders for what they leave out
+  const required =
+    transport === 'replay'
+      ? ['BROCADE_REPLAY_FILE']
+      : transport === 'telnet'
+        ? ['BROCADE_HOST']
+        : ['BROCADE_HOST', 'BROCADE_USERNAME', 'BROCADE_PASSWORD'];
+  const missing = required.filter((key) => !process.env[key]);
+  if (missing.length > 0) {
+    throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
   }
 }
@@ -33,6 +33,16 @@ export class TelnetConnectionError extends BrocadeError {
   }
 }
 
+/**
+ * An SNMP request that failed, timed out or returned no usable value
+ */
+export class SnmpError extends BrocadeError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'SNMP_ERROR', details);
+    this.name = 'SnmpError';
+  }
+}
+
 export class CommandExecutionError extends BrocadeError {
   public readonly command?: string;
   public readonly exitCode?: number;
@@ -59,6 +69,33 @@ export class AuthenticationError extends BrocadeError {
   }
 }
 
+export class AuthorizationError extends BrocadeError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'AUTHORIZATION_ERROR', details);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export class CommandBlockedError extends BrocadeError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'COMMAND_BLOCKED', details);
+    this.name = 'CommandBlockedError';
+  }
+}
+
+/**
+ * A feature the connected switch model or firmware does not offer
+ */
+export class UnsupportedPlatformError extends BrocadeError {
+  public readonly feature: string;
+
+  constructor(message: string, feature: string, details?: unknown) {
+    super(message, 'UNSUPPORTED_ON_PLATFORM', details);
+    this.name = 'UnsupportedPlatformError';
+    this.feature = feature;
+  }
+}
+
 export class TimeoutError extends BrocadeError {
   public readonly timeout: number;
 
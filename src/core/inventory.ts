@@ -0,0 +1,228 @@
+/**
+ * Device inventory: named switches with per-device connection settings
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { type BrocadeConfig, BrocadeConfigSchema } from './config.js';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * SNMP settings of a device, merged key by key over those in `defaults`.
+ * Values are checked when the device is resolved.
+ */
+const SnmpSettingsSchema = z.object({
+  version: z.enum(['2c', '3']).optional(),
+  port: z.number().optional(),
+  community: z.string().optional(),
+  communityEnv: z.string().optional(),
+  username: z.string().optional(),
+  authProtocol: z.string().optional(),
+  authKey: z.string().optional(),
+  authKeyEnv: z.string().optional(),
+  privProtocol: z.string().optional(),
+  privKey: z.string().optional(),
+  privKeyEnv: z.string().optional(),
+  timeout: z.number().optional(),
+  retries: z.number().optional(),
+  tools: z.array(z.string()).optional(),
+});
+
+/**
+ * Connection settings that can be given per device or shared via `defaults`.
+ * Secrets may be referenced by environment variable name instead of inlined.
+ */
+const DeviceSettingsSchema = z.object({
+  port: z.number().min(1).max(65535).optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  passwordEnv: z.string().optional(),
+  transport: z.enum(['ssh', 'telnet', 'replay']).optional(),
+  enableUsername: z.string().optional(),
+  enablePassword: z.string().optional(),
+  enablePasswordEnv: z.string().optional(),
+  timeout: z.number().min(1000).optional(),
+  keepaliveInterval: z.number().min(1000).optional(),
+  maxRetries: z.number().min(0).optional(),
+  retryDelay: z.number().min(100).optional(),
+  requireApproval: z.boolean().optional(),
+  replayFile: z.string().optional(),
+  replaySpeed: z.number().min(0).optional(),
+  recordFile: z.string().optional(),
+  snmp: SnmpSettingsSchema.optional(),
+});
+
+export const InventoryDeviceSchema = DeviceSettingsSchema.extend({
+  name: z
+    .string()
+    .min(1)
+    .regex(/^[\w.-]+$/, 'Device names may only contain letters, digits, ".", "_" and "-"'),
+  host: z.string().min(1, 'Host is required'),
+  tags: z.array(z.string()).default([]),
+  description: z.string().optional(),
+});
+
+export const InventorySchema = z.object({
+  defaultDevice: z.string().optional(),
+  defaults: DeviceSettingsSchema.default({}),
+  devices: z.array(InventoryDeviceSchema).min(1, 'Inventory must contain at least one device'),
+});
+
+export type InventoryDeviceInput = z.infer<typeof InventoryDeviceSchema>;
+export type InventoryInput = z.infer<typeof InventorySchema>;
+
+/**
+ * A fully resolved inventory entry ready to be turned into a transport
+ */
+export interface InventoryDevice {
+  name: string;
+  tags: string[];
+  description?: string;
+  /** Privileged changes are queued for human approval instead of being applied */
+  requireApproval: boolean;
+  config: BrocadeConfig;
+}
+
+export interface Inventory {
+  defaultDevice: string;
+  devices: InventoryDevice[];
+}
+
+/**
+ * Name used for the implicit single-device inventory built from BROCADE_* variables
+ */
+export const DEFAULT_DEVICE_NAME = 'default';
+
+/**
+ * Read and validate an inventory file. YAML and JSON are both accepted;
+ * the format is chosen from the file extension.
+ */
+export function loadInventoryFile(filePath: string): Inventory {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigurationError(`Unable to read inventory file ${filePath}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  try {
+    data = extension === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new ConfigurationError(`Inventory file ${filePath} is not valid ${extension === '.json' ? 'JSON' : 'YAML'}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return parseInventory(data, filePath);
+}
+
+/**
+ * Validate raw inventory data and resolve every device into a BrocadeConfig
+ */
+export function parseInventory(data: unknown, source = 'inventory'): Inventory {
+  const result = InventorySchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new ConfigurationError(`Invalid ${source}: ${issues}`, result.error.issues);
+  }
+
+  const input = result.data;
+  const seen = new Set<string>();
+  const devices: InventoryDevice[] = [];
+
+  for (const device of input.devices) {
+    if (seen.has(device.name)) {
+      throw new ConfigurationError(`Duplicate device name in ${source}: ${device.name}`);
+    }
+    seen.add(device.name);
+    devices.push(resolveDevice(device, input.defaults, source));
+  }
+
+  const defaultDevice = input.defaultDevice ?? devices[0].name;
+  if (!seen.has(defaultDevice)) {
+    throw new ConfigurationError(`Default device "${defaultDevice}" is not defined in ${source}`);
+  }
+
+  return { defaultDevice, devices };
+}
+
+/**
+ * Build a single-device inventory around an already loaded BrocadeConfig
+ */
+export function createSingleDeviceInventory(config: BrocadeConfig, requireApproval = false): Inventory {
+  return {
+    defaultDevice: DEFAULT_DEVICE_NAME,
+    devices: [{ name: DEFAULT_DEVICE_NAME, tags: [], requireApproval, config }],
+  };
+}
+
+function resolveDevice(
+  device: InventoryDeviceInput,
+  defaults: z.infer<typeof DeviceSettingsSchema>,
+  source: string,
+): InventoryDevice {
+  const merged = { ...defaults, ...stripUndefined(device) };
+  const transport = merged.transport ?? 'ssh';
+
+  const password = merged.passwordEnv ? process.env[merged.passwordEnv] : merged.password;
+  const enablePassword = merged.enablePasswordEnv ? process.env[merged.enablePasswordEnv] : merged.enablePassword;
+
+  // Telnet consoles may be open access and replays log in nowhere, mirror loadBrocadeConfig() defaults
+  const username = merged.username ?? (transport !== 'ssh' ? 'admin' : undefined);
+  const effectivePassword = password ?? (transport !== 'ssh' ? 'none' : undefined);
+
+  const parsed = BrocadeConfigSchema.safeParse({
+    host: device.host,
+    port: merged.port ?? (transport === 'telnet' ? 23 : 22),
+    username,
+    password: effectivePassword,
+    transport,
+    enableUsername: merged.enableUsername,
+    enablePassword,
+    timeout: merged.timeout,
+    keepaliveInterval: merged.keepaliveInterval,
+    maxRetries: merged.maxRetries,
+    retryDelay: merged.retryDelay,
+    replayFile: merged.replayFile,
+    replaySpeed: merged.replaySpeed,
+    recordFile: merged.recordFile,
+    snmp: resolveSnmp(defaults.snmp, device.snmp),
+  });
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new ConfigurationError(`Invalid device "${device.name}" in ${source}: ${issues}`, parsed.error.issues);
+  }
+
+  return {
+    name: device.name,
+    tags: device.tags,
+    description: device.description,
+    requireApproval: merged.requireApproval ?? false,
+    config: parsed.data,
+  };
+}
+
+function resolveSnmp(
+  defaults: z.infer<typeof SnmpSettingsSchema> | undefined,
+  device: z.infer<typeof SnmpSettingsSchema> | undefined,
+): unknown {
+  if (!defaults && !device) return undefined;
+  const { communityEnv, authKeyEnv, privKeyEnv, ...settings } = { ...defaults, ...stripUndefined(device ?? {}) };
+  return {
+    ...settings,
+    community: communityEnv ? process.env[communityEnv] : settings.community,
+    authKey: authKeyEnv ? process.env[authKeyEnv] : settings.authKey,
+    privKey: privKeyEnv ? process.env[privKeyEnv] : settings.privKey,
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
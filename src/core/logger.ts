@@ -61,13 +61,13 @@ export function logWarn(logger: winston.Logger, message: string, data?: Record<s
 }
 
 /**
- * Create a timer for performance logging
+ * Create a timer for performance logging. `end` returns the duration in milliseconds.
  */
 export function createTimer(logger: winston.Logger, operation: string) {
   const start = Date.now();
 
   return {
-    end: (success = true, data?: Record<string, unknown>) => {
+    end: (success = true, data?: Record<string, unknown>): number => {
       const duration = Date.now() - start;
       logger.info({
         message: `${operation} ${success ? 'completed' : 'failed'}`,
@@ -75,6 +75,7 @@ export function createTimer(logger: winston.Logger, operation: string) {
         success,
         ...data,
       });
+      return duration;
     },
   };
 }
@@ -0,0 +1,146 @@
+/**
+ * Authorization policy: roles with allow/deny rules on tools, and which MCP
+ * clients get which role
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Constraint on a tool argument. All given conditions must hold for every
+ * value found at the argument path (array elements are checked one by one).
+ * An allow rule does not cover a call that leaves a constrained argument out,
+ * unless the constraint is `optional`.
+ */
+export const ArgConstraintSchema = z
+  .object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    pattern: z.string().optional(),
+    optional: z.boolean().optional(),
+  })
+  .refine((constraint) => {
+    if (constraint.pattern === undefined) return true;
+    try {
+      new RegExp(constraint.pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'pattern must be a valid regular expression');
+
+/**
+ * A rule matches a tool call when every selector it sets matches. Selectors
+ * left out match anything. `args` keys are argument paths such as `vlanId`
+ * or `vlans.id`.
+ */
+export const PolicyRuleSchema = z.object({
+  effect: z.enum(['allow', 'deny']),
+  tools: z.array(z.string()).optional(),
+  categories: z.array(z.string()).optional(),
+  privileged: z.boolean().optional(),
+  devices: z.array(z.string()).optional(),
+  args: z.record(z.string(), ArgConstraintSchema).optional(),
+  description: z.string().optional(),
+});
+
+export const PolicyRoleSchema = z.object({
+  inherits: z.array(z.string()).default([]),
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+export const PolicySchema = z.object({
+  defaultRole: z.string().default('read-only'),
+  clients: z
+    .array(
+      z.object({
+        match: z.string().min(1),
+        role: z.string().min(1),
+      }),
+    )
+    .default([]),
+  roles: z.record(z.string(), PolicyRoleSchema).default({}),
+});
+
+export type ArgConstraint = z.infer<typeof ArgConstraintSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyRole = z.infer<typeof PolicyRoleSchema>;
+export type Policy = z.infer<typeof PolicySchema>;
+
+/**
+ * Roles available without defining them. A policy file may redefine any of them.
+ */
+export const BUILT_IN_ROLES: Record<string, PolicyRole> = {
+  'read-only': {
+    inherits: [],
+    rules: [{ effect: 'allow', privileged: false }],
+  },
+  operator: {
+    inherits: ['read-only'],
+    rules: [
+      { effect: 'allow', categories: ['vlan', 'interface', 'lldp', 'diagnostics'] },
+      { effect: 'allow', tools: ['backup_config', 'save_config', 'confirm_commit'] },
+      { effect: 'deny', tools: ['apply_desired_state'], description: 'Desired state can delete VLANs' },
+    ],
+  },
+  admin: {
+    inherits: [],
+    rules: [{ effect: 'allow' }],
+  },
+};
+
+/**
+ * Read and validate a policy file. YAML and JSON are both accepted;
+ * the format is chosen from the file extension.
+ */
+export function loadPolicyFile(filePath: string): Policy {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigurationError(`Unable to read policy file ${filePath}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  try {
+    data = extension === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new ConfigurationError(`Policy file ${filePath} is not valid ${extension === '.json' ? 'JSON' : 'YAML'}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return parsePolicy(data, filePath);
+}
+
+/**
+ * Validate raw policy data and check that every referenced role exists
+ */
+export function parsePolicy(data: unknown, source = 'policy'): Policy {
+  const result = PolicySchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new ConfigurationError(`Invalid ${source}: ${issues}`, result.error.issues);
+  }
+
+  const policy = result.data;
+  const known = new Set([...Object.keys(BUILT_IN_ROLES), ...Object.keys(policy.roles)]);
+  const referenced = [
+    policy.defaultRole,
+    ...policy.clients.map((client) => client.role),
+    ...Object.values(policy.roles).flatMap((role) => role.inherits),
+  ];
+  const unknown = [...new Set(referenced.filter((role) => !known.has(role)))];
+  if (unknown.length > 0) {
+    throw new ConfigurationError(`Unknown role(s) in ${source}: ${unknown.join(', ')}`);
+  }
+
+  return policy;
+}
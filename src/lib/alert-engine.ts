@@ -0,0 +1,340 @@
+/**
+ * Threshold alerting on switch metrics.
+ *
+ * On every evaluation the engine reads the data sources the rules need from
+ * each device (system health, interface counters, optics, stack, BGP), turns
+ * them into metric values and compares them with the rules. An alert fires
+ * once a value has breached its rule for `for` evaluations in a row and
+ * resolves when it no longer does; only those two transitions are delivered
+ * to the sinks, so a condition that persists is reported once.
+ */
+
+import type winston from 'winston';
+import type { AlertMetric, AlertRule, AlertSinkConfig, AlertsConfig } from '../core/alerts.js';
+import { formatError } from '../core/errors.js';
+import { logError, logInfo, logWarn } from '../core/logger.js';
+import type { BGPNeighbor, InterfaceStatistics, OpticalModuleInfo, SystemHealth } from '../types/index.js';
+import { runWithAuditContext } from './audit-log.js';
+import type { BrocadeCommandExecutor } from './brocade-commands.js';
+import type { DeviceRegistry } from './device-registry.js';
+import { globToRegExp, mapWithConcurrency } from './fleet.js';
+
+export type AlertState = 'firing' | 'resolved';
+
+export interface Alert {
+  /** Rule, device and instance, stable across evaluations */
+  id: string;
+  rule: string;
+  severity: AlertRule['severity'];
+  device: string;
+  /** Port or neighbor the value belongs to */
+  instance?: string;
+  metric: AlertMetric;
+  value: number | string;
+  threshold?: number | string;
+  state: AlertState;
+  message: string;
+  firedAt: string;
+  resolvedAt?: string;
+}
+
+export interface AlertSink {
+  name: string;
+  deliver(alert: Alert): Promise<void>;
+}
+
+type StackHealth = Awaited<ReturnType<BrocadeCommandExecutor['getStackHealth']>>;
+
+interface SourceData {
+  health: SystemHealth;
+  interfaces: InterfaceStatistics[];
+  optics: OpticalModuleInfo[];
+  stack: StackHealth;
+  bgp: BGPNeighbor[];
+}
+
+type MetricSource = keyof SourceData;
+
+interface MetricReading {
+  instance?: string;
+  value: number | string;
+}
+
+const SOURCES: { [K in MetricSource]: (executor: BrocadeCommandExecutor) => Promise<SourceData[K]> } = {
+  health: (executor) => executor.getSystemHealth(),
+  interfaces: (executor) => executor.getInterfaceStatistics(),
+  optics: (executor) => executor.getOpticalModuleInfo(),
+  stack: (executor) => executor.getStackHealth(),
+  bgp: (executor) => executor.getBGPNeighbors(),
+};
+
+async function readSource<K extends MetricSource>(
+  source: K,
+  executor: BrocadeCommandExecutor,
+  data: Partial<SourceData>,
+): Promise<void> {
+  data[source] = await SOURCES[source](executor);
+}
+
+interface MetricDefinition {
+  source: MetricSource;
+  read: (data: Partial<SourceData>) => MetricReading[];
+}
+
+function metric<K extends MetricSource>(source: K, read: (data: SourceData[K]) => MetricReading[]): MetricDefinition {
+  return { source, read: (data) => (data[source] === undefined ? [] : read(data[source] as SourceData[K])) };
+}
+
+const perPort = (key: 'inputErrors' | 'outputErrors' | 'crcErrors') =>
+  metric('interfaces', (stats) => stats.map((stat) => ({ instance: stat.interface, value: stat[key] })));
+
+const perOptic = (key: 'rxPower' | 'txPower' | 'temperature') =>
+  metric('optics', (optics) =>
+    optics
+      .filter((optic) => optic.present && optic[key] !== undefined)
+      .map((optic) => ({ instance: optic.port, value: optic[key] as number })),
+  );
+
+const METRICS: Record<AlertMetric, MetricDefinition> = {
+  cpu: metric('health', (health) => [{ value: health.cpu.current }]),
+  memory: metric('health', (health) => [{ value: health.memory.utilization }]),
+  temperature: metric('health', (health) => (health.temperature ? [{ value: health.temperature.current }] : [])),
+  'interface.inputErrors': perPort('inputErrors'),
+  'interface.outputErrors': perPort('outputErrors'),
+  'interface.crcErrors': perPort('crcErrors'),
+  'optic.rxPower': perOptic('rxPower'),
+  'optic.txPower': perOptic('txPower'),
+  'optic.temperature': perOptic('temperature'),
+  'stack.members': metric('stack', (stack) => [{ value: stack.topology.totalMembers }]),
+  'stack.degradedLinks': metric('stack', (stack) => [{ value: stack.connectivity.degradedLinks }]),
+  'bgp.state': metric('bgp', (neighbors) =>
+    neighbors.map((neighbor) => ({ instance: neighbor.address, value: neighbor.state })),
+  ),
+};
+
+/** Devices evaluated in parallel */
+const EVALUATION_CONCURRENCY = 4;
+
+/** Resolved alerts kept for list_alerts */
+const HISTORY_LIMIT = 100;
+
+interface SeriesState {
+  previous?: number | string;
+  breaches: number;
+  alert?: Alert;
+}
+
+/**
+ * Whether a value breaches a rule, given the value of the previous evaluation
+ */
+export function breaches(rule: AlertRule, value: number | string, previous?: number | string): boolean {
+  const { op, threshold } = rule;
+  if (op === 'increasing' || op === 'decreasing') {
+    if (typeof value !== 'number' || typeof previous !== 'number') return false;
+    return op === 'increasing' ? value > previous : value < previous;
+  }
+  if (op === '==') return String(value) === String(threshold);
+  if (op === '!=') return String(value) !== String(threshold);
+  if (typeof value !== 'number' || typeof threshold !== 'number') return false;
+  switch (op) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+}
+
+function describe(rule: AlertRule, device: string, instance: string | undefined, value: number | string): string {
+  const subject = instance ? `${rule.metric} on ${device} ${instance}` : `${rule.metric} on ${device}`;
+  const condition = rule.threshold === undefined ? rule.op : `${rule.op} ${rule.threshold}`;
+  return `${rule.description ?? rule.name}: ${subject} is ${value} (${condition})`;
+}
+
+export class AlertEngine {
+  private readonly series: Map<string, SeriesState> = new Map();
+  private readonly history: Alert[] = [];
+  private readonly sinks: AlertSink[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly config: AlertsConfig,
+    private readonly devices: DeviceRegistry,
+    private readonly logger: winston.Logger,
+  ) {}
+
+  get rules(): AlertRule[] {
+    return this.config.rules;
+  }
+
+  get sinkConfigs(): AlertSinkConfig[] {
+    return this.config.sinks;
+  }
+
+  addSink(sink: AlertSink): void {
+    this.sinks.push(sink);
+  }
+
+  /**
+   * Evaluate now and then every `interval` seconds. Evaluations never overlap.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logInfo(this.logger, 'Alert engine started', {
+      rules: this.config.rules.length,
+      intervalSeconds: this.config.interval,
+      sinks: this.sinks.map((sink) => sink.name),
+    });
+
+    const tick = async () => {
+      await this.evaluate();
+      if (this.running) {
+        this.timer = setTimeout(tick, this.config.interval * 1000);
+        this.timer.unref?.();
+      }
+    };
+    void tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Firing alerts and recently resolved ones, newest first
+   */
+  list(filter: { state?: AlertState; device?: string } = {}): Alert[] {
+    const firing = [...this.series.values()]
+      .map((state) => state.alert)
+      .filter((alert): alert is Alert => alert !== undefined);
+    return [...firing, ...this.history]
+      .filter((alert) => filter.state === undefined || alert.state === filter.state)
+      .filter((alert) => filter.device === undefined || alert.device === filter.device)
+      .sort((a, b) => (b.resolvedAt ?? b.firedAt).localeCompare(a.resolvedAt ?? a.firedAt))
+      .map((alert) => ({ ...alert }));
+  }
+
+  /**
+   * Run every rule once against every device it covers
+   */
+  async evaluate(): Promise<void> {
+    const targets = this.devices
+      .getDevices()
+      .map((device) => ({
+        device: device.name,
+        rules: this.config.rules.filter(
+          (rule) => !rule.devices || rule.devices.some((glob) => globToRegExp(glob).test(device.name)),
+        ),
+      }))
+      .filter((target) => target.rules.length > 0);
+
+    // Attributed in the audit log like a caller of its own
+    await runWithAuditContext({ user: 'alert-engine' }, () =>
+      mapWithConcurrency(targets, EVALUATION_CONCURRENCY, (target) =>
+        this.evaluateDevice(target.device, target.rules).catch((error) => {
+          logError(this.logger, error, { alerts: true, device: target.device });
+        }),
+      ),
+    );
+  }
+
+  private async evaluateDevice(device: string, rules: AlertRule[]): Promise<void> {
+    const { commandExecutor } = this.devices.resolve(device);
+    const data: Partial<SourceData> = {};
+
+    const needed = [...new Set(rules.map((rule) => METRICS[rule.metric].source))];
+    for (const source of needed) {
+      try {
+        await readSource(source, commandExecutor, data);
+      } catch (error) {
+        // Rules on this source keep their state until the next successful read
+        logWarn(this.logger, 'Alert source unavailable', { device, source, error: formatError(error) });
+      }
+    }
+
+    for (const rule of rules) {
+      const definition = METRICS[rule.metric];
+      if (data[definition.source] === undefined) continue;
+
+      const readings = definition
+        .read(data)
+        .filter(
+          (reading) =>
+            !rule.instances ||
+            (reading.instance !== undefined &&
+              rule.instances.some((glob) => globToRegExp(glob).test(reading.instance as string))),
+        );
+      const seen = new Set<string>();
+      for (const reading of readings) {
+        const key = [rule.name, device, reading.instance ?? ''].join('|');
+        seen.add(key);
+        await this.observe(key, rule, device, reading);
+      }
+
+      // A port or neighbor that disappeared no longer breaches
+      const prefix = `${rule.name}|${device}|`;
+      for (const [key, state] of this.series) {
+        if (key.startsWith(prefix) && !seen.has(key)) {
+          this.series.delete(key);
+          if (state.alert) await this.resolve(state.alert, state.alert.value);
+        }
+      }
+    }
+  }
+
+  private async observe(key: string, rule: AlertRule, device: string, reading: MetricReading): Promise<void> {
+    const state = this.series.get(key) ?? { breaches: 0 };
+    const breached = breaches(rule, reading.value, state.previous);
+    state.previous = reading.value;
+    state.breaches = breached ? state.breaches + 1 : 0;
+    this.series.set(key, state);
+
+    if (breached && state.alert) {
+      state.alert.value = reading.value;
+    } else if (breached && state.breaches >= rule.for) {
+      state.alert = {
+        id: key,
+        rule: rule.name,
+        severity: rule.severity,
+        device,
+        instance: reading.instance,
+        metric: rule.metric,
+        value: reading.value,
+        threshold: rule.threshold,
+        state: 'firing',
+        message: describe(rule, device, reading.instance, reading.value),
+        firedAt: new Date().toISOString(),
+      };
+      await this.deliver(state.alert);
+    } else if (!breached && state.alert) {
+      const alert = state.alert;
+      state.alert = undefined;
+      await this.resolve(alert, reading.value);
+    }
+  }
+
+  private async resolve(alert: Alert, value: number | string): Promise<void> {
+    const resolved: Alert = { ...alert, value, state: 'resolved', resolvedAt: new Date().toISOString() };
+    this.history.unshift(resolved);
+    this.history.splice(HISTORY_LIMIT);
+    await this.deliver(resolved);
+  }
+
+  private async deliver(alert: Alert): Promise<void> {
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.deliver({ ...alert });
+        } catch (error) {
+          logError(this.logger, error, { alertSink: sink.name, alert: alert.id });
+        }
+      }),
+    );
+  }
+}
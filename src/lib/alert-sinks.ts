@@ -0,0 +1,86 @@
+/**
+ * Destinations for firing and resolved alerts
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type winston from 'winston';
+import type { AlertSinkConfig } from '../core/alerts.js';
+import { logInfo, logWarn } from '../core/logger.js';
+import type { Alert, AlertSink } from './alert-engine.js';
+
+/** Webhook requests that take longer are abandoned */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Write alerts to the server log: firing as warnings, resolved as info
+ */
+export class LogAlertSink implements AlertSink {
+  readonly name = 'log';
+
+  constructor(private readonly logger: winston.Logger) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    const log = alert.state === 'firing' ? logWarn : logInfo;
+    log(this.logger, `Alert ${alert.state}: ${alert.message}`, { alert });
+  }
+}
+
+/**
+ * POST each alert as JSON to a URL
+ */
+export class WebhookAlertSink implements AlertSink {
+  readonly name = 'webhook';
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {},
+  ) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Alert webhook ${this.url} answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Send alerts to every connected MCP session as logging notifications
+ */
+export class McpAlertSink implements AlertSink {
+  readonly name = 'mcp';
+
+  constructor(private readonly servers: () => Server[]) {}
+
+  async deliver(alert: Alert): Promise<void> {
+    const level = alert.state === 'resolved' ? 'info' : alert.severity === 'critical' ? 'critical' : 'warning';
+    await Promise.allSettled(
+      this.servers().map((server) =>
+        server.notification({
+          method: 'notifications/message',
+          params: { level, logger: 'alerts', data: alert },
+        }),
+      ),
+    );
+  }
+}
+
+/**
+ * Sinks for the configured sink list. `servers` lists the MCP servers of the connected sessions.
+ */
+export function createAlertSinks(
+  configs: AlertSinkConfig[],
+  logger: winston.Logger,
+  servers: () => Server[],
+): AlertSink[] {
+  return configs.map((config) => {
+    if (config.type === 'webhook') return new WebhookAlertSink(config.url, config.headers);
+    if (config.type === 'mcp') return new McpAlertSink(servers);
+    return new LogAlertSink(logger);
+  });
+}
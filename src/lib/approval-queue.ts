@@ -0,0 +1,153 @@
+/**
+ * Human approval of privileged changes.
+ *
+ * On devices that require approval, privileged tool calls are stored here as
+ * change requests (tool, arguments and the CLI they generate) instead of being
+ * executed. An approver then approves or rejects each request; approved
+ * requests are executed by the caller and their outcome recorded. Requests are
+ * kept in memory and do not survive a server restart.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type winston from 'winston';
+import { AuthorizationError, ValidationError } from '../core/errors.js';
+import { logInfo } from '../core/logger.js';
+
+export type ChangeStatus = 'pending' | 'executing' | 'applied' | 'failed' | 'rejected';
+
+export interface ChangeRequest {
+  id: string;
+  device: string;
+  tool: string;
+  args: Record<string, unknown>;
+  /** CLI the change generates, when the tool can report it without applying */
+  commands?: string[];
+  status: ChangeStatus;
+  requestedBy?: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  /** Approval comment or rejection reason */
+  comment?: string;
+  /** Tool output once applied, or the error that stopped it */
+  result?: string;
+}
+
+/** How many decided requests are kept for list_pending_changes */
+const HISTORY_LIMIT = 50;
+
+export class ApprovalQueue {
+  private readonly changes: Map<string, ChangeRequest> = new Map();
+
+  constructor(private readonly logger: winston.Logger) {}
+
+  submit(request: Pick<ChangeRequest, 'device' | 'tool' | 'args' | 'commands' | 'requestedBy'>): ChangeRequest {
+    const change: ChangeRequest = {
+      id: randomUUID(),
+      ...request,
+      status: 'pending',
+      requestedAt: new Date().toISOString(),
+    };
+    this.changes.set(change.id, change);
+    logInfo(this.logger, 'Change queued for approval', {
+      changeId: change.id,
+      device: change.device,
+      tool: change.tool,
+      requestedBy: change.requestedBy,
+    });
+    return { ...change };
+  }
+
+  /**
+   * Change requests, newest first
+   */
+  list(status?: ChangeStatus): ChangeRequest[] {
+    return [...this.changes.values()]
+      .filter((change) => status === undefined || change.status === status)
+      .reverse()
+      .map((change) => ({ ...change }));
+  }
+
+  has(id: string): boolean {
+    return this.changes.has(id);
+  }
+
+  get(id: string): ChangeRequest {
+    const change = this.changes.get(id);
+    if (!change) {
+      throw new ValidationError(`Unknown change request ${id}`, 'changeId');
+    }
+    return { ...change };
+  }
+
+  /**
+   * Mark a pending request as approved and being executed. Only one approver can win,
+   * and it has to be someone other than the requester.
+   */
+  beginApproval(id: string, approver?: string, comment?: string): ChangeRequest {
+    const change = this.requirePending(id);
+    if (!approver || approver === change.requestedBy) {
+      throw new AuthorizationError(
+        `Change request ${id} was requested by ${change.requestedBy ?? 'an unidentified client'} and needs another approver`,
+      );
+    }
+    Object.assign(change, {
+      status: 'executing',
+      decidedBy: approver,
+      decidedAt: new Date().toISOString(),
+      comment,
+    });
+    logInfo(this.logger, 'Change approved', { changeId: id, device: change.device, approver });
+    return { ...change };
+  }
+
+  /**
+   * Record the outcome of an approved request
+   */
+  complete(id: string, outcome: { success: boolean; result: string }): ChangeRequest {
+    const change = this.changes.get(id);
+    if (!change || change.status !== 'executing') {
+      throw new ValidationError(`Change request ${id} is not being executed`, 'changeId');
+    }
+    change.status = outcome.success ? 'applied' : 'failed';
+    change.result = outcome.result;
+    this.prune();
+    return { ...change };
+  }
+
+  reject(id: string, approver?: string, reason?: string): ChangeRequest {
+    const change = this.requirePending(id);
+    Object.assign(change, {
+      status: 'rejected',
+      decidedBy: approver,
+      decidedAt: new Date().toISOString(),
+      comment: reason,
+    });
+    logInfo(this.logger, 'Change rejected', { changeId: id, device: change.device, approver, reason });
+    this.prune();
+    return { ...change };
+  }
+
+  private requirePending(id: string): ChangeRequest {
+    const change = this.changes.get(id);
+    if (!change) {
+      throw new ValidationError(`Unknown change request ${id}`, 'changeId');
+    }
+    if (change.status !== 'pending') {
+      throw new ValidationError(`Change request ${id} is already ${change.status}`, 'changeId');
+    }
+    return change;
+  }
+
+  /**
+   * Drop the oldest decided requests beyond the history limit; pending ones are always kept
+   */
+  private prune(): void {
+    const decided = [...this.changes.values()].filter(
+      (change) => change.status !== 'pending' && change.status !== 'executing',
+    );
+    for (const change of decided.slice(0, Math.max(0, decided.length - HISTORY_LIMIT))) {
+      this.changes.delete(change.id);
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Append-only, hash-chained audit log of every CLI exchange with a switch.
+ *
+ * Each entry is one JSON line carrying the hash of the previous entry and a
+ * SHA-256 over its own content, so editing, removing or reordering lines
+ * breaks the chain and is reported by verify(). Secrets in commands, output
+ * and errors are redacted before an entry is hashed. The tool call, caller and
+ * approver are taken from the AsyncLocalStorage context set by the handlers.
+ *
+ * When the file reaches its size limit it is rotated to <file>.1 (older files
+ * move up to <file>.2 and so on, past the file limit they are deleted) and the
+ * chain continues in the new file. Queries and verification stream the files
+ * oldest first.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, open, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditEntry } from '../types/index.js';
+import { readJsonLines } from './jsonl.js';
+import { redactSecrets } from './secret-redaction.js';
+
+/**
+ * Who and what caused the commands currently being sent
+ */
+export interface AuditContext {
+  tool?: string;
+  user?: string;
+  callId?: string;
+  approvedBy?: string;
+}
+
+export type AuditRecord = Pick<AuditEntry, 'device' | 'commands' | 'outputs' | 'success' | 'error' | 'durationMs'>;
+
+export interface AuditQuery {
+  device?: string;
+  tool?: string;
+  user?: string;
+  /** ISO timestamps, inclusive */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  /** Characters of switch output kept per command */
+  outputLimit?: number;
+  /** Size at which the file is rotated; never rotated when undefined */
+  maxBytes?: number;
+  /** Rotated files kept besides the current one */
+  maxFiles?: number;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+/** Bytes read from the end of the file to find the last entry on startup */
+const TAIL_BYTES = 1024 * 1024;
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run `fn` with an audit context; commands sent inside it are attributed to it
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return auditContext.run(context, fn);
+}
+
+export function getAuditContext(): AuditContext {
+  return auditContext.getStore() ?? {};
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+export class AuditLog {
+  private last?: { seq: number; hash: string };
+  private size?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly outputLimit: number;
+
+  constructor(
+    private readonly file: string,
+    private readonly options: AuditLogOptions = {},
+  ) {
+    this.outputLimit = options.outputLimit ?? 4096;
+  }
+
+  /**
+   * Append an entry. Writes are serialized so the chain stays linear.
+   */
+  append(record: AuditRecord, context: AuditContext = getAuditContext()): Promise<AuditEntry> {
+    const next = this.queue
+      .catch(() => undefined)
+      .then(async () => {
+        const last = this.last ?? (await this.readLast());
+        // Passwords, keys and communities typed or shown on the CLI are never stored
+        const outputs = record.outputs.map(redactSecrets);
+        const outputsTruncated = outputs.some((output) => output.length > this.outputLimit);
+
+        const unsigned: Omit<AuditEntry, 'hash'> = {
+          seq: last.seq + 1,
+          timestamp: new Date().toISOString(),
+          device: record.device,
+          tool: context.tool,
+          user: context.user,
+          callId: context.callId,
+          approvedBy: context.approvedBy,
+          commands: record.commands.map(redactSecrets),
+          outputs: outputs.map((output) => output.slice(0, this.outputLimit)),
+          ...(outputsTruncated && { outputsTruncated }),
+          success: record.success,
+          error: record.error === undefined ? undefined : redactSecrets(record.error),
+          durationMs: record.durationMs,
+          prevHash: last.hash,
+        };
+        const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+        const line = `${JSON.stringify(entry)}\n`;
+
+        await mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+        await this.rotateBefore(Buffer.byteLength(line));
+        await appendFile(this.file, line);
+        this.last = { seq: entry.seq, hash: entry.hash };
+        this.size = (this.size ?? 0) + Buffer.byteLength(line);
+        return entry;
+      });
+    this.queue = next;
+    return next;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+
+    // Only the newest `limit` matches are kept while reading oldest first
+    const matches: AuditEntry[] = [];
+    for await (const entry of this.entries()) {
+      const time = Date.parse(entry.timestamp);
+      if (
+        (filter.device === undefined || entry.device === filter.device) &&
+        (filter.tool === undefined || entry.tool === filter.tool) &&
+        (filter.user === undefined || entry.user === filter.user) &&
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until)
+      ) {
+        matches.push(entry);
+        if (filter.limit !== undefined && matches.length > filter.limit) matches.shift();
+      }
+    }
+    return matches.reverse();
+  }
+
+  /**
+   * Recompute the hash chain. `brokenAt` is the seq of the first entry that does not fit.
+   * When rotated files have been deleted the chain is checked from the oldest
+   * entry kept, reported as `firstSeq`.
+   */
+  async verify(): Promise<{ valid: boolean; entries: number; firstSeq?: number; brokenAt?: number }> {
+    let expected: { seq: number; prevHash: string } | undefined;
+    let firstSeq: number | undefined;
+    let count = 0;
+    let brokenAt: number | undefined;
+
+    for await (const entry of this.entries()) {
+      count++;
+      if (brokenAt !== undefined) continue;
+      if (!expected) {
+        firstSeq = entry.seq;
+        expected = entry.seq > 1 ? { seq: entry.seq, prevHash: entry.prevHash } : { seq: 1, prevHash: GENESIS_HASH };
+      }
+      const { hash, ...unsigned } = entry;
+      if (entry.seq !== expected.seq || entry.prevHash !== expected.prevHash || hashEntry(unsigned) !== hash) {
+        brokenAt = entry.seq ?? expected.seq;
+        continue;
+      }
+      expected = { seq: entry.seq + 1, prevHash: hash };
+    }
+
+    return {
+      valid: brokenAt === undefined,
+      entries: count,
+      ...(firstSeq !== undefined && firstSeq > 1 && { firstSeq }),
+      ...(brokenAt !== undefined && { brokenAt }),
+    };
+  }
+
+  /**
+   * Every entry of the rotated files and the current file, oldest first
+   */
+  private async *entries(): AsyncGenerator<AuditEntry> {
+    for (let index = this.options.maxFiles ?? 0; index >= 1; index--) {
+      yield* readJsonLines<AuditEntry>(this.rotatedPath(index));
+    }
+    yield* readJsonLines<AuditEntry>(this.file);
+  }
+
+  private rotatedPath(index: number): string {
+    return `${this.file}.${index}`;
+  }
+
+  /**
+   * Rotate the file when `bytes` more would take it past the size limit
+   */
+  private async rotateBefore(bytes: number): Promise<void> {
+    const { maxBytes, maxFiles = 0 } = this.options;
+    if (maxBytes === undefined) return;
+    this.size ??= await fileSize(this.file);
+    if (this.size === 0 || this.size + bytes <= maxBytes) return;
+
+    await rm(this.rotatedPath(maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(this.rotatedPath(index), this.rotatedPath(index + 1)).catch(ignoreMissing);
+    }
+    if (maxFiles > 0) {
+      await rename(this.file, this.rotatedPath(1));
+    } else {
+      await rm(this.file, { force: true });
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Continue the chain of an existing file without reading all of it
+   */
+  private async readLast(): Promise<{ seq: number; hash: string }> {
+    // Right after a rotation the current file is empty and the chain ends in <file>.1
+    const files = (this.options.maxFiles ?? 0) > 0 ? [this.file, this.rotatedPath(1)] : [this.file];
+    for (const file of files) {
+      const last = await readLastEntry(file);
+      if (last) return { seq: last.seq, hash: last.hash };
+    }
+    return { seq: 0, hash: GENESIS_HASH };
+  }
+}
+
+/**
+ * The last entry of a file, read from its tail; undefined when the file is missing or empty
+ */
+async function readLastEntry(file: string): Promise<AuditEntry | undefined> {
+  let handle: Awaited<ReturnType<typeof open>>;
+  try {
+    handle = await open(file, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    const lines = buffer
+      .toString('utf8')
+      .split('\n')
+      .filter((line) => line.trim());
+    const lastLine = lines[lines.length - 1];
+    return lastLine ? (JSON.parse(lastLine) as AuditEntry) : undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function fileSize(file: string): Promise<number> {
+  try {
+    return (await stat(file)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw error;
+  }
+}
+
+function ignoreMissing(error: unknown): void {
+  if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+}
@@ -0,0 +1,87 @@
+/**
+ * Transport decorator that writes every command and its output to the audit log
+ */
+
+import type winston from 'winston';
+import { formatError } from '../core/errors.js';
+import { logError } from '../core/logger.js';
+import type { AuditLog } from './audit-log.js';
+import { detectCliError } from './cli-errors.js';
+import { redactSecrets } from './secret-redaction.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
+
+export class AuditedTransport implements BrocadeTransport {
+  constructor(
+    private readonly inner: BrocadeTransport,
+    private readonly device: string,
+    private readonly auditLog: AuditLog,
+    private readonly logger: winston.Logger,
+  ) {}
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  disconnect(): void {
+    this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+
+  getReconnectCount(): number {
+    return this.inner.getReconnectCount?.() ?? 0;
+  }
+
+  async executeCommand(command: string, timeout?: number): Promise<string> {
+    const [output] = await this.record([command], async () => [await this.inner.executeCommand(command, timeout)]);
+    return output;
+  }
+
+  executeMultipleCommands(commands: string[], timeout?: number): Promise<string[]> {
+    return this.record(commands, () => this.inner.executeMultipleCommands(commands, timeout));
+  }
+
+  async executeInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    const [output] = await this.record([command], async () => [
+      await this.inner.executeInteractive(command, answers, timeout),
+    ]);
+    return output;
+  }
+
+  private async record(commands: string[], send: () => Promise<string[]>): Promise<string[]> {
+    const start = Date.now();
+    try {
+      const outputs = await send();
+      const cliError = outputs.map((output) => detectCliError(output)).find((error) => error !== null);
+      await this.write({ commands, outputs, success: !cliError, error: cliError ?? undefined, start });
+      return outputs;
+    } catch (error) {
+      await this.write({ commands, outputs: [], success: false, error: formatError(error), start });
+      throw error;
+    }
+  }
+
+  /**
+   * The command has already reached the switch, so a failing audit write is logged rather than thrown
+   */
+  private async write(record: {
+    commands: string[];
+    outputs: string[];
+    success: boolean;
+    error?: string;
+    start: number;
+  }): Promise<void> {
+    const { start, ...rest } = record;
+    try {
+      await this.auditLog.append({ device: this.device, ...rest, durationMs: Date.now() - start });
+    } catch (error) {
+      logError(this.logger, error, { audit: true, device: this.device, commands: record.commands.map(redactSecrets) });
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Local versioned configuration backup store.
+ *
+ * Layout under the backup directory, one directory per device:
+ *   <device>/objects/<sha256>.cfg   configuration text, stored once per distinct content
+ *   <device>/index.jsonl            one BackupEntry per line, oldest first
+ *
+ * Like git, content is addressed by hash so repeated snapshots of an
+ * unchanged config cost nothing; the index records every version.
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ValidationError } from '../core/errors.js';
+import type { BackupEntry } from '../types/index.js';
+
+export type BackupMetadata = Pick<BackupEntry, 'source' | 'trigger' | 'message'>;
+
+export class BackupStore {
+  /** Per-device write queue so concurrent saves get distinct version numbers */
+  private readonly queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private readonly baseDir: string) {}
+
+  /**
+   * Store a configuration. When it is identical to the latest version of an
+   * automatic snapshot, no new version is created and the latest is returned.
+   */
+  async save(
+    device: string,
+    config: string,
+    metadata: BackupMetadata,
+  ): Promise<{ entry: BackupEntry; created: boolean }> {
+    return this.enqueue(device, async () => {
+      const hash = createHash('sha256').update(config).digest('hex');
+      const entries = await this.readIndex(device);
+      const latest = entries[entries.length - 1];
+
+      if (latest && latest.hash === hash && metadata.trigger.type === 'auto') {
+        return { entry: latest, created: false };
+      }
+
+      const deviceDir = this.deviceDir(device);
+      await mkdir(path.join(deviceDir, 'objects'), { recursive: true });
+      await writeFile(this.objectPath(device, hash), config, { flag: 'wx' }).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EEXIST') throw error;
+      });
+
+      const entry: BackupEntry = {
+        version: (latest?.version ?? 0) + 1,
+        device,
+        timestamp: new Date().toISOString(),
+        hash,
+        size: Buffer.byteLength(config),
+        ...metadata,
+      };
+      await appendFile(path.join(deviceDir, 'index.jsonl'), `${JSON.stringify(entry)}\n`);
+      return { entry, created: true };
+    });
+  }
+
+  /**
+   * Versions of a device, newest first
+   */
+  async list(device: string, limit?: number): Promise<BackupEntry[]> {
+    const entries = (await this.readIndex(device)).reverse();
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
+  /**
+   * Fetch a version with its configuration text
+   */
+  async get(device: string, version: number): Promise<{ entry: BackupEntry; config: string }> {
+    const entry = (await this.readIndex(device)).find((candidate) => candidate.version === version);
+    if (!entry) {
+      throw new ValidationError(`No backup version ${version} for device "${device}"`, 'version');
+    }
+    return { entry, config: await readFile(this.objectPath(device, entry.hash), 'utf8') };
+  }
+
+  private deviceDir(device: string): string {
+    if (!device || device.includes('/') || device.includes('\\') || device.startsWith('.')) {
+      throw new ValidationError(`Device name "${device}" cannot be used as a backup directory`, 'device');
+    }
+    return path.join(path.resolve(this.baseDir), device);
+  }
+
+  private objectPath(device: string, hash: string): string {
+    return path.join(this.deviceDir(device), 'objects', `${hash}.cfg`);
+  }
+
+  private async readIndex(device: string): Promise<BackupEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(path.join(this.deviceDir(device), 'index.jsonl'), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as BackupEntry);
+  }
+
+  private enqueue<T>(device: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(device) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(device, next);
+    return next;
+  }
+}
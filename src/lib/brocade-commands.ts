@@ -1,9 +1,14 @@
+import type { SnmpTool } from '../core/config.js';
+import { CommandExecutionError } from '../core/errors.js';
 import type {
   ACL,
   ACLRule,
   ArpEntry,
   BGPNeighbor,
   CableDiagnostics,
+  ConfigChangeOptions,
+  DesiredState,
+  DesiredStatePlan,
   DHCPBinding,
   DHCPSnoopingConfig,
   DynamicARPInspection,
@@ -16,6 +21,8 @@ import type {
   NetworkTopology,
   OpticalModuleInfo,
   OSPFNeighbor,
+  ParsedConfig,
+  PlatformInfo,
   PortChannel,
   PortSecurityStatus,
   QoSProfile,
@@ -27,21 +34,122 @@ import type {
   StaticRoute,
   SystemHealth,
   SystemInfo,
+  TransactionReport,
   UpstreamRouting,
   VlanInfo,
 } from '../types/index.js';
-import type { BrocadeTransport } from './transport-interface.js';
+import { detectCliError } from './cli-errors.js';
+import { parseRunningConfig } from './config-parser.js';
+import { readRunningConfig, runConfigTransaction, type TransactionOptions } from './config-transaction.js';
+import { computeConfigDelta, parseConfigTree } from './config-tree.js';
+import { planDesiredState } from './desired-state.js';
+import { defaultParserRegistry } from './output-parsers.js';
+import type { ParserRegistry } from './parser-registry.js';
+import { type CommandVariant, detectPlatform, type PlatformCommand, resolveCommand } from './platform-profiles.js';
+import type { SnmpReader } from './snmp-reader.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
+
+/** Questions `reload` asks: whether to save a modified config first, then whether to go ahead */
+const RELOAD_ANSWERS: PromptAnswer[] = [
+  { prompt: /save.*\(enter 'y' or 'n'\):?\s*$/is, answer: 'n' },
+  { prompt: /are you sure\?.*\(enter 'y' or 'n'\):?\s*$/is, answer: 'y' },
+];
+
+/**
+ * Turn a pasted configuration block into the command list sent to the switch.
+ * Blank lines and "!" comments are dropped, "conf t"/"end" are added when
+ * missing and "write memory" is appended when saving.
+ */
+export function buildPasteConfigCommands(config: string, save: boolean = false): string[] {
+  const configLines = config
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('!'));
+
+  if (configLines.length === 0) {
+    return [];
+  }
+
+  const commands: string[] = [];
+  if (!configLines[0].toLowerCase().startsWith('conf')) {
+    commands.push('conf t');
+  }
+  commands.push(...configLines);
+
+  if (!commands[commands.length - 1].toLowerCase().startsWith('end')) {
+    commands.push('end');
+  }
+  if (save) {
+    commands.push('write memory');
+  }
+
+  return commands;
+}
 
 interface CacheEntry {
   data: unknown;
   expires: number;
 }
 
+export interface ExecutorOptions {
+  /** Parsers for command output; the built-in ones by default */
+  parsers?: ParserRegistry;
+  /** SNMP reader serving the monitoring reads selected for it, with the CLI as fallback */
+  snmp?: SnmpReader;
+}
+
 export class BrocadeCommandExecutor {
   private cache: Map<string, CacheEntry> = new Map();
   private readonly CACHE_TTL = 30_000; // 30 seconds
+  /** Detected once per connection; a reconnect may follow a firmware upgrade */
+  private platform?: { info: PlatformInfo; reconnects: number };
+
+  private readonly parsers: ParserRegistry;
+  private readonly snmp?: SnmpReader;
+
+  constructor(
+    private sshClient: BrocadeTransport,
+    options: ExecutorOptions = {},
+  ) {
+    this.parsers = options.parsers ?? defaultParserRegistry;
+    this.snmp = options.snmp;
+  }
 
-  constructor(private sshClient: BrocadeTransport) {}
+  /**
+   * Model, firmware and command profiles of the switch, detected from `show version`
+   */
+  async getPlatform(): Promise<PlatformInfo> {
+    const reconnects = this.sshClient.getReconnectCount?.() ?? 0;
+    if (this.platform && this.platform.reconnects === reconnects) return this.platform.info;
+    if (this.platform) this.cache.delete('systemInfo');
+
+    const info = detectPlatform(await this.getSystemInfo());
+    this.platform = { info, reconnects };
+    return info;
+  }
+
+  /**
+   * CLI variant of a command for the connected platform
+   */
+  private async platformCommand(command: PlatformCommand): Promise<CommandVariant> {
+    return resolveCommand(await this.getPlatform(), command);
+  }
+
+  /**
+   * Entries of the registered parser for the output; problems become parse warnings
+   */
+  private async parseOutput<T>(command: string, output: string): Promise<T[]> {
+    const platform = this.parsers.hasPlatformParsers(command) ? await this.getPlatform() : undefined;
+    return this.parsers.parse<T>(command, output, platform).entries;
+  }
+
+  /**
+   * Read over SNMP when it is configured and selected for the tool, over the CLI otherwise
+   */
+  private viaSnmp<T>(tool: SnmpTool, read: (snmp: SnmpReader) => Promise<T>, cli: () => Promise<T>): Promise<T> {
+    const snmp = this.snmp;
+    return snmp ? snmp.read(tool, () => read(snmp), cli) : cli();
+  }
 
   private getCached<T>(key: string): T | null {
     const entry = this.cache.get(key);
@@ -58,9 +166,46 @@ export class BrocadeCommandExecutor {
     this.cache.clear();
   }
 
+  /**
+   * Send a generated configuration command list to the switch, or just return
+   * it untouched when `dryRun` is set so it can be reviewed first
+   */
+  private async applyConfig(commands: string[], options?: ConfigChangeOptions): Promise<string[]> {
+    if (options?.dryRun) {
+      return commands;
+    }
+
+    options?.guard?.(commands);
+    await this.sshClient.executeMultipleCommands(commands);
+    this.invalidateCache();
+    return commands;
+  }
+
+  /**
+   * Apply commands one by one, stopping at the first CLI error and rolling
+   * the switch back to its pre-change running config
+   */
+  async applyTransaction(commands: string[], options?: Omit<TransactionOptions, 'logger'>): Promise<TransactionReport> {
+    try {
+      return await runConfigTransaction(this.sshClient, commands, options);
+    } finally {
+      this.invalidateCache();
+    }
+  }
+
   async getSystemInfo(): Promise<SystemInfo> {
     const cached = this.getCached<SystemInfo>('systemInfo');
     if (cached) return cached;
+    const info = await this.viaSnmp(
+      'get_system_info',
+      (snmp) => snmp.getSystemInfo(),
+      () => this.readSystemInfoFromCli(),
+    );
+    this.setCache('systemInfo', info);
+    return info;
+  }
+
+  private async readSystemInfoFromCli(): Promise<SystemInfo> {
     const output = await this.sshClient.executeCommand('show version');
 
     const info: SystemInfo = {
@@ -90,7 +235,6 @@ export class BrocadeCommandExecutor {
       }
     }
 
-    this.setCache('systemInfo', info);
     return info;
   }
 
@@ -204,7 +348,7 @@ export class BrocadeCommandExecutor {
     return routes;
   }
 
-  async configureVlan(vlanId: number, name?: string): Promise<void> {
+  async configureVlan(vlanId: number, name?: string, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = [
       'conf t',
       `vlan ${vlanId}`,
@@ -213,11 +357,15 @@ export class BrocadeCommandExecutor {
       'write memory',
     ].filter((cmd) => cmd);
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
-  async addPortToVlan(port: string, vlanId: number, tagged: boolean = false): Promise<void> {
+  async addPortToVlan(
+    port: string,
+    vlanId: number,
+    tagged: boolean = false,
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = [
       'conf t',
       `vlan ${vlanId}`,
@@ -226,8 +374,66 @@ export class BrocadeCommandExecutor {
       'write memory',
     ];
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
+  }
+
+  /**
+   * Create a VLAN with its name and tagged/untagged ports in one batch
+   */
+  async createVlanFull(
+    config: { id: number; name: string; taggedPorts?: string[]; untaggedPorts?: string[] },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
+    const commands = ['conf t', config.name ? `vlan ${config.id} name ${config.name}` : `vlan ${config.id}`];
+
+    for (const port of config.taggedPorts ?? []) {
+      commands.push(`tagged ${port}`);
+    }
+    for (const port of config.untaggedPorts ?? []) {
+      commands.push(`untagged ${port}`);
+    }
+
+    commands.push('exit', 'end', 'write memory');
+    return this.applyConfig(commands, options);
+  }
+
+  /**
+   * Converge VLANs and ports to a desired-state document. Membership lists are
+   * complete: ports missing from them are removed. The running config is parsed
+   * because "show vlan" does not list port membership.
+   */
+  async applyDesiredState(desired: DesiredState, options?: ConfigChangeOptions): Promise<DesiredStatePlan> {
+    // Planned on a fresh read: a cached model may predate changes made since
+    const current = parseRunningConfig(await this.getRunningConfig());
+    this.setCache('parsedConfig', current);
+    const plan = planDesiredState(current, desired);
+    if (plan.commands.length > 0) {
+      await this.applyConfig(plan.commands, options);
+    }
+    return plan;
+  }
+
+  /**
+   * Move the running config to a previously saved config. Lines missing from
+   * `config` are negated and missing ones added; the delta is applied as a
+   * transaction so a rejected line puts the switch back where it was.
+   */
+  async restoreConfig(
+    config: string,
+    options: ConfigChangeOptions & { save?: boolean } = {},
+  ): Promise<{ commands: string[]; report?: TransactionReport }> {
+    const snapshot = await readRunningConfig(this.sshClient);
+    const delta = computeConfigDelta(snapshot, parseConfigTree(config));
+    if (delta.length === 0) {
+      return { commands: [] };
+    }
+
+    const commands = ['conf t', ...delta, 'end', ...(options.save ? ['write memory'] : [])];
+    if (options.dryRun) {
+      return { commands };
+    }
+    options.guard?.(commands);
+    return { commands, report: await this.applyTransaction(commands, { snapshot }) };
   }
 
   async configureInterface(
@@ -238,8 +444,10 @@ export class BrocadeCommandExecutor {
       speed?: string;
       duplex?: string;
     },
-  ): Promise<void> {
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t', `interface ${interfaceName}`];
+    const speedDuplex = config.speed ? await this.platformCommand('speedDuplex') : undefined;
 
     if (config.description !== undefined && config.description !== '') {
       commands.push(`port-name ${config.description}`);
@@ -247,13 +455,12 @@ export class BrocadeCommandExecutor {
     if (config.enabled !== undefined) {
       commands.push(config.enabled ? 'enable' : 'disable');
     }
-    if (config.speed !== undefined && config.speed !== '') {
-      commands.push(`speed-duplex ${config.speed}`);
+    if (speedDuplex && config.speed) {
+      commands.push(speedDuplex.cli(config.speed));
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   async saveConfiguration(): Promise<void> {
@@ -268,6 +475,17 @@ export class BrocadeCommandExecutor {
     return await this.sshClient.executeCommand('show running-config');
   }
 
+  /**
+   * Get the running configuration as a typed model
+   */
+  async getParsedConfig(): Promise<ParsedConfig> {
+    const cached = this.getCached<ParsedConfig>('parsedConfig');
+    if (cached) return cached;
+    const parsed = parseRunningConfig(await this.getRunningConfig());
+    this.setCache('parsedConfig', parsed);
+    return parsed;
+  }
+
   async getStartupConfig(): Promise<string> {
     return await this.sshClient.executeCommand('show configuration');
   }
@@ -298,7 +516,7 @@ export class BrocadeCommandExecutor {
     return result;
   }
 
-  async configureSpanningTree(mode: string, priority?: number): Promise<void> {
+  async configureSpanningTree(mode: string, priority?: number, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t'];
 
     if (mode) {
@@ -310,11 +528,15 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
-  async configurePortSecurity(port: string, maxMacAddresses: number, violation: string): Promise<void> {
+  async configurePortSecurity(
+    port: string,
+    maxMacAddresses: number,
+    violation: string,
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = [
       'conf t',
       `interface ${port}`,
@@ -325,8 +547,7 @@ export class BrocadeCommandExecutor {
       'write memory',
     ];
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   async executeCommand(command: string): Promise<string> {
@@ -336,9 +557,19 @@ export class BrocadeCommandExecutor {
     return result;
   }
 
+  /**
+   * Reload the switch from its startup config. Asked whether to save a
+   * modified running config, it answers no so unsaved changes are dropped.
+   * Resolves once the switch has closed the session.
+   */
   async reloadSwitch(confirm: boolean = false): Promise<void> {
-    if (confirm) {
-      await this.sshClient.executeCommand('reload');
+    if (!confirm) return;
+
+    const output = await this.sshClient.executeInteractive('reload', RELOAD_ANSWERS);
+    this.invalidateCache();
+    const cliError = detectCliError(output);
+    if (cliError) {
+      throw new CommandExecutionError(`Reload failed: ${cliError}`, 'reload', undefined, { output });
     }
   }
 
@@ -348,6 +579,14 @@ export class BrocadeCommandExecutor {
    * Get LLDP neighbors
    */
   async getLLDPNeighbors(): Promise<LLDPNeighbor[]> {
+    return this.viaSnmp(
+      'get_lldp_neighbors',
+      (snmp) => snmp.getLLDPNeighbors(),
+      () => this.readLLDPNeighborsFromCli(),
+    );
+  }
+
+  private async readLLDPNeighborsFromCli(): Promise<LLDPNeighbor[]> {
     const output = await this.sshClient.executeCommand('show lldp neighbors detail');
     const neighbors: LLDPNeighbor[] = [];
 
@@ -428,11 +667,14 @@ export class BrocadeCommandExecutor {
   /**
    * Configure LLDP settings
    */
-  async configureLLDP(config: {
-    enabled?: boolean;
-    transmitInterval?: number;
-    holdMultiplier?: number;
-  }): Promise<void> {
+  async configureLLDP(
+    config: {
+      enabled?: boolean;
+      transmitInterval?: number;
+      holdMultiplier?: number;
+    },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t'];
 
     if (config.enabled !== undefined) {
@@ -448,8 +690,7 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   // ========== Layer 2-3 Management ==========
@@ -487,82 +728,20 @@ export class BrocadeCommandExecutor {
    * Get port channels (LAG)
    */
   async getPortChannels(): Promise<PortChannel[]> {
-    const output = await this.sshClient.executeCommand('show lag');
-    const channels: PortChannel[] = [];
-
-    const lines = output.split('\n');
-    let currentChannel: Partial<PortChannel> | null = null;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Match port-channel ID
-      const lagMatch = trimmed.match(/LAG\s+(\d+)/i) || trimmed.match(/Port-channel\s+(\d+)/i);
-      if (lagMatch) {
-        if (currentChannel && currentChannel.id !== undefined) {
-          channels.push(currentChannel as PortChannel);
-        }
-
-        currentChannel = {
-          id: parseInt(lagMatch[1], 10),
-          ports: [],
-          status: trimmed.toLowerCase().includes('up') ? 'up' : 'down',
-          type: trimmed.toLowerCase().includes('lacp') ? 'lacp' : 'static',
-        };
-      }
-
-      // Match member ports
-      if (currentChannel && trimmed.match(/ethernet\s+[\d/]+/i)) {
-        const portMatch = trimmed.match(/ethernet\s+([\d/]+)/i);
-        if (portMatch) {
-          currentChannel.ports?.push(portMatch[1]);
-        }
-      }
-    }
-
-    if (currentChannel && currentChannel.id !== undefined) {
-      channels.push(currentChannel as PortChannel);
-    }
-
-    return channels;
+    return this.parseOutput('portChannels', await this.sshClient.executeCommand('show lag'));
   }
 
   /**
    * Get Layer 3 interfaces (VEs)
    */
   async getLayer3Interfaces(): Promise<Layer3Interface[]> {
-    const output = await this.sshClient.executeCommand('show ip interface');
-    const interfaces: Layer3Interface[] = [];
-
-    const lines = output.split('\n');
-
-    for (const line of lines) {
-      const veMatch = line.match(/ve\s+(\d+)/i);
-      const ipMatch = line.match(/(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})\/(\d{1,2})/);
-
-      if (veMatch) {
-        const iface: Layer3Interface = {
-          name: `ve${veMatch[1]}`,
-          vlan: parseInt(veMatch[1], 10),
-          status: line.toLowerCase().includes('up') ? 'up' : 'down',
-        };
-
-        if (ipMatch) {
-          iface.ipAddress = ipMatch[1];
-          iface.subnet = ipMatch[2];
-        }
-
-        interfaces.push(iface);
-      }
-    }
-
-    return interfaces;
+    return this.parseOutput('layer3Interfaces', await this.sshClient.executeCommand('show ip interface'));
   }
 
   /**
    * Configure static route
    */
-  async configureStaticRoute(route: StaticRoute): Promise<void> {
+  async configureStaticRoute(route: StaticRoute, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t'];
 
     let routeCmd = `ip route ${route.destination} ${route.netmask} ${route.gateway}`;
@@ -572,19 +751,21 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push(routeCmd, 'exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Configure port channel (LAG)
    */
-  async configurePortChannel(config: {
-    id: number;
-    ports: string[];
-    type?: 'static' | 'lacp';
-    name?: string;
-  }): Promise<void> {
+  async configurePortChannel(
+    config: {
+      id: number;
+      ports: string[];
+      type?: 'static' | 'lacp';
+      name?: string;
+    },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t'];
 
     // Create LAG
@@ -600,19 +781,21 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Configure Layer 3 interface
    */
-  async configureLayer3Interface(config: {
-    vlan: number;
-    ipAddress: string;
-    subnet: string;
-    description?: string;
-  }): Promise<void> {
+  async configureLayer3Interface(
+    config: {
+      vlan: number;
+      ipAddress: string;
+      subnet: string;
+      description?: string;
+    },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t', `interface ve ${config.vlan}`];
 
     if (config.description) {
@@ -621,14 +804,13 @@ export class BrocadeCommandExecutor {
 
     commands.push(`ip address ${config.ipAddress}/${config.subnet}`, 'exit', 'write memory');
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Configure QoS profile
    */
-  async configureQoS(config: QoSProfile): Promise<void> {
+  async configureQoS(config: QoSProfile, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t'];
 
     if (config.priority !== undefined) {
@@ -640,8 +822,7 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   // ========== Routing Protocol Management ==========
@@ -650,7 +831,7 @@ export class BrocadeCommandExecutor {
    * Get BGP neighbors
    */
   async getBGPNeighbors(): Promise<BGPNeighbor[]> {
-    const output = await this.sshClient.executeCommand('show ip bgp neighbors');
+    const output = await this.sshClient.executeCommand((await this.platformCommand('bgpNeighbors')).cli());
     const neighbors: BGPNeighbor[] = [];
 
     const blocks = output.split('BGP neighbor is').slice(1);
@@ -695,7 +876,7 @@ export class BrocadeCommandExecutor {
    * Get OSPF neighbors
    */
   async getOSPFNeighbors(): Promise<OSPFNeighbor[]> {
-    const output = await this.sshClient.executeCommand('show ip ospf neighbor');
+    const output = await this.sshClient.executeCommand((await this.platformCommand('ospfNeighbors')).cli());
     const neighbors: OSPFNeighbor[] = [];
 
     const lines = output.split('\n');
@@ -759,62 +940,20 @@ export class BrocadeCommandExecutor {
    * Get ACL configuration
    */
   async getACLs(): Promise<ACL[]> {
-    const output = await this.sshClient.executeCommand('show access-list');
-    const acls: ACL[] = [];
-
-    const blocks = output.split(/(?=(?:Standard|Extended) IP access list)/i);
-
-    for (const block of blocks) {
-      if (!block.trim()) continue;
-
-      const lines = block.split('\n');
-      const firstLine = lines[0];
-
-      const aclMatch = firstLine.match(/(Standard|Extended) IP access list (\S+)/i);
-      if (!aclMatch) continue;
-
-      const acl: ACL = {
-        name: aclMatch[2],
-        type: aclMatch[1].toLowerCase() === 'standard' ? 'standard' : 'extended',
-        rules: [],
-      };
-
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-
-        const seqMatch = line.match(/^(\d+)\s+(permit|deny)\s+(.+)/i);
-        if (seqMatch) {
-          const rule: ACLRule = {
-            sequence: parseInt(seqMatch[1], 10),
-            action: seqMatch[2].toLowerCase() as 'permit' | 'deny',
-            protocol: 'ip',
-          };
-
-          // Parse additional fields
-          const parts = seqMatch[3].split(/\s+/);
-          if (parts.length > 0) {
-            rule.protocol = parts[0];
-          }
-
-          acl.rules.push(rule);
-        }
-      }
-
-      acls.push(acl);
-    }
-
-    return acls;
+    return this.parseOutput('acls', await this.sshClient.executeCommand('show access-list'));
   }
 
   /**
    * Configure ACL for firewall integration
    */
-  async configureACL(config: {
-    name: string;
-    type: 'standard' | 'extended';
-    rules: Omit<ACLRule, 'sequence'>[];
-  }): Promise<void> {
+  async configureACL(
+    config: {
+      name: string;
+      type: 'standard' | 'extended';
+      rules: Omit<ACLRule, 'sequence'>[];
+    },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t', `ip access-list ${config.type} ${config.name}`];
 
     for (let i = 0; i < config.rules.length; i++) {
@@ -841,8 +980,7 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
@@ -871,7 +1009,7 @@ export class BrocadeCommandExecutor {
    * Get stack topology and member information
    */
   async getStackTopology(): Promise<StackTopology> {
-    const output = await this.sshClient.executeCommand('show stack');
+    const output = await this.sshClient.executeCommand((await this.platformCommand('stack')).cli());
     const topology: StackTopology = {
       totalMembers: 0,
       master: 1,
@@ -953,7 +1091,7 @@ export class BrocadeCommandExecutor {
    * Get stack ports status
    */
   async getStackPorts(): Promise<StackPort[]> {
-    const output = await this.sshClient.executeCommand('show stack-port');
+    const output = await this.sshClient.executeCommand((await this.platformCommand('stackPorts')).cli());
     const ports: StackPort[] = [];
 
     const lines = output.split('\n');
@@ -990,17 +1128,19 @@ export class BrocadeCommandExecutor {
   /**
    * Configure stack priority for a unit
    */
-  async configureStackPriority(unitId: number, priority: number): Promise<void> {
+  async configureStackPriority(unitId: number, priority: number, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t', `stack unit ${unitId}`, `priority ${priority}`, 'exit', 'write memory'];
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Configure stack ports
    */
-  async configureStackPorts(config: { unitId: number; port1: string; port2?: string }): Promise<void> {
+  async configureStackPorts(
+    config: { unitId: number; port1: string; port2?: string },
+    options?: ConfigChangeOptions,
+  ): Promise<string[]> {
     const commands = ['conf t', `stack unit ${config.unitId}`, `stack-port ${config.port1}`];
 
     if (config.port2) {
@@ -1008,28 +1148,25 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Renumber a stack unit
    */
-  async renumberStackUnit(currentId: number, newId: number): Promise<void> {
+  async renumberStackUnit(currentId: number, newId: number, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t', `stack unit ${currentId}`, `renumber ${newId}`, 'exit', 'write memory'];
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Enable or disable stack
    */
-  async configureStack(enabled: boolean): Promise<void> {
+  async configureStack(enabled: boolean, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = ['conf t', enabled ? 'stack enable' : 'stack disable', 'exit', 'write memory'];
 
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
@@ -1078,7 +1215,7 @@ export class BrocadeCommandExecutor {
   /**
    * Configure DHCP snooping
    */
-  async configureDHCPSnooping(config: DHCPSnoopingConfig): Promise<void> {
+  async configureDHCPSnooping(config: DHCPSnoopingConfig, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = [
       'conf t',
       config.enabled ? 'ip dhcp snooping' : 'no ip dhcp snooping',
@@ -1092,8 +1229,7 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
@@ -1123,7 +1259,7 @@ export class BrocadeCommandExecutor {
   /**
    * Configure IP Source Guard
    */
-  async configureIPSourceGuard(config: IPSourceGuardConfig): Promise<void> {
+  async configureIPSourceGuard(config: IPSourceGuardConfig, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = [
       'conf t',
       `interface ethernet ${config.port}`,
@@ -1135,14 +1271,13 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
    * Configure Dynamic ARP Inspection
    */
-  async configureDynamicARPInspection(config: DynamicARPInspection): Promise<void> {
+  async configureDynamicARPInspection(config: DynamicARPInspection, options?: ConfigChangeOptions): Promise<string[]> {
     const commands = [
       'conf t',
       config.enabled ? `ip arp inspection vlan ${config.vlan}` : `no ip arp inspection vlan ${config.vlan}`,
@@ -1167,8 +1302,7 @@ export class BrocadeCommandExecutor {
     }
 
     commands.push('exit', 'write memory');
-    await this.sshClient.executeMultipleCommands(commands);
-    this.invalidateCache();
+    return this.applyConfig(commands, options);
   }
 
   /**
@@ -1204,83 +1338,31 @@ export class BrocadeCommandExecutor {
    * Get interface statistics
    */
   async getInterfaceStatistics(interfaceName?: string): Promise<InterfaceStatistics[]> {
-    const command = interfaceName ? `show statistics ethernet ${interfaceName}` : 'show statistics';
-    const output = await this.sshClient.executeCommand(command);
-    const stats: InterfaceStatistics[] = [];
-
-    const blocks = output.split(/(?=Port|Ethernet)/i);
-
-    for (const block of blocks) {
-      const lines = block.split('\n');
-      const stat: Partial<InterfaceStatistics> = {};
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-
-        // Parse interface name
-        if (trimmed.match(/^(?:Port|Ethernet)\s+([\d/]+)/i)) {
-          const match = trimmed.match(/^(?:Port|Ethernet)\s+([\d/]+)/i);
-          if (match) stat.interface = match[1];
-        }
-
-        // Parse statistics
-        if (trimmed.includes('InOctets')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.inputBytes = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('InPkts') || trimmed.includes('Input packets')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.inputPackets = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('OutOctets')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.outputBytes = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('OutPkts') || trimmed.includes('Output packets')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.outputPackets = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('InErrors') || trimmed.includes('Input errors')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.inputErrors = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('OutErrors') || trimmed.includes('Output errors')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.outputErrors = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('CRC')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.crcErrors = parseInt(match[1], 10);
-        }
-        if (trimmed.includes('Collisions')) {
-          const match = trimmed.match(/(\d+)/);
-          if (match) stat.collisions = parseInt(match[1], 10);
-        }
-      }
-
-      if (stat.interface) {
-        stats.push({
-          interface: stat.interface,
-          status: 'up',
-          inputPackets: stat.inputPackets || 0,
-          outputPackets: stat.outputPackets || 0,
-          inputBytes: stat.inputBytes || 0,
-          outputBytes: stat.outputBytes || 0,
-          inputErrors: stat.inputErrors || 0,
-          outputErrors: stat.outputErrors || 0,
-          crcErrors: stat.crcErrors || 0,
-          collisions: stat.collisions || 0,
-        });
-      }
-    }
-
-    return stats;
+    return this.viaSnmp(
+      'get_interface_statistics',
+      (snmp) => snmp.getInterfaceStatistics(interfaceName),
+      async () => {
+        const command = interfaceName ? `show statistics ethernet ${interfaceName}` : 'show statistics';
+        return this.parseOutput<InterfaceStatistics>(
+          'interfaceStatistics',
+          await this.sshClient.executeCommand(command),
+        );
+      },
+    );
   }
 
   /**
    * Get system health
    */
   async getSystemHealth(): Promise<SystemHealth> {
+    return this.viaSnmp(
+      'get_system_health',
+      (snmp) => snmp.getSystemHealth(),
+      () => this.readSystemHealthFromCli(),
+    );
+  }
+
+  private async readSystemHealthFromCli(): Promise<SystemHealth> {
     const cpuOutput = await this.sshClient.executeCommand('show cpu');
     const memOutput = await this.sshClient.executeCommand('show memory');
 
@@ -1318,7 +1400,7 @@ export class BrocadeCommandExecutor {
 
     // Try to get temperature
     try {
-      const tempOutput = await this.sshClient.executeCommand('show chassis');
+      const tempOutput = await this.sshClient.executeCommand((await this.platformCommand('chassis')).cli());
       const tempMatch = tempOutput.match(/Temperature:\s+(\d+)/i);
       if (tempMatch) {
         health.temperature = {
@@ -1337,7 +1419,7 @@ export class BrocadeCommandExecutor {
    * Run cable diagnostics
    */
   async runCableDiagnostics(port: string): Promise<CableDiagnostics> {
-    const output = await this.sshClient.executeCommand(`cable-diagnostics tdr interface ethernet ${port}`);
+    const output = await this.sshClient.executeCommand((await this.platformCommand('cableDiagnostics')).cli(port));
 
     const diagnostic: CableDiagnostics = {
       port,
@@ -1371,8 +1453,19 @@ export class BrocadeCommandExecutor {
    * Get optical module information
    */
   async getOpticalModuleInfo(port?: string): Promise<OpticalModuleInfo[]> {
-    const command = port ? `show optical-monitor ethernet ${port}` : 'show optical-monitor';
-    const output = await this.sshClient.executeCommand(command);
+    return this.viaSnmp(
+      'get_optical_module_info',
+      (snmp) => snmp.getOpticalModuleInfo(port),
+      () => this.readOpticalModuleInfoFromCli(port),
+    );
+  }
+
+  private async readOpticalModuleInfoFromCli(port?: string): Promise<OpticalModuleInfo[]> {
+    const variant = await this.platformCommand('opticalModules');
+    const output = await this.sshClient.executeCommand(variant.cli(port));
+    if (variant.format === 'optic-table') {
+      return parseOpticTable(output);
+    }
     const modules: OpticalModuleInfo[] = [];
 
     const blocks = output.split(/(?=Port|Ethernet)/i);
@@ -1435,3 +1528,29 @@ export class BrocadeCommandExecutor {
     return modules;
   }
 }
+
+/**
+ * `show optic` of FastIron 09.0 and later: one row per port with temperature,
+ * TX and RX power and bias current, followed by a row of alarm states
+ *
+ *   1/2/1   32.4218 C  -002.5649 dBm       -003.0095 dBm        6.468 mA
+ *           Normal      Normal              Normal              Normal
+ */
+export function parseOpticTable(output: string): OpticalModuleInfo[] {
+  const modules: OpticalModuleInfo[] = [];
+  for (const line of output.split('\n')) {
+    const row = line.trim().match(/^(\d+\/\d+\/\d+)\s+(.*)$/);
+    if (!row) continue;
+
+    const temperature = row[2].match(/(-?[\d.]+)\s*C\b/);
+    const powers = [...row[2].matchAll(/(-?[\d.]+)\s*dBm/g)].map((match) => parseFloat(match[1]));
+    modules.push({
+      port: row[1],
+      present: temperature !== null || powers.length > 0,
+      temperature: temperature ? parseFloat(temperature[1]) : undefined,
+      txPower: powers[0],
+      rxPower: powers[1],
+    });
+  }
+  return modules;
+}
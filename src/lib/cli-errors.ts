@@ -0,0 +1,37 @@
+/**
+ * Detection of error responses in Brocade CLI output.
+ * The switch never signals failure out of band: a rejected line just prints
+ * an error message before the next prompt, so callers have to look for it.
+ */
+
+/**
+ * Patterns that indicate the switch rejected a command
+ */
+export const CLI_ERROR_PATTERNS: RegExp[] = [
+  /Invalid input ->/i,
+  /Error:/i,
+  /not found/i,
+  /VLAN.*does not exist/i,
+  /Incomplete command/i,
+  /Ambiguous input/i,
+  /Unrecognized command/i,
+];
+
+/**
+ * Return the first output line that looks like a CLI error, or null when the output is clean
+ */
+export function detectCliError(output: string): string | null {
+  for (const line of output.split('\n')) {
+    if (CLI_ERROR_PATTERNS.some((pattern) => pattern.test(line))) {
+      return line.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if command output contains an inline error from the switch
+ */
+export function hasCliError(output: string): boolean {
+  return detectCliError(output) !== null;
+}
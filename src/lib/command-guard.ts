@@ -0,0 +1,122 @@
+/**
+ * Guard for CLI sent to a switch: raw text from execute_command, execute_batch
+ * and paste_config, and the commands configuration tools generate.
+ *
+ * Commands are checked against configured deny/allow regexes and a built-in
+ * list of dangerous commands. Flagged commands are either rejected outright
+ * or, in confirm mode, accepted once the caller repeats the request with the
+ * confirm token returned in the rejection. The token is an HMAC of the device
+ * and the exact command list under a per-process secret, so it cannot be
+ * reused for other commands or computed by the client.
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { CommandBlockedError } from '../core/errors.js';
+
+export type CommandGuardMode = 'off' | 'block' | 'confirm';
+
+export interface CommandGuardOptions {
+  mode: CommandGuardMode;
+  /** When non-empty, only commands matching one of these are accepted without being flagged */
+  allow: string[];
+  /** Always flagged, even when an allow pattern matches */
+  deny: string[];
+}
+
+export interface FlaggedCommand {
+  command: string;
+  reason: string;
+}
+
+/**
+ * Commands that can take the switch down, wipe its config or lock everyone out
+ */
+export const DANGEROUS_COMMANDS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /^reload\b/i, reason: 'reboots the switch' },
+  { pattern: /^hitless-reload\b/i, reason: 'reboots the switch' },
+  { pattern: /^erase\b/i, reason: 'erases flash or the startup config' },
+  { pattern: /^delete\b/i, reason: 'deletes files from flash' },
+  { pattern: /^boot\s+system\b/i, reason: 'changes the boot image' },
+  { pattern: /^copy\s+\S+\s+(?:flash|startup-config)\b/i, reason: 'overwrites flash or the startup config' },
+  { pattern: /^no\s+vlan\s+1$/i, reason: 'removes the default VLAN' },
+  { pattern: /^no\s+username\b/i, reason: 'removes a login account' },
+  { pattern: /^(?:no\s+)?aaa\s+authentication\b/i, reason: 'changes login authentication' },
+  { pattern: /^crypto\s+key\s+zeroize\b/i, reason: 'removes the SSH host keys' },
+  { pattern: /^stack\s+(?:unconfigure|switch-over)\b/i, reason: 'reconfigures the stack' },
+];
+
+/** Mode changes that never need an allow pattern of their own */
+const NAVIGATION_RE = /^(?:conf(?:igure)?\s+t(?:erminal)?|end|exit)$/i;
+
+export class CommandGuard {
+  private readonly allow: RegExp[];
+  private readonly deny: RegExp[];
+  private readonly secret = randomBytes(32);
+
+  constructor(private readonly options: CommandGuardOptions) {
+    this.allow = options.allow.map((pattern) => new RegExp(pattern, 'i'));
+    this.deny = options.deny.map((pattern) => new RegExp(pattern, 'i'));
+  }
+
+  get mode(): CommandGuardMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Commands that need blocking or confirmation, with the reason for each
+   */
+  inspect(commands: string[]): FlaggedCommand[] {
+    if (this.options.mode === 'off') return [];
+
+    const flagged: FlaggedCommand[] = [];
+    for (const command of commands.map((line) => line.trim()).filter(Boolean)) {
+      const reason = this.reasonFor(command);
+      if (reason) flagged.push({ command, reason });
+    }
+    return flagged;
+  }
+
+  /**
+   * Token a caller passes as `confirm` to run exactly these commands on this device
+   */
+  confirmToken(device: string, commands: string[]): string {
+    return createHmac('sha256', this.secret)
+      .update(JSON.stringify([device, ...commands.map((line) => line.trim())]))
+      .digest('hex')
+      .slice(0, 12);
+  }
+
+  /**
+   * Throw CommandBlockedError when commands are flagged and not confirmed
+   */
+  check(device: string, commands: string[], confirm?: string): void {
+    const flagged = this.inspect(commands);
+    if (flagged.length === 0) return;
+
+    const summary = flagged.map((entry) => `"${entry.command}" (${entry.reason})`).join(', ');
+    if (this.options.mode === 'block') {
+      throw new CommandBlockedError(`Blocked by command guard: ${summary}`, { flagged });
+    }
+
+    const token = this.confirmToken(device, commands);
+    if (confirm !== token) {
+      throw new CommandBlockedError(
+        `Confirmation required: ${summary}. Repeat the call with confirm: "${token}" to run it`,
+        { flagged, confirmToken: token },
+      );
+    }
+  }
+
+  private reasonFor(command: string): string | undefined {
+    if (this.deny.some((pattern) => pattern.test(command))) return 'matches a denied command pattern';
+
+    const allowed = NAVIGATION_RE.test(command) || this.allow.some((pattern) => pattern.test(command));
+    if (this.allow.length > 0 && !allowed) return 'not in the command allowlist';
+
+    // An explicit allow pattern overrides the built-in list
+    if (!allowed) {
+      return DANGEROUS_COMMANDS.find((entry) => entry.pattern.test(command))?.reason;
+    }
+    return undefined;
+  }
+}
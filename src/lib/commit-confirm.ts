@@ -0,0 +1,321 @@
+/**
+ * Commit-confirmed changes.
+ *
+ * A risky change (management VLAN, uplink ACL, layer-3 interface) is applied
+ * without "write memory" and a timer is started. Unless confirm_commit arrives
+ * before it fires, the previous state is restored: the server reconnects and
+ * re-applies the pre-change running config, or reloads the switch so it boots
+ * from the untouched startup config.
+ *
+ * Pending commits live in this process only. On shutdown the servers roll
+ * every pending commit back, since nothing could confirm it after a restart.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type winston from 'winston';
+import { formatError, ValidationError } from '../core/errors.js';
+import { logError, logInfo, logWarn } from '../core/logger.js';
+import type { TransactionReport } from '../types/index.js';
+import { readRunningConfig } from './config-transaction.js';
+import { type ConfigNode, computeConfigDelta } from './config-tree.js';
+import type { DeviceRegistry } from './device-registry.js';
+
+export type CommitRollbackStrategy = 'restore' | 'reload';
+
+/**
+ * A change waiting for confirm_commit
+ */
+export interface PendingCommit {
+  id: string;
+  device: string;
+  tool: string;
+  commands: string[];
+  rollbackStrategy: CommitRollbackStrategy;
+  startedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * A commit that has been confirmed or rolled back
+ */
+export interface ResolvedCommit extends PendingCommit {
+  status: 'confirmed' | 'rolled_back' | 'rollback_failed';
+  resolvedAt: string;
+  /** How the rollback was carried out, or why it failed */
+  detail?: string;
+}
+
+export interface CommitConfirmedResult {
+  /** Set when the change was applied and is now waiting for confirmation */
+  commit?: PendingCommit;
+  report: TransactionReport;
+}
+
+interface PendingEntry {
+  commit: PendingCommit;
+  snapshot: ConfigNode[];
+  timer: NodeJS.Timeout;
+  /** Set while confirm is saving; the rollback must not run meanwhile */
+  confirming?: boolean;
+}
+
+const SAVE_COMMAND_RE = /^write\s+mem(?:ory)?$/i;
+
+/** How many resolved commits are kept for list_pending_commits */
+const HISTORY_LIMIT = 20;
+
+export class CommitConfirmManager {
+  /** Pending commits keyed by device; a device has at most one */
+  private readonly pending: Map<string, PendingEntry> = new Map();
+  /** Devices whose commit is being applied; reserved before the first await */
+  private readonly starting: Set<string> = new Set();
+  private readonly history: ResolvedCommit[] = [];
+
+  constructor(
+    private readonly devices: DeviceRegistry,
+    private readonly logger: winston.Logger,
+  ) {}
+
+  /**
+   * Apply commands unsaved and start the rollback timer.
+   * A failing line is rolled back immediately and no timer is started.
+   */
+  async start(
+    device: string,
+    tool: string,
+    commands: string[],
+    options: { minutes: number; rollbackStrategy: CommitRollbackStrategy },
+  ): Promise<CommitConfirmedResult> {
+    const existing = this.pending.get(device);
+    if (existing) {
+      throw new ValidationError(
+        `Device "${device}" already has a pending commit (${existing.commit.id}); confirm it or wait for its rollback first`,
+        'commitConfirmed',
+      );
+    }
+    if (this.starting.has(device)) {
+      throw new ValidationError(
+        `Device "${device}" already has a pending commit being applied; confirm it or wait for its rollback first`,
+        'commitConfirmed',
+      );
+    }
+    // Claim the device before the first await so a concurrent start is refused
+    this.starting.add(device);
+    try {
+      return await this.apply(device, tool, commands, options);
+    } finally {
+      this.starting.delete(device);
+    }
+  }
+
+  /**
+   * Keep a pending change: cancel its rollback and optionally save it.
+   * The commit stays pending until the save succeeds.
+   */
+  async confirm(device: string, options: { commitId?: string; save?: boolean } = {}): Promise<ResolvedCommit> {
+    const entry = options.commitId ? this.findEntry(options.commitId) : this.pending.get(device);
+    if (!entry) {
+      const resolved = options.commitId ? this.history.find((commit) => commit.id === options.commitId) : undefined;
+      throw new ValidationError(
+        resolved
+          ? `Commit ${resolved.id} was already ${resolved.status.replace('_', ' ')} at ${resolved.resolvedAt}`
+          : `No pending commit${options.commitId ? ` ${options.commitId}` : ''} on device "${device}"`,
+        'commitId',
+      );
+    }
+    if (entry.commit.device !== device) {
+      throw new ValidationError(
+        `Commit ${entry.commit.id} is pending on device "${entry.commit.device}", not "${device}"`,
+        'commitId',
+      );
+    }
+    if (entry.confirming) {
+      throw new ValidationError(`Commit ${entry.commit.id} is already being confirmed`, 'commitId');
+    }
+
+    entry.confirming = true;
+    clearTimeout(entry.timer);
+
+    let detail = 'not saved';
+    if (options.save ?? true) {
+      try {
+        await this.devices.resolve(device).commandExecutor.saveConfig();
+      } catch (error) {
+        // Still unconfirmed: the rollback runs at the original expiry
+        entry.confirming = false;
+        entry.timer = this.schedule(device, new Date(entry.commit.expiresAt).getTime() - Date.now());
+        throw error;
+      }
+      detail = 'saved to startup config';
+    }
+
+    this.pending.delete(device);
+    logInfo(this.logger, 'Commit confirmed', { device, commitId: entry.commit.id, detail });
+    return this.record(entry.commit, 'confirmed', detail);
+  }
+
+  /**
+   * The pending commit with this id
+   */
+  find(commitId: string): PendingCommit | undefined {
+    return this.findEntry(commitId)?.commit;
+  }
+
+  /**
+   * Pending commits, oldest first, plus recently resolved ones
+   */
+  list(): { pending: PendingCommit[]; recent: ResolvedCommit[] } {
+    return {
+      pending: [...this.pending.values()].map((entry) => entry.commit),
+      recent: [...this.history],
+    };
+  }
+
+  /**
+   * Roll back every pending commit now (server shutdown). A commit cannot be
+   * confirmed once the process is gone, so it is not left to the switch.
+   */
+  async rollbackAll(): Promise<ResolvedCommit[]> {
+    for (const device of this.starting) {
+      logWarn(this.logger, 'Shutting down while a commit-confirmed change is being applied', { device });
+    }
+
+    const devices = [...this.pending.entries()]
+      .filter(([, entry]) => !entry.confirming)
+      .map(([device, entry]) => {
+        clearTimeout(entry.timer);
+        logWarn(this.logger, 'Server shutting down with an unconfirmed commit, rolling back', {
+          device,
+          commitId: entry.commit.id,
+          strategy: entry.commit.rollbackStrategy,
+        });
+        return device;
+      });
+
+    return (await Promise.all(devices.map((device) => this.rollback(device)))).filter(
+      (resolved): resolved is ResolvedCommit => resolved !== undefined,
+    );
+  }
+
+  /**
+   * Cancel every timer without rolling back
+   */
+  dispose(): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.pending.clear();
+  }
+
+  private async apply(
+    device: string,
+    tool: string,
+    commands: string[],
+    options: { minutes: number; rollbackStrategy: CommitRollbackStrategy },
+  ): Promise<CommitConfirmedResult> {
+    const { switchClient, commandExecutor } = this.devices.resolve(device);
+    const body = commands.filter((command) => !SAVE_COMMAND_RE.test(command.trim()));
+    const snapshot = await readRunningConfig(switchClient);
+
+    const report = await commandExecutor.applyTransaction(body, { save: false, snapshot });
+    if (!report.success) {
+      return { report };
+    }
+
+    const startedAt = new Date();
+    const commit: PendingCommit = {
+      id: randomUUID(),
+      device,
+      tool,
+      commands: body,
+      rollbackStrategy: options.rollbackStrategy,
+      startedAt: startedAt.toISOString(),
+      expiresAt: new Date(startedAt.getTime() + options.minutes * 60_000).toISOString(),
+    };
+
+    const timer = this.schedule(device, options.minutes * 60_000);
+    this.pending.set(device, { commit, snapshot, timer });
+    logInfo(this.logger, 'Commit-confirmed change applied', {
+      device,
+      tool,
+      commitId: commit.id,
+      expiresAt: commit.expiresAt,
+    });
+
+    return { commit, report };
+  }
+
+  /**
+   * Undo an unconfirmed change. "restore" falls back to a reload when the
+   * switch cannot be brought back to the snapshot over a fresh session.
+   */
+  private async rollback(device: string): Promise<ResolvedCommit | undefined> {
+    const entry = this.pending.get(device);
+    if (!entry || entry.confirming) return undefined;
+    this.pending.delete(device);
+
+    const { commit, snapshot } = entry;
+    const { switchClient, commandExecutor } = this.devices.resolve(device);
+    if (commit.rollbackStrategy === 'restore') {
+      try {
+        // The change may have cut the old session off; start from a fresh one
+        switchClient.disconnect();
+        const delta = computeConfigDelta(await readRunningConfig(switchClient), snapshot);
+        if (delta.length > 0) {
+          const report = await commandExecutor.applyTransaction(['conf t', ...delta, 'end'], {
+            save: false,
+            rollback: false,
+          });
+          if (!report.success) {
+            throw new Error(`Restore command rejected: ${report.failed?.command} (${report.failed?.error})`);
+          }
+        }
+        logInfo(this.logger, 'Commit rolled back', { device, commitId: commit.id, commands: delta.length });
+        return this.record(commit, 'rolled_back', `restored previous running config (${delta.length} commands)`);
+      } catch (error) {
+        logWarn(this.logger, 'Restore failed, reloading from startup config', {
+          device,
+          commitId: commit.id,
+          error: formatError(error),
+        });
+      }
+    }
+
+    try {
+      switchClient.disconnect();
+      await commandExecutor.reloadSwitch(true);
+      logInfo(this.logger, 'Commit rolled back by reload', { device, commitId: commit.id });
+      return this.record(commit, 'rolled_back', 'reloaded from startup config');
+    } catch (error) {
+      logError(this.logger, error, { context: 'commit-confirm rollback', device, commitId: commit.id });
+      return this.record(commit, 'rollback_failed', formatError(error));
+    }
+  }
+
+  private schedule(device: string, delay: number): NodeJS.Timeout {
+    return setTimeout(
+      () => {
+        const entry = this.pending.get(device);
+        if (!entry || entry.confirming) return;
+        logWarn(this.logger, 'Commit not confirmed in time, rolling back', {
+          device,
+          commitId: entry.commit.id,
+          strategy: entry.commit.rollbackStrategy,
+        });
+        void this.rollback(device);
+      },
+      Math.max(delay, 0),
+    );
+  }
+
+  private findEntry(commitId: string): PendingEntry | undefined {
+    return [...this.pending.values()].find((entry) => entry.commit.id === commitId);
+  }
+
+  private record(commit: PendingCommit, status: ResolvedCommit['status'], detail?: string): ResolvedCommit {
+    const resolved: ResolvedCommit = { ...commit, status, resolvedAt: new Date().toISOString(), detail };
+    this.history.unshift(resolved);
+    this.history.length = Math.min(this.history.length, HISTORY_LIMIT);
+    return resolved;
+  }
+}
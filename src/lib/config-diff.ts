@@ -0,0 +1,141 @@
+/**
+ * Comparison of two switch configurations.
+ *
+ * Both sides are normalized through the config tree (headers, "!" separators
+ * and trailing whitespace removed) so running and startup configs compare
+ * cleanly, then reported as a unified diff and as per-block changes.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { formatPatch, structuredPatch } from 'diff';
+import { ValidationError } from '../core/errors.js';
+import type { ConfigDiff, ConfigSectionChange } from '../types/index.js';
+import { type ConfigNode, isContextCommand, nodeKey, parseConfigTree, renderConfigTree } from './config-tree.js';
+
+/**
+ * Classify a block header
+ */
+function sectionKind(line: string): ConfigSectionChange['kind'] {
+  if (/^vlan\s/i.test(line)) return 'vlan';
+  if (/^interface\s/i.test(line)) return 'interface';
+  if (/^(?:ip|ipv6)\s+access-list\s|^access-list\s/i.test(line)) return 'acl';
+  if (/^lag\s/i.test(line)) return 'lag';
+  if (/^(?:router|route-map)\s/i.test(line)) return 'routing';
+  return 'other';
+}
+
+function isSection(node: ConfigNode): boolean {
+  return node.children.length > 0 || isContextCommand(node.line);
+}
+
+/**
+ * Compare two configurations. `before` is the reference (e.g. startup), `after` the one being checked.
+ */
+export function diffConfigs(
+  before: string,
+  after: string,
+  labels: { before: string; after: string },
+  contextLines: number = 3,
+): ConfigDiff {
+  const beforeTree = parseConfigTree(before);
+  const afterTree = parseConfigTree(after);
+
+  const patch = structuredPatch(
+    labels.before,
+    labels.after,
+    `${renderConfigTree(beforeTree)}\n`,
+    `${renderConfigTree(afterTree)}\n`,
+    undefined,
+    undefined,
+    { context: contextLines },
+  );
+  const patchLines = patch.hunks.flatMap((hunk) => hunk.lines);
+
+  const sections: ConfigSectionChange[] = [];
+  const global = { added: [] as string[], removed: [] as string[] };
+  const beforeByKey = new Map(beforeTree.map((node) => [nodeKey(node.line), node]));
+  const afterByKey = new Map(afterTree.map((node) => [nodeKey(node.line), node]));
+
+  for (const node of beforeTree) {
+    if (afterByKey.has(nodeKey(node.line))) continue;
+    if (isSection(node)) {
+      sections.push({
+        section: node.line,
+        kind: sectionKind(node.line),
+        change: 'removed',
+        addedLines: [],
+        removedLines: node.children.map((child) => child.line),
+      });
+    } else {
+      global.removed.push(node.line);
+    }
+  }
+
+  for (const node of afterTree) {
+    const existing = beforeByKey.get(nodeKey(node.line));
+    if (!existing) {
+      if (isSection(node)) {
+        sections.push({
+          section: node.line,
+          kind: sectionKind(node.line),
+          change: 'added',
+          addedLines: node.children.map((child) => child.line),
+          removedLines: [],
+        });
+      } else {
+        global.added.push(node.line);
+      }
+      continue;
+    }
+
+    const beforeChildren = new Set(existing.children.map((child) => child.line));
+    const afterChildren = new Set(node.children.map((child) => child.line));
+    const addedLines = node.children.map((child) => child.line).filter((line) => !beforeChildren.has(line));
+    const removedLines = existing.children.map((child) => child.line).filter((line) => !afterChildren.has(line));
+
+    // A renamed VLAN keeps its key but changes its header line
+    if (existing.line !== node.line) {
+      addedLines.unshift(node.line);
+      removedLines.unshift(existing.line);
+    }
+
+    if (addedLines.length > 0 || removedLines.length > 0) {
+      sections.push({ section: node.line, kind: sectionKind(node.line), change: 'modified', addedLines, removedLines });
+    }
+  }
+
+  const linesAdded = patchLines.filter((line) => line.startsWith('+')).length;
+  const linesRemoved = patchLines.filter((line) => line.startsWith('-')).length;
+
+  return {
+    identical: patch.hunks.length === 0,
+    summary: {
+      linesAdded,
+      linesRemoved,
+      sectionsAdded: sections.filter((section) => section.change === 'added').length,
+      sectionsRemoved: sections.filter((section) => section.change === 'removed').length,
+      sectionsModified: sections.filter((section) => section.change === 'modified').length,
+    },
+    unified: patch.hunks.length > 0 ? formatPatch(patch) : '',
+    sections,
+    global,
+  };
+}
+
+/**
+ * Read a saved config file. Paths are resolved inside `baseDir` and may not escape it.
+ */
+export async function readSavedConfig(baseDir: string, file: string): Promise<string> {
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, file);
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new ValidationError(`Config file must be inside ${root}`, 'file');
+  }
+
+  try {
+    return await readFile(resolved, 'utf8');
+  } catch (error) {
+    throw new ValidationError(`Unable to read config file ${file}: ${(error as Error).message}`, 'file');
+  }
+}
@@ -0,0 +1,638 @@
+/**
+ * Parser turning ICX running-config text into a typed configuration model.
+ *
+ * Built on the block structure from config-tree: each top-level line is
+ * matched against the statements we model and anything unrecognised is kept
+ * verbatim in `unparsed`, so nothing in the config is silently dropped.
+ * Secrets on those kept lines are redacted before they are stored.
+ */
+
+import type {
+  ACL,
+  ACLRule,
+  ParsedConfig,
+  ParsedInterface,
+  ParsedLag,
+  ParsedVlan,
+  StaticRoute,
+} from '../types/index.js';
+import { type ConfigNode, parseConfigTree, renderConfigTree } from './config-tree.js';
+import { redactSecrets } from './secret-redaction.js';
+
+/** Port keyword variants used in ICX port lists */
+const PORT_KEYWORD_RE = /^(?:ethe|ether|ethernet)$/i;
+
+/**
+ * Expand an ICX port list ("ethe 1/1/1 to 1/1/4 ethe 1/2/1") into individual ports.
+ * Ranges are expanded on the last component of the port number.
+ */
+export function expandPortList(text: string): string[] {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const ports: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (PORT_KEYWORD_RE.test(token)) continue;
+    if (!/^\d+(?:\/\d+)*$/.test(token)) continue;
+
+    if (tokens[i + 1]?.toLowerCase() === 'to' && tokens[i + 2]) {
+      ports.push(...expandPortRange(token, tokens[i + 2]));
+      i += 2;
+      continue;
+    }
+    ports.push(token);
+  }
+
+  return ports;
+}
+
+function expandPortRange(start: string, end: string): string[] {
+  const startParts = start.split('/');
+  const endParts = end.split('/');
+  const prefix = startParts.slice(0, -1).join('/');
+
+  // Only ranges within one module are expanded; anything else is kept as written
+  if (startParts.length !== endParts.length || prefix !== endParts.slice(0, -1).join('/')) {
+    return [start, end];
+  }
+
+  const from = Number.parseInt(startParts[startParts.length - 1], 10);
+  const to = Number.parseInt(endParts[endParts.length - 1], 10);
+  const ports: string[] = [];
+  for (let port = from; port <= to; port++) {
+    ports.push(prefix ? `${prefix}/${port}` : String(port));
+  }
+  return ports;
+}
+
+/**
+ * Convert a prefix length to a dotted netmask
+ */
+function prefixToNetmask(prefixLength: number): string {
+  const mask = prefixLength === 0 ? 0 : (0xffffffff << (32 - prefixLength)) >>> 0;
+  return [24, 16, 8, 0].map((shift) => (mask >>> shift) & 0xff).join('.');
+}
+
+/**
+ * Split "A.B.C.D/len" or "A.B.C.D M.M.M.M" into address and netmask
+ */
+function parseAddressAndMask(tokens: string[]): { address: string; netmask: string; consumed: number } | null {
+  const cidr = tokens[0]?.match(/^(\d+\.\d+\.\d+\.\d+)\/(\d+)$/);
+  if (cidr) {
+    return { address: cidr[1], netmask: prefixToNetmask(Number.parseInt(cidr[2], 10)), consumed: 1 };
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(tokens[0] ?? '') && /^\d+\.\d+\.\d+\.\d+$/.test(tokens[1] ?? '')) {
+    return { address: tokens[0], netmask: tokens[1], consumed: 2 };
+  }
+  return null;
+}
+
+/**
+ * Text after the first `count` words of a line
+ */
+function restOf(line: string, count: number): string {
+  return line.trim().split(/\s+/).slice(count).join(' ');
+}
+
+function createEmptyConfig(): ParsedConfig {
+  return {
+    global: { dnsServers: [], ntpServers: [], syslogHosts: [], stackUnits: [] },
+    vlans: [],
+    interfaces: [],
+    lags: [],
+    acls: [],
+    staticRoutes: [],
+    spanningTree: { vlans: [], adminEdgePorts: [] },
+    lldp: { enabled: true },
+    dhcpSnooping: { vlans: [], trustedPorts: [] },
+    users: [],
+    snmp: { communities: [], hosts: [], traps: [] },
+    unparsed: [],
+  };
+}
+
+/**
+ * A statement pattern and what it does to the model. Returning false marks the line as not modelled.
+ */
+type LineRule<T> = [RegExp, (match: RegExpMatchArray, target: T, node: ConfigNode) => unknown];
+
+/**
+ * Apply the first rule whose pattern matches the line
+ */
+function applyLineRules<T>(node: ConfigNode, rules: LineRule<T>[], target: T): boolean {
+  for (const [pattern, apply] of rules) {
+    const match = node.line.match(pattern);
+    if (match) return apply(match, target, node) !== false;
+  }
+  return false;
+}
+
+/** Top-level statements */
+const STATEMENT_RULES: LineRule<ParsedConfig>[] = [
+  [
+    /^ver\s+(\S+)/i,
+    (match, config) => {
+      config.global.version = match[1];
+    },
+  ],
+  [
+    /^hostname\s+(.+)$/i,
+    (match, config) => {
+      config.global.hostname = match[1].trim();
+    },
+  ],
+  [
+    /^stack\s+unit\s+(\d+)$/i,
+    (match, config, node) => {
+      config.global.stackUnits.push({
+        unit: Number.parseInt(match[1], 10),
+        modules: node.children.filter((child) => /^module\s+/i.test(child.line)).map((child) => restOf(child.line, 2)),
+      });
+    },
+  ],
+  [
+    /^vlan\s+\d+/i,
+    (_match, config, node) => {
+      const vlan = parseVlan(node);
+      if (!vlan) return false;
+      config.vlans.push(vlan);
+      if (vlan.spanningTree) config.spanningTree.vlans.push(vlan.id);
+    },
+  ],
+  [
+    /^interface\s+/i,
+    (_match, config, node) => {
+      const iface = parseInterface(node);
+      config.interfaces.push(iface);
+      if (iface.dhcpSnoopingTrust) config.dhcpSnooping.trustedPorts.push(iface.name);
+      if (node.children.some((child) => ADMIN_EDGE_PORT_RE.test(child.line))) {
+        config.spanningTree.adminEdgePorts.push(iface.name);
+      }
+    },
+  ],
+  [
+    /^lag\s+/i,
+    (_match, config, node) => {
+      const lag = parseLag(node);
+      if (!lag) return false;
+      config.lags.push(lag);
+    },
+  ],
+  [
+    /^ip\s+access-list\s+(standard|extended)\s+(\S+)/i,
+    (match, config, node) => {
+      const type = match[1].toLowerCase() as ACL['type'];
+      config.acls.push({
+        name: match[2],
+        type,
+        rules: node.children
+          .map((child, index) => parseAclRule(child.line, type, (index + 1) * 10))
+          .filter((rule): rule is ACLRule => rule !== null),
+      });
+    },
+  ],
+  [
+    /^access-list\s+(\d+)\s+(.+)$/i,
+    (match, config) => {
+      const name = match[1];
+      let acl = config.acls.find((entry) => entry.name === name);
+      if (!acl) {
+        acl = { name, type: Number.parseInt(name, 10) < 100 ? 'standard' : 'extended', rules: [] };
+        config.acls.push(acl);
+      }
+      const rule = parseAclRule(match[2], acl.type, (acl.rules.length + 1) * 10);
+      if (rule) acl.rules.push(rule);
+    },
+  ],
+  [
+    /^ip\s+route\s+(.+)$/i,
+    (match, config) => {
+      const route = parseStaticRoute(match[1].split(/\s+/));
+      if (!route) return false;
+      config.staticRoutes.push(route);
+    },
+  ],
+  [
+    /^ip\s+default-gateway\s+(\S+)/i,
+    (match, config) => {
+      config.global.defaultGateway = match[1];
+    },
+  ],
+  [
+    /^ip\s+dns\s+(?:domain-list|domain-name)\s+(\S+)/i,
+    (match, config) => {
+      config.global.dnsDomain = match[1];
+    },
+  ],
+  [
+    /^ip\s+dns\s+server-address\s+(.+)$/i,
+    (match, config) => {
+      config.global.dnsServers.push(...match[1].split(/\s+/));
+    },
+  ],
+  [
+    /^ip\s+dhcp\s+snooping\s+vlan\s+(.+)$/i,
+    (match, config) => {
+      config.dhcpSnooping.vlans.push(...expandVlanList(match[1]));
+    },
+  ],
+  [
+    /^ntp$/i,
+    (_match, config, node) => {
+      for (const child of node.children) {
+        const server = child.line.match(/^server\s+(\S+)/i);
+        if (server) config.global.ntpServers.push(server[1]);
+      }
+    },
+  ],
+  [
+    /^sntp\s+server\s+(\S+)/i,
+    (match, config) => {
+      config.global.ntpServers.push(match[1]);
+    },
+  ],
+  [
+    /^logging\s+host\s+(\S+)/i,
+    (match, config) => {
+      config.global.syslogHosts.push(match[1]);
+    },
+  ],
+  [
+    /^clock\s+timezone\s+(.+)$/i,
+    (match, config) => {
+      config.global.timezone = match[1].trim();
+    },
+  ],
+  [
+    /^spanning-tree(?:\s+mode)?(?:\s+(802-1w|802-1s|rstp|mstp|stp))?(?:\s+priority\s+(\d+))?$/i,
+    (match, config) => {
+      config.spanningTree.mode = match[1]?.toLowerCase() ?? config.spanningTree.mode ?? 'stp';
+      if (match[2]) config.spanningTree.priority = Number.parseInt(match[2], 10);
+    },
+  ],
+  [
+    /^(no\s+)?lldp\s+run$/i,
+    (match, config) => {
+      config.lldp.enabled = !match[1];
+    },
+  ],
+  [
+    /^lldp\s+(?:transmit-interval|timer)\s+(\d+)/i,
+    (match, config) => {
+      config.lldp.transmitInterval = Number.parseInt(match[1], 10);
+    },
+  ],
+  [
+    /^lldp\s+(?:transmit-hold|holdtime-multiplier)\s+(\d+)/i,
+    (match, config) => {
+      config.lldp.holdMultiplier = Number.parseInt(match[1], 10);
+    },
+  ],
+  [
+    /^username\s+(\S+)/i,
+    (match, config, node) => {
+      const privilege = node.line.match(/\sprivilege\s+(\d+)/i);
+      config.users.push({
+        username: match[1],
+        privilege: privilege ? Number.parseInt(privilege[1], 10) : undefined,
+        hasPassword: /\s(?:password|encrypted)\s/i.test(node.line),
+      });
+    },
+  ],
+  [
+    /^snmp-server\s+community\s+(.+)$/i,
+    (match, config) => {
+      // The community string itself is a credential and is not kept
+      const words = match[1].split(/\s+/);
+      const accessIndex = words.findIndex((word, index) => index > 0 && /^r[ow]$/i.test(word));
+      if (accessIndex === -1) return false;
+      config.snmp.communities.push({
+        access: words[accessIndex].toLowerCase() as 'ro' | 'rw',
+        acl: words[accessIndex + 1],
+      });
+    },
+  ],
+  [
+    /^snmp-server\s+contact\s+(.+)$/i,
+    (match, config) => {
+      config.snmp.contact = match[1].trim();
+    },
+  ],
+  [
+    /^snmp-server\s+location\s+(.+)$/i,
+    (match, config) => {
+      config.snmp.location = match[1].trim();
+    },
+  ],
+  [
+    /^snmp-server\s+host\s+(\S+)(?:\s+version\s+(\S+))?/i,
+    (match, config) => {
+      config.snmp.hosts.push({ host: match[1], version: match[2] });
+    },
+  ],
+  [
+    /^snmp-server\s+enable\s+traps\s+(.+)$/i,
+    (match, config) => {
+      config.snmp.traps.push(match[1].trim());
+    },
+  ],
+];
+
+/** Lines inside a "vlan" block */
+const VLAN_RULES: LineRule<ParsedVlan>[] = [
+  [
+    /^tagged\s+(.+)$/i,
+    (match, vlan) => {
+      vlan.tagged.push(...expandPortList(match[1]));
+    },
+  ],
+  [
+    /^untagged\s+(.+)$/i,
+    (match, vlan) => {
+      vlan.untagged.push(...expandPortList(match[1]));
+    },
+  ],
+  [
+    /^router-interface\s+(.+)$/i,
+    (match, vlan) => {
+      vlan.routerInterface = match[1].trim();
+    },
+  ],
+  [
+    /^spanning-tree(?:\s+(.+))?$/i,
+    (match, vlan) => {
+      vlan.spanningTree = match[1]?.trim() ?? 'stp';
+    },
+  ],
+];
+
+const ADMIN_EDGE_PORT_RE = /^spanning-tree\s+(?:\S+\s+)?admin-edge-port/i;
+
+/** Lines inside an "interface" block */
+const INTERFACE_RULES: LineRule<ParsedInterface>[] = [
+  [
+    /^port-name\s+(.+)$/i,
+    (match, iface) => {
+      iface.portName = match[1].trim();
+    },
+  ],
+  [
+    /^speed-duplex\s+(\S+)/i,
+    (match, iface) => {
+      iface.speed = match[1];
+    },
+  ],
+  [
+    /^(disable|enable)$/i,
+    (match, iface) => {
+      iface.disabled = match[1].toLowerCase() === 'disable';
+    },
+  ],
+  [
+    /^ip\s+address\s+(.+)$/i,
+    (match, iface) => {
+      const address = parseAddressAndMask(match[1].split(/\s+/));
+      if (!address) return false;
+      iface.ipAddresses.push(`${address.address} ${address.netmask}`);
+    },
+  ],
+  [
+    /^dual-mode\s+(\d+)/i,
+    (match, iface) => {
+      iface.dualMode = Number.parseInt(match[1], 10);
+    },
+  ],
+  [
+    /^ip\s+access-group\s+(\S+)\s+(in|out)/i,
+    (match, iface) => {
+      if (match[2].toLowerCase() === 'in') iface.aclIn = match[1];
+      else iface.aclOut = match[1];
+    },
+  ],
+  [
+    /^ip\s+dhcp\s+snooping\s+trust$/i,
+    (_match, iface) => {
+      iface.dhcpSnoopingTrust = true;
+    },
+  ],
+  // Collected globally into spanningTree.adminEdgePorts
+  [ADMIN_EDGE_PORT_RE, () => true],
+];
+
+/** Lines inside a "lag" block */
+const LAG_RULES: LineRule<ParsedLag>[] = [
+  [
+    /^ports\s+(.+)$/i,
+    (match, lag) => {
+      lag.ports.push(...expandPortList(match[1]));
+    },
+  ],
+  [
+    /^primary-port\s+(\S+)/i,
+    (match, lag) => {
+      lag.primaryPort = match[1];
+    },
+  ],
+  [
+    /^deploy$/i,
+    (_match, lag) => {
+      lag.deployed = true;
+    },
+  ],
+];
+
+/**
+ * Parse a running-config into the typed configuration model
+ */
+export function parseRunningConfig(text: string): ParsedConfig {
+  const config = createEmptyConfig();
+
+  for (const node of parseConfigTree(text)) {
+    if (!applyLineRules(node, STATEMENT_RULES, config)) {
+      config.unparsed.push(redactSecrets(renderConfigTree([node])));
+    }
+  }
+
+  return config;
+}
+
+function parseVlan(node: ConfigNode): ParsedVlan | null {
+  const header = node.line.match(/^vlan\s+(\d+)(?:\s+name\s+(.+?))?(?:\s+by\s+port)?$/i);
+  if (!header) return null;
+
+  const vlan: ParsedVlan = {
+    id: Number.parseInt(header[1], 10),
+    name: header[2],
+    tagged: [],
+    untagged: [],
+  };
+
+  for (const child of node.children) {
+    applyLineRules(child, VLAN_RULES, vlan);
+  }
+
+  return vlan;
+}
+
+function parseInterface(node: ConfigNode): ParsedInterface {
+  const name = restOf(node.line, 1).replace(/^ethe(?:r)?\s/i, 'ethernet ');
+  const kind = name.split(/\s+/)[0].toLowerCase();
+  const iface: ParsedInterface = {
+    name,
+    type: kind === 'ethernet' || kind === 've' || kind === 'loopback' || kind === 'management' ? kind : 'other',
+    disabled: false,
+    ipAddresses: [],
+    dhcpSnoopingTrust: false,
+    other: [],
+  };
+
+  for (const child of node.children) {
+    if (!applyLineRules(child, INTERFACE_RULES, iface)) {
+      iface.other.push(redactSecrets(child.line));
+    }
+  }
+
+  return iface;
+}
+
+function parseLag(node: ConfigNode): ParsedLag | null {
+  const header = node.line.match(/^lag\s+"?([^"\s]+)"?\s+(static|dynamic|keep-alive)(?:\s+id\s+(\d+))?/i);
+  if (!header) return null;
+
+  const lag: ParsedLag = {
+    name: header[1],
+    id: header[3] ? Number.parseInt(header[3], 10) : undefined,
+    type: header[2].toLowerCase() as ParsedLag['type'],
+    ports: [],
+    deployed: false,
+  };
+
+  for (const child of node.children) {
+    applyLineRules(child, LAG_RULES, lag);
+  }
+
+  return lag;
+}
+
+/**
+ * Parse "[sequence N] permit|deny [protocol] <source> [port] [<dest> [port]]"
+ */
+function parseAclRule(line: string, type: ACL['type'], defaultSequence: number): ACLRule | null {
+  const tokens = line.trim().split(/\s+/);
+  let i = 0;
+  let sequence = defaultSequence;
+
+  if (tokens[i]?.toLowerCase() === 'sequence' && /^\d+$/.test(tokens[i + 1] ?? '')) {
+    sequence = Number.parseInt(tokens[i + 1], 10);
+    i += 2;
+  }
+
+  const action = tokens[i]?.toLowerCase();
+  if (action !== 'permit' && action !== 'deny') return null;
+  i++;
+
+  const rule: ACLRule = { sequence, action, protocol: 'ip' };
+  if (type === 'extended') {
+    rule.protocol = tokens[i++] ?? 'ip';
+  }
+
+  const source = parseAclAddress(tokens, i);
+  rule.sourceIp = source.ip;
+  rule.sourceWildcard = source.wildcard;
+  i = source.next;
+
+  const sourcePort = parseAclPort(tokens, i);
+  rule.sourcePort = sourcePort.port;
+  i = sourcePort.next;
+
+  if (i < tokens.length) {
+    const dest = parseAclAddress(tokens, i);
+    rule.destIp = dest.ip;
+    rule.destWildcard = dest.wildcard;
+    i = dest.next;
+
+    const destPort = parseAclPort(tokens, i);
+    rule.destPort = destPort.port;
+  }
+
+  return rule;
+}
+
+function parseAclAddress(tokens: string[], i: number): { ip?: string; wildcard?: string; next: number } {
+  const token = tokens[i]?.toLowerCase();
+  if (token === undefined) return { next: i };
+  if (token === 'any') return { ip: 'any', next: i + 1 };
+  if (token === 'host') return { ip: tokens[i + 1], wildcard: '0.0.0.0', next: i + 2 };
+
+  const cidr = tokens[i].match(/^(\d+\.\d+\.\d+\.\d+)\/(\d+)$/);
+  if (cidr) {
+    const mask = prefixToNetmask(Number.parseInt(cidr[2], 10));
+    const wildcard = mask
+      .split('.')
+      .map((octet) => 255 - Number.parseInt(octet, 10))
+      .join('.');
+    return { ip: cidr[1], wildcard, next: i + 1 };
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(tokens[i]) && /^\d+\.\d+\.\d+\.\d+$/.test(tokens[i + 1] ?? '')) {
+    return { ip: tokens[i], wildcard: tokens[i + 1], next: i + 2 };
+  }
+  return { ip: tokens[i], next: i + 1 };
+}
+
+function parseAclPort(tokens: string[], i: number): { port?: string; next: number } {
+  const operator = tokens[i]?.toLowerCase();
+  if (operator === 'range' && tokens[i + 2]) {
+    return { port: `range ${tokens[i + 1]} ${tokens[i + 2]}`, next: i + 3 };
+  }
+  if ((operator === 'eq' || operator === 'gt' || operator === 'lt' || operator === 'neq') && tokens[i + 1]) {
+    return { port: `${operator} ${tokens[i + 1]}`, next: i + 2 };
+  }
+  return { next: i };
+}
+
+/**
+ * Parse "A.B.C.D/len GW [distance]" or "A.B.C.D M.M.M.M GW [distance]"
+ */
+function parseStaticRoute(tokens: string[]): StaticRoute | null {
+  const destination = parseAddressAndMask(tokens);
+  if (!destination) return null;
+
+  const rest = tokens.slice(destination.consumed);
+  if (rest.length === 0) return null;
+
+  const route: StaticRoute = { destination: destination.address, netmask: destination.netmask, gateway: rest[0] };
+  let next = 1;
+
+  // Routes out of an interface: "ip route 10.0.0.0/8 ve 10"
+  if (!/^\d+\.\d+\.\d+\.\d+$/.test(rest[0]) && rest[1]) {
+    route.gateway = '';
+    route.interface = `${rest[0]} ${rest[1]}`;
+    next = 2;
+  }
+
+  if (/^\d+$/.test(rest[next] ?? '')) {
+    route.distance = Number.parseInt(rest[next], 10);
+  }
+
+  return route;
+}
+
+/**
+ * Expand "10 20 to 25" into VLAN IDs
+ */
+function expandVlanList(text: string): number[] {
+  const tokens = text.trim().split(/\s+/);
+  const ids: number[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!/^\d+$/.test(tokens[i])) continue;
+    const from = Number.parseInt(tokens[i], 10);
+    if (tokens[i + 1]?.toLowerCase() === 'to' && /^\d+$/.test(tokens[i + 2] ?? '')) {
+      const to = Number.parseInt(tokens[i + 2], 10);
+      for (let id = from; id <= to; id++) ids.push(id);
+      i += 2;
+    } else {
+      ids.push(from);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,164 @@
+/**
+ * Transactional configuration changes.
+ *
+ * The running config is snapshotted, commands are sent one at a time and each
+ * response is checked for CLI errors. The first failure stops the change and
+ * rolls it back: inverse commands are tried first, and if the running config
+ * still differs from the snapshot the remaining delta is applied to restore it.
+ */
+
+import type winston from 'winston';
+import { CommandExecutionError, formatError } from '../core/errors.js';
+import { logInfo, logWarn } from '../core/logger.js';
+import type { BatchCommandResult, TransactionReport } from '../types/index.js';
+import { detectCliError } from './cli-errors.js';
+import { type ConfigNode, computeConfigDelta, invertAppliedCommands, parseConfigTree } from './config-tree.js';
+import type { BrocadeTransport } from './transport-interface.js';
+
+export interface TransactionOptions {
+  /** Run "write memory" once every command succeeded (defaults to whether the commands contained it) */
+  save?: boolean;
+  /** Roll back on failure (default: true) */
+  rollback?: boolean;
+  /** Running config captured before the change (read from the switch when omitted) */
+  snapshot?: ConfigNode[];
+  logger?: winston.Logger;
+}
+
+const SAVE_COMMAND_RE = /^write\s+mem(?:ory)?$/i;
+
+/**
+ * Apply commands as a single transaction and report what was applied and reverted
+ */
+export async function runConfigTransaction(
+  transport: BrocadeTransport,
+  commands: string[],
+  options: TransactionOptions = {},
+): Promise<TransactionReport> {
+  const { logger, rollback = true } = options;
+  const body = commands.filter((command) => !SAVE_COMMAND_RE.test(command.trim()));
+  const save = options.save ?? body.length !== commands.length;
+
+  const snapshot = options.snapshot ?? (await takeSnapshot(transport));
+  const applied: BatchCommandResult[] = [];
+  let failed: BatchCommandResult | undefined;
+
+  for (const command of body) {
+    const lineResult = await runLine(transport, command);
+    if (!lineResult.success) {
+      failed = lineResult;
+      break;
+    }
+    applied.push(lineResult);
+  }
+
+  if (!failed) {
+    let saved = false;
+    if (save) {
+      const saveResult = await runLine(transport, 'write memory');
+      applied.push(saveResult);
+      saved = saveResult.success;
+    }
+    if (logger) logInfo(logger, 'Configuration transaction committed', { commands: applied.length, saved });
+    return { success: true, applied, saved };
+  }
+
+  if (logger) {
+    logWarn(logger, 'Configuration transaction failed', { command: failed.command, error: failed.error });
+  }
+
+  if (!rollback) {
+    await runLine(transport, 'end');
+    return { success: false, applied, failed, saved: false };
+  }
+
+  return {
+    success: false,
+    applied,
+    failed,
+    rollback: await rollbackTransaction(
+      transport,
+      applied.map((result) => result.command),
+      snapshot,
+      logger,
+    ),
+    saved: false,
+  };
+}
+
+/**
+ * Undo applied commands: inverse first, then a snapshot delta for anything left over
+ */
+async function rollbackTransaction(
+  transport: BrocadeTransport,
+  appliedCommands: string[],
+  snapshot: ConfigNode[],
+  logger?: winston.Logger,
+): Promise<NonNullable<TransactionReport['rollback']>> {
+  // Leave whatever sub-mode the failed line left us in
+  await runLine(transport, 'end');
+
+  const executed: BatchCommandResult[] = [];
+  let strategy: 'inverse' | 'snapshot' = 'inverse';
+
+  const inverse = invertAppliedCommands(appliedCommands, snapshot);
+  if (inverse.length > 0) {
+    executed.push(...(await runBlock(transport, inverse)));
+  }
+
+  let remaining = computeConfigDelta(await readRunningConfig(transport), snapshot);
+  if (remaining.length > 0) {
+    strategy = 'snapshot';
+    if (logger) logWarn(logger, 'Inverse rollback incomplete, restoring snapshot', { delta: remaining.length });
+    executed.push(...(await runBlock(transport, remaining)));
+    remaining = computeConfigDelta(await readRunningConfig(transport), snapshot);
+  }
+
+  const restored = remaining.length === 0;
+  if (logger) logInfo(logger, 'Configuration transaction rolled back', { strategy, restored });
+
+  return { strategy, commands: executed, restored, remainingDelta: remaining };
+}
+
+async function takeSnapshot(transport: BrocadeTransport): Promise<ConfigNode[]> {
+  try {
+    return await readRunningConfig(transport);
+  } catch (error) {
+    throw new CommandExecutionError(
+      'Unable to snapshot running configuration before transaction',
+      'show running-config',
+      undefined,
+      {
+        error: formatError(error),
+      },
+    );
+  }
+}
+
+/**
+ * Read and parse the current running configuration
+ */
+export async function readRunningConfig(transport: BrocadeTransport): Promise<ConfigNode[]> {
+  return parseConfigTree(await transport.executeCommand('show running-config'));
+}
+
+/**
+ * Run commands inside "conf t" ... "end", continuing past failures
+ */
+async function runBlock(transport: BrocadeTransport, commands: string[]): Promise<BatchCommandResult[]> {
+  const results: BatchCommandResult[] = [];
+  for (const command of ['conf t', ...commands, 'end']) {
+    results.push(await runLine(transport, command));
+  }
+  return results;
+}
+
+async function runLine(transport: BrocadeTransport, command: string): Promise<BatchCommandResult> {
+  try {
+    const output = await transport.executeCommand(command);
+    const error = detectCliError(output);
+    return error ? { command, output, success: false, error } : { command, output, success: true };
+  } catch (error) {
+    return { command, output: '', success: false, error: formatError(error) };
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Block-structured view of Brocade ICX configuration text.
+ *
+ * ICX configs are two-level: top-level lines, some of which open a context
+ * (`vlan 10 name DATA by port`, `interface ethernet 1/1/1`, `router ospf`)
+ * followed by lines indented with a space and closed by `!`. This module
+ * parses that shape and computes the CLI needed to move between two configs.
+ */
+
+export interface ConfigNode {
+  /** Trimmed configuration line */
+  line: string;
+  /** Indented lines belonging to this context, in order */
+  children: ConfigNode[];
+}
+
+/** Lines that carry no configuration */
+const IGNORED_LINE_RE =
+  /^(?:!.*|end|Current configuration\s*:.*|Building configuration.*|Startup-config data location.*)$/i;
+
+/** Top-level lines that describe the image or hardware rather than configuration */
+const NON_CONFIG_LINE_RE = /^(?:ver\s|module\s)/i;
+
+/** Commands that enter a configuration sub-mode */
+const CONTEXT_COMMAND_RES: RegExp[] = [
+  /^vlan\s+\d+/i,
+  /^interface\s+\S+/i,
+  /^router\s+\S+/i,
+  /^ip\s+access-list\s+\S+/i,
+  /^ipv6\s+access-list\s+\S+/i,
+  /^lag\s+\S+/i,
+  /^stack\s+unit\s+\d+/i,
+  /^route-map\s+\S+/i,
+  /^address-family\s+\S+/i,
+];
+
+/**
+ * Parse configuration text into top-level nodes with their indented children
+ */
+export function parseConfigTree(text: string): ConfigNode[] {
+  const nodes: ConfigNode[] = [];
+  let current: ConfigNode | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+
+    if (!trimmed || IGNORED_LINE_RE.test(trimmed)) {
+      // "!" closes the current context
+      if (trimmed.startsWith('!')) current = null;
+      continue;
+    }
+
+    if (/^\s/.test(line) && current) {
+      current.children.push({ line: trimmed, children: [] });
+      continue;
+    }
+
+    current = { line: trimmed, children: [] };
+    nodes.push(current);
+  }
+
+  return nodes;
+}
+
+/**
+ * Render nodes back into configuration text
+ */
+export function renderConfigTree(nodes: ConfigNode[]): string {
+  const lines: string[] = [];
+  for (const node of nodes) {
+    lines.push(node.line);
+    for (const child of node.children) {
+      lines.push(` ${child.line}`);
+    }
+    if (node.children.length > 0) {
+      lines.push('!');
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Identity of a node when comparing two configs.
+ * VLAN headers are keyed by ID so a renamed VLAN is a change, not a new block.
+ */
+export function nodeKey(line: string): string {
+  const vlanMatch = line.match(/^vlan\s+(\d+)/i);
+  if (vlanMatch) return `vlan ${vlanMatch[1]}`;
+  return line;
+}
+
+/**
+ * Check if a command enters a configuration sub-mode
+ */
+export function isContextCommand(line: string): boolean {
+  return CONTEXT_COMMAND_RES.some((re) => re.test(line.trim()));
+}
+
+/**
+ * Interface contexts always exist and cannot be removed with "no"
+ */
+function isInterfaceContext(line: string): boolean {
+  return /^interface\s+/i.test(line);
+}
+
+/**
+ * Build the command that undoes a single configuration line
+ */
+export function negateCommand(line: string): string {
+  const trimmed = line.trim();
+
+  if (/^no\s+/i.test(trimmed)) return trimmed.replace(/^no\s+/i, '');
+  if (/^enable$/i.test(trimmed)) return 'disable';
+  if (/^disable$/i.test(trimmed)) return 'enable';
+
+  const vlanMatch = trimmed.match(/^vlan\s+(\d+)/i);
+  if (vlanMatch) return `no vlan ${vlanMatch[1]}`;
+
+  return `no ${trimmed}`;
+}
+
+/**
+ * Compute the configuration commands (without "conf t"/"end") that turn
+ * `current` into `target`: removed lines are negated, missing lines added
+ * and changed contexts are entered to adjust only their differing children.
+ */
+export function computeConfigDelta(current: ConfigNode[], target: ConfigNode[]): string[] {
+  const commands: string[] = [];
+  const currentByKey = new Map(current.map((node) => [nodeKey(node.line), node]));
+  const targetByKey = new Map(target.map((node) => [nodeKey(node.line), node]));
+
+  // Remove what the target no longer has, last block first
+  for (const node of [...current].reverse()) {
+    if (NON_CONFIG_LINE_RE.test(node.line) || targetByKey.has(nodeKey(node.line))) continue;
+
+    if (isInterfaceContext(node.line)) {
+      if (node.children.length > 0) {
+        commands.push(node.line, ...node.children.map((child) => negateCommand(child.line)), 'exit');
+      }
+    } else {
+      commands.push(negateCommand(node.line));
+    }
+  }
+
+  // Add and adjust in target order so dependencies (e.g. router-interface before ve) are respected
+  for (const node of target) {
+    if (NON_CONFIG_LINE_RE.test(node.line)) continue;
+
+    const existing = currentByKey.get(nodeKey(node.line));
+    if (!existing) {
+      commands.push(node.line, ...node.children.map((child) => child.line));
+      if (node.children.length > 0 || isContextCommand(node.line)) commands.push('exit');
+      continue;
+    }
+
+    const existingChildren = new Set(existing.children.map((child) => child.line));
+    const targetChildren = new Set(node.children.map((child) => child.line));
+    const removed = existing.children.filter((child) => !targetChildren.has(child.line));
+    const added = node.children.filter((child) => !existingChildren.has(child.line));
+
+    if (existing.line === node.line && removed.length === 0 && added.length === 0) continue;
+
+    commands.push(node.line, ...removed.map((child) => negateCommand(child.line)), ...added.map((child) => child.line));
+    if (isContextCommand(node.line)) commands.push('exit');
+  }
+
+  return commands;
+}
+
+/**
+ * Build the commands that undo an already applied command sequence.
+ * Lines are negated in reverse order inside the context they were entered in;
+ * contexts that did not exist in `snapshot` (e.g. a new VLAN) are removed whole.
+ */
+export function invertAppliedCommands(commands: string[], snapshot: ConfigNode[]): string[] {
+  const snapshotKeys = new Set(snapshot.map((node) => nodeKey(node.line)));
+  const entries: Array<{ context: string | null; line: string }> = [];
+  const createdContexts: string[] = [];
+  let context: string | null = null;
+
+  for (const command of commands) {
+    const trimmed = command.trim();
+    const lower = trimmed.toLowerCase();
+
+    if (!trimmed || /^conf(?:igure)?(?:\s+t(?:erminal)?)?$/.test(lower) || /^write\s+mem/.test(lower)) continue;
+
+    if (lower === 'exit' || lower === 'end') {
+      context = null;
+      continue;
+    }
+
+    if (isContextCommand(trimmed)) {
+      context = trimmed;
+      if (!isInterfaceContext(trimmed) && !snapshotKeys.has(nodeKey(trimmed))) {
+        createdContexts.push(trimmed);
+      }
+      continue;
+    }
+
+    entries.push({ context, line: trimmed });
+  }
+
+  const created = new Set(createdContexts);
+  const inverse: string[] = [];
+  let openContext: string | null = null;
+
+  for (const entry of entries.reverse()) {
+    if (entry.context && created.has(entry.context)) continue;
+
+    if (entry.context !== openContext) {
+      if (openContext) inverse.push('exit');
+      if (entry.context) inverse.push(entry.context);
+      openContext = entry.context;
+    }
+    inverse.push(negateCommand(entry.line));
+  }
+  if (openContext) inverse.push('exit');
+
+  for (const contextLine of [...new Set(createdContexts)].reverse()) {
+    inverse.push(negateCommand(contextLine));
+  }
+
+  return inverse;
+}
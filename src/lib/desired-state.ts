@@ -0,0 +1,182 @@
+/**
+ * Declarative desired state for VLANs and ports.
+ *
+ * A desired-state document lists VLANs with their complete tagged/untagged
+ * membership and per-port settings. It is compared with the parsed running
+ * config and turned into the minimal CLI that converges the switch.
+ */
+
+import type {
+  DesiredPort,
+  DesiredState,
+  DesiredStateChange,
+  DesiredStatePlan,
+  DesiredVlan,
+  ParsedConfig,
+  ParsedInterface,
+  ParsedVlan,
+} from '../types/index.js';
+
+/** The default VLAN holds every unassigned port and cannot be deleted */
+const DEFAULT_VLAN_ID = 1;
+
+/**
+ * Reduce "ethernet 1/1/1", "ethe 1/1/1" or "1/1/1" to "1/1/1"
+ */
+export function normalizePort(port: string): string {
+  return port
+    .trim()
+    .replace(/^(?:ethernet|ether|ethe)\s+/i, '')
+    .trim();
+}
+
+/**
+ * Compute the changes and CLI needed to move the switch to the desired state.
+ * Removals run before additions so an untagged port can move between VLANs.
+ */
+export function planDesiredState(current: ParsedConfig, desired: DesiredState): DesiredStatePlan {
+  const changes: DesiredStateChange[] = [];
+  const removals = new Map<number, string[]>();
+  const additions: string[] = [];
+  const currentVlans = new Map(current.vlans.map((vlan) => [vlan.id, vlan]));
+
+  const removePort = (vlanId: number, port: string, mode: 'tagged' | 'untagged') => {
+    const lines = removals.get(vlanId) ?? [];
+    if (lines.includes(`no ${mode} ethe ${port}`)) return;
+    lines.push(`no ${mode} ethe ${port}`);
+    removals.set(vlanId, lines);
+    changes.push({ action: 'remove_port', vlanId, port, detail: `Remove ${mode} ${port} from VLAN ${vlanId}` });
+  };
+
+  for (const vlan of desired.vlans ?? []) {
+    const existing = currentVlans.get(vlan.id);
+    if (existing) {
+      planVlanRemovals(vlan, existing, removePort);
+    }
+    additions.push(...planVlanAdditions(vlan, existing, changes));
+  }
+
+  // An untagged port can only be in one VLAN: take it out of its old one first
+  for (const vlan of desired.vlans ?? []) {
+    for (const port of (vlan.untagged ?? []).map(normalizePort)) {
+      for (const other of current.vlans) {
+        if (other.id !== vlan.id && other.id !== DEFAULT_VLAN_ID && other.untagged.includes(port)) {
+          removePort(other.id, port, 'untagged');
+        }
+      }
+    }
+  }
+
+  const deletions: string[] = [];
+  if (desired.pruneVlans) {
+    const wanted = new Set((desired.vlans ?? []).map((vlan) => vlan.id));
+    for (const vlan of current.vlans) {
+      if (vlan.id === DEFAULT_VLAN_ID || wanted.has(vlan.id)) continue;
+      removals.delete(vlan.id);
+      deletions.push(`no vlan ${vlan.id}`);
+      changes.push({ action: 'delete_vlan', vlanId: vlan.id, detail: `Delete VLAN ${vlan.id}` });
+    }
+  }
+
+  const currentPorts = new Map(
+    current.interfaces
+      .filter((iface) => iface.type === 'ethernet')
+      .map((iface) => [normalizePort(iface.name.replace(/^ethernet\s+/i, '')), iface]),
+  );
+  for (const port of desired.ports ?? []) {
+    additions.push(...planPort(port, currentPorts.get(normalizePort(port.port)), changes));
+  }
+
+  const removalCommands = [...removals].flatMap(([vlanId, lines]) => [`vlan ${vlanId}`, ...lines, 'exit']);
+  if (removalCommands.length === 0 && deletions.length === 0 && additions.length === 0) {
+    return { changes: [], commands: [] };
+  }
+
+  return {
+    changes: changes.filter((change) => change.action !== 'remove_port' || removals.has(change.vlanId ?? -1)),
+    commands: ['conf t', ...removalCommands, ...deletions, ...additions, 'end', 'write memory'],
+  };
+}
+
+/**
+ * Remove members the document no longer lists. Omitted lists are left unmanaged.
+ */
+function planVlanRemovals(
+  vlan: DesiredVlan,
+  existing: ParsedVlan,
+  removePort: (vlanId: number, port: string, mode: 'tagged' | 'untagged') => void,
+): void {
+  if (vlan.tagged) {
+    const tagged = new Set(vlan.tagged.map(normalizePort));
+    for (const port of existing.tagged.filter((port) => !tagged.has(port))) {
+      removePort(vlan.id, port, 'tagged');
+    }
+  }
+
+  // Ports leave the default VLAN implicitly when they are added elsewhere
+  if (vlan.untagged && vlan.id !== DEFAULT_VLAN_ID) {
+    const untagged = new Set(vlan.untagged.map(normalizePort));
+    for (const port of existing.untagged.filter((port) => !untagged.has(port))) {
+      removePort(vlan.id, port, 'untagged');
+    }
+  }
+}
+
+function planVlanAdditions(
+  vlan: DesiredVlan,
+  existing: ParsedVlan | undefined,
+  changes: DesiredStateChange[],
+): string[] {
+  const lines: string[] = [];
+  let header = `vlan ${vlan.id}`;
+
+  if (!existing) {
+    header = vlan.name ? `vlan ${vlan.id} name ${vlan.name} by port` : `vlan ${vlan.id} by port`;
+    changes.push({ action: 'create_vlan', vlanId: vlan.id, detail: `Create VLAN ${vlan.id}` });
+  } else if (vlan.name !== undefined && vlan.name !== existing.name) {
+    header = `vlan ${vlan.id} name ${vlan.name}`;
+    changes.push({
+      action: 'rename_vlan',
+      vlanId: vlan.id,
+      detail: `Rename VLAN ${vlan.id} from "${existing.name ?? ''}" to "${vlan.name}"`,
+    });
+  }
+
+  const currentTagged = new Set(existing?.tagged ?? []);
+  const currentUntagged = new Set(existing?.untagged ?? []);
+
+  for (const port of (vlan.tagged ?? []).map(normalizePort).filter((port) => !currentTagged.has(port))) {
+    lines.push(`tagged ethe ${port}`);
+    changes.push({ action: 'add_port', vlanId: vlan.id, port, detail: `Add tagged ${port} to VLAN ${vlan.id}` });
+  }
+  for (const port of (vlan.untagged ?? []).map(normalizePort).filter((port) => !currentUntagged.has(port))) {
+    lines.push(`untagged ethe ${port}`);
+    changes.push({ action: 'add_port', vlanId: vlan.id, port, detail: `Add untagged ${port} to VLAN ${vlan.id}` });
+  }
+
+  if (lines.length === 0 && header === `vlan ${vlan.id}`) return [];
+  return [header, ...lines, 'exit'];
+}
+
+function planPort(port: DesiredPort, existing: ParsedInterface | undefined, changes: DesiredStateChange[]): string[] {
+  const name = normalizePort(port.port);
+  const lines: string[] = [];
+  const details: string[] = [];
+
+  if (port.description !== undefined && port.description !== (existing?.portName ?? '')) {
+    lines.push(port.description === '' ? 'no port-name' : `port-name ${port.description}`);
+    details.push(port.description === '' ? 'clear description' : `description "${port.description}"`);
+  }
+
+  // Interfaces without a config block are enabled
+  const currentlyEnabled = !(existing?.disabled ?? false);
+  if (port.enabled !== undefined && port.enabled !== currentlyEnabled) {
+    lines.push(port.enabled ? 'enable' : 'disable');
+    details.push(port.enabled ? 'enable' : 'disable');
+  }
+
+  if (lines.length === 0) return [];
+
+  changes.push({ action: 'configure_port', port: name, detail: `Port ${name}: ${details.join(', ')}` });
+  return [`interface ethernet ${name}`, ...lines, 'exit'];
+}
@@ -0,0 +1,150 @@
+/**
+ * Connection registry for a multi-switch inventory.
+ * Transports are created lazily the first time a device is targeted and
+ * reused for every later call, so each switch keeps a single shell session.
+ */
+
+import type winston from 'winston';
+import type { BrocadeConfig } from '../core/config.js';
+import { ValidationError } from '../core/errors.js';
+import type { Inventory, InventoryDevice } from '../core/inventory.js';
+import { createChildLogger } from '../core/logger.js';
+import { BrocadeCommandExecutor } from './brocade-commands.js';
+import { createSnmpReader, type SnmpReader } from './snmp-reader.js';
+import type { BrocadeTransport } from './transport-interface.js';
+
+export type TransportFactory = (config: BrocadeConfig, logger: winston.Logger, device: string) => BrocadeTransport;
+
+/**
+ * A device with its (lazily created) transport and command executor
+ */
+export interface DeviceConnection {
+  name: string;
+  tags: string[];
+  description?: string;
+  requireApproval: boolean;
+  config: BrocadeConfig;
+  switchClient: BrocadeTransport;
+  commandExecutor: BrocadeCommandExecutor;
+  /** SNMP reader, when SNMP is configured for the device */
+  snmp?: SnmpReader;
+}
+
+/**
+ * Summary of a device safe to hand back to MCP clients (no credentials)
+ */
+export interface DeviceSummary {
+  name: string;
+  host: string;
+  port: number;
+  transport: 'ssh' | 'telnet' | 'replay';
+  tags: string[];
+  description?: string;
+  requireApproval: boolean;
+  isDefault: boolean;
+  connected: boolean;
+}
+
+export class DeviceRegistry {
+  private readonly devices: Map<string, InventoryDevice>;
+  private readonly connections: Map<string, DeviceConnection> = new Map();
+  private readonly defaultDevice: string;
+
+  constructor(
+    inventory: Inventory,
+    private readonly createTransport: TransportFactory,
+    private readonly logger: winston.Logger,
+  ) {
+    this.devices = new Map(inventory.devices.map((device) => [device.name, device]));
+    this.defaultDevice = inventory.defaultDevice;
+  }
+
+  getDefaultDeviceName(): string {
+    return this.defaultDevice;
+  }
+
+  has(name: string): boolean {
+    return this.devices.has(name);
+  }
+
+  /**
+   * All inventory devices, in inventory order
+   */
+  getDevices(): InventoryDevice[] {
+    return [...this.devices.values()];
+  }
+
+  /**
+   * Resolve a device by name, falling back to the default device.
+   * The transport is created on first use but not connected; the clients
+   * connect on their first command as they always have.
+   */
+  resolve(name?: string): DeviceConnection {
+    const deviceName = name ?? this.defaultDevice;
+    const existing = this.connections.get(deviceName);
+    if (existing) return existing;
+
+    const device = this.devices.get(deviceName);
+    if (!device) {
+      throw new ValidationError(
+        `Unknown device "${deviceName}". Available devices: ${[...this.devices.keys()].join(', ')}`,
+        'device',
+      );
+    }
+
+    const deviceLogger = createChildLogger(this.logger, { device: device.name });
+    const switchClient = this.createTransport(device.config, deviceLogger, device.name);
+    // Replayed sessions hold CLI output only, so there is no agent to query
+    const snmp =
+      device.config.snmp && device.config.transport !== 'replay'
+        ? createSnmpReader(device.config.host, device.config.snmp, deviceLogger)
+        : undefined;
+    const connection: DeviceConnection = {
+      name: device.name,
+      tags: device.tags,
+      description: device.description,
+      requireApproval: device.requireApproval,
+      config: device.config,
+      switchClient,
+      commandExecutor: new BrocadeCommandExecutor(switchClient, { snmp }),
+      snmp,
+    };
+
+    this.connections.set(deviceName, connection);
+    return connection;
+  }
+
+  /**
+   * Devices whose transport has been created so far
+   */
+  getConnections(): DeviceConnection[] {
+    return [...this.connections.values()];
+  }
+
+  /**
+   * Describe every device without exposing credentials
+   */
+  list(): DeviceSummary[] {
+    return this.getDevices().map((device) => ({
+      name: device.name,
+      host: device.config.host,
+      port: device.config.port,
+      transport: device.config.transport,
+      tags: device.tags,
+      description: device.description,
+      requireApproval: device.requireApproval,
+      isDefault: device.name === this.defaultDevice,
+      connected: this.connections.get(device.name)?.switchClient.isConnected() ?? false,
+    }));
+  }
+
+  /**
+   * Disconnect every transport and close every SNMP session created so far
+   */
+  disconnectAll(): void {
+    for (const connection of this.connections.values()) {
+      connection.switchClient.disconnect();
+      connection.snmp?.close();
+    }
+  }
+}
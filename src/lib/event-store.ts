@@ -0,0 +1,55 @@
+/**
+ * In-memory event store that makes Streamable HTTP streams resumable.
+ *
+ * Each MCP session gets its own store. Messages sent on a stream are kept
+ * with an event ID so a client that reconnects with Last-Event-ID receives
+ * what it missed. Only the most recent events are kept; a client that was
+ * away longer than that has to start over.
+ */
+
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/** Events kept per session */
+const DEFAULT_MAX_EVENTS = 500;
+
+export class MemoryEventStore implements EventStore {
+  /** Insertion order is event order */
+  private readonly events: Map<EventId, { streamId: StreamId; message: JSONRPCMessage }> = new Map();
+  private sequence = 0;
+
+  constructor(private readonly maxEvents = DEFAULT_MAX_EVENTS) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as EventId;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) return '';
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return last.streamId;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Fleet helpers: device selection and bounded-concurrency fan-out
+ */
+
+import { ValidationError } from '../core/errors.js';
+import type { InventoryDevice } from '../core/inventory.js';
+
+/**
+ * Which inventory devices an operation should target.
+ * All given criteria must match; an empty selector matches every device.
+ */
+export interface DeviceSelector {
+  names?: string[];
+  tags?: string[];
+  pattern?: string;
+}
+
+/**
+ * Convert a shell-style glob (`*`, `?`) into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Resolve a selector against the inventory, preserving inventory order
+ */
+export function selectDevices(devices: InventoryDevice[], selector: DeviceSelector): InventoryDevice[] {
+  let selected = devices;
+
+  if (selector.names && selector.names.length > 0) {
+    const known = new Set(devices.map((device) => device.name));
+    const unknown = selector.names.filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown device(s): ${unknown.join(', ')}`, 'devices');
+    }
+    const wanted = new Set(selector.names);
+    selected = selected.filter((device) => wanted.has(device.name));
+  }
+
+  if (selector.tags && selector.tags.length > 0) {
+    const tags = selector.tags;
+    selected = selected.filter((device) => tags.every((tag) => device.tags.includes(tag)));
+  }
+
+  if (selector.pattern) {
+    const pattern = globToRegExp(selector.pattern);
+    selected = selected.filter((device) => pattern.test(device.name));
+  }
+
+  return selected;
+}
+
+/**
+ * Map over items with at most `limit` promises in flight. Results keep input order.
+ * The mapper is expected to handle its own errors; a rejection aborts the whole run.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,169 @@
+/**
+ * Authentication for the HTTP (SSE) server.
+ *
+ * Callers identify themselves with an API key, sent as a bearer token or an
+ * X-API-Key header, or with a TLS client certificate whose common name becomes
+ * their identity. Keys are compared as SHA-256 digests in constant time.
+ * Authentication is required as soon as a key is configured or client
+ * certificates are mandatory; otherwise the server stays open as before.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import type { ServerOptions } from 'node:https';
+import type { TLSSocket } from 'node:tls';
+import type { RequestHandler } from 'express';
+import type winston from 'winston';
+import type { ApiKey, ServerConfig } from '../core/config.js';
+import { AuthenticationError, ConfigurationError } from '../core/errors.js';
+import { logWarn } from '../core/logger.js';
+
+export type AuthMethod = 'bearer' | 'api-key' | 'mtls';
+
+/**
+ * Who is calling, as established by the HTTP server
+ */
+export interface AuthenticatedIdentity {
+  name: string;
+  /** Policy role given to the key; absent for certificates and keys without a role */
+  role?: string;
+  method: AuthMethod;
+}
+
+export interface HttpAuthOptions {
+  keys: ApiKey[];
+  methods: Array<'bearer' | 'api-key'>;
+  clientCert: 'off' | 'optional' | 'required';
+}
+
+interface StoredKey {
+  name: string;
+  role?: string;
+  digest: Buffer;
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export class HttpAuthenticator {
+  private readonly keys: StoredKey[];
+
+  constructor(private readonly options: HttpAuthOptions) {
+    this.keys = options.keys.map((apiKey) => ({
+      name: apiKey.name,
+      role: apiKey.role,
+      digest: apiKey.key !== undefined ? sha256(apiKey.key) : Buffer.from(apiKey.keySha256 ?? '', 'hex'),
+    }));
+  }
+
+  /**
+   * Whether every request must carry a valid credential
+   */
+  get required(): boolean {
+    return this.keys.length > 0 || this.options.clientCert === 'required';
+  }
+
+  /**
+   * Identity of the caller, or undefined when authentication is not required
+   * and none was offered. Throws AuthenticationError for missing or unknown credentials.
+   */
+  authenticate(req: IncomingMessage): AuthenticatedIdentity | undefined {
+    const certName = this.clientCertName(req);
+    if (certName) return { name: certName, method: 'mtls' };
+
+    const offered = this.offeredKey(req);
+    if (offered) {
+      const digest = sha256(offered.key);
+      const match = this.keys.find((stored) => timingSafeEqual(stored.digest, digest));
+      if (!match) {
+        throw new AuthenticationError('Invalid API key', { method: offered.method });
+      }
+      return { name: match.name, role: match.role, method: offered.method };
+    }
+
+    if (this.required) {
+      throw new AuthenticationError('Authentication required');
+    }
+    return undefined;
+  }
+
+  /**
+   * Express middleware storing the identity in `res.locals.identity` and
+   * answering 401 when authentication fails
+   */
+  middleware(logger: winston.Logger): RequestHandler {
+    return (req, res, next) => {
+      try {
+        res.locals.identity = this.authenticate(req);
+        next();
+      } catch (error) {
+        logWarn(logger, 'Rejected unauthenticated HTTP request', {
+          path: req.path,
+          remoteAddress: req.socket.remoteAddress,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        res
+          .status(401)
+          .set('WWW-Authenticate', 'Bearer realm="brocade-mcp"')
+          .json({ error: error instanceof Error ? error.message : 'Authentication required' });
+      }
+    };
+  }
+
+  private offeredKey(req: IncomingMessage): { key: string; method: 'bearer' | 'api-key' } | undefined {
+    // Without configured keys there is nothing to check a header against
+    if (this.keys.length === 0) return undefined;
+
+    const authorization = req.headers.authorization;
+    const bearer = authorization?.match(/^Bearer\s+(\S+)\s*$/i)?.[1];
+    if (bearer && this.options.methods.includes('bearer')) {
+      return { key: bearer, method: 'bearer' };
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey && this.options.methods.includes('api-key')) {
+      return { key: apiKey, method: 'api-key' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Common name of a client certificate the TLS layer verified against the CA
+   */
+  private clientCertName(req: IncomingMessage): string | undefined {
+    if (this.options.clientCert === 'off') return undefined;
+    const socket = req.socket as TLSSocket;
+    if (!socket.authorized || typeof socket.getPeerCertificate !== 'function') return undefined;
+
+    const commonName = socket.getPeerCertificate().subject?.CN;
+    return Array.isArray(commonName) ? commonName[0] : commonName || undefined;
+  }
+}
+
+/**
+ * HTTPS options for the SSE server, or undefined to serve plain HTTP
+ */
+export function loadTlsOptions(config: ServerConfig): ServerOptions | undefined {
+  if (!config.sseTlsCert || !config.sseTlsKey) return undefined;
+
+  const read = (file: string) => {
+    try {
+      return readFileSync(file);
+    } catch (error) {
+      throw new ConfigurationError(`Unable to read TLS file ${file}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return {
+    cert: read(config.sseTlsCert),
+    key: read(config.sseTlsKey),
+    ca: config.sseTlsCa ? read(config.sseTlsCa) : undefined,
+    requestCert: config.sseClientCert !== 'off',
+    // Optional certificates are checked per request via socket.authorized
+    rejectUnauthorized: config.sseClientCert === 'required',
+  };
+}
@@ -0,0 +1,432 @@
+/**
+ * Local time-series history of interface counters.
+ *
+ * Every interval the counters of all ports of every inventory device are
+ * read, and the difference to the previous reading is stored as rates.
+ * Layout under the history directory, one directory per device:
+ *   <device>/<YYYY-MM-DD>.jsonl   one HistorySample per port and interval, UTC days
+ *
+ * Days older than the retention period are deleted. Queries stream the days a
+ * time range covers (at most 31) and average the samples into a fixed number
+ * of points.
+ */
+
+import { appendFile, mkdir, readdir, rm } from 'node:fs/promises';
+import path from 'node:path';
+import type winston from 'winston';
+import { formatError, ValidationError } from '../core/errors.js';
+import { logInfo, logWarn } from '../core/logger.js';
+import type { InterfaceInfo, InterfaceStatistics } from '../types/index.js';
+import { runWithAuditContext } from './audit-log.js';
+import type { DeviceRegistry } from './device-registry.js';
+import { mapWithConcurrency } from './fleet.js';
+import { readJsonLines } from './jsonl.js';
+
+/**
+ * Rates of one port between two readings
+ */
+export interface HistorySample {
+  /** Epoch milliseconds of the later reading */
+  t: number;
+  port: string;
+  inBps: number;
+  outBps: number;
+  inPps: number;
+  outPps: number;
+  inErrors: number;
+  outErrors: number;
+  crcErrors: number;
+  /** Link speed in bits per second, when the switch reports one */
+  speedBps?: number;
+}
+
+/**
+ * Samples averaged over one step of a query
+ */
+export interface HistoryPoint {
+  timestamp: string;
+  samples: number;
+  inBps: number;
+  outBps: number;
+  inBpsMax: number;
+  outBpsMax: number;
+  inPps: number;
+  outPps: number;
+  /** Error counts are totals over the step */
+  inErrors: number;
+  outErrors: number;
+  crcErrors: number;
+  /** Percent of link speed in the busier direction, average and peak */
+  utilization?: number;
+  utilizationMax?: number;
+}
+
+export interface HistoryQuery {
+  since: Date;
+  until: Date;
+  /** Maximum number of points; steps without samples are left out */
+  points: number;
+}
+
+export interface HistoryResult {
+  device: string;
+  interface: string;
+  since: string;
+  until: string;
+  stepSeconds: number;
+  points: HistoryPoint[];
+}
+
+export interface InterfaceHistoryOptions {
+  /** Seconds between readings; nothing is recorded when undefined */
+  intervalSeconds?: number;
+  retentionDays: number;
+}
+
+/** Devices read in parallel */
+const SAMPLE_CONCURRENCY = 4;
+
+/** Longest time range one query reads */
+const MAX_QUERY_DAYS = 31;
+
+const COUNTER32 = 2 ** 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Increase of a counter between two readings. A 32-bit counter that passed its
+ * maximum is unwrapped; any other decrease means the counters were cleared or
+ * the switch rebooted, so the new value is the increase since then.
+ */
+export function counterDelta(previous: number, current: number): number {
+  if (current >= previous) return current - previous;
+  const wrapped = COUNTER32 - previous + current;
+  if (previous < COUNTER32 && wrapped < COUNTER32 / 2) return wrapped;
+  return current;
+}
+
+/**
+ * Link speed from `show interfaces brief` ("1G", "10G", "100M"), in bits per second
+ */
+export function parseLinkSpeed(speed: string | undefined): number | undefined {
+  const match = speed?.match(/^(\d+(?:\.\d+)?)\s*([MG])/i);
+  if (!match) return undefined;
+  return parseFloat(match[1]) * (match[2].toUpperCase() === 'G' ? 1e9 : 1e6);
+}
+
+/**
+ * Rates of one port from two readings `elapsedSeconds` apart
+ */
+export function sampleRates(
+  previous: InterfaceStatistics,
+  current: InterfaceStatistics,
+  elapsedSeconds: number,
+  at: number,
+): HistorySample {
+  const delta = (key: 'inputBytes' | 'outputBytes' | 'inputPackets' | 'outputPackets') =>
+    counterDelta(previous[key], current[key]) / elapsedSeconds;
+  return {
+    t: at,
+    port: current.interface,
+    inBps: Math.round(delta('inputBytes') * 8),
+    outBps: Math.round(delta('outputBytes') * 8),
+    inPps: Math.round(delta('inputPackets')),
+    outPps: Math.round(delta('outputPackets')),
+    inErrors: counterDelta(previous.inputErrors, current.inputErrors),
+    outErrors: counterDelta(previous.outputErrors, current.outputErrors),
+    crcErrors: counterDelta(previous.crcErrors, current.crcErrors),
+  };
+}
+
+function utilization(sample: HistorySample): number | undefined {
+  if (!sample.speedBps) return undefined;
+  return (Math.max(sample.inBps, sample.outBps) / sample.speedBps) * 100;
+}
+
+/**
+ * Running totals of the samples in one step
+ */
+interface Step {
+  samples: number;
+  inBps: number;
+  outBps: number;
+  inBpsMax: number;
+  outBpsMax: number;
+  inPps: number;
+  outPps: number;
+  inErrors: number;
+  outErrors: number;
+  crcErrors: number;
+  utilizations: number;
+  utilization: number;
+  utilizationMax: number;
+}
+
+/**
+ * Accumulates samples into equal steps between `since` and `until`. Each
+ * sample only updates the totals of its step, so memory does not grow with
+ * the number of samples.
+ */
+class Downsampler {
+  readonly stepMs: number;
+  private readonly start: number;
+  private readonly steps = new Map<number, Step>();
+
+  constructor(query: HistoryQuery) {
+    this.start = query.since.getTime();
+    this.stepMs = Math.max(1000, Math.ceil((query.until.getTime() - this.start) / query.points));
+  }
+
+  add(sample: HistorySample): void {
+    const index = Math.floor((sample.t - this.start) / this.stepMs);
+    let step = this.steps.get(index);
+    if (!step) {
+      step = {
+        samples: 0,
+        inBps: 0,
+        outBps: 0,
+        inBpsMax: 0,
+        outBpsMax: 0,
+        inPps: 0,
+        outPps: 0,
+        inErrors: 0,
+        outErrors: 0,
+        crcErrors: 0,
+        utilizations: 0,
+        utilization: 0,
+        utilizationMax: 0,
+      };
+      this.steps.set(index, step);
+    }
+
+    step.samples++;
+    step.inBps += sample.inBps;
+    step.outBps += sample.outBps;
+    step.inBpsMax = step.samples === 1 ? sample.inBps : Math.max(step.inBpsMax, sample.inBps);
+    step.outBpsMax = step.samples === 1 ? sample.outBps : Math.max(step.outBpsMax, sample.outBps);
+    step.inPps += sample.inPps;
+    step.outPps += sample.outPps;
+    step.inErrors += sample.inErrors;
+    step.outErrors += sample.outErrors;
+    step.crcErrors += sample.crcErrors;
+    const percent = utilization(sample);
+    if (percent !== undefined) {
+      step.utilization += percent;
+      step.utilizationMax = step.utilizations === 0 ? percent : Math.max(step.utilizationMax, percent);
+      step.utilizations++;
+    }
+  }
+
+  points(): HistoryPoint[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return [...this.steps.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, step]) => {
+        const point: HistoryPoint = {
+          timestamp: new Date(this.start + index * this.stepMs).toISOString(),
+          samples: step.samples,
+          inBps: Math.round(step.inBps / step.samples),
+          outBps: Math.round(step.outBps / step.samples),
+          inBpsMax: step.inBpsMax,
+          outBpsMax: step.outBpsMax,
+          inPps: Math.round(step.inPps / step.samples),
+          outPps: Math.round(step.outPps / step.samples),
+          inErrors: step.inErrors,
+          outErrors: step.outErrors,
+          crcErrors: step.crcErrors,
+        };
+        if (step.utilizations > 0) {
+          point.utilization = round(step.utilization / step.utilizations);
+          point.utilizationMax = round(step.utilizationMax);
+        }
+        return point;
+      });
+  }
+}
+
+/**
+ * Average samples into at most `points` equal steps between `since` and `until`
+ */
+export function downsample(
+  samples: Iterable<HistorySample>,
+  query: HistoryQuery,
+): { stepMs: number; points: HistoryPoint[] } {
+  const downsampler = new Downsampler(query);
+  for (const sample of samples) {
+    downsampler.add(sample);
+  }
+  return { stepMs: downsampler.stepMs, points: downsampler.points() };
+}
+
+export class InterfaceHistory {
+  /** Last reading per device and port */
+  private readonly previous: Map<string, { at: number; counters: Map<string, InterfaceStatistics> }> = new Map();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private lastPrune = 0;
+
+  constructor(
+    private readonly baseDir: string,
+    private readonly devices: DeviceRegistry,
+    private readonly logger: winston.Logger,
+    private readonly options: InterfaceHistoryOptions,
+  ) {}
+
+  get recording(): boolean {
+    return this.options.intervalSeconds !== undefined;
+  }
+
+  /**
+   * Read counters now and then every interval. The first reading only sets the baseline.
+   */
+  start(): void {
+    const { intervalSeconds } = this.options;
+    if (intervalSeconds === undefined || this.running) return;
+    this.running = true;
+    logInfo(this.logger, 'Interface history recording started', {
+      directory: this.baseDir,
+      intervalSeconds,
+      retentionDays: this.options.retentionDays,
+    });
+
+    const tick = async () => {
+      await this.sample();
+      await this.prune().catch((error) => {
+        logWarn(this.logger, 'Interface history pruning failed', { error: formatError(error) });
+      });
+      if (this.running) {
+        this.timer = setTimeout(tick, intervalSeconds * 1000);
+        this.timer.unref?.();
+      }
+    };
+    void tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Read every device once and store the rates since its previous reading
+   */
+  async sample(): Promise<void> {
+    // Attributed in the audit log like a caller of its own
+    await runWithAuditContext({ user: 'interface-history' }, () =>
+      mapWithConcurrency(this.devices.getDevices(), SAMPLE_CONCURRENCY, async (device) => {
+        try {
+          await this.sampleDevice(device.name);
+        } catch (error) {
+          logWarn(this.logger, 'Interface history reading failed', {
+            device: device.name,
+            error: formatError(error),
+          });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Downsampled history of one port
+   */
+  async query(device: string, port: string, query: HistoryQuery): Promise<HistoryResult> {
+    if (query.until.getTime() <= query.since.getTime()) {
+      throw new ValidationError('"until" must be later than "since"', 'until');
+    }
+    if (query.until.getTime() - query.since.getTime() > MAX_QUERY_DAYS * DAY_MS) {
+      throw new ValidationError(`The time range may span at most ${MAX_QUERY_DAYS} days`, 'since');
+    }
+
+    const since = query.since.getTime();
+    const until = query.until.getTime();
+    const downsampler = new Downsampler(query);
+    for (let day = startOfDay(since); day <= until; day += DAY_MS) {
+      for await (const sample of readJsonLines<HistorySample>(this.dayPath(device, day))) {
+        if (sample.port === port && sample.t >= since && sample.t <= until) {
+          downsampler.add(sample);
+        }
+      }
+    }
+
+    const stepMs = downsampler.stepMs;
+    const points = downsampler.points();
+    return {
+      device,
+      interface: port,
+      since: query.since.toISOString(),
+      until: query.until.toISOString(),
+      stepSeconds: stepMs / 1000,
+      points,
+    };
+  }
+
+  private async sampleDevice(device: string): Promise<void> {
+    const { commandExecutor } = this.devices.resolve(device);
+    const stats = await commandExecutor.getInterfaceStatistics();
+    const at = Date.now();
+
+    // Speeds only add utilization, so a failed read still records the rates
+    const interfaces = await commandExecutor.getInterfaces().catch((): InterfaceInfo[] => []);
+    const speeds = new Map(interfaces.map((iface) => [iface.name, parseLinkSpeed(iface.speed)]));
+
+    const previous = this.previous.get(device);
+    this.previous.set(device, { at, counters: new Map(stats.map((stat) => [stat.interface, stat])) });
+    if (!previous) return;
+
+    const elapsedSeconds = (at - previous.at) / 1000;
+    const samples = stats.flatMap((stat) => {
+      const before = previous.counters.get(stat.interface);
+      if (!before) return [];
+      const sample = sampleRates(before, stat, elapsedSeconds, at);
+      const speedBps = speeds.get(stat.interface);
+      return [speedBps ? { ...sample, speedBps } : sample];
+    });
+    if (samples.length === 0) return;
+
+    await mkdir(this.deviceDir(device), { recursive: true });
+    await appendFile(this.dayPath(device, at), samples.map((sample) => `${JSON.stringify(sample)}\n`).join(''));
+  }
+
+  /**
+   * Delete days past the retention period, at most once a day
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPrune < DAY_MS) return;
+    this.lastPrune = now;
+
+    const oldest = dayName(startOfDay(now - this.options.retentionDays * DAY_MS));
+    for (const device of this.devices.getDevices()) {
+      let files: string[];
+      try {
+        files = await readdir(this.deviceDir(device.name));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+      for (const file of files) {
+        if (/^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file) && file.slice(0, 10) < oldest) {
+          await rm(path.join(this.deviceDir(device.name), file));
+        }
+      }
+    }
+  }
+
+  private deviceDir(device: string): string {
+    if (!device || device.includes('/') || device.includes('\\') || device.startsWith('.')) {
+      throw new ValidationError(`Device name "${device}" cannot be used as a history directory`, 'device');
+    }
+    return path.join(path.resolve(this.baseDir), device);
+  }
+
+  private dayPath(device: string, at: number): string {
+    return path.join(this.deviceDir(device), `${dayName(at)}.jsonl`);
+  }
+}
+
+function startOfDay(at: number): number {
+  return at - (at % DAY_MS);
+}
+
+function dayName(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
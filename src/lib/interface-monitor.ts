@@ -0,0 +1,279 @@
+/**
+ * Live interface monitoring for HTTP sessions.
+ *
+ * Each subscription polls one interface's counters at its interval and turns
+ * the difference between two polls into rates (bits and packets per second)
+ * and error deltas, which are pushed to the session that started it. Polls of
+ * a subscription never overlap. Subscriptions end when stopped, when their
+ * session disconnects, or after repeated poll failures.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type winston from 'winston';
+import { formatError, ValidationError } from '../core/errors.js';
+import { logInfo, logWarn } from '../core/logger.js';
+import type { InterfaceStatistics } from '../types/index.js';
+
+/**
+ * Rates and error deltas of one interface between two polls
+ */
+export interface InterfaceRates {
+  inputBps: number;
+  outputBps: number;
+  inputPps: number;
+  outputPps: number;
+  inputErrors: number;
+  outputErrors: number;
+  crcErrors: number;
+}
+
+export interface MonitorSample {
+  subscriptionId: string;
+  device: string;
+  interface: string;
+  timestamp: string;
+  /** Seconds between the two polls the rates are computed from */
+  elapsedSeconds: number;
+  /** Absent when a counter went backwards (cleared counters or a reboot); the next sample has rates again */
+  rates?: InterfaceRates;
+  counters: InterfaceStatistics;
+}
+
+/**
+ * Everything sent to a subscriber: samples, poll failures and the end of a subscription
+ */
+export type MonitorEvent =
+  | { type: 'sample'; sample: MonitorSample }
+  | { type: 'error'; subscriptionId: string; error: string }
+  | { type: 'stopped'; subscriptionId: string; reason: string };
+
+export interface MonitorSubscription {
+  id: string;
+  /** Session that receives the events */
+  owner: string;
+  device: string;
+  interfaceName: string;
+  intervalSeconds: number;
+  startedAt: string;
+  samples: number;
+  lastSample?: MonitorSample;
+}
+
+export interface MonitorStartOptions {
+  owner: string;
+  device: string;
+  interfaceName: string;
+  intervalSeconds: number;
+  /** Read the interface's current counters */
+  poll: () => Promise<InterfaceStatistics>;
+  send: (event: MonitorEvent) => Promise<void>;
+}
+
+/** Consecutive failed polls after which a subscription is stopped */
+const MAX_POLL_FAILURES = 3;
+
+/** Subscriptions one session may hold, to keep the switch CLI responsive */
+const MAX_SUBSCRIPTIONS_PER_OWNER = 10;
+
+interface ActiveSubscription {
+  info: MonitorSubscription;
+  options: MonitorStartOptions;
+  previous: { counters: InterfaceStatistics; at: number };
+  failures: number;
+  timer?: NodeJS.Timeout;
+  stopped: boolean;
+}
+
+/**
+ * Rates between two counter readings, or undefined when a counter decreased
+ */
+export function computeRates(
+  previous: InterfaceStatistics,
+  current: InterfaceStatistics,
+  elapsedSeconds: number,
+): InterfaceRates | undefined {
+  const delta = (key: keyof InterfaceStatistics) => (current[key] as number) - (previous[key] as number);
+  const counters = [
+    'inputBytes',
+    'outputBytes',
+    'inputPackets',
+    'outputPackets',
+    'inputErrors',
+    'outputErrors',
+    'crcErrors',
+  ] as const;
+  if (elapsedSeconds <= 0 || counters.some((key) => delta(key) < 0)) return undefined;
+
+  const perSecond = (value: number) => Math.round(value / elapsedSeconds);
+  return {
+    inputBps: perSecond(delta('inputBytes') * 8),
+    outputBps: perSecond(delta('outputBytes') * 8),
+    inputPps: perSecond(delta('inputPackets')),
+    outputPps: perSecond(delta('outputPackets')),
+    inputErrors: delta('inputErrors'),
+    outputErrors: delta('outputErrors'),
+    crcErrors: delta('crcErrors'),
+  };
+}
+
+export class InterfaceMonitor {
+  private readonly subscriptions: Map<string, ActiveSubscription> = new Map();
+
+  constructor(private readonly logger: winston.Logger) {}
+
+  /**
+   * Take a first reading (so an unknown interface fails here) and start polling
+   */
+  async start(options: MonitorStartOptions): Promise<MonitorSubscription> {
+    if (this.list(options.owner).length >= MAX_SUBSCRIPTIONS_PER_OWNER) {
+      throw new ValidationError(
+        `A session can monitor at most ${MAX_SUBSCRIPTIONS_PER_OWNER} interfaces; stop one first`,
+        'interfaceName',
+      );
+    }
+
+    const counters = await options.poll();
+    const subscription: ActiveSubscription = {
+      info: {
+        id: randomUUID(),
+        owner: options.owner,
+        device: options.device,
+        interfaceName: options.interfaceName,
+        intervalSeconds: options.intervalSeconds,
+        startedAt: new Date().toISOString(),
+        samples: 0,
+      },
+      options,
+      previous: { counters, at: Date.now() },
+      failures: 0,
+      stopped: false,
+    };
+    this.subscriptions.set(subscription.info.id, subscription);
+    this.schedule(subscription);
+
+    logInfo(this.logger, 'Interface monitoring started', {
+      subscriptionId: subscription.info.id,
+      owner: options.owner,
+      device: options.device,
+      interfaceName: options.interfaceName,
+      intervalSeconds: options.intervalSeconds,
+    });
+    return { ...subscription.info };
+  }
+
+  /**
+   * Stop a subscription. With `owner`, only that session's subscriptions can be stopped.
+   */
+  stop(id: string, owner?: string, reason = 'stopped by request'): MonitorSubscription {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription || (owner !== undefined && subscription.info.owner !== owner)) {
+      throw new ValidationError(`Unknown monitoring subscription ${id}`, 'subscriptionId');
+    }
+    this.end(subscription, reason, true);
+    return { ...subscription.info };
+  }
+
+  /**
+   * Stop every subscription of a session, e.g. when it disconnects. Nothing is sent.
+   */
+  stopOwner(owner: string): number {
+    const owned = [...this.subscriptions.values()].filter((subscription) => subscription.info.owner === owner);
+    for (const subscription of owned) {
+      this.end(subscription, 'session closed', false);
+    }
+    return owned.length;
+  }
+
+  stopAll(): void {
+    for (const subscription of [...this.subscriptions.values()]) {
+      this.end(subscription, 'server shutting down', false);
+    }
+  }
+
+  list(owner?: string): MonitorSubscription[] {
+    return [...this.subscriptions.values()]
+      .filter((subscription) => owner === undefined || subscription.info.owner === owner)
+      .map((subscription) => ({ ...subscription.info }));
+  }
+
+  private schedule(subscription: ActiveSubscription): void {
+    subscription.timer = setTimeout(() => {
+      void this.poll(subscription);
+    }, subscription.info.intervalSeconds * 1000);
+    subscription.timer.unref?.();
+  }
+
+  private async poll(subscription: ActiveSubscription): Promise<void> {
+    const { info, options } = subscription;
+
+    let counters: InterfaceStatistics;
+    try {
+      counters = await options.poll();
+    } catch (error) {
+      if (subscription.stopped) return;
+      subscription.failures++;
+      logWarn(this.logger, 'Interface monitoring poll failed', {
+        subscriptionId: info.id,
+        device: info.device,
+        failures: subscription.failures,
+        error: formatError(error),
+      });
+      if (subscription.failures >= MAX_POLL_FAILURES) {
+        this.end(subscription, `stopped after ${MAX_POLL_FAILURES} failed polls: ${formatError(error)}`, true);
+        return;
+      }
+      await this.deliver(subscription, { type: 'error', subscriptionId: info.id, error: formatError(error) });
+      if (!subscription.stopped) this.schedule(subscription);
+      return;
+    }
+    if (subscription.stopped) return;
+
+    const at = Date.now();
+    const elapsedSeconds = (at - subscription.previous.at) / 1000;
+    const sample: MonitorSample = {
+      subscriptionId: info.id,
+      device: info.device,
+      interface: info.interfaceName,
+      timestamp: new Date(at).toISOString(),
+      elapsedSeconds,
+      rates: computeRates(subscription.previous.counters, counters, elapsedSeconds),
+      counters,
+    };
+    subscription.previous = { counters, at };
+    subscription.failures = 0;
+    info.samples++;
+    info.lastSample = sample;
+
+    await this.deliver(subscription, { type: 'sample', sample });
+    if (!subscription.stopped) this.schedule(subscription);
+  }
+
+  /**
+   * Send an event; a subscriber that cannot be reached is dropped
+   */
+  private async deliver(subscription: ActiveSubscription, event: MonitorEvent): Promise<void> {
+    try {
+      await subscription.options.send(event);
+    } catch (error) {
+      logWarn(this.logger, 'Interface monitoring subscriber unreachable', {
+        subscriptionId: subscription.info.id,
+        error: formatError(error),
+      });
+      this.end(subscription, 'subscriber unreachable', false);
+    }
+  }
+
+  private end(subscription: ActiveSubscription, reason: string, notify: boolean): void {
+    if (subscription.stopped) return;
+    subscription.stopped = true;
+    clearTimeout(subscription.timer);
+    this.subscriptions.delete(subscription.info.id);
+    logInfo(this.logger, 'Interface monitoring stopped', { subscriptionId: subscription.info.id, reason });
+
+    if (notify) {
+      subscription.options
+        .send({ type: 'stopped', subscriptionId: subscription.info.id, reason })
+        .catch(() => undefined);
+    }
+  }
+}
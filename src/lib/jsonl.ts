@@ -0,0 +1,39 @@
+/**
+ * Streaming reader for the JSONL files kept by the history and audit stores.
+ * Lines are read one at a time so a large file is never held in memory.
+ */
+
+import { open } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+
+/**
+ * Yield the non-empty lines of a file; a missing file yields nothing
+ */
+export async function* readLines(filePath: string): AsyncGenerator<string> {
+  let handle: Awaited<ReturnType<typeof open>>;
+  try {
+    handle = await open(filePath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  const lines = createInterface({ input: handle.createReadStream(), crlfDelay: Number.POSITIVE_INFINITY });
+  try {
+    for await (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  } finally {
+    lines.close();
+    await handle.close().catch(() => undefined);
+  }
+}
+
+/**
+ * Yield each line of a JSONL file parsed as JSON; a missing file yields nothing
+ */
+export async function* readJsonLines<T>(filePath: string): AsyncGenerator<T> {
+  for await (const line of readLines(filePath)) {
+    yield JSON.parse(line) as T;
+  }
+}
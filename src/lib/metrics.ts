@@ -0,0 +1,264 @@
+/**
+ * Prometheus metrics for the HTTP server.
+ *
+ * Switch metrics (health, interface counters, optics, stack and neighbor
+ * counts) are read from every inventory device when /metrics is scraped, at
+ * most once per cache period so frequent scrapes do not load the switch CLI.
+ * Server metrics (tool calls and their latency, transport reconnects,
+ * connection state, Node.js process metrics) are always current.
+ */
+
+import { Counter, collectDefaultMetrics, Gauge, Histogram, Registry } from 'prom-client';
+import type winston from 'winston';
+import { formatError, UnsupportedPlatformError } from '../core/errors.js';
+import { logDebug, logWarn } from '../core/logger.js';
+import { runWithAuditContext } from './audit-log.js';
+import type { BrocadeCommandExecutor } from './brocade-commands.js';
+import type { DeviceRegistry } from './device-registry.js';
+import { mapWithConcurrency } from './fleet.js';
+
+/** Devices read in parallel during a scrape */
+const SCRAPE_CONCURRENCY = 4;
+
+/** Tool calls range from a cached lookup to a reload waiting for the switch */
+const TOOL_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+type SwitchSource = 'health' | 'interfaces' | 'optics' | 'stack' | 'lldp' | 'bgp' | 'ospf';
+
+/**
+ * Reading a counter from the switch: the value is mirrored, not accumulated
+ */
+function setCounter<T extends string>(counter: Counter<T>, labels: Partial<Record<T, string>>, value: number): void {
+  counter.inc(labels, Math.max(0, value));
+}
+
+export class MetricsRegistry {
+  readonly registry = new Registry();
+  private readonly toolCalls: Counter<'tool' | 'outcome'>;
+  private readonly toolDuration: Histogram<'tool'>;
+  private readonly sources: Record<SwitchSource, (executor: BrocadeCommandExecutor, device: string) => Promise<void>>;
+  private readonly switchMetrics: (Gauge<string> | Counter<string>)[] = [];
+  private readonly scrapeSuccess: Gauge<string>;
+  private readonly scrapeDuration: Gauge<string>;
+  private lastRefresh = 0;
+  private refreshing?: Promise<void>;
+
+  constructor(
+    private readonly devices: DeviceRegistry,
+    private readonly logger: winston.Logger,
+    private readonly cacheSeconds = 30,
+  ) {
+    const registers = [this.registry];
+    collectDefaultMetrics({ register: this.registry });
+
+    this.toolCalls = new Counter({
+      name: 'brocade_mcp_tool_calls_total',
+      help: 'MCP tool calls by tool and outcome',
+      labelNames: ['tool', 'outcome'],
+      registers,
+    });
+    this.toolDuration = new Histogram({
+      name: 'brocade_mcp_tool_call_duration_seconds',
+      help: 'MCP tool call latency',
+      labelNames: ['tool'],
+      buckets: TOOL_DURATION_BUCKETS,
+      registers,
+    });
+
+    new Counter({
+      name: 'brocade_transport_reconnects_total',
+      help: 'Reconnections of the SSH or Telnet session to a switch',
+      labelNames: ['device'],
+      registers,
+      collect() {
+        this.reset();
+        for (const connection of devices.getConnections()) {
+          setCounter(this, { device: connection.name }, connection.switchClient.getReconnectCount?.() ?? 0);
+        }
+      },
+    });
+    new Gauge({
+      name: 'brocade_device_connected',
+      help: 'Whether the session to a switch is open',
+      labelNames: ['device'],
+      registers,
+      collect() {
+        this.reset();
+        for (const device of devices.list()) {
+          this.set({ device: device.name }, device.connected ? 1 : 0);
+        }
+      },
+    });
+
+    const gauge = (name: string, help: string, labelNames: string[]) => {
+      const metric = new Gauge({ name, help, labelNames: ['device', ...labelNames], registers });
+      this.switchMetrics.push(metric);
+      return metric;
+    };
+    const counter = (name: string, help: string, labelNames: string[]) => {
+      const metric = new Counter({ name, help, labelNames: ['device', ...labelNames], registers });
+      this.switchMetrics.push(metric);
+      return metric;
+    };
+
+    this.scrapeSuccess = gauge('brocade_scrape_success', 'Whether the last read of a data source succeeded', [
+      'source',
+    ]);
+    this.scrapeDuration = gauge('brocade_scrape_duration_seconds', 'Time taken to read a switch', []);
+
+    const cpu = gauge('brocade_cpu_utilization_percent', 'CPU utilization', []);
+    const memory = gauge('brocade_memory_utilization_percent', 'Memory utilization', []);
+    const temperature = gauge('brocade_temperature_celsius', 'Chassis temperature', []);
+    const fanUp = gauge('brocade_fan_up', 'Whether a fan is working', ['fan']);
+    const psuUp = gauge('brocade_power_supply_up', 'Whether a power supply is working', ['psu']);
+
+    const portUp = gauge('brocade_interface_up', 'Whether a port is up', ['port']);
+    const portBytes = counter('brocade_interface_bytes_total', 'Bytes through a port', ['port', 'direction']);
+    const portPackets = counter('brocade_interface_packets_total', 'Packets through a port', ['port', 'direction']);
+    const portErrors = counter('brocade_interface_errors_total', 'Errors on a port', ['port', 'direction']);
+    const portCrc = counter('brocade_interface_crc_errors_total', 'CRC errors on a port', ['port']);
+    const portCollisions = counter('brocade_interface_collisions_total', 'Collisions on a port', ['port']);
+
+    const opticRx = gauge('brocade_optic_rx_power_dbm', 'Optic receive power', ['port']);
+    const opticTx = gauge('brocade_optic_tx_power_dbm', 'Optic transmit power', ['port']);
+    const opticTemperature = gauge('brocade_optic_temperature_celsius', 'Optic temperature', ['port']);
+    const opticVoltage = gauge('brocade_optic_voltage_volts', 'Optic supply voltage', ['port']);
+
+    const stackMembers = gauge('brocade_stack_members', 'Units in the stack', []);
+    const stackMember = gauge('brocade_stack_member_info', 'Stack units with their role, state and model', [
+      'unit',
+      'role',
+      'state',
+      'model',
+    ]);
+    const stackPortUp = gauge('brocade_stack_port_up', 'Whether a stacking port is up', ['unit', 'port']);
+
+    const lldpNeighbors = gauge('brocade_lldp_neighbors', 'LLDP neighbors', []);
+    const bgpNeighbors = gauge('brocade_bgp_neighbors', 'BGP neighbors by state', ['state']);
+    const ospfNeighbors = gauge('brocade_ospf_neighbors', 'OSPF neighbors by state', ['state']);
+
+    const countByState = (metric: Gauge<string>, device: string, states: string[]) => {
+      const counts = new Map<string, number>();
+      for (const state of states) counts.set(state, (counts.get(state) ?? 0) + 1);
+      for (const [state, count] of counts) metric.set({ device, state }, count);
+    };
+
+    this.sources = {
+      health: async (executor, device) => {
+        const health = await executor.getSystemHealth();
+        cpu.set({ device }, health.cpu.current);
+        memory.set({ device }, health.memory.utilization);
+        if (health.temperature) temperature.set({ device }, health.temperature.current);
+        for (const fan of health.fans ?? []) fanUp.set({ device, fan: fan.id }, fan.status === 'ok' ? 1 : 0);
+        for (const psu of health.powerSupplies ?? []) {
+          if (psu.status !== 'absent') psuUp.set({ device, psu: psu.id }, psu.status === 'ok' ? 1 : 0);
+        }
+      },
+      interfaces: async (executor, device) => {
+        for (const stat of await executor.getInterfaceStatistics()) {
+          const port = stat.interface;
+          portUp.set({ device, port }, stat.status === 'up' ? 1 : 0);
+          setCounter(portBytes, { device, port, direction: 'in' }, stat.inputBytes);
+          setCounter(portBytes, { device, port, direction: 'out' }, stat.outputBytes);
+          setCounter(portPackets, { device, port, direction: 'in' }, stat.inputPackets);
+          setCounter(portPackets, { device, port, direction: 'out' }, stat.outputPackets);
+          setCounter(portErrors, { device, port, direction: 'in' }, stat.inputErrors);
+          setCounter(portErrors, { device, port, direction: 'out' }, stat.outputErrors);
+          setCounter(portCrc, { device, port }, stat.crcErrors);
+          setCounter(portCollisions, { device, port }, stat.collisions);
+        }
+      },
+      optics: async (executor, device) => {
+        for (const optic of await executor.getOpticalModuleInfo()) {
+          if (!optic.present) continue;
+          const port = optic.port;
+          if (optic.rxPower !== undefined) opticRx.set({ device, port }, optic.rxPower);
+          if (optic.txPower !== undefined) opticTx.set({ device, port }, optic.txPower);
+          if (optic.temperature !== undefined) opticTemperature.set({ device, port }, optic.temperature);
+          if (optic.voltage !== undefined) opticVoltage.set({ device, port }, optic.voltage);
+        }
+      },
+      stack: async (executor, device) => {
+        const stack = await executor.getStackTopology();
+        stackMembers.set({ device }, stack.totalMembers);
+        for (const member of stack.members) {
+          stackMember.set(
+            { device, unit: String(member.unitId), role: member.role, state: member.state, model: member.model },
+            1,
+          );
+        }
+        for (const port of stack.stackPorts) {
+          stackPortUp.set({ device, unit: String(port.unitId), port: port.portId }, port.status === 'up' ? 1 : 0);
+        }
+      },
+      lldp: async (executor, device) => {
+        lldpNeighbors.set({ device }, (await executor.getLLDPNeighbors()).length);
+      },
+      bgp: async (executor, device) => {
+        countByState(
+          bgpNeighbors,
+          device,
+          (await executor.getBGPNeighbors()).map((neighbor) => neighbor.state),
+        );
+      },
+      ospf: async (executor, device) => {
+        countByState(
+          ospfNeighbors,
+          device,
+          (await executor.getOSPFNeighbors()).map((neighbor) => neighbor.state),
+        );
+      },
+    };
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  recordToolCall(tool: string, success: boolean, durationMs: number): void {
+    this.toolCalls.inc({ tool, outcome: success ? 'success' : 'error' });
+    this.toolDuration.observe({ tool }, durationMs / 1000);
+  }
+
+  /**
+   * Exposition text for a scrape, re-reading the switches when the cached readings are too old
+   */
+  async metrics(): Promise<string> {
+    if (Date.now() - this.lastRefresh >= this.cacheSeconds * 1000) {
+      this.refreshing ??= this.refresh().finally(() => {
+        this.refreshing = undefined;
+      });
+      await this.refreshing;
+    }
+    return this.registry.metrics();
+  }
+
+  private async refresh(): Promise<void> {
+    for (const metric of this.switchMetrics) metric.reset();
+
+    // Attributed in the audit log like a caller of its own
+    await runWithAuditContext({ user: 'metrics' }, () =>
+      mapWithConcurrency(this.devices.getDevices(), SCRAPE_CONCURRENCY, async (device) => {
+        const start = Date.now();
+        const { commandExecutor } = this.devices.resolve(device.name);
+        for (const source of Object.keys(this.sources) as SwitchSource[]) {
+          try {
+            await this.sources[source](commandExecutor, device.name);
+            this.scrapeSuccess.set({ device: device.name, source }, 1);
+          } catch (error) {
+            this.scrapeSuccess.set({ device: device.name, source }, 0);
+            // Sources the platform lacks fail on every scrape; not worth a warning each time
+            const log = error instanceof UnsupportedPlatformError ? logDebug : logWarn;
+            log(this.logger, 'Metrics source unavailable', {
+              device: device.name,
+              source,
+              error: formatError(error),
+            });
+          }
+        }
+        this.scrapeDuration.set({ device: device.name }, (Date.now() - start) / 1000);
+      }),
+    );
+    this.lastRefresh = Date.now();
+  }
+}
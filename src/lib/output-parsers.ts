@@ -0,0 +1,337 @@
+/**
+ * Built-in output parsers and their entry schemas.
+ *
+ * Each parser is checked against the raw outputs under tests/golden, one
+ * directory per command. A parser warns about lines it recognizes but cannot
+ * read, and leaves fields it did not find unset so the schema rejects the
+ * entry instead of the parser guessing a value.
+ */
+
+import { z } from 'zod';
+import type { ACL, ACLRule, InterfaceStatistics, Layer3Interface, PortChannel } from '../types/index.js';
+import { expandPortList } from './config-parser.js';
+import { type OutputParser, ParserRegistry } from './parser-registry.js';
+
+const counter = z.number().int().min(0);
+const linkStatus = z.enum(['up', 'down']);
+
+export const InterfaceStatisticsSchema: z.ZodType<InterfaceStatistics> = z.object({
+  interface: z.string().min(1),
+  status: linkStatus,
+  inputPackets: counter,
+  outputPackets: counter,
+  inputBytes: counter,
+  outputBytes: counter,
+  inputErrors: counter,
+  outputErrors: counter,
+  crcErrors: counter,
+  collisions: counter,
+  inputRate: z.number().min(0).optional(),
+  outputRate: z.number().min(0).optional(),
+  utilization: z.number().min(0).max(100).optional(),
+});
+
+export const PortChannelSchema: z.ZodType<PortChannel> = z.object({
+  id: z.number().int().min(1),
+  name: z.string().optional(),
+  type: z.enum(['static', 'lacp']),
+  ports: z.array(z.string()).min(1),
+  status: linkStatus,
+  loadBalancing: z.string().optional(),
+});
+
+export const Layer3InterfaceSchema: z.ZodType<Layer3Interface> = z.object({
+  name: z.string().min(1),
+  vlan: z.number().int().min(1).max(4095).optional(),
+  ipAddress: z.ipv4().optional(),
+  subnet: z.string().optional(),
+  status: linkStatus,
+  mtu: z.number().int().positive().optional(),
+});
+
+const ACLRuleSchema: z.ZodType<ACLRule> = z.object({
+  sequence: z.number().int().min(0),
+  action: z.enum(['permit', 'deny']),
+  protocol: z.string().min(1),
+  sourceIp: z.string().optional(),
+  sourceWildcard: z.string().optional(),
+  destIp: z.string().optional(),
+  destWildcard: z.string().optional(),
+  sourcePort: z.string().optional(),
+  destPort: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const ACLSchema: z.ZodType<ACL> = z.object({
+  name: z.string().min(1),
+  type: z.enum(['standard', 'extended']),
+  rules: z.array(ACLRuleSchema),
+});
+
+/** Counter labels of `show statistics` and the fields they fill */
+const STATISTICS_COUNTERS: Record<string, keyof InterfaceStatistics> = {
+  InOctets: 'inputBytes',
+  OutOctets: 'outputBytes',
+  InPkts: 'inputPackets',
+  OutPkts: 'outputPackets',
+  InErrors: 'inputErrors',
+  OutErrors: 'outputErrors',
+  CRC: 'crcErrors',
+  Collisions: 'collisions',
+  InBitsPerSec: 'inputRate',
+  OutBitsPerSec: 'outputRate',
+};
+
+/**
+ * `show statistics [ethernet X]`: per port, the brief line with the link
+ * state followed by a "Port X Counters:" block of label/value pairs
+ */
+export const interfaceStatisticsParser: OutputParser<InterfaceStatistics> = {
+  name: 'interface-statistics',
+  command: 'interfaceStatistics',
+  schema: InterfaceStatisticsSchema,
+  parse(output, warn) {
+    const linkStates = new Map<string, 'up' | 'down'>();
+    const stats: Partial<InterfaceStatistics>[] = [];
+    let current: Partial<InterfaceStatistics> | null = null;
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+
+      const brief = trimmed.match(/^(\d+(?:\/\d+)+)\s+(Up|Down|Disabled?|Err-Dis\S*)\s/i);
+      if (brief) {
+        linkStates.set(brief[1], brief[2].toLowerCase() === 'up' ? 'up' : 'down');
+        continue;
+      }
+
+      const block = trimmed.match(/^Port\s+(\S+)\s+Counters:/i);
+      if (block) {
+        current = { interface: block[1], status: linkStates.get(block[1]) };
+        if (!current.status) warn(`no link state for port ${block[1]}`);
+        stats.push(current);
+        continue;
+      }
+      if (!current) continue;
+
+      for (const [, label, value] of trimmed.matchAll(/([A-Za-z]+)\s+([\d.]+)(%?)/g)) {
+        if (/Utilization$/.test(label)) {
+          current.utilization = Math.max(current.utilization ?? 0, Number.parseFloat(value));
+          continue;
+        }
+        const field = STATISTICS_COUNTERS[label];
+        if (field) (current as Record<string, unknown>)[field] = Number.parseInt(value, 10);
+      }
+    }
+
+    return stats as InterfaceStatistics[];
+  },
+};
+
+/**
+ * `show lag`: one `=== LAG "name" ID n (dynamic Deployed) ===` section per
+ * LAG with its port list and member link table
+ */
+export const portChannelsParser: OutputParser<PortChannel> = {
+  name: 'port-channels',
+  command: 'portChannels',
+  schema: PortChannelSchema,
+  empty: /Total number of LAGs:\s+0\b/i,
+  parse(output) {
+    const channels: (PortChannel & { deployed: boolean; linksUp: number })[] = [];
+    let current: (typeof channels)[number] | null = null;
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+
+      const header = trimmed.match(/^=+\s*LAG\s+"([^"]*)"\s+ID\s+(\d+)\s+\((\S+)\s+(Deployed|Not Deployed)\)/i);
+      if (header) {
+        current = {
+          id: Number.parseInt(header[2], 10),
+          name: header[1] || undefined,
+          type: header[3].toLowerCase() === 'dynamic' ? 'lacp' : 'static',
+          ports: [],
+          status: 'down',
+          deployed: header[4].toLowerCase() === 'deployed',
+          linksUp: 0,
+        };
+        channels.push(current);
+        continue;
+      }
+      if (!current) continue;
+
+      const ports = trimmed.match(/^Ports:\s+(.+)$/i);
+      if (ports) {
+        current.ports = expandPortList(ports[1]);
+        continue;
+      }
+
+      const trunkType = trimmed.match(/^Trunk Type:\s+(\S+)/i);
+      if (trunkType) {
+        current.loadBalancing = trunkType[1];
+        continue;
+      }
+
+      const member = trimmed.match(/^(\d+(?:\/\d+)+)\s+(Up|Down|Disabled?|Err-Dis\S*)\s/i);
+      if (member && current.ports.includes(member[1]) && member[2].toLowerCase() === 'up') {
+        current.linksUp++;
+      }
+    }
+
+    return channels.map(({ deployed, linksUp, ...channel }) => ({
+      ...channel,
+      status: deployed && linksUp > 0 ? 'up' : 'down',
+    }));
+  },
+};
+
+/** Abbreviated interface types of `show ip interface`, as the configuration spells them */
+const INTERFACE_TYPES: Record<string, string> = { eth: 'ethernet', lb: 'loopback', mgmt: 'management' };
+
+/**
+ * `show ip interface`: one row per routed interface, with a VRF column on
+ * images that support VRFs
+ */
+export const layer3InterfacesParser: OutputParser<Layer3Interface> = {
+  name: 'layer3-interfaces',
+  command: 'layer3Interfaces',
+  schema: Layer3InterfaceSchema,
+  empty: /^\s*Interface\s+IP-Address/im,
+  parse(output, warn) {
+    const interfaces: Layer3Interface[] = [];
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || /^Interface\s+IP-Address/i.test(trimmed)) continue;
+
+      const row = trimmed.match(
+        /^(ve|ethernet|eth|loopback|lb|tunnel|management|mgmt)\s+(\S+)\s+(\d{1,3}(?:\.\d{1,3}){3})\s+\S+\s+\S+\s+(administratively down|up|down)\s+(up|down)\b/i,
+      );
+      if (!row) {
+        if (/^(ve|ethernet|eth|loopback|lb|tunnel|management|mgmt)\s/i.test(trimmed)) {
+          warn(`unrecognized interface row "${trimmed}"`);
+        }
+        continue;
+      }
+
+      const type = INTERFACE_TYPES[row[1].toLowerCase()] ?? row[1].toLowerCase();
+      const iface: Layer3Interface = {
+        name: type === 've' ? `ve${row[2]}` : `${type} ${row[2]}`,
+        ipAddress: row[3],
+        status: row[4].toLowerCase() === 'up' && row[5].toLowerCase() === 'up' ? 'up' : 'down',
+      };
+      if (type === 've') iface.vlan = Number.parseInt(row[2], 10);
+      interfaces.push(iface);
+    }
+
+    return interfaces;
+  },
+};
+
+/**
+ * Address of an ACL rule: "any", "host A.B.C.D", a prefix or an address
+ * and wildcard, consumed from the front of `tokens`
+ */
+function takeAddress(tokens: string[]): { ip: string; wildcard?: string } | undefined {
+  const token = tokens.shift();
+  if (!token) return undefined;
+  if (token.toLowerCase() === 'any') return { ip: 'any' };
+  if (token.toLowerCase() === 'host') {
+    const host = tokens.shift();
+    return host ? { ip: host, wildcard: '0.0.0.0' } : undefined;
+  }
+  if (/^\d{1,3}(?:\.\d{1,3}){3}\/\d{1,2}$/.test(token)) return { ip: token };
+  if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(token)) {
+    if (tokens[0] && /^\d{1,3}(?:\.\d{1,3}){3}$/.test(tokens[0])) return { ip: token, wildcard: tokens.shift() };
+    return { ip: token, wildcard: '0.0.0.0' };
+  }
+  tokens.unshift(token);
+  return undefined;
+}
+
+/** Port match of an ACL rule, as "eq ssh" or "range 1000 2000" */
+function takePort(tokens: string[]): string | undefined {
+  const operator = tokens[0]?.toLowerCase();
+  if (operator === 'range' && tokens.length >= 3) return tokens.splice(0, 3).join(' ');
+  if ((operator === 'eq' || operator === 'neq' || operator === 'gt' || operator === 'lt') && tokens.length >= 2) {
+    return tokens.splice(0, 2).join(' ');
+  }
+  return undefined;
+}
+
+/**
+ * `show access-list`: a header per list followed by its rules, each as
+ * "10: permit tcp any host 10.0.0.5 eq ssh" (older images omit the colon)
+ */
+export const aclsParser: OutputParser<ACL> = {
+  name: 'acls',
+  command: 'acls',
+  schema: ACLSchema,
+  empty: /^\s*(?:No (?:IP )?access[- ]lists?|Total (?:number of )?(?:IP )?access[- ]lists?:?\s+0\b)/im,
+  parse(output, warn) {
+    const acls: ACL[] = [];
+    let current: ACL | null = null;
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      const header = trimmed.match(/^(Standard|Extended) IP access list (\S+?)(?:\s*:.*|\s*\(.*)?$/i);
+      if (header) {
+        current = { name: header[2], type: header[1].toLowerCase() as ACL['type'], rules: [] };
+        acls.push(current);
+        continue;
+      }
+      if (!current) continue;
+
+      const ruleMatch = trimmed.match(/^(\d+):?\s+(permit|deny)\s+(.+)$/i);
+      if (!ruleMatch) {
+        if (!/entries|^Total\b/i.test(trimmed)) warn(`unrecognized line in ${current.name}: "${trimmed}"`);
+        continue;
+      }
+
+      const tokens = ruleMatch[3].split(/\s+/);
+      const rule: ACLRule = {
+        sequence: Number.parseInt(ruleMatch[1], 10),
+        action: ruleMatch[2].toLowerCase() as ACLRule['action'],
+        protocol: current.type === 'standard' ? 'ip' : (tokens.shift() ?? ''),
+      };
+
+      const source = takeAddress(tokens);
+      if (!source) {
+        warn(`unrecognized source address in ${current.name} rule ${rule.sequence}: "${trimmed}"`);
+        current.rules.push(rule);
+        continue;
+      }
+      rule.sourceIp = source.ip;
+      if (source.wildcard) rule.sourceWildcard = source.wildcard;
+
+      if (current.type === 'extended') {
+        const sourcePort = takePort(tokens);
+        if (sourcePort) rule.sourcePort = sourcePort;
+        const destination = takeAddress(tokens);
+        if (!destination) {
+          warn(`unrecognized destination address in ${current.name} rule ${rule.sequence}: "${trimmed}"`);
+        } else {
+          rule.destIp = destination.ip;
+          if (destination.wildcard) rule.destWildcard = destination.wildcard;
+          const destPort = takePort(tokens);
+          if (destPort) rule.destPort = destPort;
+        }
+      }
+
+      current.rules.push(rule);
+    }
+
+    return acls;
+  },
+};
+
+export const BUILTIN_PARSERS = [
+  interfaceStatisticsParser,
+  portChannelsParser,
+  layer3InterfacesParser,
+  aclsParser,
+] as OutputParser<unknown>[];
+
+/** Registry the command executor uses unless given another */
+export const defaultParserRegistry = new ParserRegistry(BUILTIN_PARSERS);
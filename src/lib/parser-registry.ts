@@ -0,0 +1,141 @@
+/**
+ * Registry of output parsers keyed by command and platform.
+ *
+ * Each parser turns raw CLI output into entries and declares a Zod schema
+ * for one entry. The registry validates every entry against it, dropping the
+ * ones that do not conform, and reports what went wrong as warnings rather
+ * than handing back a silently short or empty list. Warnings raised while a
+ * tool runs are collected through AsyncLocalStorage, like the audit context,
+ * and returned with the tool result.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { z } from 'zod';
+import { ValidationError } from '../core/errors.js';
+import type { PlatformInfo } from '../types/index.js';
+import { detectCliError } from './cli-errors.js';
+
+export interface OutputParser<T> {
+  /** Unique name, prefixed to the warnings of the parser */
+  name: string;
+  /** What the output describes, e.g. "interfaceStatistics" */
+  command: string;
+  /**
+   * Families ("ICX7150"), firmware trains ("10.0") or platform profile names the
+   * parser is written for; a parser without them handles every platform
+   */
+  platforms?: string[];
+  /** Schema of one parsed entry */
+  schema: z.ZodType<T>;
+  /** Output that legitimately holds no entries, e.g. "Total number of LAGs: 0" */
+  empty?: RegExp;
+  parse(output: string, warn: (message: string) => void): T[];
+}
+
+export interface ParseResult<T> {
+  entries: T[];
+  warnings: string[];
+}
+
+const warningCollector = new AsyncLocalStorage<string[]>();
+
+/**
+ * Run `fn`, returning its result with the parse warnings raised inside it
+ */
+export async function collectParseWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: string[] }> {
+  const warnings: string[] = [];
+  const result = await warningCollector.run(warnings, fn);
+  return { result, warnings };
+}
+
+export class ParserRegistry {
+  private readonly parsers: OutputParser<unknown>[] = [];
+
+  constructor(parsers: OutputParser<unknown>[] = []) {
+    for (const parser of parsers) this.register(parser);
+  }
+
+  /**
+   * Add a parser. A parser registered later for the same command and platforms replaces the earlier one.
+   */
+  register<T>(parser: OutputParser<T>): this {
+    const index = this.parsers.findIndex(
+      (existing) =>
+        existing.name === parser.name ||
+        (existing.command === parser.command &&
+          (existing.platforms ?? []).join(',') === (parser.platforms ?? []).join(',')),
+    );
+    if (index >= 0) this.parsers.splice(index, 1);
+    this.parsers.push(parser as OutputParser<unknown>);
+    return this;
+  }
+
+  list(): OutputParser<unknown>[] {
+    return [...this.parsers];
+  }
+
+  /**
+   * Whether the choice of parser for a command depends on the platform
+   */
+  hasPlatformParsers(command: string): boolean {
+    return this.parsers.some((parser) => parser.command === command && parser.platforms !== undefined);
+  }
+
+  /**
+   * The parser for a command on a platform: one written for the platform if
+   * there is one, the generic parser otherwise
+   */
+  resolve<T>(command: string, platform?: PlatformInfo): OutputParser<T> {
+    // Newest first, so a plugin registered later takes precedence
+    const candidates = this.parsers.filter((parser) => parser.command === command).reverse();
+    const keys = platform
+      ? [platform.family, platform.firmwareTrain, ...platform.profiles].filter((key): key is string => !!key)
+      : [];
+    const parser =
+      candidates.find((candidate) => candidate.platforms?.some((key) => keys.includes(key))) ??
+      candidates.find((candidate) => candidate.platforms === undefined);
+    if (!parser) {
+      throw new ValidationError(`No parser registered for ${command}`, 'command');
+    }
+    return parser as OutputParser<T>;
+  }
+
+  /**
+   * Parse and validate output, reporting the warnings to the current collector as well
+   */
+  parse<T>(command: string, output: string, platform?: PlatformInfo): ParseResult<T> {
+    const parser = this.resolve<T>(command, platform);
+    const warnings: string[] = [];
+    const warn = (message: string) => warnings.push(`${parser.name}: ${message}`);
+
+    const cliError = detectCliError(output);
+    let entries: T[] = [];
+    if (cliError) {
+      warn(`the switch rejected the command: ${cliError}`);
+    } else {
+      try {
+        entries = parser.parse(output, warn);
+      } catch (error) {
+        warn(`parsing failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const valid: T[] = [];
+    entries.forEach((entry, index) => {
+      const result = parser.schema.safeParse(entry);
+      if (result.success) {
+        valid.push(result.data);
+      } else {
+        const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+        warn(`dropped entry ${index + 1}, ${issues}`);
+      }
+    });
+
+    if (!cliError && entries.length === 0 && output.trim() !== '' && !parser.empty?.test(output)) {
+      warn(`no entries recognized in ${output.trim().split('\n').length} lines of output`);
+    }
+
+    warningCollector.getStore()?.push(...warnings);
+    return { entries: valid, warnings };
+  }
+}
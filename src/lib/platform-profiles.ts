@@ -0,0 +1,215 @@
+/**
+ * Platform profiles: the CLI variants of ICX models and FastIron trains.
+ *
+ * The executor asks for a command by what it does (e.g. `opticalModules`)
+ * and gets the CLI for the connected switch, detected from `show version`.
+ * Profiles are applied in order on top of the default commands, so a later,
+ * more specific profile wins. A command a profile marks unsupported fails
+ * with UnsupportedPlatformError instead of sending CLI the switch rejects or
+ * answers with unrelated output.
+ */
+
+import { UnsupportedPlatformError } from '../core/errors.js';
+import type { PlatformInfo, SystemInfo } from '../types/index.js';
+
+export type PlatformCommand =
+  | 'opticalModules'
+  | 'chassis'
+  | 'speedDuplex'
+  | 'cableDiagnostics'
+  | 'bgpNeighbors'
+  | 'ospfNeighbors'
+  | 'stack'
+  | 'stackPorts';
+
+/** Output layouts of commands whose output changed along with the CLI */
+export type OutputFormat = 'optical-monitor' | 'optic-table';
+
+export interface CommandVariant {
+  /** CLI for the optional argument (a port, a speed) */
+  cli: (arg?: string) => string;
+  /** Layout the executor parses; the default layout when absent */
+  format?: OutputFormat;
+}
+
+export interface PlatformProfile {
+  name: string;
+  description: string;
+  /** Families the profile applies to, as "ICX7150"; every family when absent */
+  families?: string[];
+  /** Oldest FastIron train the profile applies to, as "09.0" */
+  minFirmware?: string;
+  /** Newest FastIron train the profile applies to */
+  maxFirmware?: string;
+  commands?: Partial<Record<PlatformCommand, CommandVariant>>;
+  /** Commands the platform lacks, with the reason given to the caller */
+  unsupported?: Partial<Record<PlatformCommand, string>>;
+}
+
+const COMMAND_LABELS: Record<PlatformCommand, string> = {
+  opticalModules: 'Optical monitoring',
+  chassis: 'Chassis readings',
+  speedDuplex: 'Speed and duplex settings',
+  cableDiagnostics: 'Cable diagnostics',
+  bgpNeighbors: 'BGP',
+  ospfNeighbors: 'OSPF',
+  stack: 'Stacking',
+  stackPorts: 'Stacking',
+};
+
+export const DEFAULT_COMMANDS: Record<PlatformCommand, CommandVariant> = {
+  opticalModules: {
+    cli: (port) => (port ? `show optical-monitor ethernet ${port}` : 'show optical-monitor'),
+    format: 'optical-monitor',
+  },
+  // `show chassis` is the same on every ICX family, so no profile overrides it
+  chassis: { cli: () => 'show chassis' },
+  speedDuplex: { cli: (speed) => `speed-duplex ${speed}` },
+  cableDiagnostics: { cli: (port) => `cable-diagnostics tdr interface ethernet ${port}` },
+  bgpNeighbors: { cli: () => 'show ip bgp neighbors' },
+  ospfNeighbors: { cli: () => 'show ip ospf neighbor' },
+  stack: { cli: () => 'show stack' },
+  stackPorts: { cli: () => 'show stack-port' },
+};
+
+/** Speeds written as bits, mapped to the FastIron speed-duplex keywords of the ICX 7000 series */
+const ICX7000_SPEEDS: Record<string, string> = {
+  '10000-full': '10g-full',
+  '10g': '10g-full',
+};
+
+/** Multigigabit speeds, on the ICX 7150 and 7650 models with 2.5G/5G ports */
+const MULTIGIG_SPEEDS: Record<string, string> = {
+  ...ICX7000_SPEEDS,
+  '2.5g': '2500-full',
+  '5000-full': '5g-full',
+  '5g': '5g-full',
+};
+
+function speedDuplexVariant(keywords: Record<string, string>): CommandVariant {
+  return { cli: (speed = '') => `speed-duplex ${keywords[speed.toLowerCase()] ?? speed}` };
+}
+
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    name: 'icx6400',
+    description: 'ICX 6430 and 6450: Layer 3 images without BGP',
+    families: ['ICX6430', 'ICX6450'],
+    commands: {
+      // Their last train, 08.0.30, predates the cable-diagnostics command
+      cableDiagnostics: { cli: (port) => `phy cable-diag tdr ${port}` },
+    },
+    unsupported: {
+      bgpNeighbors: 'the ICX 6430 and 6450 images do not include BGP',
+    },
+  },
+  {
+    name: 'icx6430',
+    description: 'ICX 6430: base Layer 3 without OSPF',
+    families: ['ICX6430'],
+    unsupported: {
+      ospfNeighbors: 'the ICX 6430 runs the switch image only, without OSPF',
+    },
+  },
+  {
+    name: 'icx7250-7450',
+    description: 'ICX 7250 and 7450: 10G speeds as "10g-full"',
+    families: ['ICX7250', 'ICX7450'],
+    commands: {
+      speedDuplex: speedDuplexVariant(ICX7000_SPEEDS),
+    },
+  },
+  {
+    name: 'icx7150',
+    description: 'ICX 7150: multigigabit speeds, and OSPF as the only routing protocol',
+    families: ['ICX7150'],
+    commands: {
+      speedDuplex: speedDuplexVariant(MULTIGIG_SPEEDS),
+    },
+    unsupported: {
+      bgpNeighbors: 'the ICX 7150 image routes with static routes, RIP and OSPF only',
+    },
+  },
+  {
+    name: 'icx7650',
+    description: 'ICX 7650: multigigabit speeds',
+    families: ['ICX7650'],
+    commands: {
+      speedDuplex: speedDuplexVariant(MULTIGIG_SPEEDS),
+    },
+  },
+  {
+    name: 'fastiron-09',
+    description: 'FastIron 09.0 and later: digital optical monitoring as a table under "show optic"',
+    minFirmware: '09.0',
+    commands: {
+      opticalModules: { cli: (port) => (port ? `show optic ${port}` : 'show optic'), format: 'optic-table' },
+    },
+  },
+];
+
+/**
+ * Family and firmware train of a switch, with the profiles that apply to it
+ */
+export function detectPlatform(info: SystemInfo, profiles: PlatformProfile[] = PLATFORM_PROFILES): PlatformInfo {
+  const family = info.model.match(/ICX\s*-?(\d{4})/i)?.[1];
+  const train = info.firmwareVersion.match(/(\d{2})\.(\d)\.\d{2,3}/);
+  const platform: PlatformInfo = {
+    family: family ? `ICX${family}` : undefined,
+    model: info.model,
+    firmwareVersion: info.firmwareVersion,
+    firmwareTrain: train ? `${train[1]}.${train[2]}` : undefined,
+    profiles: [],
+  };
+  platform.profiles = profiles.filter((profile) => matches(profile, platform)).map((profile) => profile.name);
+  return platform;
+}
+
+function matches(profile: PlatformProfile, platform: PlatformInfo): boolean {
+  if (profile.families && !(platform.family && profile.families.includes(platform.family))) return false;
+  if (profile.minFirmware || profile.maxFirmware) {
+    if (!platform.firmwareTrain) return false;
+    const train = trainNumber(platform.firmwareTrain);
+    if (profile.minFirmware && train < trainNumber(profile.minFirmware)) return false;
+    if (profile.maxFirmware && train > trainNumber(profile.maxFirmware)) return false;
+  }
+  return true;
+}
+
+/** "08.0" -> 80, "10.0" -> 100 */
+function trainNumber(train: string): number {
+  const [major, minor] = train.split('.').map(Number);
+  return major * 10 + (minor ?? 0);
+}
+
+/**
+ * The variant of a command for a platform, throwing when the platform does not offer it
+ */
+export function resolveCommand(
+  platform: PlatformInfo,
+  command: PlatformCommand,
+  profiles: PlatformProfile[] = PLATFORM_PROFILES,
+): CommandVariant {
+  let variant = DEFAULT_COMMANDS[command];
+  let unsupported: string | undefined;
+  for (const profile of profiles) {
+    if (!platform.profiles.includes(profile.name)) continue;
+    const override = profile.commands?.[command];
+    if (override) {
+      variant = override;
+      unsupported = undefined;
+    }
+    const reason = profile.unsupported?.[command];
+    if (reason) unsupported = reason;
+  }
+
+  if (unsupported) {
+    const switchName = `${platform.family ?? platform.model} (${platform.firmwareVersion || 'unknown firmware'})`;
+    throw new UnsupportedPlatformError(
+      `${COMMAND_LABELS[command]} is not supported on this platform, ${switchName}: ${unsupported}`,
+      command,
+      { platform: switchName, profiles: platform.profiles },
+    );
+  }
+  return variant;
+}
@@ -0,0 +1,174 @@
+/**
+ * Role-based authorization of tool calls.
+ *
+ * Deny rules win over allow rules, and a call no allow rule covers is denied.
+ * Roles collect the rules of the roles they inherit from.
+ */
+
+import { AuthorizationError } from '../core/errors.js';
+import { type ArgConstraint, BUILT_IN_ROLES, type Policy, type PolicyRole, type PolicyRule } from '../core/policy.js';
+import { globToRegExp } from './fleet.js';
+
+/**
+ * What is being called, as seen by the policy
+ */
+export interface AuthorizationRequest {
+  tool: string;
+  category: string;
+  privileged: boolean;
+  /** Target device (the inventory default when the call names none) */
+  device: string;
+  args: Record<string, unknown>;
+}
+
+export interface AuthorizationDecision {
+  allowed: boolean;
+  role: string;
+  reason: string;
+}
+
+export class PolicyEngine {
+  private readonly roles: Record<string, PolicyRole>;
+
+  constructor(private readonly policy: Policy) {
+    this.roles = { ...BUILT_IN_ROLES, ...policy.roles };
+  }
+
+  hasRole(role: string): boolean {
+    return role in this.roles;
+  }
+
+  /**
+   * Role of an MCP client: the first matching `clients` entry, else the default role
+   */
+  resolveRole(client?: string): string {
+    const entry = client
+      ? this.policy.clients.find((candidate) => globToRegExp(candidate.match).test(client))
+      : undefined;
+    return entry?.role ?? this.policy.defaultRole;
+  }
+
+  authorize(role: string, request: AuthorizationRequest): AuthorizationDecision {
+    const rules = this.collectRules(role, new Set());
+    const matching = rules.filter((rule) => selectorsMatch(rule, request));
+
+    const deny = matching.find((rule) => rule.effect === 'deny' && denyArgsMatch(rule.args, request.args));
+    if (deny) {
+      return {
+        allowed: false,
+        role,
+        reason: deny.description ?? `Role "${role}" is denied tool "${request.tool}" by policy`,
+      };
+    }
+
+    const violations: string[] = [];
+    for (const rule of matching.filter((candidate) => candidate.effect === 'allow')) {
+      const violation = findArgViolation(rule.args, request.args);
+      if (!violation) {
+        return { allowed: true, role, reason: rule.description ?? 'allowed by policy' };
+      }
+      violations.push(violation);
+    }
+
+    return {
+      allowed: false,
+      role,
+      reason: violations[0] ?? `Role "${role}" is not allowed to use tool "${request.tool}"`,
+    };
+  }
+
+  /**
+   * Throw AuthorizationError unless the call is allowed
+   */
+  assertAllowed(role: string, request: AuthorizationRequest): AuthorizationDecision {
+    const decision = this.authorize(role, request);
+    if (!decision.allowed) {
+      throw new AuthorizationError(decision.reason, { role, tool: request.tool, device: request.device });
+    }
+    return decision;
+  }
+
+  private collectRules(role: string, seen: Set<string>): PolicyRule[] {
+    const definition = this.roles[role];
+    if (!definition || seen.has(role)) return [];
+    seen.add(role);
+    return [...definition.rules, ...definition.inherits.flatMap((parent) => this.collectRules(parent, seen))];
+  }
+}
+
+function selectorsMatch(rule: PolicyRule, request: AuthorizationRequest): boolean {
+  if (rule.tools && !rule.tools.some((tool) => globToRegExp(tool).test(request.tool))) return false;
+  if (rule.categories && !rule.categories.includes(request.category)) return false;
+  if (rule.privileged !== undefined && rule.privileged !== request.privileged) return false;
+  if (rule.devices && !rule.devices.some((device) => globToRegExp(device).test(request.device))) return false;
+  return true;
+}
+
+/**
+ * Values at a dotted argument path, descending into arrays ("vlans.id")
+ */
+function valuesAt(args: unknown, argPath: string): unknown[] {
+  let values: unknown[] = [args];
+  for (const key of argPath.split('.')) {
+    values = values
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .filter((value): value is Record<string, unknown> => typeof value === 'object' && value !== null)
+      .map((value) => value[key])
+      .filter((value) => value !== undefined);
+  }
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value]));
+}
+
+function satisfies(value: unknown, constraint: ArgConstraint): boolean {
+  if (constraint.min !== undefined || constraint.max !== undefined) {
+    if (typeof value !== 'number') return false;
+    if (constraint.min !== undefined && value < constraint.min) return false;
+    if (constraint.max !== undefined && value > constraint.max) return false;
+  }
+  if (constraint.values && !constraint.values.includes(value as string | number | boolean)) return false;
+  if (constraint.pattern !== undefined && !new RegExp(constraint.pattern, 'i').test(String(value))) return false;
+  return true;
+}
+
+function describeConstraint(constraint: ArgConstraint): string {
+  const parts: string[] = [];
+  if (constraint.min !== undefined || constraint.max !== undefined) {
+    parts.push(`${constraint.min ?? '-inf'}-${constraint.max ?? 'inf'}`);
+  }
+  if (constraint.values) parts.push(`one of ${constraint.values.join(', ')}`);
+  if (constraint.pattern !== undefined) parts.push(`matching /${constraint.pattern}/`);
+  return parts.join(', ');
+}
+
+/**
+ * First argument outside an allow rule's constraints. Constraints fail closed:
+ * a call that does not pass a constrained argument violates it, unless the
+ * constraint is optional.
+ */
+function findArgViolation(
+  constraints: Record<string, ArgConstraint> | undefined,
+  args: Record<string, unknown>,
+): string | undefined {
+  for (const [argPath, constraint] of Object.entries(constraints ?? {})) {
+    const values = valuesAt(args, argPath);
+    if (values.length === 0 && !constraint.optional) {
+      return `${argPath} is required by policy (allowed: ${describeConstraint(constraint)})`;
+    }
+    const value = values.find((candidate) => !satisfies(candidate, constraint));
+    if (value !== undefined) {
+      return `${argPath} ${JSON.stringify(value)} is not allowed (allowed: ${describeConstraint(constraint)})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A deny rule with argument constraints only applies when the call passes one
+ * of those arguments with a value inside the constraint
+ */
+function denyArgsMatch(constraints: Record<string, ArgConstraint> | undefined, args: Record<string, unknown>): boolean {
+  if (!constraints) return true;
+  return Object.entries(constraints).some(([argPath, constraint]) =>
+    valuesAt(args, argPath).some((value) => satisfies(value, constraint)),
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Transport decorator that records every command, its output and timing into
+ * a session fixture for the replay transport.
+ *
+ * The fixture is JSONL: a header line, then one line appended per command,
+ * so a session that ends abruptly still leaves a usable file and nothing is
+ * held in memory. Passwords, keys and community strings are redacted from
+ * commands and output before they are written. An existing file is replaced
+ * by the first command of a new recording.
+ */
+
+import { appendFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type winston from 'winston';
+import { formatError } from '../core/errors.js';
+import { logError, logWarn } from '../core/logger.js';
+import type { RecordedExchange, SessionFixture } from '../types/index.js';
+import { detectCliError } from './cli-errors.js';
+import { redactSecrets } from './secret-redaction.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
+
+export class RecordingTransport implements BrocadeTransport {
+  private readonly header: Omit<SessionFixture, 'exchanges'>;
+  private readonly startedAt = Date.now();
+  /** Fixture writes run one at a time so a slow write never overtakes a later one */
+  private writes: Promise<void> = Promise.resolve();
+  private headerWritten = false;
+
+  constructor(
+    private readonly inner: BrocadeTransport,
+    private readonly filePath: string,
+    session: Pick<SessionFixture, 'host' | 'transport' | 'description'>,
+    private readonly logger: winston.Logger,
+  ) {
+    this.header = { version: 2, recordedAt: new Date().toISOString(), ...session };
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  disconnect(): void {
+    this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+
+  getReconnectCount(): number {
+    return this.inner.getReconnectCount?.() ?? 0;
+  }
+
+  executeCommand(command: string, timeout?: number): Promise<string> {
+    return this.capture(command, () => this.inner.executeCommand(command, timeout));
+  }
+
+  /**
+   * Recorded like any other command; replay answers it with the recorded output
+   */
+  executeInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    return this.capture(command, () => this.inner.executeInteractive(command, answers, timeout));
+  }
+
+  /**
+   * Commands are sent one at a time, as the SSH and telnet clients do, so
+   * each gets its own output and timing in the fixture
+   */
+  async executeMultipleCommands(commands: string[], timeout?: number): Promise<string[]> {
+    const results: string[] = [];
+    for (const command of commands) {
+      try {
+        const output = await this.executeCommand(command, timeout);
+        const inlineError = detectCliError(output);
+        if (inlineError) {
+          logWarn(this.logger, 'Command returned inline error', { command, error: inlineError });
+        }
+        results.push(output);
+      } catch (error) {
+        logError(this.logger, error, { command, index: results.length });
+        results.push('');
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Resolves once every recorded exchange has been written
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private async capture(command: string, send: () => Promise<string>): Promise<string> {
+    const start = Date.now();
+    try {
+      const output = await send();
+      await this.record({ command, output, startMs: start - this.startedAt, durationMs: Date.now() - start });
+      return output;
+    } catch (error) {
+      await this.record({
+        command,
+        output: '',
+        startMs: start - this.startedAt,
+        durationMs: Date.now() - start,
+        error: formatError(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The command has already reached the switch, so a failing fixture write is logged rather than thrown
+   */
+  private record(exchange: RecordedExchange): Promise<void> {
+    const redacted: RecordedExchange = {
+      ...exchange,
+      command: redactSecrets(exchange.command),
+      output: redactSecrets(exchange.output),
+      ...(exchange.error !== undefined && { error: redactSecrets(exchange.error) }),
+    };
+    const line = `${JSON.stringify(redacted)}\n`;
+    this.writes = this.writes.then(async () => {
+      try {
+        if (this.headerWritten) {
+          await appendFile(this.filePath, line);
+        } else {
+          await mkdir(path.dirname(this.filePath), { recursive: true });
+          await writeFile(this.filePath, `${JSON.stringify(this.header)}\n${line}`);
+          this.headerWritten = true;
+        }
+      } catch (error) {
+        logError(this.logger, error, { recording: true, file: this.filePath, command: redacted.command });
+      }
+    });
+    return this.writes;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Transport that serves a recorded session fixture instead of talking to a
+ * switch, so parsers and tools can run against captured output.
+ *
+ * Commands are matched on their text with whitespace collapsed. When a
+ * command was recorded several times (e.g. "show vlan" before and after a
+ * change), each replay returns the next recording and the last one is
+ * repeated after that. Recorded durations are waited out scaled by `speed`;
+ * the default of 0 answers immediately. Secrets are redacted from commands
+ * before matching, as the recorder redacted them.
+ *
+ * Both fixture formats load: version 1 as one JSON document and version 2,
+ * the JSONL the recorder writes.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type winston from 'winston';
+import { z } from 'zod';
+import { CommandExecutionError, ConfigurationError, TimeoutError } from '../core/errors.js';
+import { logDebug, logError, logInfo, logWarn } from '../core/logger.js';
+import type { RecordedExchange, SessionFixture } from '../types/index.js';
+import { detectCliError } from './cli-errors.js';
+import { redactSecrets } from './secret-redaction.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
+
+const RecordedExchangeSchema = z.object({
+  command: z.string(),
+  output: z.string(),
+  startMs: z.number().min(0).default(0),
+  durationMs: z.number().min(0).default(0),
+  error: z.string().optional(),
+});
+
+export const SessionFixtureSchema = z.object({
+  version: z.union([z.literal(1), z.literal(2)]),
+  recordedAt: z.string(),
+  host: z.string(),
+  transport: z.enum(['ssh', 'telnet']),
+  description: z.string().optional(),
+  exchanges: z.array(RecordedExchangeSchema),
+});
+
+export interface ReplayOptions {
+  /** 1 replays at recorded speed, 2 twice as fast, 0 without delays */
+  speed?: number;
+}
+
+export class ReplayTransport implements BrocadeTransport {
+  private fixture?: SessionFixture;
+  private loading?: Promise<void>;
+  /** Recordings per normalized command, in recording order */
+  private readonly recordings: Map<string, RecordedExchange[]> = new Map();
+  /** Replays served so far per normalized command */
+  private readonly served: Map<string, number> = new Map();
+  private connected = false;
+  private readonly speed: number;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger: winston.Logger,
+    options: ReplayOptions = {},
+  ) {
+    this.speed = options.speed ?? 0;
+  }
+
+  async connect(): Promise<void> {
+    await this.load();
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.load();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getReconnectCount(): number {
+    return 0;
+  }
+
+  /**
+   * The loaded fixture; undefined until the first connect or command
+   */
+  getFixture(): SessionFixture | undefined {
+    return this.fixture;
+  }
+
+  async executeCommand(command: string, timeout?: number): Promise<string> {
+    await this.load();
+    const key = normalizeCommand(command);
+    const recordings = this.recordings.get(key);
+    if (!recordings) {
+      throw new CommandExecutionError(`No recorded output for "${command}" in ${this.filePath}`, command);
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    const exchange = recordings[Math.min(index, recordings.length - 1)];
+    logDebug(this.logger, 'Replaying command', { command, recording: index + 1, of: recordings.length });
+
+    const delay = this.speed > 0 ? exchange.durationMs / this.speed : 0;
+    if (timeout !== undefined && delay > timeout) {
+      await sleep(timeout);
+      throw new TimeoutError(`Command timed out after ${timeout}ms`, timeout, { command });
+    }
+    if (delay > 0) await sleep(delay);
+
+    if (exchange.error !== undefined) {
+      throw new CommandExecutionError(exchange.error, command);
+    }
+    return exchange.output;
+  }
+
+  /**
+   * The recorded output already contains the questions and answers
+   */
+  executeInteractive(command: string, _answers: PromptAnswer[], timeout?: number): Promise<string> {
+    return this.executeCommand(command, timeout);
+  }
+
+  async executeMultipleCommands(commands: string[], timeout?: number): Promise<string[]> {
+    const results: string[] = [];
+    for (const command of commands) {
+      try {
+        const output = await this.executeCommand(command, timeout);
+        const inlineError = detectCliError(output);
+        if (inlineError) {
+          logWarn(this.logger, 'Command returned inline error', { command, error: inlineError });
+        }
+        results.push(output);
+      } catch (error) {
+        logError(this.logger, error, { command, index: results.length });
+        results.push('');
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Read the fixture once; a failed read is retried by the next call
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.readFixture().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readFixture(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      throw new ConfigurationError(`Unable to read replay fixture ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    let data: unknown;
+    try {
+      data = parseFixture(raw);
+    } catch (error) {
+      throw new ConfigurationError(`Replay fixture ${this.filePath} is not valid JSON or JSONL`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const result = SessionFixtureSchema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new ConfigurationError(`Invalid replay fixture ${this.filePath}: ${issues}`, result.error.issues);
+    }
+
+    for (const exchange of result.data.exchanges) {
+      const key = normalizeCommand(exchange.command);
+      this.recordings.set(key, [...(this.recordings.get(key) ?? []), exchange]);
+    }
+    this.fixture = result.data;
+    logInfo(this.logger, 'Loaded replay fixture', {
+      file: this.filePath,
+      host: result.data.host,
+      recordedAt: result.data.recordedAt,
+      exchanges: result.data.exchanges.length,
+    });
+  }
+}
+
+/**
+ * A JSONL fixture starts with a complete header line of version 2; anything
+ * else is read as one JSON document
+ */
+function parseFixture(raw: string): unknown {
+  const lines = raw.split('\n').filter((line) => line.trim());
+  let header: unknown;
+  try {
+    header = JSON.parse(lines[0] ?? '');
+  } catch {
+    return JSON.parse(raw);
+  }
+  if ((header as { version?: unknown } | null)?.version !== 2) {
+    return JSON.parse(raw);
+  }
+  return { ...(header as object), exchanges: lines.slice(1).map((line) => JSON.parse(line)) };
+}
+
+function normalizeCommand(command: string): string {
+  return redactSecrets(command).trim().replace(/\s+/g, ' ');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,29 @@
+/**
+ * Redaction of credentials in ICX config and CLI text.
+ * Passwords, keys and community strings sit inline on otherwise ordinary
+ * config lines, so each pattern keeps the keywords and replaces only the
+ * secret token that follows them.
+ */
+
+/** Placeholder written in place of a redacted secret */
+export const REDACTED = '<redacted>';
+
+/**
+ * Keyword prefixes that are followed by a secret. Each pattern captures
+ * everything up to the secret in group 1; the next token is the secret.
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /(\b(?:password|super-user-password|read-only-password|port-config-password|authentication-key|md5-auth|community)\s+(?:encrypted\s+)?(?:\d\s+)?)\S+/gim,
+  /(\bmessage-digest-key\s+\d+\s+md5\s+(?:\d\s+)?)\S+/gim,
+  /(\bauth\s+(?:md5|sha)\s+)\S+/gim,
+  /(\bpriv\s+(?:encrypted\s+)?(?:des|aes)\s+)\S+/gim,
+  /(\b(?:radius-server|tacacs-server)\b.*?\skey\s+(?:\d\s+)?)\S+/gim,
+  /(\bkey-id\s+\d+\s+key\s+(?:\d\s+)?)\S+/gim,
+];
+
+/**
+ * Replace every secret in the text with a placeholder, leaving the rest of each line intact
+ */
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, pattern) => result.replace(pattern, `$1${REDACTED}`), text);
+}
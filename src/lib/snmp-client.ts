@@ -0,0 +1,159 @@
+/**
+ * SNMP v2c/v3 client for reading monitoring data from a switch.
+ *
+ * Requests go over UDP beside the CLI session, so polling counters does not
+ * hold the shell that configuration commands need. The session is opened on
+ * the first request and again after close().
+ */
+
+// Constants and session factories are not detected as named exports of the CommonJS module
+import snmp, { type Session, type VarbindValue } from 'net-snmp';
+import type winston from 'winston';
+import type { SnmpConfig } from '../core/config.js';
+import { SnmpError, TimeoutError } from '../core/errors.js';
+import { logDebug, logWarn } from '../core/logger.js';
+
+/** Rows of a table keyed by their index (the OID suffix after the column), each holding values by column */
+export type SnmpTable = Map<string, Map<number, VarbindValue>>;
+
+export class BrocadeSnmpClient {
+  private session?: Session;
+
+  constructor(
+    private readonly host: string,
+    private readonly config: SnmpConfig,
+    private readonly logger: winston.Logger,
+  ) {}
+
+  /**
+   * Values of scalar instances (e.g. "1.3.6.1.2.1.1.5.0"); instances the agent does not have are left out
+   */
+  async get(oids: string[]): Promise<Map<string, VarbindValue>> {
+    const varbinds = await this.request<snmp.Varbind[]>((session, done) => session.get(oids, done));
+    const values = new Map<string, VarbindValue>();
+    for (const varbind of varbinds) {
+      if (!snmp.isVarbindError(varbind)) values.set(varbind.oid, varbind.value);
+    }
+    return values;
+  }
+
+  /**
+   * Walk the columns of a table under its entry OID (e.g. ifEntry "1.3.6.1.2.1.2.2.1")
+   */
+  async table(entryOid: string, columns: number[]): Promise<SnmpTable> {
+    const rows: SnmpTable = new Map();
+    for (const column of columns) {
+      const columnOid = `${entryOid}.${column}`;
+      const varbinds = await this.request<snmp.Varbind[]>((session, done) => {
+        const collected: snmp.Varbind[] = [];
+        session.subtree(
+          columnOid,
+          20,
+          (varbinds) => {
+            collected.push(...varbinds.filter((varbind) => !snmp.isVarbindError(varbind)));
+          },
+          (error) => done(error, collected),
+        );
+      });
+
+      for (const varbind of varbinds) {
+        const index = varbind.oid.slice(columnOid.length + 1);
+        if (!rows.has(index)) rows.set(index, new Map());
+        rows.get(index)?.set(column, varbind.value);
+      }
+    }
+    return rows;
+  }
+
+  close(): void {
+    this.session?.close();
+    this.session = undefined;
+  }
+
+  private request<T>(send: (session: Session, done: (error: Error | null, result?: T) => void) => void): Promise<T> {
+    const session = this.open();
+    return new Promise((resolve, reject) => {
+      send(session, (error, result) => {
+        if (!error) return resolve(result as T);
+        if (error.name === 'RequestTimedOutError') {
+          reject(
+            new TimeoutError(
+              `SNMP request to ${this.host} timed out after ${this.config.timeout}ms`,
+              this.config.timeout,
+            ),
+          );
+          return;
+        }
+        reject(new SnmpError(`SNMP request to ${this.host} failed: ${error.message}`, { host: this.host }));
+      });
+    });
+  }
+
+  private open(): Session {
+    if (this.session) return this.session;
+
+    const { version, port, timeout, retries } = this.config;
+    let session: Session;
+    if (version === '3') {
+      const { username = '', authProtocol, authKey, privProtocol, privKey } = this.config;
+      const level = privKey
+        ? snmp.SecurityLevel.authPriv
+        : authKey
+          ? snmp.SecurityLevel.authNoPriv
+          : snmp.SecurityLevel.noAuthNoPriv;
+      session = snmp.createV3Session(
+        this.host,
+        {
+          name: username,
+          level,
+          authProtocol: authKey ? snmp.AuthProtocols[authProtocol] : undefined,
+          authKey,
+          privProtocol: privKey ? snmp.PrivProtocols[privProtocol] : undefined,
+          privKey,
+        },
+        { port, timeout, retries },
+      );
+    } else {
+      session = snmp.createSession(this.host, this.config.community, {
+        port,
+        timeout,
+        retries,
+        version: snmp.Version2c,
+      });
+    }
+
+    session.on('error', (error) => {
+      logWarn(this.logger, 'SNMP session error', { host: this.host, error: error.message });
+      if (this.session === session) this.close();
+    });
+    logDebug(this.logger, 'Opened SNMP session', { host: this.host, port, version });
+    this.session = session;
+    return session;
+  }
+}
+
+/**
+ * Number from an integer, counter (Counter64 arrives as big-endian bytes) or numeric string
+ */
+export function snmpNumber(value: VarbindValue): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (Buffer.isBuffer(value)) {
+    if (value.length === 0 || value.length > 8) return undefined;
+    return value.reduce((total, byte) => total * 256 + byte, 0);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number.parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Text of an OCTET STRING value
+ */
+export function snmpString(value: VarbindValue): string | undefined {
+  if (Buffer.isBuffer(value)) return value.toString('utf-8').replace(/\0+$/, '');
+  if (typeof value === 'string') return value;
+  return undefined;
+}
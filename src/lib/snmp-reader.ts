@@ -0,0 +1,408 @@
+/**
+ * Monitoring reads over SNMP, returning the same types as the CLI readers of
+ * the command executor.
+ *
+ * System info and interface counters come from SNMPv2-MIB, IF-MIB and
+ * EtherLike-MIB, LLDP neighbors from LLDP-MIB, and CPU, memory, temperature
+ * and optics (digital optical monitoring) from the Foundry MIBs of FastIron.
+ * A read that fails falls back to the CLI; after a timeout SNMP is skipped for
+ * a minute so pollers do not wait out the timeout on every reading.
+ */
+
+import type { VarbindValue } from 'net-snmp';
+import type winston from 'winston';
+import type { SnmpConfig, SnmpTool } from '../core/config.js';
+import { formatError, SnmpError, TimeoutError } from '../core/errors.js';
+import { logDebug, logWarn } from '../core/logger.js';
+import type { InterfaceStatistics, LLDPNeighbor, OpticalModuleInfo, SystemHealth, SystemInfo } from '../types/index.js';
+import { BrocadeSnmpClient, type SnmpTable, snmpNumber, snmpString } from './snmp-client.js';
+
+/** How long SNMP is skipped after a request timed out */
+const RETRY_AFTER_MS = 60_000;
+
+/** Scalar instances */
+export const SNMP_OIDS = {
+  sysDescr: '1.3.6.1.2.1.1.1.0',
+  sysUpTime: '1.3.6.1.2.1.1.3.0',
+  sysName: '1.3.6.1.2.1.1.5.0',
+  // FOUNDRY-SN-AGENT-MIB
+  snChasSerNum: '1.3.6.1.4.1.1991.1.1.1.1.2.0',
+  snAgImgVer: '1.3.6.1.4.1.1991.1.1.2.1.11.0',
+  snAgGblCpuUtil1SecAvg: '1.3.6.1.4.1.1991.1.1.2.1.50.0',
+  snAgGblCpuUtil1MinAvg: '1.3.6.1.4.1.1991.1.1.2.1.52.0',
+  snAgGblDynMemUtil: '1.3.6.1.4.1.1991.1.1.2.1.53.0',
+  snAgGblDynMemTotal: '1.3.6.1.4.1.1991.1.1.2.1.54.0',
+  snAgGblDynMemFree: '1.3.6.1.4.1.1991.1.1.2.1.55.0',
+} as const;
+
+/** Table entries, with the columns read from them */
+export const SNMP_TABLES = {
+  /** IF-MIB ifEntry, indexed by ifIndex */
+  ifEntry: {
+    oid: '1.3.6.1.2.1.2.2.1',
+    columns: {
+      ifDescr: 2,
+      ifOperStatus: 8,
+      ifInOctets: 10,
+      ifInUcastPkts: 11,
+      ifInNUcastPkts: 12,
+      ifInErrors: 14,
+      ifOutOctets: 16,
+      ifOutUcastPkts: 17,
+      ifOutNUcastPkts: 18,
+      ifOutErrors: 20,
+    },
+  },
+  /** IF-MIB ifXEntry, indexed by ifIndex */
+  ifXEntry: {
+    oid: '1.3.6.1.2.1.31.1.1.1',
+    columns: {
+      ifName: 1,
+      ifHCInOctets: 6,
+      ifHCInUcastPkts: 7,
+      ifHCInMulticastPkts: 8,
+      ifHCInBroadcastPkts: 9,
+      ifHCOutOctets: 10,
+      ifHCOutUcastPkts: 11,
+      ifHCOutMulticastPkts: 12,
+      ifHCOutBroadcastPkts: 13,
+    },
+  },
+  /** EtherLike-MIB dot3StatsEntry, indexed by ifIndex */
+  dot3StatsEntry: {
+    oid: '1.3.6.1.2.1.10.7.2.1',
+    columns: { dot3StatsFCSErrors: 3, dot3StatsSingleCollisionFrames: 4, dot3StatsMultipleCollisionFrames: 5 },
+  },
+  /** FOUNDRY-SN-AGENT-MIB snAgentTempEntry, indexed by slot and sensor; values in 0.5 degree units */
+  snAgentTempEntry: {
+    oid: '1.3.6.1.4.1.1991.1.1.2.13.1.1',
+    columns: { snAgentTempValue: 4 },
+  },
+  /** FOUNDRY-SN-SWITCH-GROUP-MIB snIfOpticalMonitoringInfoEntry, indexed by ifIndex */
+  snIfOpticalMonitoringInfoEntry: {
+    oid: '1.3.6.1.4.1.1991.1.1.3.3.6.1',
+    columns: {
+      snIfOpticalMonitoringTemperature: 1,
+      snIfOpticalMonitoringTxPower: 2,
+      snIfOpticalMonitoringRxPower: 3,
+    },
+  },
+  /** FOUNDRY-SN-SWITCH-GROUP-MIB snIfMediaInfoEntry, indexed by ifIndex */
+  snIfMediaInfoEntry: {
+    oid: '1.3.6.1.4.1.1991.1.1.3.3.9.1',
+    columns: { snIfMediaType: 1, snIfMediaVendorName: 2, snIfMediaPartNumber: 4, snIfMediaSerialNumber: 5 },
+  },
+  /** LLDP-MIB lldpRemEntry, indexed by time mark, local port number and remote index */
+  lldpRemEntry: {
+    oid: '1.0.8802.1.1.2.1.4.1.1',
+    columns: {
+      lldpRemChassisIdSubtype: 4,
+      lldpRemChassisId: 5,
+      lldpRemPortIdSubtype: 6,
+      lldpRemPortId: 7,
+      lldpRemPortDesc: 8,
+      lldpRemSysName: 9,
+      lldpRemSysDesc: 10,
+      lldpRemSysCapEnabled: 12,
+    },
+  },
+  /** LLDP-MIB lldpRemManAddrEntry, indexed by the lldpRemEntry index, address subtype and address */
+  lldpRemManAddrEntry: {
+    oid: '1.0.8802.1.1.2.1.4.2.1',
+    columns: { lldpRemManAddrIfSubtype: 3 },
+  },
+} as const;
+
+/** LLDP system capability bits, most significant bit first */
+const LLDP_CAPABILITIES = [
+  'other',
+  'repeater',
+  'bridge',
+  'wlan-access-point',
+  'router',
+  'telephone',
+  'docsis-cable-device',
+  'station-only',
+];
+
+/** Chassis and port ID subtypes holding a MAC address */
+const LLDP_MAC_CHASSIS_ID = 4;
+const LLDP_MAC_PORT_ID = 3;
+
+const PORT_RE = /(\d+\/\d+\/\d+)/;
+
+type TableName = keyof typeof SNMP_TABLES;
+
+export class SnmpReader {
+  private readonly tools: ReadonlySet<SnmpTool>;
+  private unavailableUntil = 0;
+
+  constructor(
+    private readonly client: BrocadeSnmpClient,
+    tools: readonly SnmpTool[],
+    private readonly logger: winston.Logger,
+  ) {
+    this.tools = new Set(tools);
+  }
+
+  /**
+   * Read over SNMP when the tool is selected, over the CLI when it is not or when SNMP fails
+   */
+  async read<T>(tool: SnmpTool, viaSnmp: () => Promise<T>, viaCli: () => Promise<T>): Promise<T> {
+    if (!this.tools.has(tool) || Date.now() < this.unavailableUntil) return viaCli();
+    try {
+      const result = await viaSnmp();
+      logDebug(this.logger, 'Read over SNMP', { tool });
+      return result;
+    } catch (error) {
+      if (error instanceof TimeoutError) this.unavailableUntil = Date.now() + RETRY_AFTER_MS;
+      logWarn(this.logger, 'SNMP read failed, falling back to the CLI', { tool, error: formatError(error) });
+      return viaCli();
+    }
+  }
+
+  close(): void {
+    this.client.close();
+  }
+
+  async getSystemInfo(): Promise<SystemInfo> {
+    const values = await this.client.get([
+      SNMP_OIDS.sysDescr,
+      SNMP_OIDS.sysUpTime,
+      SNMP_OIDS.sysName,
+      SNMP_OIDS.snChasSerNum,
+      SNMP_OIDS.snAgImgVer,
+    ]);
+    const description = snmpString(values.get(SNMP_OIDS.sysDescr));
+    if (!description) throw new SnmpError('The agent returned no sysDescr');
+
+    const image = snmpString(values.get(SNMP_OIDS.snAgImgVer)) ?? description.match(/Version\s+(\S+)/i)?.[1];
+    const ticks = snmpNumber(values.get(SNMP_OIDS.sysUpTime));
+    return {
+      hostname: snmpString(values.get(SNMP_OIDS.sysName)) ?? '',
+      model: description.match(/(ICX[\w-]+)/i)?.[1] ?? '',
+      serialNumber: snmpString(values.get(SNMP_OIDS.snChasSerNum)) ?? '',
+      firmwareVersion: image ? `Version ${image}` : '',
+      uptime: ticks === undefined ? '' : formatTicks(ticks),
+    };
+  }
+
+  async getSystemHealth(): Promise<SystemHealth> {
+    const values = await this.client.get([
+      SNMP_OIDS.snAgGblCpuUtil1SecAvg,
+      SNMP_OIDS.snAgGblCpuUtil1MinAvg,
+      SNMP_OIDS.snAgGblDynMemUtil,
+      SNMP_OIDS.snAgGblDynMemTotal,
+      SNMP_OIDS.snAgGblDynMemFree,
+    ]);
+    const cpu = snmpNumber(values.get(SNMP_OIDS.snAgGblCpuUtil1SecAvg));
+    const total = snmpNumber(values.get(SNMP_OIDS.snAgGblDynMemTotal));
+    const free = snmpNumber(values.get(SNMP_OIDS.snAgGblDynMemFree));
+    if (cpu === undefined || total === undefined || free === undefined) {
+      throw new SnmpError('The agent returned no CPU or memory readings from FOUNDRY-SN-AGENT-MIB');
+    }
+
+    const used = total - free;
+    const health: SystemHealth = {
+      cpu: { current: cpu, average1min: snmpNumber(values.get(SNMP_OIDS.snAgGblCpuUtil1MinAvg)) },
+      memory: {
+        total,
+        used,
+        free,
+        utilization:
+          snmpNumber(values.get(SNMP_OIDS.snAgGblDynMemUtil)) ?? (total > 0 ? Math.round((used / total) * 100) : 0),
+      },
+    };
+
+    const temperatures = [...(await this.table('snAgentTempEntry')).values()]
+      .map((row) => snmpNumber(row.get(SNMP_TABLES.snAgentTempEntry.columns.snAgentTempValue)))
+      .filter((value): value is number => value !== undefined);
+    if (temperatures.length > 0) {
+      const current = Math.max(...temperatures) / 2;
+      health.temperature = { current, status: current > 70 ? 'warning' : 'normal' };
+    }
+    return health;
+  }
+
+  async getInterfaceStatistics(interfaceName?: string): Promise<InterfaceStatistics[]> {
+    const { ifEntry, ifXEntry, dot3StatsEntry } = SNMP_TABLES;
+    const [ifTable, ifXTable, dot3Table] = [
+      await this.table('ifEntry'),
+      await this.table('ifXEntry'),
+      await this.table('dot3StatsEntry'),
+    ];
+    const ports = portNames(ifTable, ifXTable);
+
+    const stats: InterfaceStatistics[] = [];
+    for (const [index, port] of ports) {
+      if (interfaceName && port !== interfaceName) continue;
+      const row = ifTable.get(index) ?? new Map();
+      const xRow = ifXTable.get(index) ?? new Map();
+      const dot3Row = dot3Table.get(index) ?? new Map();
+      const value = (values: Map<number, VarbindValue>, column: number) => snmpNumber(values.get(column)) ?? 0;
+      // 64-bit counters when the agent has them, the wrapping 32-bit ones otherwise
+      const counter = (hcColumns: number[], columns: number[]) =>
+        hcColumns.every((column) => xRow.has(column))
+          ? hcColumns.reduce((total, column) => total + value(xRow, column), 0)
+          : columns.reduce((total, column) => total + value(row, column), 0);
+
+      stats.push({
+        interface: port,
+        status: snmpNumber(row.get(ifEntry.columns.ifOperStatus)) === 1 ? 'up' : 'down',
+        inputPackets: counter(
+          [
+            ifXEntry.columns.ifHCInUcastPkts,
+            ifXEntry.columns.ifHCInMulticastPkts,
+            ifXEntry.columns.ifHCInBroadcastPkts,
+          ],
+          [ifEntry.columns.ifInUcastPkts, ifEntry.columns.ifInNUcastPkts],
+        ),
+        outputPackets: counter(
+          [
+            ifXEntry.columns.ifHCOutUcastPkts,
+            ifXEntry.columns.ifHCOutMulticastPkts,
+            ifXEntry.columns.ifHCOutBroadcastPkts,
+          ],
+          [ifEntry.columns.ifOutUcastPkts, ifEntry.columns.ifOutNUcastPkts],
+        ),
+        inputBytes: counter([ifXEntry.columns.ifHCInOctets], [ifEntry.columns.ifInOctets]),
+        outputBytes: counter([ifXEntry.columns.ifHCOutOctets], [ifEntry.columns.ifOutOctets]),
+        inputErrors: value(row, ifEntry.columns.ifInErrors),
+        outputErrors: value(row, ifEntry.columns.ifOutErrors),
+        crcErrors: value(dot3Row, dot3StatsEntry.columns.dot3StatsFCSErrors),
+        collisions:
+          value(dot3Row, dot3StatsEntry.columns.dot3StatsSingleCollisionFrames) +
+          value(dot3Row, dot3StatsEntry.columns.dot3StatsMultipleCollisionFrames),
+      });
+    }
+
+    if (interfaceName && stats.length === 0) {
+      throw new SnmpError(`The agent has no interface ${interfaceName}`);
+    }
+    return stats;
+  }
+
+  async getLLDPNeighbors(): Promise<LLDPNeighbor[]> {
+    const { columns } = SNMP_TABLES.lldpRemEntry;
+    const remotes = await this.table('lldpRemEntry');
+    if (remotes.size === 0) return [];
+
+    const ports = portNames(await this.table('ifEntry'), await this.table('ifXEntry'));
+    const addresses = new Map<string, string>();
+    for (const index of (await this.table('lldpRemManAddrEntry')).keys()) {
+      // time mark . local port . remote index . address subtype . address length . address
+      const parts = index.split('.').map(Number);
+      if (parts[3] === 1 && parts[4] === 4 && !addresses.has(parts.slice(0, 3).join('.'))) {
+        addresses.set(parts.slice(0, 3).join('.'), parts.slice(5, 9).join('.'));
+      }
+    }
+
+    const neighbors: LLDPNeighbor[] = [];
+    for (const [index, row] of remotes) {
+      const localPortNumber = index.split('.')[1];
+      const neighbor: LLDPNeighbor = {
+        localPort: ports.get(localPortNumber) ?? localPortNumber,
+        chassisId: lldpId(
+          row.get(columns.lldpRemChassisId),
+          row.get(columns.lldpRemChassisIdSubtype),
+          LLDP_MAC_CHASSIS_ID,
+        ),
+        portId: lldpId(row.get(columns.lldpRemPortId), row.get(columns.lldpRemPortIdSubtype), LLDP_MAC_PORT_ID),
+        systemName: snmpString(row.get(columns.lldpRemSysName)) ?? '',
+      };
+      const systemDescription = snmpString(row.get(columns.lldpRemSysDesc));
+      if (systemDescription) neighbor.systemDescription = systemDescription;
+      const portDescription = snmpString(row.get(columns.lldpRemPortDesc));
+      if (portDescription) neighbor.portDescription = portDescription;
+      const managementAddress = addresses.get(index);
+      if (managementAddress) neighbor.managementAddress = managementAddress;
+      const capabilities = row.get(columns.lldpRemSysCapEnabled);
+      if (Buffer.isBuffer(capabilities)) {
+        neighbor.capabilities = LLDP_CAPABILITIES.filter((_, bit) => (capabilities[0] ?? 0) & (0x80 >> bit));
+      }
+      neighbors.push(neighbor);
+    }
+    return neighbors;
+  }
+
+  async getOpticalModuleInfo(port?: string): Promise<OpticalModuleInfo[]> {
+    const media = SNMP_TABLES.snIfMediaInfoEntry.columns;
+    const monitoring = SNMP_TABLES.snIfOpticalMonitoringInfoEntry.columns;
+    const mediaTable = await this.table('snIfMediaInfoEntry');
+    const monitoringTable = await this.table('snIfOpticalMonitoringInfoEntry');
+    const ports = portNames(await this.table('ifEntry'), await this.table('ifXEntry'));
+
+    const modules: OpticalModuleInfo[] = [];
+    for (const [index, name] of ports) {
+      if (port && name !== port) continue;
+      const mediaRow = mediaTable.get(index);
+      const monitoringRow = monitoringTable.get(index);
+      if (!mediaRow && !monitoringRow) continue;
+
+      const text = (row: Map<number, VarbindValue> | undefined, column: number) =>
+        snmpString(row?.get(column))?.trim() || undefined;
+      // Readings are text such as "32.4218 C: Normal" or "-002.5649 dBm: Low-Warn", "N/A" without a module
+      const reading = (column: number) => {
+        const value = Number.parseFloat(text(monitoringRow, column) ?? '');
+        return Number.isNaN(value) ? undefined : value;
+      };
+      modules.push({
+        port: name,
+        present: true,
+        type: text(mediaRow, media.snIfMediaType),
+        vendor: text(mediaRow, media.snIfMediaVendorName),
+        partNumber: text(mediaRow, media.snIfMediaPartNumber),
+        serialNumber: text(mediaRow, media.snIfMediaSerialNumber),
+        temperature: reading(monitoring.snIfOpticalMonitoringTemperature),
+        txPower: reading(monitoring.snIfOpticalMonitoringTxPower),
+        rxPower: reading(monitoring.snIfOpticalMonitoringRxPower),
+      });
+    }
+    return modules;
+  }
+
+  private table(name: TableName): Promise<SnmpTable> {
+    const { oid, columns } = SNMP_TABLES[name];
+    return this.client.table(oid, Object.values(columns));
+  }
+}
+
+/**
+ * Create the SNMP reader of a device
+ */
+export function createSnmpReader(host: string, config: SnmpConfig, logger: winston.Logger): SnmpReader {
+  return new SnmpReader(new BrocadeSnmpClient(host, config, logger), config.tools, logger);
+}
+
+/**
+ * Port names ("1/1/1") by ifIndex, from ifName or else ifDescr ("GigabitEthernet1/1/1"); other interfaces are left out
+ */
+function portNames(ifTable: SnmpTable, ifXTable: SnmpTable): Map<string, string> {
+  const ports = new Map<string, string>();
+  for (const index of new Set([...ifTable.keys(), ...ifXTable.keys()])) {
+    const name =
+      snmpString(ifXTable.get(index)?.get(SNMP_TABLES.ifXEntry.columns.ifName))?.match(PORT_RE)?.[1] ??
+      snmpString(ifTable.get(index)?.get(SNMP_TABLES.ifEntry.columns.ifDescr))?.match(PORT_RE)?.[1];
+    if (name) ports.set(index, name);
+  }
+  return new Map([...ports].sort(([a], [b]) => Number(a) - Number(b)));
+}
+
+/**
+ * LLDP chassis or port ID: MAC addresses in the switch notation ("748e.f8a1.0c00"), other subtypes as text
+ */
+function lldpId(value: VarbindValue, subtype: VarbindValue, macSubtype: number): string {
+  if (Buffer.isBuffer(value) && snmpNumber(subtype) === macSubtype && value.length === 6) {
+    const hex = value.toString('hex');
+    return `${hex.slice(0, 4)}.${hex.slice(4, 8)}.${hex.slice(8, 12)}`;
+  }
+  return snmpString(value) ?? '';
+}
+
+/**
+ * sysUpTime in hundredths of a second, as the switch prints its uptime
+ */
+function formatTicks(ticks: number): string {
+  const seconds = Math.floor(ticks / 100);
+  return `${Math.floor(seconds / 86400)} day(s) ${Math.floor(seconds / 3600) % 24} hour(s) ${Math.floor(seconds / 60) % 60} minute(s) ${seconds % 60} second(s)`;
+}
@@ -12,7 +12,8 @@ import type winston from 'winston';
 import { AuthenticationError, CommandExecutionError, SSHConnectionError, TimeoutError } from '../core/errors.js';
 import { logDebug, logError, logInfo, logWarn } from '../core/logger.js';
 import type { BrocadeConfig } from '../types/index.js';
-import type { BrocadeTransport } from './transport-interface.js';
+import { detectCliError } from './cli-errors.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
 
 // ---------------------------------------------------------------------------
 // Prompt detection
@@ -62,6 +63,7 @@ export class BrocadeSSHClient implements BrocadeTransport {
   private logger: winston.Logger;
   private state: ConnectionState = ConnectionState.DISCONNECTED;
   private reconnectTimer?: NodeJS.Timeout;
+  private reconnects = 0;
   private keepaliveTimer?: NodeJS.Timeout;
   private lastActivity: number = Date.now();
   private connectionAttempts: number = 0;
@@ -101,6 +103,10 @@ export class BrocadeSSHClient implements BrocadeTransport {
     return this.state === ConnectionState.CONNECTED && this.client !== null && this.shell !== null;
   }
 
+  getReconnectCount(): number {
+    return this.reconnects;
+  }
+
   // -----------------------------------------------------------------------
   // Connect / disconnect
   // -----------------------------------------------------------------------
@@ -177,6 +183,7 @@ export class BrocadeSSHClient implements BrocadeTransport {
 
   async reconnect(): Promise<void> {
     logInfo(this.logger, 'Reconnecting SSH client');
+    this.reconnects++;
     this.disconnect();
     await this.connect();
   }
@@ -344,8 +351,9 @@ export class BrocadeSSHClient implements BrocadeTransport {
           this.shellBuffer += chunk;
           this.lastActivity = Date.now();
 
-          // Auto-handle --More-- pagination whenever it appears
-          if (MORE_RE.test(this.shellBuffer)) {
+          // Auto-handle --More-- pagination whenever a new page ends with it.
+          // Only the new chunk counts: the buffer keeps earlier markers until it is drained.
+          if (MORE_RE.test(chunk)) {
             logDebug(this.logger, 'Detected --More-- prompt, sending space');
             stream.write(' ');
           }
@@ -376,6 +384,7 @@ export class BrocadeSSHClient implements BrocadeTransport {
   private waitForPrompt(timeout: number): Promise<string> {
     return new Promise((resolve, reject) => {
       const deadline = setTimeout(() => {
+        clearInterval(check);
         const buf = this.shellBuffer;
         this.shellBuffer = '';
         logDebug(this.logger, 'Prompt wait timed out', {
@@ -472,6 +481,7 @@ export class BrocadeSSHClient implements BrocadeTransport {
   private waitForEnableSequence(timeout: number): Promise<string> {
     return new Promise((resolve, reject) => {
       const deadline = setTimeout(() => {
+        clearInterval(check);
         const buf = this.shellBuffer;
         this.shellBuffer = '';
         reject(new TimeoutError('Enable mode timeout', timeout, { partialOutput: buf }));
@@ -559,6 +569,13 @@ export class BrocadeSSHClient implements BrocadeTransport {
     for (const command of commands) {
       try {
         const result = await this.executeCommand(command, timeout);
+
+        // Detect inline errors in output
+        const inlineError = detectCliError(result);
+        if (inlineError) {
+          logWarn(this.logger, 'Command returned inline error', { command, error: inlineError });
+        }
+
         results.push(result);
       } catch (error) {
         logError(this.logger, error, { command, index: results.length });
@@ -569,6 +586,24 @@ export class BrocadeSSHClient implements BrocadeTransport {
     return results;
   }
 
+  /**
+   * Execute a command that asks questions before it runs, answering each
+   * with the first matching answer.
+   */
+  async executeInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    if (!this.isConnected()) {
+      await this.connect();
+    }
+
+    await this.acquireCommandLock();
+
+    try {
+      return await this.runInteractive(command, answers, timeout);
+    } finally {
+      this.releaseCommandLock();
+    }
+  }
+
   /**
    * Execute a command with automatic retries.
    */
@@ -648,6 +683,63 @@ export class BrocadeSSHClient implements BrocadeTransport {
     return cleaned;
   }
 
+  /**
+   * Send a command and answer its questions until the CLI prompt returns or
+   * the switch closes the shell (a reload does)
+   */
+  private runInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    const shell = this.shell;
+    if (!shell) {
+      throw new SSHConnectionError('Shell channel is not open');
+    }
+
+    const effectiveTimeout = timeout ?? this.config.timeout ?? 30000;
+    logDebug(this.logger, 'Executing interactive command', { command, timeout: effectiveTimeout });
+
+    this.shellBuffer = '';
+    shell.write(command + '\r');
+
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      const finish = (error?: Error) => {
+        clearInterval(check);
+        clearTimeout(deadline);
+        raw += this.shellBuffer;
+        this.shellBuffer = '';
+        this.lastActivity = Date.now();
+        if (error) reject(error);
+        else resolve(this.cleanOutput(raw, command));
+      };
+
+      const deadline = setTimeout(() => {
+        finish(
+          new CommandExecutionError(`Command timed out after ${effectiveTimeout}ms`, command, undefined, {
+            partialOutput: this.cleanOutput(raw + this.shellBuffer, command),
+          }),
+        );
+      }, effectiveTimeout);
+
+      const check = setInterval(() => {
+        if (this.shell !== shell) {
+          logDebug(this.logger, 'Shell closed by interactive command', { command });
+          finish();
+          return;
+        }
+
+        const cleaned = this.stripAnsi(this.shellBuffer);
+        const match = answers.find((entry) => entry.prompt.test(cleaned));
+        if (match) {
+          logDebug(this.logger, 'Answering command prompt', { command, answer: match.answer });
+          raw += this.shellBuffer;
+          this.shellBuffer = '';
+          shell.write(match.answer + '\r');
+        } else if (PROMPT_RE.test(cleaned)) {
+          finish();
+        }
+      }, 50);
+    });
+  }
+
   // -----------------------------------------------------------------------
   // Output cleaning
   // -----------------------------------------------------------------------
@@ -685,9 +777,9 @@ export class BrocadeSSHClient implements BrocadeTransport {
 
     // Remove --More-- artifacts and the backspace sequences that follow them
     output = lines.join('\n');
-    // --More-- is typically followed by backspaces that erase it
+    // --More-- is typically followed by a key hint and backspaces/blanks that erase it
     // eslint-disable-next-line no-control-regex
-    output = output.replace(/--More--\s*(\x08+\s*)?/g, '');
+    output = output.replace(/--More--(?:,[^\n\x08]*)?\s*(\x08+\s*)*/g, '');
 
     // Collapse sequences of blank lines into a single blank line
     output = output.replace(/\n{3,}/g, '\n\n');
@@ -822,6 +914,7 @@ export class BrocadeSSHClient implements BrocadeTransport {
     logInfo(this.logger, 'Scheduling reconnection', { delay: this.retryDelay });
 
     this.reconnectTimer = setTimeout(async () => {
+      this.reconnects++;
       try {
         await this.connect();
       } catch (error) {
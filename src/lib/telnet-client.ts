@@ -9,7 +9,8 @@ import type winston from 'winston';
 import { CommandExecutionError, TelnetConnectionError, TimeoutError } from '../core/errors.js';
 import { logDebug, logError, logInfo, logWarn } from '../core/logger.js';
 import type { BrocadeConfig } from '../types/index.js';
-import type { BrocadeTransport } from './transport-interface.js';
+import { hasCliError } from './cli-errors.js';
+import type { BrocadeTransport, PromptAnswer } from './transport-interface.js';
 
 // Telnet IAC (Interpret As Command) constants
 const IAC = 0xff;
@@ -41,6 +42,7 @@ export class BrocadeTelnetClient implements BrocadeTransport {
   private logger: winston.Logger;
   private state: ConnectionState = ConnectionState.DISCONNECTED;
   private reconnectTimer?: NodeJS.Timeout;
+  private reconnects = 0;
   private keepaliveTimer?: NodeJS.Timeout;
   private lastActivity: number = Date.now();
   private connectionAttempts: number = 0;
@@ -52,6 +54,14 @@ export class BrocadeTelnetClient implements BrocadeTransport {
   private learnedPrompt: string = '';
   private inEnableMode: boolean = false;
 
+  /**
+   * Mutex-style queue so only one command runs at a time on the socket.
+   * Each entry is a resolve function that gets called when the previous
+   * command finishes, allowing the next caller to proceed.
+   */
+  private commandQueue: Array<() => void> = [];
+  private commandRunning: boolean = false;
+
   constructor(config: BrocadeConfig, logger: winston.Logger) {
     this.config = config;
     this.logger = logger;
@@ -67,6 +77,10 @@ export class BrocadeTelnetClient implements BrocadeTransport {
     return this.state === ConnectionState.CONNECTED && this.socket !== null && !this.socket.destroyed;
   }
 
+  getReconnectCount(): number {
+    return this.reconnects;
+  }
+
   /**
    * Connect to the telnet server with retry logic
    */
@@ -513,13 +527,45 @@ export class BrocadeTelnetClient implements BrocadeTransport {
   }
 
   /**
-   * Execute a single command and return its output
+   * Execute a single command and return its output.
+   *
+   * Commands are serialised -- only one runs at a time.  Callers that
+   * overlap will queue and execute in order.
    */
   async executeCommand(command: string, timeout?: number): Promise<string> {
     if (!this.isConnected()) {
       await this.connect();
     }
 
+    await this.acquireCommandLock();
+
+    try {
+      return await this.runCommand(command, timeout);
+    } finally {
+      this.releaseCommandLock();
+    }
+  }
+
+  /**
+   * Execute a command that asks questions before it runs, answering each
+   * with the first matching answer. Resolves at the next prompt or when the
+   * switch closes the connection (a reload does).
+   */
+  async executeInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    if (!this.isConnected()) {
+      await this.connect();
+    }
+
+    await this.acquireCommandLock();
+
+    try {
+      return await this.runInteractive(command, answers, timeout);
+    } finally {
+      this.releaseCommandLock();
+    }
+  }
+
+  private async runCommand(command: string, timeout?: number): Promise<string> {
     if (!this.socket || this.socket.destroyed) {
       throw new TelnetConnectionError('Socket is null after connection');
     }
@@ -584,6 +630,68 @@ export class BrocadeTelnetClient implements BrocadeTransport {
     });
   }
 
+  private async runInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      throw new TelnetConnectionError('Socket is null after connection');
+    }
+
+    await this.ensureEnableMode();
+
+    const effectiveTimeout = timeout ?? this.config.timeout ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      let output = '';
+      // Output since the last answer, where the next question is looked for
+      let unanswered = '';
+
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        socket.removeListener('data', onData);
+        socket.removeListener('close', onClose);
+        this.lastActivity = Date.now();
+        if (error) reject(error);
+        else resolve(this.cleanOutput(output, command));
+      };
+
+      const timer = setTimeout(() => {
+        finish(new TimeoutError(`Command timeout: ${command}`, effectiveTimeout));
+      }, effectiveTimeout);
+
+      const onClose = () => {
+        logDebug(this.logger, 'Connection closed by interactive command', { command });
+        finish();
+      };
+
+      const onData = (raw: Buffer) => {
+        const cleaned = this.processIAC(raw);
+        if (cleaned.length === 0) return;
+
+        const text = cleaned.toString('utf-8');
+        output += text;
+        unanswered += text;
+
+        const stripped = this.stripAnsi(unanswered);
+        const match = answers.find((entry) => entry.prompt.test(stripped));
+        if (match) {
+          logDebug(this.logger, 'Answering command prompt', { command, answer: match.answer });
+          unanswered = '';
+          socket.write(match.answer + '\r\n');
+          return;
+        }
+
+        const lines = stripped.split('\n');
+        if (this.promptPattern.test(lines[lines.length - 1].trim())) {
+          finish();
+        }
+      };
+
+      socket.on('data', onData);
+      socket.once('close', onClose);
+      socket.write(command + '\r\n');
+    });
+  }
+
   /**
    * Execute multiple commands sequentially with optimized timeouts for config commands.
    * Config-mode commands (those that don't start with "show") use a shorter timeout
@@ -602,7 +710,7 @@ export class BrocadeTelnetClient implements BrocadeTransport {
         const result = await this.executeCommand(command, effectiveTimeout);
 
         // Detect inline errors in output
-        if (this.hasInlineError(result)) {
+        if (hasCliError(result)) {
           logWarn(this.logger, 'Command returned inline error', {
             command,
             output: result.slice(0, 200),
@@ -619,21 +727,6 @@ export class BrocadeTelnetClient implements BrocadeTransport {
     return results;
   }
 
-  /**
-   * Check if command output contains an inline error from the switch
-   */
-  private hasInlineError(output: string): boolean {
-    const errorPatterns = [
-      /Invalid input ->/i,
-      /Error:/i,
-      /not found/i,
-      /VLAN.*does not exist/i,
-      /Incomplete command/i,
-      /Ambiguous input/i,
-    ];
-    return errorPatterns.some((pattern) => pattern.test(output));
-  }
-
   /**
    * Execute command with retries
    */
@@ -671,8 +764,8 @@ export class BrocadeTelnetClient implements BrocadeTransport {
   private cleanOutput(raw: string, command: string): string {
     let text = this.stripAnsi(raw);
 
-    // Remove --More-- artifacts and the backspaces that clear them
-    text = text.replace(/--More--\s*/gi, '');
+    // Remove --More-- artifacts with their key hint, and the backspaces that clear them
+    text = text.replace(/--More--(?:,[^\n\b]*)?\s*/gi, '');
     // Remove backspace sequences used to overwrite --More--
     text = text.replace(/[\b]+\s*[\b]*/g, '');
     // Remove control characters except newline/tab
@@ -723,6 +816,26 @@ export class BrocadeTelnetClient implements BrocadeTransport {
     /* eslint-enable no-control-regex */
   }
 
+  private acquireCommandLock(): Promise<void> {
+    if (!this.commandRunning) {
+      this.commandRunning = true;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      this.commandQueue.push(resolve);
+    });
+  }
+
+  private releaseCommandLock(): void {
+    const next = this.commandQueue.shift();
+    if (next) {
+      next();
+    } else {
+      this.commandRunning = false;
+    }
+  }
+
   /**
    * Wait for an ongoing connection attempt
    */
@@ -754,6 +867,7 @@ export class BrocadeTelnetClient implements BrocadeTransport {
     logInfo(this.logger, 'Scheduling telnet reconnection', { delay: this.retryDelay });
 
     this.reconnectTimer = setTimeout(async () => {
+      this.reconnects++;
       try {
         await this.connect();
       } catch (error) {
@@ -811,6 +925,7 @@ export class BrocadeTelnetClient implements BrocadeTransport {
    */
   async reconnect(): Promise<void> {
     logInfo(this.logger, 'Reconnecting telnet client');
+    this.reconnects++;
     this.disconnect();
     await this.connect();
   }
@@ -4,11 +4,28 @@
  * BrocadeCommandExecutor can use either one interchangeably.
  */
 
+/**
+ * Answer to a question the switch asks before running a command
+ */
+export interface PromptAnswer {
+  /** Matches the end of the output while the switch waits for the answer */
+  prompt: RegExp;
+  answer: string;
+}
+
 export interface BrocadeTransport {
   connect(): Promise<void>;
   disconnect(): void;
   isConnected(): boolean;
   executeCommand(command: string, timeout?: number): Promise<string>;
   executeMultipleCommands(commands: string[], timeout?: number): Promise<string[]>;
+  /**
+   * Send a command that asks questions (`reload`), answering each with the
+   * first matching answer. Resolves at the next CLI prompt or when the switch
+   * closes the session.
+   */
+  executeInteractive(command: string, answers: PromptAnswer[], timeout?: number): Promise<string>;
   healthCheck(): Promise<boolean>;
+  /** Reconnections since the transport was created, scheduled or after a failed command */
+  getReconnectCount?(): number;
 }
@@ -2,6 +2,7 @@
  * Shared MCP request handlers for both stdio and SSE transports
  */
 
+import { randomUUID } from 'node:crypto';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import type {
   CallToolRequest,
@@ -18,35 +19,150 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import type winston from 'winston';
+import type { ServerConfig } from '../core/config.js';
 import {
+  AuthorizationError,
+  CommandBlockedError,
+  formatError,
   isBrocadeError,
   isCommandExecutionError,
   isSSHConnectionError,
   isTelnetConnectionError,
+  UnsupportedPlatformError,
   ValidationError,
 } from '../core/errors.js';
-import { createTimer, logDebug, logError, logInfo } from '../core/logger.js';
-import type { BrocadeCommandExecutor } from '../lib/brocade-commands.js';
-import type { BrocadeTransport } from '../lib/transport-interface.js';
-import { generateResources, readResource } from './resources.js';
-import { TOOL_SCHEMAS, type ToolName } from './schemas.js';
-import { generateTools, getToolCategory, requiresPrivilege } from './tools.js';
+import { createTimer, logDebug, logError, logInfo, logWarn } from '../core/logger.js';
+import type { AlertEngine } from '../lib/alert-engine.js';
+import type { ApprovalQueue, ChangeRequest } from '../lib/approval-queue.js';
+import { type AuditLog, getAuditContext, runWithAuditContext } from '../lib/audit-log.js';
+import type { BackupStore } from '../lib/backup-store.js';
+import { type BrocadeCommandExecutor, buildPasteConfigCommands } from '../lib/brocade-commands.js';
+import { detectCliError } from '../lib/cli-errors.js';
+import type { CommandGuard } from '../lib/command-guard.js';
+import type { CommitConfirmManager } from '../lib/commit-confirm.js';
+import { diffConfigs, readSavedConfig } from '../lib/config-diff.js';
+import type { DeviceRegistry } from '../lib/device-registry.js';
+import { mapWithConcurrency, selectDevices } from '../lib/fleet.js';
+import type { AuthenticatedIdentity } from '../lib/http-auth.js';
+import type { InterfaceHistory } from '../lib/interface-history.js';
+import type { InterfaceMonitor, MonitorEvent } from '../lib/interface-monitor.js';
+import type { MetricsRegistry } from '../lib/metrics.js';
+import { collectParseWarnings } from '../lib/parser-registry.js';
+import type { PolicyEngine } from '../lib/policy-engine.js';
+import type { BatchCommandResult, InterfaceStatistics } from '../types/index.js';
+import { generateResources, getResourceTool, readResource } from './resources.js';
+import {
+  type ApplyDesiredStateInput,
+  type ApproveChangeInput,
+  type BackupConfigInput,
+  type CommandConfirmInput,
+  type CommitConfirmedInput,
+  type ConfirmCommitInput,
+  type DeviceTargetInput,
+  type DiffBackupsInput,
+  type DiffConfigInput,
+  type DryRunInput,
+  type ExecuteBatchInput,
+  type ExecuteCommandInput,
+  type GetBackupInput,
+  type GetInterfaceHistoryInput,
+  type GetParsedConfigInput,
+  type ListAlertsInput,
+  type ListBackupsInput,
+  type ListPendingChangesInput,
+  type PasteConfigInput,
+  type QueryAuditLogInput,
+  type RejectChangeInput,
+  type RestoreConfigInput,
+  type RunAcrossFleetInput,
+  type StopMonitoringInput,
+  TOOL_SCHEMAS,
+  type ToolName,
+} from './schemas.js';
+import {
+  APPROVAL_DECISION_TOOLS,
+  generateTools,
+  getToolCategory,
+  isReadOnlyTool,
+  requiresPrivilege,
+  SERVER_SIDE_TOOLS,
+} from './tools.js';
 
 /**
  * Handler dependencies
  */
 export interface HandlerDependencies {
-  switchClient: BrocadeTransport;
-  commandExecutor: BrocadeCommandExecutor;
+  devices: DeviceRegistry;
+  commits: CommitConfirmManager;
+  backups: BackupStore;
+  policy?: PolicyEngine;
+  commandGuard: CommandGuard;
+  approvals: ApprovalQueue;
+  auditLog: AuditLog;
+  /** Live interface monitoring; only the HTTP server has sessions to stream to */
+  monitor?: InterfaceMonitor;
+  /** Threshold alerting; absent when no alert rules are configured */
+  alerts?: AlertEngine;
+  /** Interface counter history */
+  history: InterfaceHistory;
+  /** Prometheus metrics; only the HTTP server exposes them */
+  metrics?: MetricsRegistry;
+  serverConfig: ServerConfig;
   logger: winston.Logger;
   transportType: 'stdio' | 'sse';
 }
 
 /**
- * Setup all MCP handlers for a server
+ * Per-request information about the caller
+ */
+export interface ToolCallContext {
+  /** Authenticated identity on the HTTP server, otherwise the MCP client name reported during initialization */
+  client?: string;
+  /** Policy role given by the caller's credential, taking precedence over the policy's client mapping */
+  role?: string;
+  /** Set when the HTTP server authenticated the caller; self-reported client names are not */
+  authenticated?: boolean;
+  /** Set while an approved change request is being executed */
+  approved?: boolean;
+  /** HTTP session that monitoring events are sent to */
+  subscriber?: { id: string; send: (event: MonitorEvent) => Promise<void> };
+}
+
+/**
+ * The HTTP connection a server instance belongs to
+ */
+export interface McpSessionInfo {
+  /** Session ID, used to route monitoring events */
+  id?: string;
+  /** Authenticated caller */
+  identity?: AuthenticatedIdentity;
+}
+
+/**
+ * Deliver monitoring events to an MCP session as logging notifications
+ */
+export function createMonitorSender(server: Server): (event: MonitorEvent) => Promise<void> {
+  return (event) =>
+    server.notification({
+      method: 'notifications/message',
+      params: { level: event.type === 'sample' ? 'info' : 'warning', logger: 'interface-monitor', data: event },
+    });
+}
+
+/**
+ * Setup all MCP handlers for a server. `session` describes the HTTP connection
+ * the server belongs to.
  */
-export function setupHandlers(server: Server, deps: HandlerDependencies): void {
-  const { commandExecutor, logger, transportType } = deps;
+export function setupHandlers(server: Server, deps: HandlerDependencies, session: McpSessionInfo = {}): void {
+  const { identity } = session;
+  const { devices, metrics, logger, transportType } = deps;
+
+  const callerContext = (): ToolCallContext => ({
+    client: identity?.name ?? server.getClientVersion()?.name,
+    role: identity?.role,
+    authenticated: identity !== undefined,
+    subscriber: session.id ? { id: session.id, send: createMonitorSender(server) } : undefined,
+  });
 
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async (_request: ListToolsRequest) => {
@@ -67,7 +183,15 @@ export function setupHandlers(server: Server, deps: HandlerDependencies): void {
     const timer = createTimer(logger, `Read resource: ${request.params.uri}`);
     try {
       logInfo(logger, 'Reading resource', { uri: request.params.uri });
-      const result = await readResource(request.params.uri, commandExecutor);
+      const tool = getResourceTool(request.params.uri);
+      if (!tool) {
+        throw new ValidationError(`Unknown resource URI: ${request.params.uri}`, 'uri');
+      }
+      const context = callerContext();
+      authorizeToolCall(tool, {}, context, deps);
+      const result = await runWithAuditContext({ tool, user: context.client, callId: randomUUID() }, () =>
+        readResource(request.params.uri, devices.resolve().commandExecutor),
+      );
       timer.end(true);
       return result;
     } catch (error) {
@@ -79,28 +203,99 @@ export function setupHandlers(server: Server, deps: HandlerDependencies): void {
 
   // Execute a tool
   server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
-    const { name, arguments: args } = request.params;
+    const { name } = request.params;
+    const args = withCommitDevice(name, request.params.arguments, deps);
     const timer = createTimer(logger, `Execute tool: ${name}`);
 
     try {
       logInfo(logger, 'Executing tool', {
         tool: name,
+        device: (args as DeviceTargetInput | undefined)?.device ?? devices.getDefaultDeviceName(),
         category: getToolCategory(name as ToolName),
         requiresPrivilege: requiresPrivilege(name as ToolName),
       });
 
-      const result = await executeToolHandler(name as ToolName, args ?? {}, deps);
+      const context = callerContext();
+      authorizeToolCall(name as ToolName, args ?? {}, context, deps);
 
-      timer.end(true);
+      const { result, warnings } = await collectParseWarnings(() =>
+        runWithAuditContext({ tool: name, user: context.client, callId: randomUUID() }, () =>
+          executeToolHandler(name as ToolName, args ?? {}, deps, context),
+        ),
+      );
+
+      metrics?.recordToolCall(name, true, timer.end(true));
+      if (warnings.length > 0) {
+        logWarn(logger, 'Tool output parsed with warnings', { tool: name, warnings });
+        result.content.push({ type: 'text', text: formatParseWarnings(warnings) });
+      }
       return result;
     } catch (error) {
-      timer.end(false);
+      metrics?.recordToolCall(name, false, timer.end(false));
       logError(logger, error, { tool: name });
       throw convertToMcpError(error);
     }
   });
 }
 
+/**
+ * confirm_commit with only a commit id targets the device the commit is pending
+ * on, so the policy checks that device rather than the inventory default
+ */
+function withCommitDevice(
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  deps: HandlerDependencies,
+): Record<string, unknown> | undefined {
+  if (toolName !== 'confirm_commit' || args?.device !== undefined || typeof args?.commitId !== 'string') return args;
+  const commit = deps.commits.find(args.commitId);
+  return commit ? { ...args, device: commit.device } : args;
+}
+
+/**
+ * Parse warnings as a text part following the tool output
+ */
+function formatParseWarnings(warnings: string[]): string {
+  return ['Parser warnings:', ...new Set(warnings)].join('\n- ');
+}
+
+/**
+ * Enforce the authorization policy, if one is configured, before a tool runs
+ */
+export function authorizeToolCall(
+  toolName: ToolName,
+  args: Record<string, unknown>,
+  context: ToolCallContext,
+  deps: HandlerDependencies,
+): void {
+  const { policy, devices, logger } = deps;
+  if (APPROVAL_DECISION_TOOLS.has(toolName) && !context.authenticated) {
+    logWarn(logger, 'Unauthenticated approval decision denied', { tool: toolName, client: context.client });
+    throw new AuthorizationError(
+      `${toolName} requires a caller authenticated by the HTTP server (SSE_API_KEYS or client certificates)`,
+    );
+  }
+  if (!policy) return;
+
+  // Over HTTP a client name is only trusted once the server authenticated it; a
+  // name a remote caller reports about itself gets the default role
+  const trustedName = context.authenticated || deps.transportType === 'stdio' ? context.client : undefined;
+  const role = context.role ?? policy.resolveRole(trustedName);
+  const device = (args as DeviceTargetInput).device ?? devices.getDefaultDeviceName();
+  try {
+    policy.assertAllowed(role, {
+      tool: toolName,
+      category: getToolCategory(toolName),
+      privileged: requiresPrivilege(toolName),
+      device,
+      args,
+    });
+  } catch (error) {
+    logWarn(logger, 'Tool call denied by policy', { tool: toolName, device, role, client: context.client });
+    throw error;
+  }
+}
+
 /**
  * Execute a specific tool
  */
@@ -108,8 +303,22 @@ async function executeToolHandler(
   toolName: ToolName,
   args: unknown,
   deps: HandlerDependencies,
+  context: ToolCallContext = {},
 ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
-  const { commandExecutor, logger, transportType } = deps;
+  const {
+    devices,
+    commits,
+    backups,
+    commandGuard,
+    approvals,
+    auditLog,
+    monitor,
+    alerts,
+    history,
+    serverConfig,
+    logger,
+    transportType,
+  } = deps;
 
   // Validate input against schema
   const schema = TOOL_SCHEMAS[toolName];
@@ -126,11 +335,86 @@ async function executeToolHandler(
   const validatedArgs = validationResult.data;
   let result: string;
 
+  // Resolve the target switch (inventory default when no device is given)
+  const { device } = validatedArgs as DeviceTargetInput;
+  const { name: deviceName, switchClient, commandExecutor, requireApproval } = devices.resolve(device);
+
+  // Every CLI sequence is screened by the command guard before it reaches the
+  // switch: raw CLI up front, generated CLI by the executor just before sending
+  const { confirm } = validatedArgs as CommandConfirmInput;
+  const guard = (commands: string[]) => commandGuard.check(deviceName, commands, confirm);
+
+  // Configuration tools only generate their command list in dry-run mode
+  const { dryRun = false } = validatedArgs as Partial<DryRunInput>;
+  const options = { dryRun, guard };
+
+  const rawCommands = getRawCommands(toolName, validatedArgs);
+  if (rawCommands && !dryRun) {
+    guard(rawCommands);
+  }
+
+  // Privileged changes on approval-gated devices wait for a human decision.
+  // Server-side tools and confirm_commit (which is time-limited) are never queued.
+  if (
+    requireApproval &&
+    requiresPrivilege(toolName) &&
+    !SERVER_SIDE_TOOLS.has(toolName) &&
+    toolName !== 'confirm_commit' &&
+    !dryRun &&
+    !context.approved
+  ) {
+    const commands = await planCommands(toolName, args, deps, context);
+    if (commands && !rawCommands) guard(commands);
+    const change = approvals.submit({
+      device: deviceName,
+      tool: toolName,
+      args: { ...(args as Record<string, unknown>), device: deviceName },
+      commands,
+      requestedBy: context.client,
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ approvalRequired: true, change }, null, 2) }],
+    };
+  }
+
+  // Snapshot the running config before anything that can change the switch
+  if (serverConfig.autoBackup && requiresPrivilege(toolName) && !SERVER_SIDE_TOOLS.has(toolName) && !dryRun) {
+    try {
+      const { entry, created } = await backups.save(deviceName, await commandExecutor.getRunningConfig(), {
+        source: 'running',
+        trigger: { type: 'auto', tool: toolName, client: context.client },
+      });
+      logDebug(logger, 'Automatic backup taken', { device: deviceName, version: entry.version, created });
+    } catch (error) {
+      logWarn(logger, 'Automatic backup failed', { device: deviceName, tool: toolName, error: formatError(error) });
+    }
+  }
+
+  // Commit-confirmed changes are planned here and applied by the commit manager
+  const { commitConfirmed, rollbackStrategy = 'restore' } = validatedArgs as Partial<CommitConfirmedInput>;
+  if (commitConfirmed !== undefined && !dryRun) {
+    const plan = await executeToolHandler(toolName, { ...(args as object), dryRun: true }, deps, context);
+    const { commands } = JSON.parse(plan.content[0].text) as { commands: string[] };
+    if (commands.length === 0) {
+      return plan;
+    }
+    if (!rawCommands) guard(commands);
+    logInfo(logger, 'Starting commit-confirmed change', { device: deviceName, tool: toolName, commitConfirmed });
+    const started = await commits.start(deviceName, toolName, commands, {
+      minutes: commitConfirmed,
+      rollbackStrategy,
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(started, null, 2) }],
+    };
+  }
+
   // Execute the tool
   switch (toolName) {
     case 'get_system_info': {
       const systemInfo = await commandExecutor.getSystemInfo();
-      result = JSON.stringify(systemInfo, null, 2);
+      const { family, firmwareTrain, profiles } = await commandExecutor.getPlatform();
+      result = JSON.stringify({ ...systemInfo, platform: { family, firmwareTrain, profiles } }, null, 2);
       break;
     }
 
@@ -148,15 +432,19 @@ async function executeToolHandler(
 
     case 'configure_vlan': {
       const { vlanId, name } = validatedArgs as { vlanId: number; name?: string };
-      await commandExecutor.configureVlan(vlanId, name);
-      result = `VLAN ${vlanId} configured successfully${name ? ` with name "${name}"` : ''}`;
+      const commands = await commandExecutor.configureVlan(vlanId, name, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `VLAN ${vlanId} configured successfully${name ? ` with name "${name}"` : ''}`;
       break;
     }
 
     case 'add_port_to_vlan': {
       const { port, vlanId, tagged } = validatedArgs as { port: string; vlanId: number; tagged?: boolean };
-      await commandExecutor.addPortToVlan(port, vlanId, tagged);
-      result = `Port ${port} added to VLAN ${vlanId} as ${tagged ? 'tagged' : 'untagged'}`;
+      const commands = await commandExecutor.addPortToVlan(port, vlanId, tagged, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Port ${port} added to VLAN ${vlanId} as ${tagged ? 'tagged' : 'untagged'}`;
       break;
     }
 
@@ -168,13 +456,17 @@ async function executeToolHandler(
         speed?: string;
         duplex?: string;
       };
-      await commandExecutor.configureInterface(interfaceName, {
-        description,
-        enabled,
-        speed,
-        duplex,
-      });
-      result = `Interface ${interfaceName} configured successfully`;
+      const commands = await commandExecutor.configureInterface(
+        interfaceName,
+        {
+          description,
+          enabled,
+          speed,
+          duplex,
+        },
+        options,
+      );
+      result = dryRun ? formatDryRun(commands) : `Interface ${interfaceName} configured successfully`;
       break;
     }
 
@@ -186,16 +478,113 @@ async function executeToolHandler(
 
     case 'configure_spanning_tree': {
       const { mode, priority } = validatedArgs as { mode: string; priority?: number };
-      await commandExecutor.configureSpanningTree(mode, priority);
-      result = `Spanning Tree configured with mode: ${mode}${priority ? `, priority: ${priority}` : ''}`;
+      const commands = await commandExecutor.configureSpanningTree(mode, priority, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Spanning Tree configured with mode: ${mode}${priority ? `, priority: ${priority}` : ''}`;
       break;
     }
 
     case 'backup_config': {
-      const { format = 'running' } = validatedArgs as { format?: 'running' | 'startup' };
+      const { format = 'running', message } = validatedArgs as BackupConfigInput;
       const config =
         format === 'startup' ? await commandExecutor.getStartupConfig() : await commandExecutor.getRunningConfig();
-      result = config;
+      const { entry } = await backups.save(deviceName, config, {
+        source: format,
+        trigger: { type: 'manual', client: context.client },
+        message,
+      });
+      result = JSON.stringify({ backup: entry, config }, null, 2);
+      break;
+    }
+
+    case 'restore_config': {
+      const { config, file, version, save } = validatedArgs as RestoreConfigInput;
+      const sources = [config !== undefined, file !== undefined, version !== undefined].filter(Boolean).length;
+      if (sources !== 1) {
+        throw new ValidationError('Exactly one of config, file or version is required', 'config');
+      }
+
+      let target: string;
+      if (version !== undefined) {
+        target = (await backups.get(deviceName, version)).config;
+      } else if (file !== undefined) {
+        target = await readSavedConfig(serverConfig.backupDir, file);
+      } else {
+        target = config as string;
+      }
+
+      const { commands, report } = await commandExecutor.restoreConfig(target, { ...options, save });
+      if (dryRun) {
+        result = formatDryRun(commands);
+      } else if (!report) {
+        result = 'Running configuration already matches the restore target';
+      } else {
+        logInfo(logger, 'Restored configuration', { device: deviceName, commands: commands.length, save });
+        result = JSON.stringify(report, null, 2);
+      }
+      break;
+    }
+
+    case 'list_backups': {
+      const { limit } = validatedArgs as ListBackupsInput;
+      result = JSON.stringify(await backups.list(deviceName, limit), null, 2);
+      break;
+    }
+
+    case 'get_backup': {
+      const { version } = validatedArgs as GetBackupInput;
+      result = JSON.stringify(await backups.get(deviceName, version), null, 2);
+      break;
+    }
+
+    case 'diff_backups': {
+      const { from, to, contextLines } = validatedArgs as DiffBackupsInput;
+      const before = await backups.get(deviceName, from);
+      let after: string;
+      if (to === 'running') {
+        after = await commandExecutor.getRunningConfig();
+      } else if (to === 'startup') {
+        after = await commandExecutor.getStartupConfig();
+      } else {
+        after = (await backups.get(deviceName, to)).config;
+      }
+
+      const diff = diffConfigs(
+        before.config,
+        after,
+        { before: `v${from}`, after: typeof to === 'number' ? `v${to}` : to },
+        contextLines,
+      );
+      result = JSON.stringify(diff, null, 2);
+      break;
+    }
+
+    case 'diff_config': {
+      const { source, against, config, file, contextLines } = validatedArgs as DiffConfigInput;
+      const readSwitchConfig = (which: 'running' | 'startup') =>
+        which === 'startup' ? commandExecutor.getStartupConfig() : commandExecutor.getRunningConfig();
+
+      let reference: string;
+      let referenceLabel: string = against;
+      if (against === 'text') {
+        if (config === undefined) throw new ValidationError('config is required when against is "text"', 'config');
+        reference = config;
+      } else if (against === 'file') {
+        if (!file) throw new ValidationError('file is required when against is "file"', 'file');
+        reference = await readSavedConfig(deps.serverConfig.backupDir, file);
+        referenceLabel = file;
+      } else {
+        reference = await readSwitchConfig(against);
+      }
+
+      const diff = diffConfigs(
+        reference,
+        await readSwitchConfig(source),
+        { before: referenceLabel, after: source },
+        contextLines,
+      );
+      result = JSON.stringify(diff, null, 2);
       break;
     }
 
@@ -211,19 +600,45 @@ async function executeToolHandler(
         maxMacAddresses: number;
         violation: string;
       };
-      await commandExecutor.configurePortSecurity(port, maxMacAddresses, violation);
-      result = `Port security configured on ${port}: max MACs=${maxMacAddresses}, violation=${violation}`;
+      const commands = await commandExecutor.configurePortSecurity(port, maxMacAddresses, violation, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Port security configured on ${port}: max MACs=${maxMacAddresses}, violation=${violation}`;
       break;
     }
 
     case 'monitor_interface': {
-      if (transportType !== 'sse') {
+      const { interfaceName, interval = 5 } = validatedArgs as { interfaceName: string; interval?: number };
+      const { subscriber } = context;
+      if (transportType !== 'sse' || !monitor || !subscriber) {
         throw new ValidationError('Interface monitoring is only available with SSE transport');
       }
-      const { interfaceName, interval = 5 } = validatedArgs as { interfaceName: string; interval?: number };
-      // For SSE, this would start a monitoring session
-      // Implementation would depend on SSE-specific handling
-      result = `Monitoring interface ${interfaceName} every ${interval} seconds (SSE stream started)`;
+      const subscription = await monitor.start({
+        owner: subscriber.id,
+        device: deviceName,
+        interfaceName,
+        intervalSeconds: interval,
+        poll: () => readInterfaceCounters(commandExecutor, interfaceName),
+        send: subscriber.send,
+      });
+      result = JSON.stringify(subscription, null, 2);
+      break;
+    }
+
+    case 'list_monitors': {
+      if (!monitor || !context.subscriber) {
+        throw new ValidationError('Interface monitoring is only available with SSE transport');
+      }
+      result = JSON.stringify(monitor.list(context.subscriber.id), null, 2);
+      break;
+    }
+
+    case 'stop_monitoring': {
+      const { subscriptionId } = validatedArgs as StopMonitoringInput;
+      if (!monitor || !context.subscriber) {
+        throw new ValidationError('Interface monitoring is only available with SSE transport');
+      }
+      result = JSON.stringify(monitor.stop(subscriptionId, context.subscriber.id), null, 2);
       break;
     }
 
@@ -258,6 +673,13 @@ async function executeToolHandler(
       break;
     }
 
+    case 'get_parsed_config': {
+      const { section } = validatedArgs as GetParsedConfigInput;
+      const parsedConfig = await commandExecutor.getParsedConfig();
+      result = JSON.stringify(section ? parsedConfig[section] : parsedConfig, null, 2);
+      break;
+    }
+
     case 'get_log': {
       const { maxLines = 100 } = validatedArgs as { maxLines?: number };
       const logs = await commandExecutor.getLogs(maxLines);
@@ -284,8 +706,8 @@ async function executeToolHandler(
         transmitInterval?: number;
         holdMultiplier?: number;
       };
-      await commandExecutor.configureLLDP({ enabled, transmitInterval, holdMultiplier });
-      result = 'LLDP configuration updated successfully';
+      const commands = await commandExecutor.configureLLDP({ enabled, transmitInterval, holdMultiplier }, options);
+      result = dryRun ? formatDryRun(commands) : 'LLDP configuration updated successfully';
       break;
     }
 
@@ -322,14 +744,17 @@ async function executeToolHandler(
         distance?: number;
         interface?: string;
       };
-      await commandExecutor.configureStaticRoute({
-        destination,
-        netmask,
-        gateway,
-        distance,
-        interface: iface,
-      });
-      result = `Static route configured: ${destination}/${netmask} via ${gateway}`;
+      const commands = await commandExecutor.configureStaticRoute(
+        {
+          destination,
+          netmask,
+          gateway,
+          distance,
+          interface: iface,
+        },
+        options,
+      );
+      result = dryRun ? formatDryRun(commands) : `Static route configured: ${destination}/${netmask} via ${gateway}`;
       break;
     }
 
@@ -340,8 +765,8 @@ async function executeToolHandler(
         type?: 'static' | 'lacp';
         name?: string;
       };
-      await commandExecutor.configurePortChannel({ id, ports, type, name });
-      result = `Port channel ${id} configured with ${ports.length} port(s)`;
+      const commands = await commandExecutor.configurePortChannel({ id, ports, type, name }, options);
+      result = dryRun ? formatDryRun(commands) : `Port channel ${id} configured with ${ports.length} port(s)`;
       break;
     }
 
@@ -352,13 +777,18 @@ async function executeToolHandler(
         subnet: string;
         description?: string;
       };
-      await commandExecutor.configureLayer3Interface({
-        vlan,
-        ipAddress,
-        subnet,
-        description,
-      });
-      result = `Layer 3 interface VE ${vlan} configured with IP ${ipAddress}/${subnet}`;
+      const commands = await commandExecutor.configureLayer3Interface(
+        {
+          vlan,
+          ipAddress,
+          subnet,
+          description,
+        },
+        options,
+      );
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Layer 3 interface VE ${vlan} configured with IP ${ipAddress}/${subnet}`;
       break;
     }
 
@@ -370,14 +800,17 @@ async function executeToolHandler(
         cos?: number;
         queueId?: number;
       };
-      await commandExecutor.configureQoS({
-        name,
-        priority,
-        dscp,
-        cos,
-        queueId,
-      });
-      result = `QoS profile "${name}" configured successfully`;
+      const commands = await commandExecutor.configureQoS(
+        {
+          name,
+          priority,
+          dscp,
+          cos,
+          queueId,
+        },
+        options,
+      );
+      result = dryRun ? formatDryRun(commands) : `QoS profile "${name}" configured successfully`;
       break;
     }
 
@@ -423,8 +856,8 @@ async function executeToolHandler(
           description?: string;
         }>;
       };
-      await commandExecutor.configureACL({ name, type, rules });
-      result = `ACL "${name}" configured with ${rules.length} rule(s)`;
+      const commands = await commandExecutor.configureACL({ name, type, rules }, options);
+      result = dryRun ? formatDryRun(commands) : `ACL "${name}" configured with ${rules.length} rule(s)`;
       break;
     }
 
@@ -466,36 +899,42 @@ async function executeToolHandler(
 
     case 'configure_stack_priority': {
       const { unitId, priority } = validatedArgs as { unitId: number; priority: number };
-      await commandExecutor.configureStackPriority(unitId, priority);
-      result = `Stack priority for unit ${unitId} set to ${priority}`;
+      const commands = await commandExecutor.configureStackPriority(unitId, priority, options);
+      result = dryRun ? formatDryRun(commands) : `Stack priority for unit ${unitId} set to ${priority}`;
       break;
     }
 
     case 'configure_stack_ports': {
       const { unitId, port1, port2 } = validatedArgs as { unitId: number; port1: string; port2?: string };
-      await commandExecutor.configureStackPorts({ unitId, port1, port2 });
-      result = `Stack ports configured for unit ${unitId}: ${port1}${port2 ? `, ${port2}` : ''}`;
+      const commands = await commandExecutor.configureStackPorts({ unitId, port1, port2 }, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Stack ports configured for unit ${unitId}: ${port1}${port2 ? `, ${port2}` : ''}`;
       break;
     }
 
     case 'renumber_stack_unit': {
       const { currentId, newId } = validatedArgs as { currentId: number; newId: number };
-      await commandExecutor.renumberStackUnit(currentId, newId);
-      result = `Stack unit renumbered from ${currentId} to ${newId}`;
+      const commands = await commandExecutor.renumberStackUnit(currentId, newId, options);
+      result = dryRun ? formatDryRun(commands) : `Stack unit renumbered from ${currentId} to ${newId}`;
       break;
     }
 
     case 'configure_stack': {
       const { enabled } = validatedArgs as { enabled: boolean };
-      await commandExecutor.configureStack(enabled);
-      result = `Stack ${enabled ? 'enabled' : 'disabled'} successfully`;
+      const commands = await commandExecutor.configureStack(enabled, options);
+      result = dryRun ? formatDryRun(commands) : `Stack ${enabled ? 'enabled' : 'disabled'} successfully`;
       break;
     }
 
     // Security Feature tools
     case 'configure_dhcp_snooping': {
       const { vlan, enabled, trustPorts } = validatedArgs as { vlan: number; enabled: boolean; trustPorts?: string[] };
-      await commandExecutor.configureDHCPSnooping({ vlan, enabled, trustPorts });
+      const commands = await commandExecutor.configureDHCPSnooping({ vlan, enabled, trustPorts }, options);
+      if (dryRun) {
+        result = formatDryRun(commands);
+        break;
+      }
       result = `DHCP snooping ${enabled ? 'enabled' : 'disabled'} on VLAN ${vlan}${trustPorts && trustPorts.length > 0 ? ` with ${trustPorts.length} trusted ports` : ''}`;
       break;
     }
@@ -508,8 +947,8 @@ async function executeToolHandler(
 
     case 'configure_ip_source_guard': {
       const { port, enabled, maxBindings } = validatedArgs as { port: string; enabled: boolean; maxBindings?: number };
-      await commandExecutor.configureIPSourceGuard({ port, enabled, maxBindings });
-      result = `IP source guard ${enabled ? 'enabled' : 'disabled'} on port ${port}`;
+      const commands = await commandExecutor.configureIPSourceGuard({ port, enabled, maxBindings }, options);
+      result = dryRun ? formatDryRun(commands) : `IP source guard ${enabled ? 'enabled' : 'disabled'} on port ${port}`;
       break;
     }
 
@@ -522,15 +961,20 @@ async function executeToolHandler(
         validateDstMac?: boolean;
         validateIp?: boolean;
       };
-      await commandExecutor.configureDynamicARPInspection({
-        vlan,
-        enabled,
-        trustPorts,
-        validateSrcMac,
-        validateDstMac,
-        validateIp,
-      });
-      result = `Dynamic ARP Inspection ${enabled ? 'enabled' : 'disabled'} on VLAN ${vlan}`;
+      const commands = await commandExecutor.configureDynamicARPInspection(
+        {
+          vlan,
+          enabled,
+          trustPorts,
+          validateSrcMac,
+          validateDstMac,
+          validateIp,
+        },
+        options,
+      );
+      result = dryRun
+        ? formatDryRun(commands)
+        : `Dynamic ARP Inspection ${enabled ? 'enabled' : 'disabled'} on VLAN ${vlan}`;
       break;
     }
 
@@ -569,58 +1013,83 @@ async function executeToolHandler(
       break;
     }
 
+    case 'get_interface_history': {
+      const { interfaceName, since, until, points } = validatedArgs as GetInterfaceHistoryInput;
+      const end = until ? new Date(until) : new Date();
+      const start = since ? new Date(since) : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+      const series = await history.query(deviceName, interfaceName, { since: start, until: end, points });
+      if (series.points.length === 0 && !history.recording) {
+        throw new ValidationError('Interface history is not recorded; set BROCADE_HISTORY_INTERVAL to start recording');
+      }
+      result = JSON.stringify(series, null, 2);
+      break;
+    }
+
     // Performance / batch operation tools
     case 'execute_batch': {
-      const { commands } = validatedArgs as { commands: string[] };
-      logInfo(logger, 'Executing batch commands', { count: commands.length });
-      const batchResults = await deps.switchClient.executeMultipleCommands(commands);
-      const batchOutput = commands.map((cmd, i) => ({
-        command: cmd,
-        output: batchResults[i] ?? '',
-        success: batchResults[i] !== '',
-      }));
-      result = JSON.stringify(batchOutput, null, 2);
+      const { commands, rollbackOnError } = validatedArgs as { commands: string[]; rollbackOnError?: boolean };
+      logInfo(logger, 'Executing batch commands', { count: commands.length, rollbackOnError });
+
+      if (rollbackOnError) {
+        const report = await commandExecutor.applyTransaction(commands);
+        result = JSON.stringify(report, null, 2);
+        break;
+      }
+
+      const batchResults = await switchClient.executeMultipleCommands(commands);
+      result = JSON.stringify(toBatchResults(commands, batchResults), null, 2);
       break;
     }
 
     case 'paste_config': {
-      const { config, save } = validatedArgs as { config: string; save?: boolean };
-      // Split by newline, filter blanks and comments
-      const configLines = config
-        .split('\n')
-        .map((line) => line.trim())
-        .filter((line) => line.length > 0 && !line.startsWith('!'));
-
-      if (configLines.length === 0) {
+      const { config, save, rollbackOnError } = validatedArgs as {
+        config: string;
+        save?: boolean;
+        rollbackOnError?: boolean;
+      };
+      const cmds = buildPasteConfigCommands(config, save);
+
+      if (cmds.length === 0) {
         result = 'No valid configuration lines to apply';
         break;
       }
 
-      // Prepend conf t if not already present
-      const cmds: string[] = [];
-      const firstLine = configLines[0].toLowerCase();
-      if (!firstLine.startsWith('conf')) {
-        cmds.push('conf t');
+      if (dryRun) {
+        const flagged = commandGuard.inspect(cmds);
+        result = formatDryRun(
+          cmds,
+          flagged.length === 0
+            ? undefined
+            : {
+                flagged,
+                ...(commandGuard.mode === 'confirm' && { confirmToken: commandGuard.confirmToken(deviceName, cmds) }),
+              },
+        );
+        break;
       }
-      cmds.push(...configLines);
 
-      // Append end + write memory if save requested
-      const lastCmd = cmds[cmds.length - 1].toLowerCase();
-      if (!lastCmd.startsWith('end')) {
-        cmds.push('end');
-      }
-      if (save) {
-        cmds.push('write memory');
+      logInfo(logger, 'Pasting configuration', { lines: cmds.length, save, rollbackOnError });
+
+      if (rollbackOnError) {
+        const report = await commandExecutor.applyTransaction(cmds);
+        result = JSON.stringify(report, null, 2);
+        break;
       }
 
-      logInfo(logger, 'Pasting configuration', { lines: cmds.length, save });
-      const pasteResults = await deps.switchClient.executeMultipleCommands(cmds);
-      const pasteOutput = cmds.map((cmd, i) => ({
-        command: cmd,
-        output: pasteResults[i] ?? '',
-        success: pasteResults[i] !== undefined,
-      }));
-      result = JSON.stringify(pasteOutput, null, 2);
+      const pasteResults = await switchClient.executeMultipleCommands(cmds);
+      result = JSON.stringify(toBatchResults(cmds, pasteResults), null, 2);
+      break;
+    }
+
+    case 'apply_desired_state': {
+      const { vlans, ports, pruneVlans } = validatedArgs as ApplyDesiredStateInput;
+      const plan = await commandExecutor.applyDesiredState({ vlans, ports, pruneVlans }, options);
+      if (!dryRun) {
+        logInfo(logger, 'Applied desired state', { changes: plan.changes.length });
+      }
+      result = dryRun
+        ? formatDryRun(plan.commands, { changes: plan.changes })
+        : JSON.stringify({ applied: plan.commands.length > 0, changes: plan.changes }, null, 2);
       break;
     }
 
@@ -631,27 +1100,83 @@ async function executeToolHandler(
         taggedPorts?: string[];
         untaggedPorts?: string[];
       };
-      const vlanCmds: string[] = ['conf t', name ? `vlan ${id} name ${name}` : `vlan ${id}`];
-      if (taggedPorts && taggedPorts.length > 0) {
-        for (const port of taggedPorts) {
-          vlanCmds.push(`tagged ${port}`);
-        }
+
+      if (!dryRun) {
+        logInfo(logger, 'Creating full VLAN configuration', {
+          vlanId: id,
+          name,
+          taggedPorts: taggedPorts?.length ?? 0,
+          untaggedPorts: untaggedPorts?.length ?? 0,
+        });
       }
-      if (untaggedPorts && untaggedPorts.length > 0) {
-        for (const port of untaggedPorts) {
-          vlanCmds.push(`untagged ${port}`);
-        }
+      const commands = await commandExecutor.createVlanFull({ id, name, taggedPorts, untaggedPorts }, options);
+      result = dryRun
+        ? formatDryRun(commands)
+        : `VLAN ${id} "${name}" created with ${taggedPorts?.length ?? 0} tagged and ${untaggedPorts?.length ?? 0} untagged ports`;
+      break;
+    }
+
+    // Inventory tools
+    case 'list_devices': {
+      const { tag } = validatedArgs as { tag?: string };
+      const deviceList = devices.list().filter((entry) => !tag || entry.tags.includes(tag));
+      result = JSON.stringify(deviceList, null, 2);
+      break;
+    }
+
+    case 'confirm_commit': {
+      const { commitId, save } = validatedArgs as ConfirmCommitInput;
+      const confirmed = await commits.confirm(deviceName, { commitId, save });
+      result = JSON.stringify(confirmed, null, 2);
+      break;
+    }
+
+    case 'list_pending_commits': {
+      result = JSON.stringify(commits.list(), null, 2);
+      break;
+    }
+
+    case 'list_pending_changes': {
+      const { status } = validatedArgs as ListPendingChangesInput;
+      result = JSON.stringify(approvals.list(status), null, 2);
+      break;
+    }
+
+    case 'approve_change': {
+      const { changeId, comment } = validatedArgs as ApproveChangeInput;
+      result = JSON.stringify(await approveChange(changeId, context.client, deps, comment), null, 2);
+      break;
+    }
+
+    case 'reject_change': {
+      const { changeId, reason } = validatedArgs as RejectChangeInput;
+      result = JSON.stringify(approvals.reject(changeId, context.client, reason), null, 2);
+      break;
+    }
+
+    case 'query_audit_log': {
+      const { verify, ...filter } = validatedArgs as QueryAuditLogInput;
+      const entries = await auditLog.query(filter);
+      result = JSON.stringify(verify ? { entries, chain: await auditLog.verify() } : { entries }, null, 2);
+      break;
+    }
+
+    case 'list_alerts': {
+      if (!alerts) {
+        throw new ValidationError('Alerting is not configured; set BROCADE_ALERT_RULES to an alert rules file');
       }
-      vlanCmds.push('exit', 'end', 'write memory');
+      result = JSON.stringify(
+        { rules: alerts.rules.length, alerts: alerts.list(validatedArgs as ListAlertsInput) },
+        null,
+        2,
+      );
+      break;
+    }
 
-      logInfo(logger, 'Creating full VLAN configuration', {
-        vlanId: id,
-        name,
-        taggedPorts: taggedPorts?.length ?? 0,
-        untaggedPorts: untaggedPorts?.length ?? 0,
-      });
-      await deps.switchClient.executeMultipleCommands(vlanCmds);
-      result = `VLAN ${id} "${name}" created with ${taggedPorts?.length ?? 0} tagged and ${untaggedPorts?.length ?? 0} untagged ports`;
+    case 'run_across_fleet': {
+      const fleetArgs = validatedArgs as RunAcrossFleetInput;
+      const fleetResult = await runAcrossFleet(fleetArgs, deps, context);
+      result = JSON.stringify(fleetResult, null, 2);
       break;
     }
 
@@ -665,6 +1190,205 @@ async function executeToolHandler(
   };
 }
 
+/**
+ * Current counters of one interface, for monitoring
+ */
+export async function readInterfaceCounters(
+  commandExecutor: BrocadeCommandExecutor,
+  interfaceName: string,
+): Promise<InterfaceStatistics> {
+  const stats = await commandExecutor.getInterfaceStatistics(interfaceName);
+  const port = interfaceName.replace(/^(?:ethernet|ethe)\s+/i, '');
+  const counters = stats.find((entry) => entry.interface === port) ?? (stats.length === 1 ? stats[0] : undefined);
+  if (!counters) {
+    throw new ValidationError(`No statistics for interface ${interfaceName}`, 'interfaceName');
+  }
+  return counters;
+}
+
+/**
+ * Pair each command with its output, flagging lines the switch rejected
+ */
+function toBatchResults(commands: string[], outputs: string[]): BatchCommandResult[] {
+  return commands.map((command, i) => {
+    const output = outputs[i] ?? '';
+    const error = outputs[i] === undefined ? 'No output received' : detectCliError(output);
+    return error ? { command, output, success: false, error } : { command, output, success: true };
+  });
+}
+
+/**
+ * Execute an approved change request and record its outcome. The change is
+ * re-planned first; if its CLI no longer matches what was approved (the switch
+ * config moved on in the meantime) nothing is applied.
+ */
+export async function approveChange(
+  changeId: string,
+  approver: string | undefined,
+  deps: HandlerDependencies,
+  comment?: string,
+): Promise<ChangeRequest> {
+  const { approvals, logger } = deps;
+  const change = approvals.beginApproval(changeId, approver, comment);
+  const tool = change.tool as ToolName;
+  const context: ToolCallContext = { client: change.requestedBy, approved: true };
+
+  try {
+    if (change.commands) {
+      const commands = await planCommands(tool, change.args, deps, context);
+      if (JSON.stringify(commands) !== JSON.stringify(change.commands)) {
+        return approvals.complete(changeId, {
+          success: false,
+          result: 'The CLI generated for this change differs from the approved CLI; submit the change again',
+        });
+      }
+    }
+
+    const response = await runWithAuditContext(
+      { tool, user: change.requestedBy, approvedBy: approver, callId: randomUUID() },
+      () => executeToolHandler(tool, change.args, deps, context),
+    );
+    return approvals.complete(changeId, {
+      success: true,
+      result: response.content.map((part) => part.text).join('\n'),
+    });
+  } catch (error) {
+    logError(logger, error, { changeId, tool });
+    return approvals.complete(changeId, { success: false, result: formatError(error) });
+  }
+}
+
+/**
+ * CLI a privileged call would send: the raw commands of raw-CLI tools, or the
+ * dry-run plan of configuration tools. Undefined for tools that cannot report it.
+ */
+async function planCommands(
+  toolName: ToolName,
+  args: unknown,
+  deps: HandlerDependencies,
+  context: ToolCallContext,
+): Promise<string[] | undefined> {
+  const schema = TOOL_SCHEMAS[toolName];
+  const raw = getRawCommands(toolName, schema.parse(args));
+  if (raw) return raw;
+  if (!('dryRun' in schema.shape)) return undefined;
+
+  const plan = await executeToolHandler(toolName, { ...(args as object), dryRun: true }, deps, context);
+  const parsed = parseToolOutput(plan.content[0].text) as { commands?: unknown } | string;
+  return typeof parsed === 'object' && Array.isArray(parsed.commands) ? (parsed.commands as string[]) : [];
+}
+
+/**
+ * Free-form CLI a tool would send, for the command guard. Tools that build
+ * their own commands return undefined.
+ */
+function getRawCommands(toolName: ToolName, args: unknown): string[] | undefined {
+  switch (toolName) {
+    case 'execute_command':
+      return (args as ExecuteCommandInput).command.split(/\r?\n/);
+    case 'execute_batch':
+      return (args as ExecuteBatchInput).commands;
+    case 'paste_config': {
+      const { config, save } = args as PasteConfigInput;
+      return buildPasteConfigCommands(config, save);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Render the command plan returned by a configuration tool in dry-run mode
+ */
+function formatDryRun(commands: string[], details?: Record<string, unknown>): string {
+  return JSON.stringify({ dryRun: true, ...details, commands }, null, 2);
+}
+
+/**
+ * Per-device outcome of a fleet fan-out
+ */
+type FleetDeviceResult =
+  | { success: true; durationMs: number; result: unknown; warnings?: string[] }
+  | { success: false; durationMs: number; error: string };
+
+/**
+ * Run a read-only tool on every selected device with bounded concurrency.
+ * Device failures are captured in the result map rather than thrown.
+ */
+async function runAcrossFleet(
+  input: RunAcrossFleetInput,
+  deps: HandlerDependencies,
+  context: ToolCallContext,
+): Promise<{
+  tool: string;
+  summary: { selected: number; succeeded: number; failed: number };
+  results: Record<string, FleetDeviceResult>;
+}> {
+  const { tool, args = {}, devices: names, tags, pattern, concurrency } = input;
+
+  if (!isReadOnlyTool(tool)) {
+    throw new ValidationError(
+      `Tool "${tool}" cannot be run across the fleet; only read-only tools are allowed`,
+      'tool',
+    );
+  }
+
+  const selected = selectDevices(deps.devices.getDevices(), { names, tags, pattern });
+  if (selected.length === 0) {
+    throw new ValidationError('Device selector did not match any inventory devices', 'devices');
+  }
+
+  logInfo(deps.logger, 'Running tool across fleet', {
+    tool,
+    devices: selected.map((device) => device.name),
+    concurrency,
+  });
+
+  const outcomes = await mapWithConcurrency(selected, concurrency, async (device): Promise<FleetDeviceResult> => {
+    const start = Date.now();
+    try {
+      const deviceArgs = { ...args, device: device.name };
+      authorizeToolCall(tool, deviceArgs, context, deps);
+      const { result: response, warnings } = await collectParseWarnings(() =>
+        runWithAuditContext({ ...getAuditContext(), tool }, () => executeToolHandler(tool, deviceArgs, deps, context)),
+      );
+      const text = response.content.map((part) => part.text).join('\n');
+      return {
+        success: true,
+        durationMs: Date.now() - start,
+        result: parseToolOutput(text),
+        ...(warnings.length > 0 && { warnings: [...new Set(warnings)] }),
+      };
+    } catch (error) {
+      logError(deps.logger, error, { tool, device: device.name });
+      return { success: false, durationMs: Date.now() - start, error: formatError(error) };
+    }
+  });
+
+  const results: Record<string, FleetDeviceResult> = {};
+  selected.forEach((device, i) => {
+    results[device.name] = outcomes[i];
+  });
+  const succeeded = outcomes.filter((outcome) => outcome.success).length;
+
+  return {
+    tool,
+    summary: { selected: selected.length, succeeded, failed: selected.length - succeeded },
+    results,
+  };
+}
+
+/**
+ * Tool handlers return JSON text for structured data; hand it back as objects when possible
+ */
+function parseToolOutput(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
 /**
  * Convert errors to MCP errors
  */
@@ -693,6 +1417,18 @@ function convertToMcpError(error: unknown): McpError {
     return new McpError(ErrorCode.InvalidParams, error.message, { field: error.field });
   }
 
+  if (error instanceof CommandBlockedError) {
+    return new McpError(ErrorCode.InvalidRequest, error.message, error.details);
+  }
+
+  if (error instanceof AuthorizationError) {
+    return new McpError(ErrorCode.InvalidRequest, `Not authorized: ${error.message}`, error.details);
+  }
+
+  if (error instanceof UnsupportedPlatformError) {
+    return new McpError(ErrorCode.InvalidRequest, error.message, { feature: error.feature, details: error.details });
+  }
+
   if (isBrocadeError(error)) {
     return new McpError(ErrorCode.InternalError, error.message, error.details);
   }
@@ -4,6 +4,7 @@
 
 import type { Resource } from '@modelcontextprotocol/sdk/types.js';
 import type { BrocadeCommandExecutor } from '../lib/brocade-commands.js';
+import type { ToolName } from './schemas.js';
 
 /**
  * Resource types available
@@ -21,6 +22,27 @@ export const RESOURCE_URI_PATTERNS = {
   logs: 'brocade://logs/{level}',
 } as const;
 
+/**
+ * The tool whose policy rules govern reading each resource: a resource
+ * returns the same data as the tool, so it is allowed or denied with it
+ */
+const RESOURCE_TOOLS: Record<string, ToolName> = {
+  'brocade://config/running': 'get_running_config',
+  'brocade://config/parsed': 'get_parsed_config',
+  'brocade://config/startup': 'get_running_config',
+  'brocade://vlans': 'get_vlans',
+  'brocade://interfaces': 'get_interfaces',
+  'brocade://system/info': 'get_system_info',
+  'brocade://logs/recent': 'get_log',
+};
+
+/**
+ * Tool a resource is authorized as, or undefined for an unknown URI
+ */
+export function getResourceTool(uri: string): ToolName | undefined {
+  return RESOURCE_TOOLS[uri];
+}
+
 /**
  * Generate resource definitions
  */
@@ -32,6 +54,12 @@ export function generateResources(): Resource[] {
       description: 'Current running configuration of the switch',
       mimeType: 'text/plain',
     },
+    {
+      uri: 'brocade://config/parsed',
+      name: 'Parsed Configuration',
+      description: 'Running configuration parsed into a typed model (VLANs, interfaces, ACLs, routes, ...)',
+      mimeType: 'application/json',
+    },
     {
       uri: 'brocade://config/startup',
       name: 'Startup Configuration',
@@ -85,6 +113,16 @@ export async function readResource(
       break;
     }
 
+    case 'brocade://config/parsed': {
+      const parsedConfig = await commandExecutor.getParsedConfig();
+      contents.push({
+        uri,
+        text: JSON.stringify(parsedConfig, null, 2),
+        mimeType: 'application/json',
+      });
+      break;
+    }
+
     case 'brocade://config/startup': {
       const config = await commandExecutor.getStartupConfig();
       contents.push({
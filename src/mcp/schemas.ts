@@ -49,6 +49,75 @@ export const ConfigureSpanningTreeSchema = z.object({
 
 export const BackupConfigSchema = z.object({
   format: z.enum(['running', 'startup']).optional().describe('Configuration type to backup'),
+  message: z.string().optional().describe('Note stored with the backup version'),
+});
+
+export const RestoreConfigSchema = z.object({
+  config: z.string().optional().describe('Configuration text to restore (e.g. earlier backup_config output)'),
+  file: z.string().optional().describe('Saved config file, relative to the backup directory'),
+  version: z.number().int().min(1).optional().describe('Version from the backup store (see list_backups)'),
+  save: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Run "write memory" once the restore succeeded (default: false)'),
+});
+
+export const ListBackupsSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(20)
+    .describe('Maximum number of versions to return, newest first (default: 20)'),
+});
+
+export const GetBackupSchema = z.object({
+  version: z.number().int().min(1).describe('Backup version number'),
+});
+
+export const DiffBackupsSchema = z.object({
+  from: z.number().int().min(1).describe('Older backup version'),
+  to: z
+    .union([z.number().int().min(1), z.enum(['running', 'startup'])])
+    .optional()
+    .default('running')
+    .describe('Newer backup version, or the live "running"/"startup" config (default: running)'),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .optional()
+    .default(3)
+    .describe('Unchanged lines shown around each change in the unified diff (default: 3)'),
+});
+
+export const DiffConfigSchema = z.object({
+  source: z
+    .enum(['running', 'startup'])
+    .optional()
+    .default('running')
+    .describe('Configuration to check (default: running)'),
+  against: z
+    .enum(['startup', 'running', 'text', 'file'])
+    .optional()
+    .default('startup')
+    .describe(
+      'Reference to compare with: the other switch config, config text passed in "config", or a saved file named in "file" (default: startup, i.e. show unsaved changes)',
+    ),
+  config: z.string().optional().describe('Reference configuration text when against is "text"'),
+  file: z.string().optional().describe('Saved config file, relative to the backup directory, when against is "file"'),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .optional()
+    .default(3)
+    .describe('Unchanged lines shown around each change in the unified diff (default: 3)'),
 });
 
 export const ConfigurePortSecuritySchema = z.object({
@@ -178,6 +247,25 @@ export const GetOpticalModuleInfoSchema = z.object({
   port: z.string().optional().describe('Optional specific port identifier'),
 });
 
+export const GetInterfaceHistorySchema = z.object({
+  interfaceName: z.string().describe('Port to get the history of, e.g. 1/1/48'),
+  since: z.iso
+    .datetime({ offset: true })
+    .optional()
+    .describe('Start of the time range (ISO 8601, default: 24 hours before "until")'),
+  until: z.iso.datetime({ offset: true }).optional().describe('End of the time range (ISO 8601, default: now)'),
+  points: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe('Maximum number of points the range is averaged into (default: 100)'),
+});
+
+export type GetInterfaceHistoryInput = z.infer<typeof GetInterfaceHistorySchema>;
+
 // MAC address / routing table / logs schemas
 export const GetMacAddressTableSchema = z.object({
   vlan: z.number().min(1).max(4094).optional().describe('Optional VLAN ID to filter MAC addresses'),
@@ -187,6 +275,26 @@ export const GetRoutingTableSchema = z.object({});
 
 export const GetRunningConfigSchema = z.object({});
 
+export const GetParsedConfigSchema = z.object({
+  section: z
+    .enum([
+      'global',
+      'vlans',
+      'interfaces',
+      'lags',
+      'acls',
+      'staticRoutes',
+      'spanningTree',
+      'lldp',
+      'dhcpSnooping',
+      'users',
+      'snmp',
+      'unparsed',
+    ])
+    .optional()
+    .describe('Return only this part of the parsed configuration (default: everything)'),
+});
+
 export const GetLogSchema = z.object({
   maxLines: z
     .number()
@@ -200,6 +308,13 @@ export const GetLogSchema = z.object({
 // Performance / batch operation schemas
 export const ExecuteBatchSchema = z.object({
   commands: z.array(z.string()).min(1).describe('Array of CLI commands to execute in order'),
+  rollbackOnError: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Run as a transaction: stop at the first CLI error and roll the running config back to its state before the batch (default: false)',
+    ),
 });
 
 export const PasteConfigSchema = z.object({
@@ -207,6 +322,13 @@ export const PasteConfigSchema = z.object({
     .string()
     .describe('Multi-line configuration block (one command per line, lines starting with ! are ignored)'),
   save: z.boolean().optional().default(false).describe('Run "write memory" after applying config (default: false)'),
+  rollbackOnError: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Run as a transaction: stop at the first CLI error, roll back to the previous running config, and only save when every line succeeded (default: false)',
+    ),
 });
 
 export const CreateVlanFullSchema = z.object({
@@ -219,6 +341,45 @@ export const CreateVlanFullSchema = z.object({
   untaggedPorts: z.array(z.string()).optional().describe('Array of untagged (access) port identifiers'),
 });
 
+export const ApplyDesiredStateSchema = z.object({
+  vlans: z
+    .array(
+      z.object({
+        id: z.number().min(1).max(4094).describe('VLAN ID (1-4094)'),
+        name: z.string().optional().describe('VLAN name'),
+        tagged: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Complete list of tagged ports (e.g., ["1/2/1"]); members not listed are removed. Omit to leave tagged membership unmanaged',
+          ),
+        untagged: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Complete list of untagged ports; members not listed are removed and ports are moved out of their previous untagged VLAN. Omit to leave untagged membership unmanaged',
+          ),
+      }),
+    )
+    .optional()
+    .describe('VLANs with their full membership'),
+  ports: z
+    .array(
+      z.object({
+        port: z.string().describe('Port identifier (e.g., "1/1/1")'),
+        description: z.string().optional().describe('Port name; an empty string removes it'),
+        enabled: z.boolean().optional().describe('Whether the port is enabled'),
+      }),
+    )
+    .optional()
+    .describe('Per-port settings'),
+  pruneVlans: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Delete VLANs that are not listed (VLAN 1 is never deleted) (default: false)'),
+});
+
 // Type exports
 export type ConfigureVlanInput = z.infer<typeof ConfigureVlanSchema>;
 export type AddPortToVlanInput = z.infer<typeof AddPortToVlanSchema>;
@@ -252,47 +413,242 @@ export type GetOpticalModuleInfoInput = z.infer<typeof GetOpticalModuleInfoSchem
 export type GetMacAddressTableInput = z.infer<typeof GetMacAddressTableSchema>;
 export type GetRoutingTableInput = z.infer<typeof GetRoutingTableSchema>;
 export type GetRunningConfigInput = z.infer<typeof GetRunningConfigSchema>;
+export type GetParsedConfigInput = z.infer<typeof GetParsedConfigSchema>;
 export type GetLogInput = z.infer<typeof GetLogSchema>;
 export type ExecuteBatchInput = z.infer<typeof ExecuteBatchSchema>;
 export type PasteConfigInput = z.infer<typeof PasteConfigSchema>;
 export type CreateVlanFullInput = z.infer<typeof CreateVlanFullSchema>;
+export type ApplyDesiredStateInput = z.infer<typeof ApplyDesiredStateSchema>;
+export type DiffConfigInput = z.infer<typeof DiffConfigSchema>;
+export type RestoreConfigInput = z.infer<typeof RestoreConfigSchema>;
+export type ListBackupsInput = z.infer<typeof ListBackupsSchema>;
+export type GetBackupInput = z.infer<typeof GetBackupSchema>;
+export type DiffBackupsInput = z.infer<typeof DiffBackupsSchema>;
+
+// Dry-run / plan mode for configuration tools
+export const DryRunSchema = z.object({
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Return the exact CLI commands that would be sent, without changing the switch (default: false)'),
+});
 
-// Schema map for easy access
-export const TOOL_SCHEMAS = {
+export type DryRunInput = z.infer<typeof DryRunSchema>;
+
+// Commit-confirmed mode: apply unsaved and roll back unless confirmed in time
+export const CommitConfirmedSchema = z.object({
+  commitConfirmed: z
+    .number()
+    .int()
+    .min(1)
+    .max(60)
+    .optional()
+    .describe(
+      'Apply without "write memory" and roll back automatically unless confirm_commit is called within this many minutes',
+    ),
+  rollbackStrategy: z
+    .enum(['restore', 'reload'])
+    .optional()
+    .default('restore')
+    .describe(
+      'How an unconfirmed commit is undone: reconnect and re-apply the previous running config, or reload the switch from its startup config (default: restore)',
+    ),
+});
+
+export const ConfirmCommitSchema = z.object({
+  commitId: z
+    .string()
+    .optional()
+    .describe('ID returned by the commit-confirmed change (defaults to the pending commit)'),
+  save: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Run "write memory" to make the confirmed change persistent (default: true)'),
+});
+
+export type CommitConfirmedInput = z.infer<typeof CommitConfirmedSchema>;
+export type ConfirmCommitInput = z.infer<typeof ConfirmCommitSchema>;
+
+// Approval workflow for devices that require a human decision on privileged changes
+export const ListPendingChangesSchema = z.object({
+  status: z
+    .enum(['pending', 'executing', 'applied', 'failed', 'rejected'])
+    .optional()
+    .describe('Only list change requests in this state (default: all, newest first)'),
+});
+
+export const ApproveChangeSchema = z.object({
+  changeId: z.string().min(1).describe('ID of the pending change request'),
+  comment: z.string().optional().describe('Note recorded with the approval'),
+});
+
+export const RejectChangeSchema = z.object({
+  changeId: z.string().min(1).describe('ID of the pending change request'),
+  reason: z.string().optional().describe('Why the change was rejected'),
+});
+
+// Live interface monitoring (HTTP sessions)
+export const StopMonitoringSchema = z.object({
+  subscriptionId: z.string().describe('Subscription ID returned by monitor_interface'),
+});
+
+export type StopMonitoringInput = z.infer<typeof StopMonitoringSchema>;
+
+// Audit log
+export const QueryAuditLogSchema = z.object({
+  device: z.string().optional().describe('Only entries for this inventory device'),
+  tool: z.string().optional().describe('Only entries caused by this tool'),
+  user: z.string().optional().describe('Only entries made on behalf of this caller'),
+  since: z.iso.datetime({ offset: true }).optional().describe('Earliest timestamp (ISO 8601), inclusive'),
+  until: z.iso.datetime({ offset: true }).optional().describe('Latest timestamp (ISO 8601), inclusive'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe('Maximum number of entries to return, newest first (default: 100)'),
+  verify: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also recompute the hash chain of the whole log and report whether it is intact (default: false)'),
+});
+
+export type QueryAuditLogInput = z.infer<typeof QueryAuditLogSchema>;
+
+// Threshold alerts
+export const ListAlertsSchema = z.object({
+  state: z.enum(['firing', 'resolved']).optional().describe('Only firing or only recently resolved alerts'),
+  device: z.string().optional().describe('Only alerts for this inventory device'),
+});
+
+export type ListAlertsInput = z.infer<typeof ListAlertsSchema>;
+export type ListPendingChangesInput = z.infer<typeof ListPendingChangesSchema>;
+export type ApproveChangeInput = z.infer<typeof ApproveChangeSchema>;
+export type RejectChangeInput = z.infer<typeof RejectChangeSchema>;
+
+/**
+ * Add the `dryRun`, commit-confirmed and command guard `confirm` arguments to a
+ * configuration tool schema
+ */
+function withChangeOptions<T extends z.ZodObject>(schema: T) {
+  return schema.extend({ ...DryRunSchema.shape, ...CommitConfirmedSchema.shape, ...CommandConfirmSchema.shape });
+}
+
+// Confirmation of raw commands flagged by the command guard
+export const CommandConfirmSchema = z.object({
+  confirm: z
+    .string()
+    .optional()
+    .describe('Token from a "Confirmation required" error; runs the flagged commands exactly as previously submitted'),
+});
+
+export type CommandConfirmInput = z.infer<typeof CommandConfirmSchema>;
+
+/**
+ * Add the command guard confirm token to a raw-command tool schema
+ */
+function withCommandConfirm<T extends z.ZodObject>(schema: T) {
+  return schema.extend(CommandConfirmSchema.shape);
+}
+
+// Device targeting
+export const DeviceTargetSchema = z.object({
+  device: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Inventory name of the switch to run against (defaults to the default device)'),
+});
+
+export const ListDevicesSchema = z.object({
+  tag: z.string().optional().describe('Only list devices carrying this tag'),
+});
+
+export const RunAcrossFleetSchema = z.object({
+  tool: z
+    .string()
+    .describe('Name of a read-only tool to run on every selected device (e.g. "get_system_info", "get_vlans")'),
+  args: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe('Arguments passed to the tool on every device (without "device")'),
+  devices: z.array(z.string()).optional().describe('Only run on these inventory device names'),
+  tags: z.array(z.string()).optional().describe('Only run on devices carrying all of these tags'),
+  pattern: z.string().optional().describe('Only run on devices whose name matches this glob (e.g. "idf-*")'),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(32)
+    .optional()
+    .default(5)
+    .describe('Maximum number of devices queried in parallel (default: 5)'),
+});
+
+export type DeviceTargetInput = z.infer<typeof DeviceTargetSchema>;
+export type ListDevicesInput = z.infer<typeof ListDevicesSchema>;
+export type RunAcrossFleetInput = z.infer<typeof RunAcrossFleetSchema>;
+
+type WithDeviceTarget<T extends Record<string, z.ZodObject>> = {
+  [K in keyof T]: z.ZodObject<T[K]['shape'] & typeof DeviceTargetSchema.shape>;
+};
+
+/**
+ * Add the optional `device` argument to every switch-level tool schema
+ */
+function withDeviceTarget<T extends Record<string, z.ZodObject>>(schemas: T): WithDeviceTarget<T> {
+  return Object.fromEntries(
+    Object.entries(schemas).map(([name, schema]) => [name, schema.extend(DeviceTargetSchema.shape)]),
+  ) as WithDeviceTarget<T>;
+}
+
+// Tools that act on a single switch
+const DEVICE_TOOL_SCHEMAS = {
   // Existing tools
-  configure_vlan: ConfigureVlanSchema,
-  add_port_to_vlan: AddPortToVlanSchema,
-  configure_interface: ConfigureInterfaceSchema,
-  execute_command: ExecuteCommandSchema,
+  configure_vlan: withChangeOptions(ConfigureVlanSchema),
+  add_port_to_vlan: withChangeOptions(AddPortToVlanSchema),
+  configure_interface: withChangeOptions(ConfigureInterfaceSchema),
+  execute_command: withCommandConfirm(ExecuteCommandSchema),
   monitor_interface: MonitorInterfaceSchema,
   get_interfaces: GetInterfaceSchema,
   get_vlans: GetVlanSchema,
   get_system_info: z.object({}),
   get_spanning_tree: z.object({}),
-  configure_spanning_tree: ConfigureSpanningTreeSchema,
+  configure_spanning_tree: withChangeOptions(ConfigureSpanningTreeSchema),
   backup_config: BackupConfigSchema,
+  diff_config: DiffConfigSchema,
+  restore_config: withChangeOptions(RestoreConfigSchema),
+  list_backups: ListBackupsSchema,
+  get_backup: GetBackupSchema,
+  diff_backups: DiffBackupsSchema,
   save_config: z.object({}),
-  configure_port_security: ConfigurePortSecuritySchema,
+  configure_port_security: withChangeOptions(ConfigurePortSecuritySchema),
 
   // LLDP tools
   get_lldp_neighbors: z.object({}),
   get_network_topology: z.object({}),
-  configure_lldp: ConfigureLLDPSchema,
+  configure_lldp: withChangeOptions(ConfigureLLDPSchema),
 
   // MAC address table / routing / config / logs
   get_mac_address_table: GetMacAddressTableSchema,
   get_routing_table: GetRoutingTableSchema,
   get_running_config: GetRunningConfigSchema,
+  get_parsed_config: GetParsedConfigSchema,
   get_log: GetLogSchema,
 
   // Layer 2-3 tools
   get_arp_table: z.object({}),
   get_port_channels: z.object({}),
   get_layer3_interfaces: z.object({}),
-  configure_static_route: ConfigureStaticRouteSchema,
-  configure_port_channel: ConfigurePortChannelSchema,
-  configure_layer3_interface: ConfigureLayer3InterfaceSchema,
-  configure_qos: ConfigureQoSSchema,
+  configure_static_route: withChangeOptions(ConfigureStaticRouteSchema),
+  configure_port_channel: withChangeOptions(ConfigurePortChannelSchema),
+  configure_layer3_interface: withChangeOptions(ConfigureLayer3InterfaceSchema),
+  configure_qos: withChangeOptions(ConfigureQoSSchema),
 
   // Routing protocol tools
   get_bgp_neighbors: z.object({}),
@@ -301,7 +657,7 @@ export const TOOL_SCHEMAS = {
 
   // ACL/Firewall tools
   get_acls: z.object({}),
-  configure_acl: ConfigureACLSchema,
+  configure_acl: withChangeOptions(ConfigureACLSchema),
   get_upstream_routing: z.object({}),
 
   // Switch Stacking tools
@@ -309,16 +665,16 @@ export const TOOL_SCHEMAS = {
   get_stack_ports: z.object({}),
   get_stack_member: GetStackMemberSchema,
   get_stack_health: z.object({}),
-  configure_stack_priority: ConfigureStackPrioritySchema,
-  configure_stack_ports: ConfigureStackPortsSchema,
-  renumber_stack_unit: RenumberStackUnitSchema,
-  configure_stack: ConfigureStackSchema,
+  configure_stack_priority: withChangeOptions(ConfigureStackPrioritySchema),
+  configure_stack_ports: withChangeOptions(ConfigureStackPortsSchema),
+  renumber_stack_unit: withChangeOptions(RenumberStackUnitSchema),
+  configure_stack: withChangeOptions(ConfigureStackSchema),
 
   // Security Feature tools
-  configure_dhcp_snooping: ConfigureDHCPSnoopingSchema,
+  configure_dhcp_snooping: withChangeOptions(ConfigureDHCPSnoopingSchema),
   get_dhcp_bindings: z.object({}),
-  configure_ip_source_guard: ConfigureIPSourceGuardSchema,
-  configure_dynamic_arp_inspection: ConfigureDynamicARPInspectionSchema,
+  configure_ip_source_guard: withChangeOptions(ConfigureIPSourceGuardSchema),
+  configure_dynamic_arp_inspection: withChangeOptions(ConfigureDynamicARPInspectionSchema),
   get_port_security_status: GetPortSecurityStatusSchema,
 
   // Advanced Monitoring tools
@@ -326,11 +682,41 @@ export const TOOL_SCHEMAS = {
   get_system_health: z.object({}),
   run_cable_diagnostics: RunCableDiagnosticsSchema,
   get_optical_module_info: GetOpticalModuleInfoSchema,
+  get_interface_history: GetInterfaceHistorySchema,
 
   // Performance / batch operation tools
-  execute_batch: ExecuteBatchSchema,
-  paste_config: PasteConfigSchema,
-  create_vlan_full: CreateVlanFullSchema,
+  execute_batch: withCommandConfirm(ExecuteBatchSchema),
+  paste_config: withChangeOptions(PasteConfigSchema),
+  create_vlan_full: withChangeOptions(CreateVlanFullSchema),
+  apply_desired_state: withChangeOptions(ApplyDesiredStateSchema),
+
+  // Commit-confirmed tools
+  confirm_commit: ConfirmCommitSchema,
+} as const;
+
+// Schema map for easy access
+export const TOOL_SCHEMAS = {
+  ...withDeviceTarget(DEVICE_TOOL_SCHEMAS),
+
+  // Inventory tools
+  list_devices: ListDevicesSchema,
+  run_across_fleet: RunAcrossFleetSchema,
+  list_pending_commits: z.object({}),
+
+  // Approval tools
+  list_pending_changes: ListPendingChangesSchema,
+  approve_change: ApproveChangeSchema,
+  reject_change: RejectChangeSchema,
+
+  // Audit tools
+  query_audit_log: QueryAuditLogSchema,
+
+  // Monitoring tools
+  list_monitors: z.object({}),
+  stop_monitoring: StopMonitoringSchema,
+
+  // Alert tools
+  list_alerts: ListAlertsSchema,
 } as const;
 
 // Export type for tool names
@@ -28,7 +28,11 @@ interface ToolMetadata {
     | 'stack'
     | 'monitoring'
     | 'diagnostics'
-    | 'batch';
+    | 'batch'
+    | 'inventory'
+    | 'approval'
+    | 'audit'
+    | 'alerts';
   requiresPrivilege?: boolean;
 }
 
@@ -79,7 +83,38 @@ const TOOLS_METADATA: ToolMetadata[] = [
   },
   {
     name: 'backup_config',
-    description: 'Backup the running or startup configuration',
+    description:
+      'Back up the running or startup configuration into the local versioned backup store and return it with its version number and hash',
+    category: 'maintenance',
+  },
+  {
+    name: 'restore_config',
+    description:
+      'Restore a saved configuration (text, backup file or backup store version): computes the delta against the live running config, including "no" commands for lines that must be removed, and applies it as a transaction. Use dryRun to preview the commands first.',
+    category: 'maintenance',
+    requiresPrivilege: true,
+  },
+  {
+    name: 'list_backups',
+    description:
+      'List stored configuration backup versions for a switch, newest first, with timestamp, hash and what triggered each one',
+    category: 'maintenance',
+  },
+  {
+    name: 'get_backup',
+    description: 'Fetch a stored configuration backup version with its full text',
+    category: 'maintenance',
+  },
+  {
+    name: 'diff_backups',
+    description:
+      'Diff two stored backup versions, or a stored version against the live running/startup config, as a unified and section-aware diff',
+    category: 'maintenance',
+  },
+  {
+    name: 'diff_config',
+    description:
+      'Compare running vs startup config (unsaved changes, e.g. a forgotten "write memory"), or either one against config text or a saved file. Returns a unified diff plus the VLAN/interface/ACL blocks and global lines that changed.',
     category: 'maintenance',
   },
   {
@@ -96,7 +131,8 @@ const TOOLS_METADATA: ToolMetadata[] = [
   },
   {
     name: 'monitor_interface',
-    description: 'Monitor interface statistics in real-time (SSE transport only)',
+    description:
+      'Stream live statistics of an interface (SSE transport only): every interval seconds the session receives a notifications/message (logger "interface-monitor") with bps, pps and error deltas. Returns the subscription; stop it with stop_monitoring',
     category: 'interface',
   },
   {
@@ -122,6 +158,12 @@ const TOOLS_METADATA: ToolMetadata[] = [
     description: 'Get the current running configuration of the switch',
     category: 'info',
   },
+  {
+    name: 'get_parsed_config',
+    description:
+      'Get the running configuration parsed into a typed model: global settings, VLANs with tagged/untagged ports, interfaces, LAGs, ACLs, static routes, STP, LLDP, DHCP snooping, users and SNMP. Passwords, keys and community strings are redacted, including on unmodelled lines.',
+    category: 'info',
+  },
   {
     name: 'get_log',
     description: 'Get switch syslog entries for troubleshooting',
@@ -320,6 +362,12 @@ const TOOLS_METADATA: ToolMetadata[] = [
     description: 'Get SFP/SFP+ optical module information including temperature and power levels',
     category: 'diagnostics',
   },
+  {
+    name: 'get_interface_history',
+    description:
+      'Get the recorded traffic history of a port for a time range: bps and pps (average and peak), error totals and utilization of link speed, averaged into at most "points" steps. The range may span at most 31 days. Needs history recording (BROCADE_HISTORY_INTERVAL)',
+    category: 'monitoring',
+  },
 
   // Performance / batch operation tools
   {
@@ -343,15 +391,123 @@ const TOOLS_METADATA: ToolMetadata[] = [
     category: 'vlan',
     requiresPrivilege: true,
   },
+
+  {
+    name: 'apply_desired_state',
+    description:
+      'Converge VLANs and ports to a desired-state document: VLANs with their complete tagged/untagged membership (unlisted members are removed) and per-port description/enabled state. Computes the diff against the live running config and applies only the CLI needed. Use dryRun to review the changes first.',
+    category: 'vlan',
+    requiresPrivilege: true,
+  },
+
+  // Commit-confirmed tools
+  {
+    name: 'confirm_commit',
+    description:
+      'Confirm a change applied with commitConfirmed, cancelling its automatic rollback and saving it with "write memory" unless save is false',
+    category: 'config',
+    requiresPrivilege: true,
+  },
+
+  // Inventory tools
+  {
+    name: 'list_devices',
+    description:
+      'List the switches in the device inventory with their host, transport and tags. Pass a device name as the "device" argument of other tools to target a specific switch.',
+    category: 'inventory',
+  },
+  {
+    name: 'run_across_fleet',
+    description:
+      'Run a read-only tool (e.g. get_system_info, get_vlans, get_optical_module_info) concurrently on every inventory device matching a selector of names, tags and/or a name glob. Returns a per-device result map; failures on one device are reported without failing the call.',
+    category: 'inventory',
+  },
+  {
+    name: 'list_pending_commits',
+    description:
+      'List commit-confirmed changes awaiting confirm_commit, with their device, commands and the time they will be rolled back',
+    category: 'config',
+  },
+
+  // Approval tools
+  {
+    name: 'list_pending_changes',
+    description:
+      'List privileged change requests queued for approval on approval-gated devices, with the tool, arguments, generated CLI and status',
+    category: 'approval',
+  },
+  {
+    name: 'approve_change',
+    description:
+      'Approve a queued change request and execute it. Fails without applying anything if the CLI it generates has changed since it was requested',
+    category: 'approval',
+    requiresPrivilege: true,
+  },
+  {
+    name: 'reject_change',
+    description: 'Reject a queued change request so it is never executed',
+    category: 'approval',
+    requiresPrivilege: true,
+  },
+
+  // Audit tools
+  {
+    name: 'query_audit_log',
+    description:
+      'Query the tamper-evident audit log of every CLI command sent to the switches, with output, caller, tool and outcome. Filter by device, tool, user and time range; set verify to check the hash chain',
+    category: 'audit',
+    requiresPrivilege: true,
+  },
+
+  // Monitoring tools
+  {
+    name: 'list_monitors',
+    description:
+      'List the interface monitoring subscriptions of this session with their latest sample (SSE transport only)',
+    category: 'monitoring',
+  },
+  {
+    name: 'stop_monitoring',
+    description: 'Stop an interface monitoring subscription started with monitor_interface (SSE transport only)',
+    category: 'monitoring',
+  },
+
+  // Alert tools
+  {
+    name: 'list_alerts',
+    description:
+      'List threshold alerts raised by the configured alert rules: currently firing alerts and recently resolved ones, newest first, with the device, port or neighbor, value and rule',
+    category: 'alerts',
+  },
 ];
 
+/**
+ * Tools that push notifications to a session, which only the HTTP server has
+ */
+const STREAMING_TOOLS: ReadonlySet<string> = new Set(['monitor_interface', 'list_monitors', 'stop_monitoring']);
+
+/**
+ * Tools that decide change requests. Only callers authenticated by the HTTP
+ * server may use them, so an agent cannot approve the change it queued.
+ */
+export const APPROVAL_DECISION_TOOLS: ReadonlySet<string> = new Set(['approve_change', 'reject_change']);
+
+/**
+ * Privileged tools that act on change requests and the audit log held by the
+ * server rather than on a switch. They are never queued for approval and take
+ * no automatic backup; an approved change is backed up when it executes.
+ */
+export const SERVER_SIDE_TOOLS: ReadonlySet<string> = new Set(['approve_change', 'reject_change', 'query_audit_log']);
+
 /**
  * Generate MCP tool definitions
  */
 export function generateTools(transportType: 'stdio' | 'sse' = 'stdio'): Tool[] {
-  // Filter out monitor_interface for stdio transport
+  // Filter out streaming and approval tools for stdio transport
   const metadata =
-    transportType === 'stdio' ? TOOLS_METADATA.filter((t) => t.name !== 'monitor_interface') : TOOLS_METADATA;
+    transportType === 'stdio'
+      ? TOOLS_METADATA.filter((t) => !STREAMING_TOOLS.has(t.name) && !APPROVAL_DECISION_TOOLS.has(t.name))
+      : TOOLS_METADATA;
 
   return metadata.map((meta) => ({
     name: meta.name,
@@ -379,6 +535,51 @@ export function requiresPrivilege(toolName: ToolName): boolean {
   return meta?.requiresPrivilege ?? false;
 }
 
+/**
+ * Tools that only read switch state and can safely be fanned out across the
+ * fleet. Listed explicitly so that new tools are excluded until reviewed:
+ * backup_config writes to the backup store and run_cable_diagnostics takes
+ * links down, although neither requires privilege.
+ */
+const FLEET_TOOLS: ReadonlySet<string> = new Set([
+  'get_system_info',
+  'get_vlans',
+  'get_interfaces',
+  'get_spanning_tree',
+  'diff_config',
+  'get_mac_address_table',
+  'get_routing_table',
+  'get_running_config',
+  'get_parsed_config',
+  'get_log',
+  'get_lldp_neighbors',
+  'get_network_topology',
+  'get_arp_table',
+  'get_port_channels',
+  'get_layer3_interfaces',
+  'get_bgp_neighbors',
+  'get_ospf_neighbors',
+  'get_routing_protocol_status',
+  'get_acls',
+  'get_upstream_routing',
+  'get_stack_topology',
+  'get_stack_ports',
+  'get_stack_member',
+  'get_stack_health',
+  'get_dhcp_bindings',
+  'get_port_security_status',
+  'get_interface_statistics',
+  'get_system_health',
+  'get_optical_module_info',
+]);
+
+/**
+ * Check if a tool only reads switch state and can safely be fanned out across the fleet
+ */
+export function isReadOnlyTool(toolName: string): toolName is ToolName {
+  return FLEET_TOOLS.has(toolName);
+}
+
 /**
  * Get tool category
  */
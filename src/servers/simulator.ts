@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * Simulated Brocade ICX switch for development without hardware
+ * Serves the switch CLI over SSH and telnet and monitoring data over SNMP; point BROCADE_HOST/BROCADE_PORT
+ * (and BROCADE_SNMP_PORT) at it
+ */
+
+import winston from 'winston';
+import { IcxSimulator } from '../simulator/icx-simulator.js';
+
+function portFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value ? parseInt(value, 10) : fallback;
+}
+
+/**
+ * Main simulator initialization
+ */
+async function main() {
+  try {
+    const logger = winston.createLogger({
+      level: process.env.LOG_LEVEL || 'info',
+      format: winston.format.combine(winston.format.timestamp(), winston.format.simple()),
+      transports: [new winston.transports.Console()],
+    });
+
+    const host = process.env.SIMULATOR_HOST || '127.0.0.1';
+    const username = process.env.SIMULATOR_USERNAME || 'admin';
+    const snmpUser = process.env.SIMULATOR_SNMP_USERNAME;
+    const simulator = new IcxSimulator(
+      {
+        host,
+        sshPort: portFromEnv('SIMULATOR_SSH_PORT', 2222),
+        telnetPort: portFromEnv('SIMULATOR_TELNET_PORT', 2323),
+        hostname: process.env.SIMULATOR_HOSTNAME,
+        username,
+        password: process.env.SIMULATOR_PASSWORD,
+        enablePassword: process.env.SIMULATOR_ENABLE_PASSWORD,
+        skipPageDisplay: process.env.SIMULATOR_SKIP_PAGE_DISPLAY !== 'false',
+        snmpPort: portFromEnv('SIMULATOR_SNMP_PORT', 1161),
+        snmpCommunity: process.env.SIMULATOR_SNMP_COMMUNITY,
+        snmpUser: snmpUser
+          ? {
+              name: snmpUser,
+              authKey: process.env.SIMULATOR_SNMP_AUTH_KEY || 'simulator-auth',
+              privKey: process.env.SIMULATOR_SNMP_PRIV_KEY || undefined,
+            }
+          : undefined,
+      },
+      logger,
+    );
+    const { sshPort, telnetPort, snmpPort } = await simulator.start();
+
+    console.log(`Simulated ICX switch "${simulator.switch.hostname}"`);
+    console.log(`  SSH:    ssh -p ${sshPort} ${username}@${host}`);
+    console.log(`  Telnet: telnet ${host} ${telnetPort}`);
+    console.log(`  SNMP:   snmpwalk -v2c -c ${process.env.SIMULATOR_SNMP_COMMUNITY || 'public'} ${host}:${snmpPort}`);
+  } catch (error) {
+    console.error('Failed to start simulator:', error);
+    process.exit(1);
+  }
+}
+
+// Handle process termination
+process.on('SIGINT', () => {
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  process.exit(0);
+});
+
+// Start the simulator
+main();
@@ -1,25 +1,53 @@
 #!/usr/bin/env node
 /**
- * SSE MCP Server for Brocade ICX 6450 switch management
- * Provides real-time monitoring and web integration
+ * HTTP MCP Server for Brocade ICX 6450 switch management
+ * Serves MCP over Streamable HTTP (/mcp) and the legacy SSE transport (/sse + /messages)
+ * and provides real-time monitoring and web integration
  */
 
+import { randomUUID } from 'node:crypto';
+import https from 'node:https';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import cors from 'cors';
 import express from 'express';
 import { initializeClients, validateEnvironment } from '../core/config.js';
+import { AuthorizationError, ValidationError } from '../core/errors.js';
 import { logError, logInfo } from '../core/logger.js';
-import { setupHandlers } from '../mcp/handlers.js';
+import { createAlertSinks } from '../lib/alert-sinks.js';
+import type { ChangeStatus } from '../lib/approval-queue.js';
+import { MemoryEventStore } from '../lib/event-store.js';
+import { type AuthenticatedIdentity, HttpAuthenticator, loadTlsOptions } from '../lib/http-auth.js';
+import { InterfaceMonitor } from '../lib/interface-monitor.js';
+import { MetricsRegistry } from '../lib/metrics.js';
+import {
+  approveChange,
+  authorizeToolCall,
+  createMonitorSender,
+  type HandlerDependencies,
+  readInterfaceCounters,
+  setupHandlers,
+  type ToolCallContext,
+} from '../mcp/handlers.js';
+import { TOOL_SCHEMAS } from '../mcp/schemas.js';
 
 /**
- * Interface monitoring state
+ * A connected MCP client: a Streamable HTTP session or a legacy SSE stream
  */
-interface MonitoringSession {
-  interfaceName: string;
-  interval: number;
-  timer?: NodeJS.Timeout;
-  transport: SSEServerTransport;
+interface McpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  identity?: AuthenticatedIdentity;
+  lastSeen: number;
+}
+
+/**
+ * JSON-RPC error body for requests the transport never sees
+ */
+function jsonRpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
 }
 
 /**
@@ -31,7 +59,61 @@ async function main() {
     validateEnvironment();
 
     // Initialize clients and configuration
-    const { switchClient, commandExecutor, logger, serverConfig } = initializeClients('sse');
+    const {
+      devices,
+      commits,
+      backups,
+      policy,
+      commandGuard,
+      approvals,
+      auditLog,
+      alerts,
+      history,
+      switchClient,
+      logger,
+      serverConfig,
+    } = initializeClients('sse');
+
+    // Interface monitoring subscriptions of all sessions
+    const monitor = new InterfaceMonitor(logger);
+
+    // Prometheus metrics served at /metrics
+    const metrics = new MetricsRegistry(devices, logger, serverConfig.metricsCacheSeconds);
+
+    // Shared by every MCP connection and the approval endpoints
+    const handlerDeps: HandlerDependencies = {
+      devices,
+      commits,
+      backups,
+      policy,
+      commandGuard,
+      approvals,
+      auditLog,
+      monitor,
+      alerts,
+      history,
+      metrics,
+      serverConfig,
+      logger,
+      transportType: 'sse',
+    };
+
+    const authenticator = new HttpAuthenticator({
+      keys: serverConfig.sseApiKeys,
+      methods: serverConfig.sseAuthMethods,
+      clientCert: serverConfig.sseClientCert,
+    });
+    const tlsOptions = loadTlsOptions(serverConfig);
+
+    // Caller of an HTTP endpoint: the authenticated identity, else the name it gives itself,
+    // which authorizeToolCall() does not map to a policy role
+    const httpCaller = (res: express.Response, fallback?: string): ToolCallContext => {
+      const identity = res.locals.identity as AuthenticatedIdentity | undefined;
+      return { client: identity?.name ?? fallback, role: identity?.role, authenticated: identity !== undefined };
+    };
+
+    const errorStatus = (error: unknown) =>
+      error instanceof AuthorizationError ? 403 : error instanceof ValidationError ? 409 : 500;
 
     // Create Express app
     const app = express();
@@ -40,15 +122,38 @@ async function main() {
     app.use(
       cors({
         origin: serverConfig.sseCorsOrigin || '*',
+        // Browser clients need to read the session ID the server assigns
+        exposedHeaders: ['Mcp-Session-Id'],
       }),
     );
     app.use(express.json());
 
-    // Active monitoring sessions
-    const monitoringSessions = new Map<string, MonitoringSession>();
+    // MCP sessions by session ID, for both transports
+    const sessions = new Map<string, McpSession>();
+
+    // Alerts go to every connected session
+    if (alerts) {
+      const servers = () => [...sessions.values()].map((session) => session.server);
+      for (const sink of createAlertSinks(alerts.sinkConfigs, logger, servers)) {
+        alerts.addSink(sink);
+      }
+      alerts.start();
+    }
+
+    // Interface counter history, when an interval is configured
+    history.start();
 
-    // Health check endpoint
-    app.get('/health', async (_req, res) => {
+    // Liveness probe; open to everyone, so it tells nothing about the switches
+    // and sends nothing to them
+    app.get('/health', (_req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    // Everything below the health check needs a credential once keys or client certificates are configured
+    app.use(authenticator.middleware(logger));
+
+    // Switch and session health
+    app.get('/health/details', async (_req, res) => {
       const isHealthy = await switchClient.healthCheck();
 
       res.json({
@@ -60,28 +165,32 @@ async function main() {
         connection: {
           connected: switchClient.isConnected(),
         },
+        devices: devices.list().map((device) => ({ name: device.name, connected: device.connected })),
+        mcp: {
+          activeSessions: sessions.size,
+        },
         monitoring: {
-          activeSessions: monitoringSessions.size,
+          activeSubscriptions: monitor.list().length,
         },
+        alerts: alerts ? { firing: alerts.list({ state: 'firing' }).length } : undefined,
       });
     });
 
-    // SSE endpoint
-    app.get('/sse', async (req, res) => {
-      logInfo(logger, 'New SSE connection established');
-
-      // Set SSE headers
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-        'X-Accel-Buffering': 'no', // Disable Nginx buffering
-      });
-
-      // Create SSE transport
-      const transport = new SSEServerTransport(`/sse`, res);
+    // Prometheus scrape endpoint
+    app.get('/metrics', async (_req, res) => {
+      try {
+        const text = await metrics.metrics();
+        res.type(metrics.contentType).send(text);
+      } catch (error) {
+        logError(logger, error, { endpoint: '/metrics' });
+        res.status(500).type('text/plain').send('Failed to collect metrics');
+      }
+    });
 
-      // Create MCP server for this connection
+    /**
+     * MCP server for one session, authorized as the caller that opened it
+     */
+    const createMcpServer = (sessionId: string, identity?: AuthenticatedIdentity): Server => {
       const server = new Server(
         {
           name: serverConfig.name,
@@ -91,37 +200,140 @@ async function main() {
           capabilities: {
             resources: {},
             tools: {},
+            // Monitoring samples and alerts are sent as logging notifications
+            logging: {},
           },
         },
       );
 
       // Setup shared handlers with SSE-specific extensions
-      setupHandlers(server, {
-        switchClient,
-        commandExecutor,
-        logger,
-        transportType: 'sse',
-      });
+      setupHandlers(server, handlerDeps, { id: sessionId, identity });
 
       // Handle server errors
       server.onerror = (error) => {
         logError(logger, error, { transport: 'sse' });
       };
+      return server;
+    };
 
-      // Handle transport closure
-      transport.onclose = async () => {
-        logInfo(logger, 'SSE transport closed');
-
-        // Clean up any monitoring sessions for this transport
-        for (const [id, session] of monitoringSessions) {
-          if (session.transport === transport) {
-            if (session.timer) {
-              clearInterval(session.timer);
-            }
-            monitoringSessions.delete(id);
-            logInfo(logger, 'Stopped monitoring session', { sessionId: id });
+    /**
+     * Drop a closed session and any monitoring sessions running on it
+     */
+    const forgetSession = (sessionId: string) => {
+      const session = sessions.get(sessionId);
+      if (!session) return;
+      sessions.delete(sessionId);
+      logInfo(logger, 'MCP session closed', { sessionId, identity: session.identity?.name });
+
+      monitor.stopOwner(sessionId);
+    };
+
+    /**
+     * Session a request refers to. Answers the request and returns undefined when
+     * the session is unknown, uses another transport than `kind` or belongs to another caller.
+     */
+    const findSession = (
+      sessionId: string | undefined,
+      res: express.Response,
+      kind?: typeof StreamableHTTPServerTransport | typeof SSEServerTransport,
+    ): McpSession | undefined => {
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (!session || (kind && !(session.transport instanceof kind))) {
+        res
+          .status(sessionId ? 404 : 400)
+          .json(jsonRpcError(-32000, sessionId ? 'Session not found' : 'Session ID required'));
+        return undefined;
+      }
+      const identity = res.locals.identity as AuthenticatedIdentity | undefined;
+      if (session.identity?.name !== identity?.name) {
+        res.status(403).json(jsonRpcError(-32000, 'Session belongs to another caller'));
+        return undefined;
+      }
+      session.lastSeen = Date.now();
+      return session;
+    };
+
+    // Streamable HTTP endpoint: initialize creates a session, later requests carry Mcp-Session-Id
+    app.post('/mcp', async (req, res) => {
+      try {
+        const sessionId = req.header('mcp-session-id');
+        if (sessionId) {
+          const session = findSession(sessionId, res, StreamableHTTPServerTransport);
+          if (session) {
+            await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
           }
+          return;
+        }
+
+        if (!isInitializeRequest(req.body)) {
+          return res.status(400).json(jsonRpcError(-32000, 'Session ID required'));
         }
+
+        const identity = res.locals.identity as AuthenticatedIdentity | undefined;
+        // The ID is chosen up front so the server's handlers know which session they serve
+        const newSessionId = randomUUID();
+        const server = createMcpServer(newSessionId, identity);
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => newSessionId,
+          // Lets clients resume a broken stream with Last-Event-ID
+          eventStore: new MemoryEventStore(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, server, identity, lastSeen: Date.now() });
+            logInfo(logger, 'MCP session started', {
+              sessionId: id,
+              transport: 'streamable-http',
+              identity: identity?.name,
+            });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) forgetSession(transport.sessionId);
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        logError(logger, error, { endpoint: '/mcp' });
+        if (!res.headersSent) {
+          res.status(500).json(jsonRpcError(-32603, 'Internal server error'));
+        }
+      }
+    });
+
+    // GET opens (or resumes) the server-to-client stream, DELETE ends the session
+    const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+      try {
+        const session = findSession(req.header('mcp-session-id'), res, StreamableHTTPServerTransport);
+        if (session) {
+          await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+        }
+      } catch (error) {
+        logError(logger, error, { endpoint: '/mcp', method: req.method });
+        if (!res.headersSent) {
+          res.status(500).json(jsonRpcError(-32603, 'Internal server error'));
+        }
+      }
+    };
+    app.get('/mcp', handleSessionRequest);
+    app.delete('/mcp', handleSessionRequest);
+
+    // Legacy SSE endpoint for clients that predate Streamable HTTP; they POST to /messages?sessionId=...
+    app.get('/sse', async (req, res) => {
+      const identity = res.locals.identity as AuthenticatedIdentity | undefined;
+
+      // Disable Nginx buffering; the transport writes the other SSE headers
+      res.setHeader('X-Accel-Buffering', 'no');
+      const transport = new SSEServerTransport('/messages', res);
+      const server = createMcpServer(transport.sessionId, identity);
+      sessions.set(transport.sessionId, { transport, server, identity, lastSeen: Date.now() });
+      logInfo(logger, 'MCP session started', {
+        sessionId: transport.sessionId,
+        transport: 'sse',
+        identity: identity?.name,
+      });
+
+      transport.onclose = () => {
+        forgetSession(transport.sessionId);
       };
 
       // Connect the server
@@ -139,87 +351,146 @@ async function main() {
       });
     });
 
-    // POST endpoint for sending messages (optional, for non-SSE clients)
-    app.post('/messages', express.json(), async (_req, res) => {
+    // Client-to-server messages of legacy SSE sessions
+    app.post('/messages', async (req, res) => {
       try {
-        // For POST /messages, create a simple response
-        // The actual MCP protocol communication happens through SSE
-        res.json({
-          success: true,
-          message: 'Use the SSE endpoint /sse for MCP protocol communication',
-        });
+        const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+        const session = findSession(sessionId, res, SSEServerTransport);
+        if (session) {
+          await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+        }
       } catch (error) {
         logError(logger, error, { endpoint: '/messages' });
-        res.status(500).json({
-          error: error instanceof Error ? error.message : 'Internal server error',
-        });
+        if (!res.headersSent) {
+          res.status(500).json(jsonRpcError(-32603, 'Internal server error'));
+        }
       }
     });
 
-    // Interface monitoring endpoint (SSE-specific feature)
-    app.post('/monitor/start', express.json(), async (req, res) => {
+    // Close Streamable HTTP sessions whose client went away without DELETE
+    const idleTimeout = serverConfig.sseSessionIdleMinutes * 60_000;
+    const idleSweep = setInterval(() => {
+      const cutoff = Date.now() - idleTimeout;
+      for (const [sessionId, session] of sessions) {
+        if (session.transport instanceof StreamableHTTPServerTransport && session.lastSeen < cutoff) {
+          logInfo(logger, 'Closing idle MCP session', { sessionId });
+          void session.transport.close();
+        }
+      }
+    }, 60_000);
+    idleSweep.unref();
+
+    // Change requests waiting for approval on approval-gated devices
+    app.get('/approvals', (req, res) => {
       try {
-        const { interfaceName, interval = 5, sessionId } = req.body;
+        authorizeToolCall('list_pending_changes', {}, httpCaller(res), handlerDeps);
+        const status = typeof req.query.status === 'string' ? (req.query.status as ChangeStatus) : undefined;
+        res.json(approvals.list(status));
+      } catch (error) {
+        res
+          .status(errorStatus(error))
+          .json({ error: error instanceof Error ? error.message : 'Failed to list changes' });
+      }
+    });
 
-        if (!interfaceName || !sessionId) {
-          return res.status(400).json({ error: 'interfaceName and sessionId are required' });
+    app.get('/approvals/:id', (req, res) => {
+      try {
+        authorizeToolCall('list_pending_changes', {}, httpCaller(res), handlerDeps);
+        if (!approvals.has(req.params.id)) {
+          return res.status(404).json({ error: 'Change request not found' });
         }
+        res.json(approvals.get(req.params.id));
+      } catch (error) {
+        res.status(errorStatus(error)).json({ error: error instanceof Error ? error.message : 'Failed to get change' });
+      }
+    });
 
-        // Check if session already exists
-        if (monitoringSessions.has(sessionId)) {
-          return res.status(409).json({ error: 'Monitoring session already exists' });
+    app.post('/approvals/:id/approve', express.json(), async (req, res) => {
+      try {
+        // The approver is the authenticated caller, never a name from the request body
+        const { comment } = req.body ?? {};
+        const caller = httpCaller(res);
+        authorizeToolCall('approve_change', { changeId: req.params.id }, caller, handlerDeps);
+        if (!approvals.has(req.params.id)) {
+          return res.status(404).json({ error: 'Change request not found' });
         }
+        const change = await approveChange(req.params.id, caller.client, handlerDeps, comment);
+        res.json(change);
+      } catch (error) {
+        logError(logger, error, { endpoint: '/approvals/approve', changeId: req.params.id });
+        res.status(errorStatus(error)).json({
+          error: error instanceof Error ? error.message : 'Failed to approve change',
+        });
+      }
+    });
 
-        logInfo(logger, 'Starting interface monitoring', {
-          interfaceName,
-          interval,
-          sessionId,
+    app.post('/approvals/:id/reject', express.json(), (req, res) => {
+      try {
+        const { reason } = req.body ?? {};
+        const caller = httpCaller(res);
+        authorizeToolCall('reject_change', { changeId: req.params.id }, caller, handlerDeps);
+        if (!approvals.has(req.params.id)) {
+          return res.status(404).json({ error: 'Change request not found' });
+        }
+        res.json(approvals.reject(req.params.id, caller.client, reason));
+      } catch (error) {
+        logError(logger, error, { endpoint: '/approvals/reject', changeId: req.params.id });
+        res.status(errorStatus(error)).json({
+          error: error instanceof Error ? error.message : 'Failed to reject change',
         });
+      }
+    });
+
+    // Interface monitoring over HTTP: events go to the caller's MCP session (sessionId)
+    app.get('/monitor', (req, res) => {
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+      if (findSession(sessionId, res)) {
+        res.json(monitor.list(sessionId));
+      }
+    });
 
-        // This would need to be connected to an active SSE transport
-        // For now, we'll just acknowledge the request
-        res.json({
-          message: 'Monitoring session created',
-          sessionId,
+    app.post('/monitor/start', async (req, res) => {
+      try {
+        const { sessionId, ...args } = req.body ?? {};
+        const parsed = TOOL_SCHEMAS.monitor_interface.safeParse(args);
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.issues.map((issue) => issue.message).join(', ') });
+        }
+
+        const session = findSession(sessionId, res);
+        if (!session) return;
+        authorizeToolCall('monitor_interface', parsed.data, httpCaller(res), handlerDeps);
+
+        const { interfaceName, interval = 5, device } = parsed.data;
+        const target = devices.resolve(device);
+        const subscription = await monitor.start({
+          owner: sessionId,
+          device: target.name,
           interfaceName,
-          interval,
+          intervalSeconds: interval,
+          poll: () => readInterfaceCounters(target.commandExecutor, interfaceName),
+          send: createMonitorSender(session.server),
         });
+        res.json(subscription);
       } catch (error) {
         logError(logger, error, { endpoint: '/monitor/start' });
-        res.status(500).json({
+        res.status(errorStatus(error)).json({
           error: error instanceof Error ? error.message : 'Failed to start monitoring',
         });
       }
     });
 
-    // Stop monitoring endpoint
-    app.post('/monitor/stop', express.json(), async (req, res) => {
+    app.post('/monitor/stop', (req, res) => {
       try {
-        const { sessionId } = req.body;
-
-        if (!sessionId) {
-          return res.status(400).json({ error: 'sessionId is required' });
+        const { sessionId, subscriptionId } = req.body ?? {};
+        if (!subscriptionId) {
+          return res.status(400).json({ error: 'subscriptionId is required' });
         }
-
-        const session = monitoringSessions.get(sessionId);
-        if (!session) {
-          return res.status(404).json({ error: 'Monitoring session not found' });
-        }
-
-        if (session.timer) {
-          clearInterval(session.timer);
-        }
-        monitoringSessions.delete(sessionId);
-
-        logInfo(logger, 'Stopped monitoring session', { sessionId });
-
-        res.json({
-          message: 'Monitoring session stopped',
-          sessionId,
-        });
+        if (!findSession(sessionId, res)) return;
+        res.json(monitor.stop(subscriptionId, sessionId));
       } catch (error) {
         logError(logger, error, { endpoint: '/monitor/stop' });
-        res.status(500).json({
+        res.status(error instanceof ValidationError ? 404 : 500).json({
           error: error instanceof Error ? error.message : 'Failed to stop monitoring',
         });
       }
@@ -227,32 +498,46 @@ async function main() {
 
     // Start the Express server
     const port = serverConfig.ssePort || 3000;
-    const server = app.listen(port, () => {
+    const scheme = tlsOptions ? 'https' : 'http';
+    const onListening = () => {
       logInfo(logger, 'Brocade MCP SSE server started', {
         name: serverConfig.name,
         version: serverConfig.version,
         port,
         corsOrigin: serverConfig.sseCorsOrigin,
+        tls: !!tlsOptions,
+        clientCert: serverConfig.sseClientCert,
+        authRequired: authenticator.required,
       });
-      console.log(`SSE server running at http://localhost:${port}`);
-      console.log(`SSE endpoint: http://localhost:${port}/sse`);
-      console.log(`Health check: http://localhost:${port}/health`);
-    });
+      console.log(`SSE server running at ${scheme}://localhost:${port}`);
+      console.log(`MCP endpoint: ${scheme}://localhost:${port}/mcp`);
+      console.log(`Legacy SSE endpoint: ${scheme}://localhost:${port}/sse`);
+      console.log(`Health check: ${scheme}://localhost:${port}/health`);
+      console.log(`Health details: ${scheme}://localhost:${port}/health/details`);
+      console.log(`Metrics: ${scheme}://localhost:${port}/metrics`);
+    };
+    const server = tlsOptions
+      ? https.createServer(tlsOptions, app).listen(port, onListening)
+      : app.listen(port, onListening);
 
     // Handle graceful shutdown
     const shutdown = async () => {
       logInfo(logger, 'Shutting down SSE server');
 
-      // Stop all monitoring sessions
-      for (const [_id, session] of monitoringSessions) {
-        if (session.timer) {
-          clearInterval(session.timer);
-        }
-      }
-      monitoringSessions.clear();
+      // Stop monitoring subscriptions, alert evaluation and history recording
+      monitor.stopAll();
+      alerts?.stop();
+      history.stop();
+
+      // Close all MCP sessions
+      clearInterval(idleSweep);
+      await Promise.allSettled([...sessions.values()].map((session) => session.transport.close()));
+
+      // Nothing can confirm a pending commit after the process exits
+      await commits.rollbackAll();
 
-      // Disconnect switch client
-      switchClient.disconnect();
+      // Disconnect all switch clients
+      devices.disconnectAll();
 
       // Close the server
       server.close(() => {
@@ -8,6 +8,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { initializeClients, validateEnvironment } from '../core/config.js';
 import { logError, logInfo } from '../core/logger.js';
+import { createAlertSinks } from '../lib/alert-sinks.js';
 import { setupHandlers } from '../mcp/handlers.js';
 
 /**
@@ -19,7 +20,19 @@ async function main() {
     validateEnvironment();
 
     // Initialize clients and configuration
-    const { switchClient, commandExecutor, logger, serverConfig } = initializeClients('stdio');
+    const {
+      devices,
+      commits,
+      backups,
+      policy,
+      commandGuard,
+      approvals,
+      auditLog,
+      alerts,
+      history,
+      logger,
+      serverConfig,
+    } = initializeClients('stdio');
 
     // Create MCP server
     const server = new Server(
@@ -31,14 +44,24 @@ async function main() {
         capabilities: {
           resources: {},
           tools: {},
+          // Alerts are sent as logging notifications
+          logging: {},
         },
       },
     );
 
     // Setup shared handlers
     setupHandlers(server, {
-      switchClient,
-      commandExecutor,
+      devices,
+      commits,
+      backups,
+      policy,
+      commandGuard,
+      approvals,
+      auditLog,
+      alerts,
+      history,
+      serverConfig,
       logger,
       transportType: 'stdio',
     });
@@ -51,11 +74,27 @@ async function main() {
       logError(logger, error, { transport: 'stdio' });
     };
 
+    // Nothing can confirm a pending commit after the process exits, so it is
+    // rolled back before the switch clients are disconnected
+    const shutdown = async () => {
+      alerts?.stop();
+      history.stop();
+      await commits.rollbackAll();
+      devices.disconnectAll();
+    };
+
     // Handle transport closure
     transport.onclose = async () => {
-      logInfo(logger, 'Stdio transport closed, disconnecting switch client');
-      switchClient.disconnect();
+      logInfo(logger, 'Stdio transport closed, disconnecting switch clients');
+      await shutdown();
+    };
+
+    // Handle process termination
+    const exit = () => {
+      void shutdown().finally(() => process.exit(0));
     };
+    process.on('SIGINT', exit);
+    process.on('SIGTERM', exit);
 
     // Start the server
     logInfo(logger, 'Starting Brocade MCP stdio server', {
@@ -66,20 +105,19 @@ async function main() {
     await server.connect(transport);
 
     logInfo(logger, 'Brocade MCP stdio server started successfully');
+
+    if (alerts) {
+      for (const sink of createAlertSinks(alerts.sinkConfigs, logger, () => [server])) {
+        alerts.addSink(sink);
+      }
+      alerts.start();
+    }
+    history.start();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
   }
 }
 
-// Handle process termination
-process.on('SIGINT', () => {
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  process.exit(0);
-});
-
 // Start the server
 main();
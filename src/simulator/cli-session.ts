@@ -0,0 +1,546 @@
+/**
+ * One CLI session on the simulated switch, independent of SSH or telnet.
+ *
+ * Input arrives as raw terminal characters and is echoed back the way the
+ * switch does it: typed characters are echoed, passwords are not, and CR,
+ * LF or CRLF end a line. Output longer than a page stops at a --More--
+ * marker until the client answers with space (next page), return (next line)
+ * or Ctrl-C (quit), unless `skip-page-display` turned paging off.
+ *
+ * Keywords may be abbreviated to any unambiguous prefix ("sh vlan",
+ * "conf t", "wr mem"). Errors are printed like the switch prints them.
+ * `reload` asks whether to save a modified config and whether to go ahead,
+ * then reboots the switch from its startup config and closes the session.
+ */
+
+import {
+  showChassis,
+  showCpu,
+  showInterfacesBrief,
+  showIpRoute,
+  showLldpNeighborsDetail,
+  showLogging,
+  showMacAddress,
+  showMemory,
+  showStack,
+  showStatistics,
+  showVersion,
+  showVlan,
+} from './show-output.js';
+import { DEFAULT_VLAN_ID, type SimulatedSwitch } from './switch-state.js';
+
+export const RELOAD_SAVE_QUESTION =
+  "System configuration has been modified. Do you want to save the running configuration? (enter 'y' or 'n'): ";
+export const RELOAD_CONFIRM_QUESTION = "Are you sure? (enter 'y' or 'n'): ";
+
+export const MORE_PROMPT = '--More--, next page: Space, next line: Return key, quit: Control-c';
+
+/** Backspaces, blanks and backspaces again: what the switch sends to erase the --More-- marker */
+const ERASE_MORE = `${'\b'.repeat(MORE_PROMPT.length)}${' '.repeat(MORE_PROMPT.length)}${'\b'.repeat(MORE_PROMPT.length)}`;
+
+const CTRL_C = '\x03';
+
+type Mode = 'user' | 'privileged' | 'config' | 'config-vlan' | 'config-if';
+
+export interface CliSessionOptions {
+  /** "SSH" or "telnet", shown before the hostname in the prompt */
+  promptPrefix: string;
+  /** Password asked by `enable`; without one `enable` needs no password */
+  enablePassword?: string;
+  /** When set, `enable` asks for "User Name:" before the password */
+  enableUsername?: string;
+  /** Lines per page before --More-- */
+  pageLength: number;
+  /** Whether `skip-page-display` is accepted; when not, the client has to page */
+  skipPageDisplay: boolean;
+}
+
+/**
+ * A command: keywords, each accepted as any unambiguous prefix, then arguments
+ */
+interface CommandSpec {
+  words: string[];
+  /** Whether arguments may follow the keywords */
+  args?: boolean;
+  run: (args: string[]) => string;
+}
+
+export class CliSession {
+  private mode: Mode = 'user';
+  private vlanId = DEFAULT_VLAN_ID;
+  private interfacePort = '';
+  private paging = true;
+  private line = '';
+  private lastWasCR = false;
+  /** Output lines still to show behind a --More-- marker */
+  private pending?: string[];
+  /** Credentials being collected by `enable`, or the `reload` question being asked */
+  private awaiting?: 'username' | 'password' | 'save' | 'reload';
+  private enableUser = '';
+  private closed = false;
+
+  constructor(
+    private readonly sw: SimulatedSwitch,
+    private readonly options: CliSessionOptions,
+    private readonly write: (text: string) => void,
+    private readonly close: () => void,
+  ) {}
+
+  start(): void {
+    this.write(`\r\n${this.prompt()}`);
+  }
+
+  prompt(): string {
+    const context = {
+      user: '',
+      privileged: '',
+      config: '(config)',
+      'config-vlan': `(config-vlan-${this.vlanId})`,
+      'config-if': `(config-if-${this.sw.port(this.interfacePort)?.speed === '10G' ? 'e10000' : 'e1000'}-${this.interfacePort})`,
+    }[this.mode];
+    return `${this.options.promptPrefix}@${this.sw.hostname}${context}${this.mode === 'user' ? '>' : '#'}`;
+  }
+
+  /**
+   * Feed characters typed by the client
+   */
+  input(data: string): void {
+    for (const char of data) {
+      if (this.closed) return;
+      if (this.pending) {
+        this.page(char);
+        continue;
+      }
+
+      // CRLF, CR NUL and LF after CR end a single line
+      if (this.lastWasCR && (char === '\n' || char === '\0')) {
+        this.lastWasCR = false;
+        continue;
+      }
+      this.lastWasCR = char === '\r';
+
+      if (char === '\r' || char === '\n') {
+        this.submit();
+      } else if (char === '\x7f' || char === '\b') {
+        if (this.line.length > 0) {
+          this.line = this.line.slice(0, -1);
+          if (this.awaiting !== 'password') this.write('\b \b');
+        }
+      } else if (char === CTRL_C) {
+        this.line = '';
+        this.awaiting = undefined;
+        this.write(`\r\n${this.prompt()}`);
+      } else if (char >= ' ') {
+        this.line += char;
+        if (this.awaiting !== 'password') this.write(char);
+      }
+    }
+  }
+
+  private submit(): void {
+    const line = this.line.trim();
+    this.line = '';
+    this.write('\r\n');
+
+    if (this.awaiting === 'save' || this.awaiting === 'reload') {
+      this.answerReload(line);
+      return;
+    }
+    if (this.awaiting) {
+      this.answerEnable(line);
+      return;
+    }
+
+    const output = this.execute(line);
+    if (this.closed || this.awaiting) return;
+    this.show(output);
+  }
+
+  /**
+   * Print command output, stopping at a page boundary when paging is on
+   */
+  private show(output: string): void {
+    if (!output) {
+      this.write(this.prompt());
+      return;
+    }
+    const lines = output.split('\n');
+    if (this.paging && lines.length > this.options.pageLength) {
+      this.write(`${lines.slice(0, this.options.pageLength).join('\r\n')}\r\n${MORE_PROMPT}`);
+      this.pending = lines.slice(this.options.pageLength);
+      return;
+    }
+    this.write(`${lines.join('\r\n')}\r\n${this.prompt()}`);
+  }
+
+  private page(char: string): void {
+    const pending = this.pending as string[];
+    let count: number;
+    if (char === ' ') {
+      count = this.options.pageLength;
+    } else if (char === '\r') {
+      count = 1;
+    } else if (char === CTRL_C || char === 'q') {
+      this.pending = undefined;
+      this.write(`${ERASE_MORE}\r\n${this.prompt()}`);
+      return;
+    } else {
+      return;
+    }
+
+    const lines = pending.slice(0, count);
+    const rest = pending.slice(count);
+    this.pending = rest.length > 0 ? rest : undefined;
+    this.write(`${ERASE_MORE}${lines.join('\r\n')}\r\n${rest.length > 0 ? MORE_PROMPT : this.prompt()}`);
+  }
+
+  // -----------------------------------------------------------------------
+  // Enable
+  // -----------------------------------------------------------------------
+
+  private enable(): string {
+    if (this.mode !== 'user') return '';
+    if (!this.options.enablePassword) {
+      this.mode = 'privileged';
+      return '';
+    }
+    if (this.options.enableUsername) {
+      this.awaiting = 'username';
+      this.write('User Name:');
+    } else {
+      this.awaiting = 'password';
+      this.write('Password:');
+    }
+    return '';
+  }
+
+  private answerEnable(answer: string): void {
+    if (this.awaiting === 'username') {
+      this.enableUser = answer;
+      this.awaiting = 'password';
+      this.write('Password:');
+      return;
+    }
+
+    this.awaiting = undefined;
+    const userMatches = !this.options.enableUsername || this.enableUser === this.options.enableUsername;
+    if (userMatches && answer === this.options.enablePassword) {
+      this.mode = 'privileged';
+      this.write(this.prompt());
+    } else {
+      this.write(`Error - Incorrect username or password.\r\n${this.prompt()}`);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Reload
+  // -----------------------------------------------------------------------
+
+  private reload(): string {
+    const modified = this.sw.runningConfig() !== this.sw.startupConfig;
+    this.awaiting = modified ? 'save' : 'reload';
+    this.write(modified ? RELOAD_SAVE_QUESTION : RELOAD_CONFIRM_QUESTION);
+    return '';
+  }
+
+  private answerReload(answer: string): void {
+    const yes = /^y(?:es)?$/i.test(answer);
+    if (this.awaiting === 'save') {
+      if (yes) this.sw.save();
+      this.awaiting = 'reload';
+      this.write(RELOAD_CONFIRM_QUESTION);
+      return;
+    }
+
+    this.awaiting = undefined;
+    if (!yes) {
+      this.write(this.prompt());
+      return;
+    }
+    this.write('Halt and reboot\r\n');
+    this.sw.reload();
+    this.exit();
+  }
+
+  // -----------------------------------------------------------------------
+  // Command dispatch
+  // -----------------------------------------------------------------------
+
+  private execute(line: string): string {
+    if (!line) return '';
+
+    const [command, ...filters] = line.split(/\s+\|\s*/);
+    const resolved = resolveCommand(this.commands(), command.split(/\s+/));
+    if ('error' in resolved) return resolved.error;
+
+    let output = resolved.spec.run(resolved.args);
+    for (const filter of filters) {
+      const [keyword, ...pattern] = filter.split(/\s+/);
+      const text = pattern.join(' ');
+      const lines = output.split('\n');
+      if ('include'.startsWith(keyword) && keyword) {
+        output = lines.filter((entry) => entry.includes(text)).join('\n');
+      } else if ('exclude'.startsWith(keyword) && keyword) {
+        output = lines.filter((entry) => !entry.includes(text)).join('\n');
+      } else if ('begin'.startsWith(keyword) && keyword) {
+        const start = lines.findIndex((entry) => entry.includes(text));
+        output = start === -1 ? '' : lines.slice(start).join('\n');
+      } else {
+        return invalidInput(filter);
+      }
+    }
+    return output;
+  }
+
+  private commands(): CommandSpec[] {
+    const sw = this.sw;
+    const commands: CommandSpec[] = [
+      ...this.showCommands(),
+      { words: ['skip-page-display'], run: () => this.setPaging(false) },
+      { words: ['page-display'], run: () => this.setPaging(true) },
+    ];
+
+    if (this.mode === 'user') {
+      return [
+        ...commands,
+        { words: ['enable'], run: () => this.enable() },
+        { words: ['exit'], run: () => this.exit() },
+      ];
+    }
+
+    commands.push({
+      words: ['write', 'memory'],
+      run: () => {
+        sw.save();
+        sw.log('I', `Security: startup-config was changed by ${this.options.promptPrefix} client`);
+        return 'Write startup-config done.';
+      },
+    });
+
+    if (this.mode === 'privileged') {
+      return [
+        ...commands,
+        { words: ['configure', 'terminal'], run: () => this.enter('config') },
+        { words: ['disable'], run: () => this.enter('user') },
+        { words: ['reload'], run: () => this.reload() },
+        { words: ['enable'], run: () => '' },
+        { words: ['exit'], run: () => this.enter('user') },
+      ];
+    }
+
+    // Global configuration commands work in every configuration mode
+    commands.push(
+      { words: ['vlan'], args: true, run: (args) => this.vlan(args) },
+      { words: ['no', 'vlan'], args: true, run: (args) => this.noVlan(args) },
+      { words: ['interface', 'ethernet'], args: true, run: (args) => this.interface(args) },
+      {
+        words: ['hostname'],
+        args: true,
+        run: (args) => {
+          if (args.length !== 1)
+            return args.length === 0 ? 'Incomplete command.' : invalidInput(args.slice(1).join(' '));
+          sw.hostname = args[0];
+          return '';
+        },
+      },
+      { words: ['end'], run: () => this.enter('privileged') },
+      { words: ['exit'], run: () => this.enter(this.mode === 'config' ? 'privileged' : 'config') },
+    );
+
+    if (this.mode === 'config-vlan') {
+      const membership = (mode: 'tagged' | 'untagged', remove: boolean) => (args: string[]) => {
+        const parsed = sw.parsePortList(args);
+        if ('invalid' in parsed) return invalidInput(parsed.invalid);
+        const error = remove
+          ? sw.removePorts(this.vlanId, parsed.ports, mode)
+          : sw.addPorts(this.vlanId, parsed.ports, mode);
+        return error ?? (remove ? '' : `Added ${mode} port(s) ${args.join(' ')} to port-vlan ${this.vlanId}.`);
+      };
+      commands.push(
+        { words: ['tagged'], args: true, run: membership('tagged', false) },
+        { words: ['untagged'], args: true, run: membership('untagged', false) },
+        { words: ['no', 'tagged'], args: true, run: membership('tagged', true) },
+        { words: ['no', 'untagged'], args: true, run: membership('untagged', true) },
+        {
+          words: ['name'],
+          args: true,
+          run: (args) => {
+            if (args.length === 0) return 'Incomplete command.';
+            sw.createVlan(this.vlanId, args.join(' '));
+            return '';
+          },
+        },
+      );
+    }
+
+    if (this.mode === 'config-if') {
+      const port = sw.port(this.interfacePort);
+      if (port) {
+        commands.push(
+          {
+            words: ['port-name'],
+            args: true,
+            run: (args) => {
+              if (args.length === 0) return 'Incomplete command.';
+              port.description = args.join(' ');
+              return '';
+            },
+          },
+          { words: ['no', 'port-name'], run: () => this.set(() => delete port.description) },
+          { words: ['enable'], run: () => this.set(() => (port.enabled = true)) },
+          { words: ['disable'], run: () => this.set(() => (port.enabled = false)) },
+          {
+            words: ['speed-duplex'],
+            args: true,
+            run: (args) => {
+              const modes = ['10-full', '10-half', '100-full', '100-half', '1000-full', '1000-full-master', 'auto'];
+              if (args.length !== 1 || !modes.includes(args[0])) return invalidInput(args.join(' '));
+              port.speedDuplex = args[0] === 'auto' ? undefined : args[0];
+              return '';
+            },
+          },
+          { words: ['no', 'speed-duplex'], run: () => this.set(() => delete port.speedDuplex) },
+        );
+      }
+    }
+
+    return commands;
+  }
+
+  private showCommands(): CommandSpec[] {
+    const sw = this.sw;
+    const show = (words: string[], run: () => string): CommandSpec => ({ words: ['show', ...words], run });
+    const commands: CommandSpec[] = [
+      show(['version'], () => showVersion(sw)),
+      {
+        words: ['show', 'vlan'],
+        args: true,
+        run: (args) => {
+          if (args.length === 0) return showVlan(sw);
+          if (args.length > 1 || !/^\d+$/.test(args[0])) return invalidInput(args.join(' '));
+          return showVlan(sw, Number(args[0]));
+        },
+      },
+      show(['interfaces', 'brief'], () => showInterfacesBrief(sw)),
+      show(['mac-address'], () => showMacAddress(sw)),
+      show(['statistics'], () => showStatistics(sw)),
+      {
+        words: ['show', 'statistics', 'ethernet'],
+        args: true,
+        run: (args) => (args.length === 1 ? showStatistics(sw, args[0]) : 'Incomplete command.'),
+      },
+      show(['cpu-utilization'], () => showCpu()),
+      show(['memory'], () => showMemory()),
+      show(['chassis'], () => showChassis()),
+      show(['stack'], () => showStack(sw)),
+      show(['lldp', 'neighbors', 'detail'], () => showLldpNeighborsDetail()),
+      show(['ip', 'route'], () => showIpRoute()),
+      show(['logging'], () => showLogging(sw)),
+    ];
+
+    if (this.mode !== 'user') {
+      commands.push(
+        show(['running-config'], () => sw.runningConfig()),
+        show(['configuration'], () => sw.startupConfig),
+      );
+    }
+    return commands;
+  }
+
+  // -----------------------------------------------------------------------
+  // Mode changes and configuration
+  // -----------------------------------------------------------------------
+
+  private enter(mode: Mode): string {
+    this.mode = mode;
+    return '';
+  }
+
+  private exit(): string {
+    this.closed = true;
+    this.close();
+    return '';
+  }
+
+  private set(change: () => unknown): string {
+    change();
+    return '';
+  }
+
+  private setPaging(paging: boolean): string {
+    if (!this.options.skipPageDisplay) return invalidInput(paging ? 'page-display' : 'skip-page-display');
+    this.paging = paging;
+    return '';
+  }
+
+  /**
+   * `vlan <id> [name <name>] [by port]`
+   */
+  private vlan(args: string[]): string {
+    const id = Number(args[0]);
+    if (args.length === 0) return 'Incomplete command.';
+    if (!/^\d+$/.test(args[0]) || id < 1 || id > 4095) return invalidInput(args.join(' '));
+
+    let rest = args.slice(1);
+    if (rest.at(-2) === 'by' && rest.at(-1) === 'port') rest = rest.slice(0, -2);
+    let name: string | undefined;
+    if (rest.length > 0) {
+      if (rest[0] !== 'name' || rest.length < 2) return invalidInput(rest.join(' '));
+      name = rest.slice(1).join(' ');
+    }
+    if (id === DEFAULT_VLAN_ID && name) return 'Error: The default VLAN cannot be renamed';
+
+    if (id !== DEFAULT_VLAN_ID) this.sw.createVlan(id, name);
+    this.vlanId = id;
+    this.mode = 'config-vlan';
+    return '';
+  }
+
+  private noVlan(args: string[]): string {
+    if (args.length !== 1 || !/^\d+$/.test(args[0]))
+      return args.length === 0 ? 'Incomplete command.' : invalidInput(args.join(' '));
+    return this.sw.deleteVlan(Number(args[0])) ?? '';
+  }
+
+  private interface(args: string[]): string {
+    if (args.length === 0) return 'Incomplete command.';
+    if (args.length > 1 || !this.sw.port(args[0])) return invalidInput(args.join(' '));
+    this.interfacePort = args[0];
+    this.mode = 'config-if';
+    return '';
+  }
+}
+
+function invalidInput(text: string): string {
+  return `Invalid input -> ${text}\nType ? for a list`;
+}
+
+/**
+ * Match typed words against the command table, keyword by keyword. A word
+ * selects the keyword it is a prefix of; an exact match wins over prefixes.
+ */
+function resolveCommand(
+  commands: CommandSpec[],
+  tokens: string[],
+): { spec: CommandSpec; args: string[] } | { error: string } {
+  let live = commands;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].toLowerCase();
+    const keywords = live.filter((spec) => spec.words.length > i);
+    const exact = keywords.filter((spec) => spec.words[i] === token);
+    const matched = exact.length > 0 ? exact : keywords.filter((spec) => spec.words[i].startsWith(token));
+
+    if (new Set(matched.map((spec) => spec.words[i])).size > 1) {
+      return { error: `Ambiguous input -> ${tokens.slice(i).join(' ')}` };
+    }
+    if (matched.length === 0) {
+      const withArgs = live.find((spec) => spec.words.length === i && spec.args);
+      if (withArgs) return { spec: withArgs, args: tokens.slice(i) };
+      return { error: invalidInput(tokens.slice(i).join(' ')) };
+    }
+    live = matched;
+  }
+
+  const complete = live.find((spec) => spec.words.length === tokens.length);
+  return complete ? { spec: complete, args: [] } : { error: 'Incomplete command.' };
+}
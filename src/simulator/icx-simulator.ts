@@ -0,0 +1,258 @@
+/**
+ * Simulated Brocade ICX switch reachable over SSH and telnet.
+ *
+ * Both servers share one SimulatedSwitch, so configuration made through
+ * one session is seen by every other. The SSH server only offers an
+ * interactive shell (like the switch, exec channels are not supported) with
+ * a host key generated at start. The telnet server negotiates echo like the
+ * switch and logs in without credentials. An SNMP agent serving the same
+ * switch can be started beside them.
+ */
+
+import net from 'node:net';
+// Server and utils are not detected as named exports of the CommonJS module
+import ssh2, { type Connection, type Server } from 'ssh2';
+import type winston from 'winston';
+import { logDebug, logInfo } from '../core/logger.js';
+import { CliSession } from './cli-session.js';
+import { SimulatedSnmpAgent, type SimulatedSnmpUser } from './snmp-agent.js';
+import { SimulatedSwitch } from './switch-state.js';
+
+const IAC = 0xff;
+const WILL = 0xfb;
+const SB = 0xfa;
+const SE = 0xf0;
+const OPT_ECHO = 0x01;
+const OPT_SUPPRESS_GO_AHEAD = 0x03;
+
+export interface IcxSimulatorOptions {
+  /** Address to listen on */
+  host?: string;
+  /** 0 picks a free port */
+  sshPort?: number;
+  /** 0 picks a free port; null disables telnet */
+  telnetPort?: number | null;
+  hostname?: string;
+  username?: string;
+  password?: string;
+  enablePassword?: string;
+  enableUsername?: string;
+  /** Lines per page before --More-- */
+  pageLength?: number;
+  /** Whether `skip-page-display` is accepted; when not, every client has to page */
+  skipPageDisplay?: boolean;
+  /** UDP port of the SNMP agent, 0 picks a free port; null (the default) disables SNMP */
+  snmpPort?: number | null;
+  /** SNMPv2c community */
+  snmpCommunity?: string;
+  /** SNMPv3 user */
+  snmpUser?: SimulatedSnmpUser;
+}
+
+export class IcxSimulator {
+  readonly switch: SimulatedSwitch;
+  private sshServer?: Server;
+  private telnetServer?: net.Server;
+  private snmpAgent?: SimulatedSnmpAgent;
+  private readonly sockets: Set<net.Socket> = new Set();
+  private readonly clients: Set<Connection> = new Set();
+  private readonly options: Required<
+    Omit<IcxSimulatorOptions, 'enablePassword' | 'enableUsername' | 'hostname' | 'snmpUser'>
+  > &
+    Pick<IcxSimulatorOptions, 'enablePassword' | 'enableUsername' | 'snmpUser'>;
+
+  constructor(
+    options: IcxSimulatorOptions = {},
+    private readonly logger?: winston.Logger,
+  ) {
+    this.switch = new SimulatedSwitch({ hostname: options.hostname });
+    this.options = {
+      host: options.host ?? '127.0.0.1',
+      sshPort: options.sshPort ?? 0,
+      telnetPort: options.telnetPort === undefined ? 0 : options.telnetPort,
+      username: options.username ?? 'admin',
+      password: options.password ?? 'admin',
+      enablePassword: options.enablePassword,
+      enableUsername: options.enableUsername,
+      pageLength: options.pageLength ?? 24,
+      skipPageDisplay: options.skipPageDisplay ?? true,
+      snmpPort: options.snmpPort ?? null,
+      snmpCommunity: options.snmpCommunity ?? 'public',
+      snmpUser: options.snmpUser,
+    };
+  }
+
+  /**
+   * Start listening, resolving with the ports in use
+   */
+  async start(): Promise<{ sshPort: number; telnetPort?: number; snmpPort?: number }> {
+    const hostKey = ssh2.utils.generateKeyPairSync('ecdsa', { bits: 256 }).private;
+    const sshServer = new ssh2.Server({ hostKeys: [hostKey] }, (client) => this.acceptSsh(client));
+    this.sshServer = sshServer;
+    const sshPort = await listen(sshServer, this.options.sshPort, this.options.host);
+
+    let telnetPort: number | undefined;
+    if (this.options.telnetPort !== null) {
+      const telnetServer = net.createServer((socket) => this.acceptTelnet(socket));
+      this.telnetServer = telnetServer;
+      telnetPort = await listen(telnetServer, this.options.telnetPort, this.options.host);
+    }
+
+    let snmpPort: number | undefined;
+    if (this.options.snmpPort !== null) {
+      const snmpAgent = new SimulatedSnmpAgent(
+        this.switch,
+        {
+          host: this.options.host,
+          port: this.options.snmpPort,
+          community: this.options.snmpCommunity,
+          user: this.options.snmpUser,
+        },
+        this.logger,
+      );
+      this.snmpAgent = snmpAgent;
+      snmpPort = await snmpAgent.start();
+    }
+
+    if (this.logger) {
+      logInfo(this.logger, 'ICX simulator listening', {
+        host: this.options.host,
+        sshPort,
+        telnetPort,
+        snmpPort,
+        hostname: this.switch.hostname,
+      });
+    }
+    return { sshPort, telnetPort, snmpPort };
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async stop(): Promise<void> {
+    for (const client of this.clients) client.end();
+    for (const socket of this.sockets) socket.destroy();
+    this.clients.clear();
+    this.sockets.clear();
+    const servers = [this.sshServer, this.telnetServer].filter((server) => server !== undefined);
+    this.sshServer = undefined;
+    this.telnetServer = undefined;
+    await Promise.all(servers.map((server) => new Promise<void>((resolve) => server.close(() => resolve()))));
+    await this.snmpAgent?.stop();
+    this.snmpAgent = undefined;
+  }
+
+  private session(promptPrefix: string, write: (text: string) => void, close: () => void): CliSession {
+    return new CliSession(
+      this.switch,
+      {
+        promptPrefix,
+        enablePassword: this.options.enablePassword,
+        enableUsername: this.options.enableUsername,
+        pageLength: this.options.pageLength,
+        skipPageDisplay: this.options.skipPageDisplay,
+      },
+      write,
+      close,
+    );
+  }
+
+  private acceptSsh(client: Connection): void {
+    const { username, password } = this.options;
+    this.clients.add(client);
+    client.on('close', () => this.clients.delete(client));
+
+    client.on('authentication', (ctx) => {
+      if (ctx.username !== username) return ctx.reject();
+      if (ctx.method === 'password') return ctx.password === password ? ctx.accept() : ctx.reject();
+      if (ctx.method === 'keyboard-interactive') {
+        ctx.prompt([{ prompt: 'Password: ', echo: false }], (answers) => {
+          if (answers[0] === password) ctx.accept();
+          else ctx.reject();
+        });
+        return;
+      }
+      ctx.reject(['password', 'keyboard-interactive']);
+    });
+
+    client.on('ready', () => {
+      client.on('session', (acceptSession) => {
+        const session = acceptSession();
+        session.on('pty', (accept) => accept?.());
+        session.on('exec', (_accept, reject) => reject?.());
+        session.on('shell', (accept) => {
+          const stream = accept();
+          const cli = this.session(
+            'SSH',
+            (text) => stream.write(text),
+            () => {
+              stream.exit(0);
+              stream.end();
+            },
+          );
+          stream.on('data', (data: Buffer) => cli.input(data.toString('utf-8')));
+          cli.start();
+          if (this.logger) logDebug(this.logger, 'Simulator SSH session opened');
+        });
+      });
+    });
+
+    // Clients that drop the connection are routine
+    client.on('error', () => undefined);
+  }
+
+  private acceptTelnet(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    socket.write(Buffer.from([IAC, WILL, OPT_ECHO, IAC, WILL, OPT_SUPPRESS_GO_AHEAD]));
+    const cli = this.session(
+      'telnet',
+      (text) => {
+        if (!socket.destroyed) socket.write(text);
+      },
+      () => socket.end(),
+    );
+    socket.on('data', (data: Buffer) => {
+      const text = stripTelnetCommands(data);
+      if (text) cli.input(text);
+    });
+    cli.start();
+    if (this.logger) logDebug(this.logger, 'Simulator telnet session opened');
+  }
+}
+
+function listen(server: net.Server, port: number, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.removeListener('error', reject);
+      resolve((server.address() as net.AddressInfo).port);
+    });
+  });
+}
+
+/**
+ * Drop option negotiation from telnet input; the answers of the client need no reply
+ */
+function stripTelnetCommands(data: Buffer): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== IAC) {
+      bytes.push(data[i]);
+    } else if (data[i + 1] === IAC) {
+      bytes.push(IAC);
+      i++;
+    } else if (data[i + 1] === SB) {
+      while (i < data.length && !(data[i] === IAC && data[i + 1] === SE)) i++;
+      i++;
+    } else if (data[i + 1] >= WILL) {
+      // WILL, WONT, DO and DONT carry an option byte
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
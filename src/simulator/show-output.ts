@@ -0,0 +1,274 @@
+/**
+ * Output of the show commands of the simulated switch, laid out like
+ * FastIron 08.0 on an ICX 6450. The text is what the switch prints, not what
+ * the executor's parsers expect, so parser gaps show up against the simulator
+ * the same way they would against hardware.
+ */
+
+import {
+  comparePorts,
+  DEFAULT_VLAN_ID,
+  formatUptime,
+  LLDP_NEIGHBOR_DESCRIPTION,
+  LLDP_NEIGHBORS,
+  type SimulatedPort,
+  type SimulatedSwitch,
+} from './switch-state.js';
+
+const BRIEF_HEADER = 'Port       Link    State   Dupl Speed Trunk Tag Pvid Pri MAC             Name';
+
+/** Ports per line in the member lists of `show vlan` */
+const VLAN_PORTS_PER_LINE = 16;
+
+export function showVersion(sw: SimulatedSwitch): string {
+  return [
+    '  Copyright (c) 1996-2016 Brocade Communications Systems, Inc. All rights reserved.',
+    '    UNIT 1: compiled on Apr 12 2016 at 02:12:41 labeled as ICX64S08030h',
+    '      (10545683 bytes) from Primary ICX64S08030h.bin',
+    `        SW: Version ${sw.firmware}`,
+    '  Boot-Monitor Image size = 786944, Version:10.1.05T310 (kxz10105)',
+    `  HW: Stackable ${sw.model}`,
+    '==========================================================================',
+    `UNIT 1: SL 1: ${sw.model} 24-port Management Module`,
+    `      Serial  #: ${sw.serial}`,
+    '      License: BASE_SOFT_PACKAGE   (LID: dawHHJLbFGf)',
+    '      P-ENGINE  0: type DEF0, rev 01',
+    '==========================================================================',
+    'UNIT 1: SL 2: ICX6450-SFP-Plus 4port 40G Module',
+    '==========================================================================',
+    '  800 MHz ARM processor ARMv5TE, 400 MHz bus',
+    '    65536 KB flash memory',
+    '      512 MB DRAM',
+    `STACKID 1  system uptime is ${formatUptime(Date.now() - sw.startedAt)}`,
+    'The system : started=cold start',
+  ].join('\n');
+}
+
+export function showVlan(sw: SimulatedSwitch, id?: number): string {
+  const vlans = sw.listVlans();
+  const selected = id === undefined ? vlans : vlans.filter((vlan) => vlan.id === id);
+  if (id !== undefined && selected.length === 0) return `Error: vlan ${id} is not configured`;
+
+  const lines = [
+    `Total PORT-VLAN entries: ${vlans.length}`,
+    'Maximum PORT-VLAN entries: 64',
+    '',
+    'Legend: [Stk=Stack-Id, S=Slot]',
+    '',
+  ];
+  for (const vlan of selected) {
+    lines.push(`PORT-VLAN ${vlan.id}, Name ${vlan.name}, Priority level0, Spanning tree Off`);
+    lines.push(...vlanPortLines(' Untagged Ports', vlan.untagged));
+    lines.push(...vlanPortLines('   Tagged Ports', vlan.tagged));
+    lines.push('   Uplink Ports: None', ' DualMode Ports: None', ' Mac-Vlan Ports: None', '     Monitoring: None');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Member list grouped by unit and module: " Untagged Ports: (U1/M1)   2   3   4"
+ */
+function vlanPortLines(label: string, ports: Set<string>): string[] {
+  if (ports.size === 0) return [`${label}: None`];
+  const modules = new Map<string, number[]>();
+  for (const port of [...ports].sort(comparePorts)) {
+    const [unit, module, number] = port.split('/');
+    const key = `(U${unit}/M${module})`;
+    modules.set(key, [...(modules.get(key) ?? []), Number(number)]);
+  }
+
+  const lines: string[] = [];
+  for (const [module, numbers] of modules) {
+    for (let i = 0; i < numbers.length; i += VLAN_PORTS_PER_LINE) {
+      const row = numbers.slice(i, i + VLAN_PORTS_PER_LINE).map((number) => String(number).padStart(4));
+      lines.push(`${label}: ${module}${row.join('')}`);
+    }
+  }
+  return lines;
+}
+
+export function showInterfacesBrief(sw: SimulatedSwitch): string {
+  return ['', BRIEF_HEADER, ...[...sw.ports.values()].map((port) => briefLine(sw, port))].join('\n');
+}
+
+function briefLine(sw: SimulatedSwitch, port: SimulatedPort): string {
+  const up = port.linkUp && port.enabled;
+  const vlans = sw.listVlans();
+  const tagged = vlans.some((vlan) => vlan.tagged.has(port.name));
+  const untagged = vlans.find((vlan) => vlan.untagged.has(port.name));
+  const columns = [
+    port.name.padEnd(10),
+    (port.enabled ? (port.linkUp ? 'Up' : 'Down') : 'Disable').padEnd(7),
+    (up ? 'Forward' : 'None').padEnd(7),
+    (up ? 'Full' : 'None').padEnd(4),
+    (up ? port.speed : 'None').padEnd(5),
+    'None ',
+    (tagged ? 'Yes' : 'No').padEnd(3),
+    (untagged ? String(untagged.id) : 'N/A').padEnd(4),
+    '0  ',
+    `${sw.portMac(port.name)} `,
+    port.description ?? '',
+  ];
+  return columns.join(' ').trimEnd();
+}
+
+export function showMacAddress(sw: SimulatedSwitch): string {
+  const entries = [...sw.ports.values()]
+    .filter((port) => port.linkUp && port.enabled)
+    .map((port, index) => {
+      const vlan = pvid(sw, port.name) ?? DEFAULT_VLAN_ID;
+      const mac = `0024.3879.${(0xa1c0 + index).toString(16)}`;
+      return `${mac}  ${port.name.padEnd(14)} Dynamic      ${vlan}`;
+    });
+  return [
+    `Total active entries from all ports = ${entries.length}`,
+    'MAC-Address     Port           Type         VLAN',
+    ...entries,
+  ].join('\n');
+}
+
+function pvid(sw: SimulatedSwitch, port: string): number | undefined {
+  return sw.listVlans().find((vlan) => vlan.untagged.has(port))?.id;
+}
+
+/**
+ * Detailed counters of one port, or of every port when none is given
+ */
+export function showStatistics(sw: SimulatedSwitch, portName?: string): string {
+  const ports = portName ? [sw.port(portName)] : [...sw.ports.values()];
+  if (ports.some((port) => !port)) return `Invalid input -> ${portName}`;
+
+  const uptimeSeconds = Math.max(1, (Date.now() - sw.startedAt) / 1000);
+  const row = (leftLabel: string, left: number | string, rightLabel = '', right: number | string = '') =>
+    `${leftLabel.padStart(17)}${String(left).padStart(21)}${rightLabel ? `${rightLabel.padStart(19)}${String(right).padStart(19)}` : ''}`;
+
+  return (ports as SimulatedPort[])
+    .map((port) => {
+      const counters = sw.counters(port);
+      const speedBps = port.speed === '10G' ? 1e10 : 1e9;
+      const inBps = Math.round((counters.inOctets * 8) / uptimeSeconds);
+      const outBps = Math.round((counters.outOctets * 8) / uptimeSeconds);
+      return [
+        BRIEF_HEADER,
+        briefLine(sw, port),
+        '',
+        `  Port ${port.name} Counters:`,
+        row('InOctets', counters.inOctets, 'OutOctets', counters.outOctets),
+        row('InPkts', counters.inPkts, 'OutPkts', counters.outPkts),
+        row('InBroadcastPkts', 0, 'OutBroadcastPkts', 0),
+        row('InMulticastPkts', 0, 'OutMulticastPkts', 0),
+        row('InUnicastPkts', counters.inPkts, 'OutUnicastPkts', counters.outPkts),
+        row('InBadPkts', 0),
+        row('InFragments', 0),
+        row('InDiscards', 0),
+        row('CRC', counters.crc, 'Collisions', 0),
+        row('InErrors', counters.inErrors, 'OutErrors', counters.outErrors),
+        row('InGiantPkts', 0),
+        row('InShortPkts', 0),
+        row('InJabber', 0),
+        row('InBitsPerSec', inBps, 'OutBitsPerSec', outBps),
+        row(
+          'InPktsPerSec',
+          Math.round(counters.inPkts / uptimeSeconds),
+          'OutPktsPerSec',
+          Math.round(counters.outPkts / uptimeSeconds),
+        ),
+        row(
+          'InUtilization',
+          `${((inBps / speedBps) * 100).toFixed(2)}%`,
+          'OutUtilization',
+          `${((outBps / speedBps) * 100).toFixed(2)}%`,
+        ),
+        '',
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+export function showCpu(): string {
+  return [
+    '3 percent busy, from 2 sec ago',
+    '1   sec avg:  3 percent busy',
+    '5   sec avg:  2 percent busy',
+    '60  sec avg:  2 percent busy',
+    '300 sec avg:  2 percent busy',
+  ].join('\n');
+}
+
+export function showMemory(): string {
+  return [
+    'Stack unit 1:',
+    '  Total DRAM: 536870912 bytes',
+    '    Dynamic memory: 418398208 bytes total, 214536192 bytes free, 48% used',
+  ].join('\n');
+}
+
+export function showChassis(): string {
+  return [
+    'The stack unit 1 chassis info:',
+    '',
+    'Power supply 1 (AC - Regular) present, status ok',
+    'Power supply 2 not present',
+    '',
+    'Fan 1 ok, speed (auto): [[1]]<->2',
+    '',
+    'Fan controlled temperature: 42.0 deg-C',
+    '',
+    'Fan speed switching temperature thresholds:',
+    '                Speed 1: NM<----->     82       deg-C',
+    '                Speed 2:        76<-----> 103 deg-C (shutdown)',
+    '',
+    'Fan 1 Air Flow Direction:  Front to Back',
+    'Slot 1 Current Temperature: 42.0 deg-C (Sensor 1), 40.5 deg-C (Sensor 2)',
+    'Slot 2 Current Temperature: NA',
+    '    Warning level.......: 85.0 deg-C',
+    '    Shutdown level......: 105.0 deg-C',
+  ].join('\n');
+}
+
+export function showStack(sw: SimulatedSwitch): string {
+  return [
+    'alone: standalone, D: dynamic config, S: static config',
+    'ID   Type          Role    Mac Address    Pri State   Comment',
+    `1  S ${sw.model.padEnd(13)} alone   ${sw.baseMac}   0 local   Ready`,
+  ].join('\n');
+}
+
+export function showLldpNeighborsDetail(): string {
+  return LLDP_NEIGHBORS.flatMap((neighbor) => [
+    `Local port: ${neighbor.localPort}`,
+    `  Neighbor: ${neighbor.chassisId}, TTL 101 seconds`,
+    `    + Chassis ID (MAC address): ${neighbor.chassisId}`,
+    `    + Port ID (interface name): ${neighbor.portId}`,
+    '    + Time to live: 120 seconds',
+    `    + System name         : "${neighbor.systemName}"`,
+    `    + Port description    : "${neighbor.portId}"`,
+    `    + System description  : "${LLDP_NEIGHBOR_DESCRIPTION}"`,
+    '    + System capabilities : bridge, router',
+    '      Enabled capabilities: bridge, router',
+    `    + Management address (IPv4): ${neighbor.managementAddress}`,
+    '',
+  ]).join('\n');
+}
+
+export function showIpRoute(): string {
+  return [
+    'Total number of IP routes: 2',
+    'Type Codes - B:BGP D:Connected I:ISIS S:Static R:RIP O:OSPF; Cost - Dist/Metric',
+    '        Destination        Gateway         Port        Cost     Type Uptime',
+    '1       0.0.0.0/0          10.0.10.1       ve 10       1/1      S    0d0h',
+    '2       10.0.10.0/24       DIRECT          ve 10       0/0      D    0d0h',
+  ].join('\n');
+}
+
+export function showLogging(sw: SimulatedSwitch): string {
+  return [
+    'Syslog logging: enabled (0 messages dropped, 0 flushes, 0 overruns)',
+    `    Buffer logging: level ACDMEINW, ${sw.logs.length} messages logged`,
+    '    level code: A=alert C=critical D=debugging M=emergency E=error',
+    '                I=informational N=notification W=warning',
+    '',
+    'Dynamic Log Buffer (50 lines):',
+    ...[...sw.logs].reverse(),
+  ].join('\n');
+}
@@ -0,0 +1,367 @@
+/**
+ * SNMP agent of the simulated switch.
+ *
+ * Serves the objects the SNMP reader queries (system group, IF-MIB,
+ * EtherLike-MIB, LLDP-MIB and the Foundry CPU, memory, temperature and optics
+ * tables) from the same SimulatedSwitch as the CLI, so a port disabled over
+ * SSH reads as down over SNMP too. Values are refreshed when a request
+ * arrives, at most once a second. Requests with an unknown community or user
+ * are dropped like on the switch, leaving the manager to time out.
+ */
+
+import dgram from 'node:dgram';
+// Constants and the agent factory are not detected as named exports of the CommonJS module
+import snmp from 'net-snmp';
+import type winston from 'winston';
+import { logWarn } from '../core/logger.js';
+import { SNMP_OIDS, SNMP_TABLES } from '../lib/snmp-reader.js';
+import { LLDP_NEIGHBOR_DESCRIPTION, LLDP_NEIGHBORS, type SimulatedSwitch } from './switch-state.js';
+
+export interface SimulatedSnmpUser {
+  name: string;
+  /** SHA authentication key */
+  authKey: string;
+  /** AES privacy key; without it the user is authNoPriv */
+  privKey?: string;
+}
+
+export interface SimulatedSnmpAgentOptions {
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  community: string;
+  user?: SimulatedSnmpUser;
+}
+
+/** The parts of the net-snmp agent used here; the package types it as any */
+interface Agent {
+  getMib(): Mib;
+  getAuthorizer(): {
+    addCommunity(community: string): void;
+    addUser(user: Record<string, unknown>): void;
+  };
+  close(callback?: () => void): void;
+  listener: { sockets: Record<string, dgram.Socket> };
+}
+
+interface Mib {
+  registerProvider(provider: Record<string, unknown>): void;
+  setScalarValue(name: string, value: unknown): void;
+  addTableRow(name: string, row: unknown[]): void;
+  setTableSingleCell(name: string, column: number, rowIndex: unknown[], value: unknown): void;
+}
+
+/** A module in 1/2/1, the 10G uplink */
+const OPTIC = {
+  port: '1/2/1',
+  type: '10GE SR 300m',
+  vendor: 'BROCADE',
+  partNumber: '57-0000075-01',
+  serialNumber: 'AAF214380000ABC',
+  temperature: '33.2578 C: Normal',
+  txPower: '-002.2403 dBm: Normal',
+  rxPower: '-003.0729 dBm: Normal',
+};
+
+const REFRESH_INTERVAL_MS = 1000;
+/** LLDP-MIB time filter of every remote entry */
+const LLDP_TIME_MARK = 0;
+/** bridge and router */
+const LLDP_CAPABILITIES = Buffer.from([0x28]);
+
+const { ObjectType } = snmp;
+const READ_ONLY = snmp.MaxAccess['read-only'];
+const NOT_ACCESSIBLE = snmp.MaxAccess['not-accessible'];
+
+export class SimulatedSnmpAgent {
+  private agent?: Agent;
+  private refreshedAt = 0;
+  /** ifIndex of each port, numbered in port order from 1 */
+  private readonly ifIndexes: Map<string, number>;
+
+  constructor(
+    private readonly sw: SimulatedSwitch,
+    private readonly options: SimulatedSnmpAgentOptions,
+    private readonly logger?: winston.Logger,
+  ) {
+    this.ifIndexes = new Map([...sw.ports.keys()].map((port, index) => [port, index + 1]));
+  }
+
+  /**
+   * Start listening, resolving with the UDP port in use
+   */
+  async start(): Promise<number> {
+    // The agent treats port 0 as the default port 161
+    const port = this.options.port || (await freeUdpPort(this.options.host));
+    const agent: Agent = snmp.createAgent(
+      {
+        port,
+        address: this.options.host,
+        accessControlModelType: snmp.AccessControlModelType.None,
+      },
+      (error: Error | null) => {
+        if (error && this.logger) logWarn(this.logger, 'Simulator SNMP request failed', { error: error.message });
+      },
+    );
+    this.agent = agent;
+
+    const authorizer = agent.getAuthorizer();
+    authorizer.addCommunity(this.options.community);
+    const user = this.options.user;
+    if (user) {
+      authorizer.addUser({
+        name: user.name,
+        level: user.privKey ? snmp.SecurityLevel.authPriv : snmp.SecurityLevel.authNoPriv,
+        authProtocol: snmp.AuthProtocols.sha,
+        authKey: user.authKey,
+        privProtocol: user.privKey ? snmp.PrivProtocols.aes : undefined,
+        privKey: user.privKey,
+      });
+    }
+
+    this.register(agent.getMib());
+    await Promise.all(
+      Object.values(agent.listener.sockets).map(
+        (socket) => new Promise<void>((resolve) => socket.once('listening', () => resolve())),
+      ),
+    );
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const agent = this.agent;
+    this.agent = undefined;
+    if (agent) await new Promise<void>((resolve) => agent.close(() => resolve()));
+  }
+
+  private register(mib: Mib): void {
+    const handler = (request: { done: () => void }) => {
+      this.refresh(mib);
+      request.done();
+    };
+    const scalar = (name: string, oid: string, scalarType: number) =>
+      mib.registerProvider({
+        name,
+        type: snmp.MibProviderType.Scalar,
+        oid: oid.replace(/\.0$/, ''),
+        scalarType,
+        maxAccess: READ_ONLY,
+        handler,
+      });
+    const table = (
+      name: TableName,
+      columns: [number, number, boolean?][],
+      tableIndex: Record<string, unknown>[],
+      rows: unknown[][],
+    ) => {
+      mib.registerProvider({
+        name,
+        type: snmp.MibProviderType.Table,
+        oid: SNMP_TABLES[name].oid,
+        tableColumns: columns.map(([number, type, index]) => ({
+          number,
+          name: `column${number}`,
+          type,
+          maxAccess: index ? NOT_ACCESSIBLE : READ_ONLY,
+        })),
+        tableIndex,
+        handler,
+      });
+      for (const row of rows) mib.addTableRow(name, row);
+    };
+    // Tables indexed by ifIndex take it from ifEntry; the agent fills in the index entries, so each gets its own
+    const byIfIndex = () => [{ foreign: 'ifEntry', columnNumber: 1 }];
+
+    scalar('sysDescr', SNMP_OIDS.sysDescr, ObjectType.OctetString);
+    scalar('sysUpTime', SNMP_OIDS.sysUpTime, ObjectType.TimeTicks);
+    scalar('sysName', SNMP_OIDS.sysName, ObjectType.OctetString);
+    scalar('snChasSerNum', SNMP_OIDS.snChasSerNum, ObjectType.OctetString);
+    scalar('snAgImgVer', SNMP_OIDS.snAgImgVer, ObjectType.OctetString);
+    scalar('snAgGblCpuUtil1SecAvg', SNMP_OIDS.snAgGblCpuUtil1SecAvg, ObjectType.Gauge);
+    scalar('snAgGblCpuUtil1MinAvg', SNMP_OIDS.snAgGblCpuUtil1MinAvg, ObjectType.Gauge);
+    scalar('snAgGblDynMemUtil', SNMP_OIDS.snAgGblDynMemUtil, ObjectType.Gauge);
+    scalar('snAgGblDynMemTotal', SNMP_OIDS.snAgGblDynMemTotal, ObjectType.Integer);
+    scalar('snAgGblDynMemFree', SNMP_OIDS.snAgGblDynMemFree, ObjectType.Integer);
+    // As `show cpu` and `show memory` print them
+    mib.setScalarValue('snChasSerNum', this.sw.serial);
+    mib.setScalarValue('snAgImgVer', this.sw.firmware);
+    mib.setScalarValue('snAgGblCpuUtil1SecAvg', 3);
+    mib.setScalarValue('snAgGblCpuUtil1MinAvg', 2);
+    mib.setScalarValue('snAgGblDynMemUtil', 48);
+    mib.setScalarValue('snAgGblDynMemTotal', 418_398_208);
+    mib.setScalarValue('snAgGblDynMemFree', 214_536_192);
+
+    const ports = [...this.ifIndexes];
+    const counters64 = [6, 7, 8, 9, 10, 11, 12, 13];
+    table(
+      'ifEntry',
+      [
+        [1, ObjectType.Integer],
+        [2, ObjectType.OctetString],
+        [8, ObjectType.Integer],
+        ...[10, 11, 12, 14, 16, 17, 18, 20].map((number): [number, number] => [number, ObjectType.Counter]),
+      ],
+      [{ columnNumber: 1 }],
+      ports.map(([port, ifIndex]) => [
+        ifIndex,
+        `${this.sw.port(port)?.speed === '10G' ? '10Gigabit' : 'Gigabit'}Ethernet${port}`,
+        2,
+        ...Array(8).fill(0),
+      ]),
+    );
+    table(
+      'ifXEntry',
+      [[1, ObjectType.OctetString], ...counters64.map((number): [number, number] => [number, ObjectType.Counter64])],
+      byIfIndex(),
+      ports.map(([port, ifIndex]) => [ifIndex, port, ...counters64.map(() => counter64(0))]),
+    );
+    table(
+      'dot3StatsEntry',
+      [3, 4, 5].map((number): [number, number] => [number, ObjectType.Counter]),
+      byIfIndex(),
+      ports.map(([, ifIndex]) => [ifIndex, 0, 0, 0]),
+    );
+
+    table(
+      'snAgentTempEntry',
+      [
+        [1, ObjectType.Integer, true],
+        [2, ObjectType.Integer, true],
+        [3, ObjectType.OctetString],
+        [4, ObjectType.Integer],
+      ],
+      [{ columnNumber: 1 }, { columnNumber: 2 }],
+      [
+        [1, 1, 'Slot 1 sensor 1', 84],
+        [1, 2, 'Slot 1 sensor 2', 81],
+      ],
+    );
+
+    const opticIfIndex = this.ifIndexes.get(OPTIC.port) ?? 0;
+    table(
+      'snIfMediaInfoEntry',
+      [1, 2, 4, 5].map((number): [number, number] => [number, ObjectType.OctetString]),
+      byIfIndex(),
+      [[opticIfIndex, OPTIC.type, OPTIC.vendor, OPTIC.partNumber, OPTIC.serialNumber]],
+    );
+    table(
+      'snIfOpticalMonitoringInfoEntry',
+      [1, 2, 3].map((number): [number, number] => [number, ObjectType.OctetString]),
+      byIfIndex(),
+      [[opticIfIndex, OPTIC.temperature, OPTIC.txPower, OPTIC.rxPower]],
+    );
+
+    const remotes = LLDP_NEIGHBORS.map((neighbor, index) => ({
+      ...neighbor,
+      index: [LLDP_TIME_MARK, this.ifIndexes.get(neighbor.localPort) ?? 0, index + 1],
+    }));
+    table(
+      'lldpRemEntry',
+      [
+        [1, ObjectType.TimeTicks, true],
+        [2, ObjectType.Integer, true],
+        [3, ObjectType.Integer, true],
+        [4, ObjectType.Integer],
+        [5, ObjectType.OctetString],
+        [6, ObjectType.Integer],
+        [7, ObjectType.OctetString],
+        [8, ObjectType.OctetString],
+        [9, ObjectType.OctetString],
+        [10, ObjectType.OctetString],
+        [11, ObjectType.OctetString],
+        [12, ObjectType.OctetString],
+      ],
+      [{ columnNumber: 1 }, { columnNumber: 2 }, { columnNumber: 3 }],
+      remotes.map((remote) => [
+        ...remote.index,
+        // MAC address chassis ID, interface name port ID
+        4,
+        Buffer.from(remote.chassisId.replaceAll('.', ''), 'hex'),
+        5,
+        remote.portId,
+        remote.portId,
+        remote.systemName,
+        LLDP_NEIGHBOR_DESCRIPTION,
+        LLDP_CAPABILITIES,
+        LLDP_CAPABILITIES,
+      ]),
+    );
+    table(
+      'lldpRemManAddrEntry',
+      [
+        [1, ObjectType.Integer, true],
+        [2, ObjectType.OctetString, true],
+        [3, ObjectType.Integer],
+      ],
+      [
+        { foreign: 'lldpRemEntry', columnNumber: 1 },
+        { foreign: 'lldpRemEntry', columnNumber: 2 },
+        { foreign: 'lldpRemEntry', columnNumber: 3 },
+        { columnNumber: 1 },
+        { columnNumber: 2 },
+      ],
+      // IPv4 address, interface numbered by ifIndex
+      remotes.map((remote) => [...remote.index, 1, Buffer.from(remote.managementAddress.split('.').map(Number)), 2]),
+    );
+
+    this.refresh(mib, true);
+  }
+
+  /**
+   * Copy the hostname, uptime, link states and counters of the switch into the MIB
+   */
+  private refresh(mib: Mib, force = false): void {
+    if (!force && Date.now() - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+    this.refreshedAt = Date.now();
+
+    mib.setScalarValue(
+      'sysDescr',
+      `Brocade Communications Systems, Inc. Stacking System ${this.sw.model}, IronWare Version ${this.sw.firmware}`,
+    );
+    mib.setScalarValue('sysUpTime', Math.floor((Date.now() - this.sw.startedAt) / 10));
+    mib.setScalarValue('sysName', this.sw.hostname);
+
+    for (const [name, ifIndex] of this.ifIndexes) {
+      const port = this.sw.port(name);
+      if (!port) continue;
+      const counters = this.sw.counters(port);
+      const set = (table: TableName, column: number, value: unknown) =>
+        mib.setTableSingleCell(table, column, [ifIndex], value);
+
+      set('ifEntry', 8, port.linkUp && port.enabled ? 1 : 2);
+      set('ifEntry', 10, counters.inOctets % 2 ** 32);
+      set('ifEntry', 11, counters.inPkts % 2 ** 32);
+      set('ifEntry', 14, counters.inErrors);
+      set('ifEntry', 16, counters.outOctets % 2 ** 32);
+      set('ifEntry', 17, counters.outPkts % 2 ** 32);
+      set('ifEntry', 20, counters.outErrors);
+      set('ifXEntry', 6, counter64(counters.inOctets));
+      set('ifXEntry', 7, counter64(counters.inPkts));
+      set('ifXEntry', 10, counter64(counters.outOctets));
+      set('ifXEntry', 11, counter64(counters.outPkts));
+      set('dot3StatsEntry', 3, counters.crc);
+    }
+  }
+}
+
+type TableName = keyof typeof SNMP_TABLES;
+
+/**
+ * Counter64 value as the agent encodes it, big-endian in eight bytes
+ */
+function counter64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+}
+
+function freeUdpPort(host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    socket.once('error', reject);
+    socket.bind(0, host, () => {
+      const { port } = socket.address();
+      socket.close(() => resolve(port));
+    });
+  });
+}
@@ -0,0 +1,382 @@
+/**
+ * State of a simulated ICX 6450 switch: ports, VLANs, hostname and the saved
+ * configuration.
+ *
+ * Sessions change the state through configuration commands and the show
+ * renderers read it, so a VLAN created over SSH is listed by the next
+ * "show vlan" of every session to the same switch. Configuration mistakes
+ * are returned as the CLI error text the switch would print.
+ */
+
+import { expandPortList } from '../lib/config-parser.js';
+
+export const DEFAULT_VLAN_ID = 1;
+
+export interface SimulatedPort {
+  /** "1/1/1" */
+  name: string;
+  /** Speed label of `show interfaces brief` while the link is up */
+  speed: '1G' | '10G';
+  linkUp: boolean;
+  enabled: boolean;
+  description?: string;
+  speedDuplex?: string;
+  /** Traffic counted in each direction while the link is up */
+  bytesPerSecond: number;
+}
+
+export interface SimulatedVlan {
+  id: number;
+  name: string;
+  tagged: Set<string>;
+  untagged: Set<string>;
+}
+
+/** Configuration kept by `write memory` and restored by `reload` */
+interface SavedState {
+  hostname: string;
+  vlans: SimulatedVlan[];
+  ports: Array<Pick<SimulatedPort, 'name' | 'enabled' | 'description' | 'speedDuplex'>>;
+}
+
+export interface PortCounters {
+  inOctets: number;
+  outOctets: number;
+  inPkts: number;
+  outPkts: number;
+  inErrors: number;
+  outErrors: number;
+  crc: number;
+}
+
+export interface SimulatedSwitchOptions {
+  hostname?: string;
+}
+
+export interface SimulatedNeighbor {
+  localPort: string;
+  chassisId: string;
+  portId: string;
+  systemName: string;
+  managementAddress: string;
+}
+
+/** LLDP neighbors heard on the uplinks, served over the CLI and SNMP alike */
+export const LLDP_NEIGHBORS: SimulatedNeighbor[] = [
+  {
+    localPort: '1/1/1',
+    chassisId: '748e.f8a1.0c00',
+    portId: '1/1/24',
+    systemName: 'core-1',
+    managementAddress: '10.0.10.1',
+  },
+  {
+    localPort: '1/2/1',
+    chassisId: '748e.f8b2.1d00',
+    portId: '1/2/3',
+    systemName: 'dist-1',
+    managementAddress: '10.0.10.2',
+  },
+];
+
+/** System description of the neighbors */
+export const LLDP_NEIGHBOR_DESCRIPTION = 'Brocade Communications Systems, Inc. ICX7450-48, IronWare Version 08.0.61b';
+
+/** Average frame size used to derive packet counters from byte counters */
+const AVERAGE_FRAME_BYTES = 512;
+
+/** Lines kept in the syslog buffer, like the default of the switch */
+export const LOG_BUFFER_LINES = 50;
+
+export class SimulatedSwitch {
+  hostname: string;
+  readonly model = 'ICX6450-24';
+  readonly firmware = '08.0.30hT311';
+  readonly serial = 'BZS3234K0AB';
+  readonly baseMac = 'cc4e.246d.2a00';
+  readonly startedAt = Date.now();
+  readonly ports: Map<string, SimulatedPort> = new Map();
+  /** VLANs other than the default VLAN, whose members are derived */
+  readonly vlans: Map<number, SimulatedVlan> = new Map();
+  /** Syslog buffer, oldest first */
+  readonly logs: string[] = [];
+  startupConfig = '';
+  /** Times the switch was reloaded */
+  reloads = 0;
+  private saved?: SavedState;
+
+  constructor(options: SimulatedSwitchOptions = {}) {
+    this.hostname = options.hostname ?? 'ICX-SIM';
+
+    for (let port = 1; port <= 24; port++) {
+      this.ports.set(`1/1/${port}`, {
+        name: `1/1/${port}`,
+        speed: '1G',
+        linkUp: false,
+        enabled: true,
+        bytesPerSecond: 0,
+      });
+    }
+    for (let port = 1; port <= 4; port++) {
+      this.ports.set(`1/2/${port}`, {
+        name: `1/2/${port}`,
+        speed: '10G',
+        linkUp: false,
+        enabled: true,
+        bytesPerSecond: 0,
+      });
+    }
+
+    // A small access switch: an uplink trunk, a few access ports in use
+    const link = (name: string, bytesPerSecond: number, description?: string) => {
+      Object.assign(this.ports.get(name) as SimulatedPort, { linkUp: true, bytesPerSecond, description });
+      this.log('I', `PORT: ${name} is up`);
+    };
+    link('1/1/1', 6_250_000, 'uplink-core');
+    link('1/1/2', 125_000);
+    link('1/1/5', 40_000);
+    link('1/2/1', 12_500_000, 'uplink-dist');
+
+    this.createVlan(10, 'DATA');
+    this.addPorts(10, ['1/1/2', '1/1/3', '1/1/4'], 'untagged');
+    this.addPorts(10, ['1/1/1', '1/2/1'], 'tagged');
+    this.createVlan(20, 'VOICE');
+    this.addPorts(20, ['1/1/1'], 'tagged');
+
+    this.save();
+  }
+
+  port(name: string): SimulatedPort | undefined {
+    return this.ports.get(name);
+  }
+
+  /**
+   * All VLANs in id order, the default VLAN holding every port that is not a member elsewhere
+   */
+  listVlans(): SimulatedVlan[] {
+    const member = new Set<string>();
+    for (const vlan of this.vlans.values()) {
+      for (const port of [...vlan.tagged, ...vlan.untagged]) member.add(port);
+    }
+    const defaultVlan: SimulatedVlan = {
+      id: DEFAULT_VLAN_ID,
+      name: 'DEFAULT-VLAN',
+      tagged: new Set(),
+      untagged: new Set([...this.ports.keys()].filter((port) => !member.has(port))),
+    };
+    return [defaultVlan, ...[...this.vlans.values()].sort((a, b) => a.id - b.id)];
+  }
+
+  createVlan(id: number, name?: string): SimulatedVlan {
+    let vlan = this.vlans.get(id);
+    if (!vlan) {
+      vlan = { id, name: `VLAN${String(id).padStart(4, '0')}`, tagged: new Set(), untagged: new Set() };
+      this.vlans.set(id, vlan);
+    }
+    if (name) vlan.name = name;
+    return vlan;
+  }
+
+  /**
+   * Delete a VLAN, returning the CLI error when it cannot be deleted
+   */
+  deleteVlan(id: number): string | undefined {
+    if (id === DEFAULT_VLAN_ID) return 'Error: The default VLAN cannot be deleted';
+    if (!this.vlans.delete(id)) return `Error: VLAN ${id} does not exist`;
+    return undefined;
+  }
+
+  /**
+   * Add ports to a VLAN. An untagged port can only be in one VLAN besides the default VLAN.
+   */
+  addPorts(vlanId: number, ports: string[], mode: 'tagged' | 'untagged'): string | undefined {
+    const vlan = this.vlans.get(vlanId);
+    if (!vlan) return `Error: VLAN ${vlanId} does not exist`;
+
+    if (mode === 'untagged') {
+      for (const port of ports) {
+        const other = [...this.vlans.values()].find((entry) => entry.id !== vlanId && entry.untagged.has(port));
+        if (other) return `Error: ethe ${port} is already an untagged member of VLAN ${other.id}`;
+      }
+    }
+    for (const port of ports) {
+      vlan[mode === 'tagged' ? 'untagged' : 'tagged'].delete(port);
+      vlan[mode].add(port);
+    }
+    return undefined;
+  }
+
+  removePorts(vlanId: number, ports: string[], mode: 'tagged' | 'untagged'): string | undefined {
+    const vlan = this.vlans.get(vlanId);
+    if (!vlan) return `Error: VLAN ${vlanId} does not exist`;
+    for (const port of ports) {
+      if (!vlan[mode].delete(port)) return `Error: ethe ${port} is not a ${mode} member of VLAN ${vlanId}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Ports of a CLI port list ("ethe 1/1/1 to 1/1/4 ethe 1/2/1"), or the offending input
+   */
+  parsePortList(args: string[]): { ports: string[] } | { invalid: string } {
+    if (args.length === 0 || !/^ethe(?:r|rnet)?$/i.test(args[0])) {
+      return { invalid: args.join(' ') };
+    }
+    const ports = expandPortList(args.join(' '));
+    const unknown = ports.find((port) => !this.ports.has(port));
+    if (ports.length === 0 || unknown) return { invalid: unknown ?? args.join(' ') };
+    return { ports };
+  }
+
+  /**
+   * Counters grow with the uptime at the simulated rate of a port that is up and enabled
+   */
+  counters(port: SimulatedPort): PortCounters {
+    const seconds = (Date.now() - this.startedAt) / 1000;
+    const bytes = port.linkUp && port.enabled ? Math.floor(port.bytesPerSecond * seconds) : 0;
+    const outBytes = Math.floor(bytes * 0.6);
+    return {
+      inOctets: bytes,
+      outOctets: outBytes,
+      inPkts: Math.floor(bytes / AVERAGE_FRAME_BYTES),
+      outPkts: Math.floor(outBytes / AVERAGE_FRAME_BYTES),
+      inErrors: 0,
+      outErrors: 0,
+      crc: 0,
+    };
+  }
+
+  portMac(port: string): string {
+    const index = [...this.ports.keys()].indexOf(port);
+    const last = (Number.parseInt(this.baseMac.slice(-4), 16) + Math.max(index, 0)) & 0xffff;
+    return `${this.baseMac.slice(0, -4)}${last.toString(16).padStart(4, '0')}`;
+  }
+
+  save(): void {
+    this.startupConfig = this.runningConfig();
+    this.saved = {
+      hostname: this.hostname,
+      vlans: [...this.vlans.values()].map(cloneVlan),
+      ports: [...this.ports.values()].map(({ name, enabled, description, speedDuplex }) => ({
+        name,
+        enabled,
+        description,
+        speedDuplex,
+      })),
+    };
+  }
+
+  /**
+   * Boot from the startup config: changes that were not saved are lost
+   */
+  reload(): void {
+    const saved = this.saved as SavedState;
+    this.hostname = saved.hostname;
+    this.vlans.clear();
+    for (const vlan of saved.vlans) this.vlans.set(vlan.id, cloneVlan(vlan));
+    for (const { name, ...settings } of saved.ports) {
+      Object.assign(this.ports.get(name) as SimulatedPort, settings);
+    }
+    this.reloads++;
+    this.log('W', 'System reload requested by CLI');
+  }
+
+  /**
+   * Add a syslog message stamped with the uptime, as "0d01h02m03s:I:PORT: 1/1/1 is up"
+   */
+  log(level: 'I' | 'N' | 'W', message: string): void {
+    this.logs.push(`${formatUptime(Date.now() - this.startedAt, true)}:${level}:${message}`);
+    if (this.logs.length > LOG_BUFFER_LINES) this.logs.shift();
+  }
+
+  runningConfig(): string {
+    const lines = [
+      'Current configuration:',
+      '!',
+      `ver ${this.firmware}`,
+      '!',
+      'stack unit 1',
+      '  module 1 icx6450-24-port-management-module',
+      '  module 2 icx6450-sfp-plus-4port-40g-module',
+      '!',
+      '!',
+    ];
+
+    for (const vlan of this.listVlans()) {
+      lines.push(`vlan ${vlan.id} name ${vlan.name} by port`);
+      if (vlan.id !== DEFAULT_VLAN_ID) {
+        if (vlan.tagged.size > 0) lines.push(` tagged ${formatPortList([...vlan.tagged])}`);
+        if (vlan.untagged.size > 0) lines.push(` untagged ${formatPortList([...vlan.untagged])}`);
+      }
+      lines.push('!');
+    }
+
+    lines.push('!', `hostname ${this.hostname}`, '!');
+
+    for (const port of this.ports.values()) {
+      const body = [
+        port.description ? ` port-name ${port.description}` : '',
+        port.speedDuplex ? ` speed-duplex ${port.speedDuplex}` : '',
+        port.enabled ? '' : ' disable',
+      ].filter(Boolean);
+      if (body.length > 0) lines.push(`interface ethernet ${port.name}`, ...body, '!');
+    }
+
+    lines.push('!', 'end');
+    return lines.join('\n');
+  }
+}
+
+function cloneVlan(vlan: SimulatedVlan): SimulatedVlan {
+  return { ...vlan, tagged: new Set(vlan.tagged), untagged: new Set(vlan.untagged) };
+}
+
+/**
+ * Port list as the switch writes it, consecutive ports of a module collapsed into ranges
+ */
+export function formatPortList(ports: string[]): string {
+  const sorted = [...ports].sort(comparePorts);
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && isNextPort(sorted[i - 1], sorted[i])) continue;
+    parts.push(i - 1 === start ? `ethe ${sorted[start]}` : `ethe ${sorted[start]} to ${sorted[i - 1]}`);
+    start = i;
+  }
+  return parts.join(' ');
+}
+
+export function comparePorts(a: string, b: string): number {
+  const left = a.split('/').map(Number);
+  const right = b.split('/').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if ((left[i] ?? 0) !== (right[i] ?? 0)) return (left[i] ?? 0) - (right[i] ?? 0);
+  }
+  return 0;
+}
+
+function isNextPort(previous: string, port: string): boolean {
+  const before = previous.split('/');
+  const after = port.split('/');
+  return (
+    before.slice(0, -1).join('/') === after.slice(0, -1).join('/') && Number(after.at(-1)) === Number(before.at(-1)) + 1
+  );
+}
+
+/**
+ * Uptime as "12 day(s) 4 hour(s) 21 minute(s) 7 second(s)", or compact as "12d04h21m07s"
+ */
+export function formatUptime(ms: number, compact = false): string {
+  const seconds = Math.floor(ms / 1000);
+  const parts = [
+    Math.floor(seconds / 86400),
+    Math.floor(seconds / 3600) % 24,
+    Math.floor(seconds / 60) % 60,
+    seconds % 60,
+  ];
+  if (compact) {
+    const [days, hours, minutes, secs] = parts.map((part) => String(part).padStart(2, '0'));
+    return `${Number(days)}d${hours}h${minutes}m${secs}s`;
+  }
+  return `${parts[0]} day(s) ${parts[1]} hour(s) ${parts[2]} minute(s) ${parts[3]} second(s)`;
+}
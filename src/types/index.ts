@@ -3,13 +3,16 @@ export interface BrocadeConfig {
   port: number;
   username: string;
   password: string;
-  transport?: 'ssh' | 'telnet';
+  transport?: 'ssh' | 'telnet' | 'replay';
   enableUsername?: string;
   enablePassword?: string;
   timeout?: number;
   keepaliveInterval?: number;
   maxRetries?: number;
   retryDelay?: number;
+  replayFile?: string;
+  replaySpeed?: number;
+  recordFile?: string;
 }
 
 export interface VlanInfo {
@@ -51,6 +54,20 @@ export interface SystemInfo {
   uptime: string;
 }
 
+/**
+ * Switch family and firmware detected from `show version`
+ */
+export interface PlatformInfo {
+  /** "ICX7150"; absent when the model is not recognized */
+  family?: string;
+  model: string;
+  firmwareVersion: string;
+  /** FastIron release train, as "08.0" */
+  firmwareTrain?: string;
+  /** Names of the command profiles applied, in order */
+  profiles: string[];
+}
+
 // LLDP (Link Layer Discovery Protocol) types
 export interface LLDPNeighbor {
   localPort: string;
@@ -333,6 +350,14 @@ export interface OpticalModuleInfo {
   rxPower?: number;
 }
 
+// Options shared by every configuration change
+export interface ConfigChangeOptions {
+  /** Return the generated CLI commands without sending them to the switch */
+  dryRun?: boolean;
+  /** Screens the generated CLI right before it is sent; throws to stop the change */
+  guard?: (commands: string[]) => void;
+}
+
 // Batch command result for structured output
 export interface BatchCommandResult {
   command: string;
@@ -340,3 +365,257 @@ export interface BatchCommandResult {
   success: boolean;
   error?: string;
 }
+
+// Outcome of a transactional configuration change
+export interface TransactionReport {
+  success: boolean;
+  /** Commands that were accepted by the switch, in order */
+  applied: BatchCommandResult[];
+  /** The command that was rejected, if any */
+  failed?: BatchCommandResult;
+  rollback?: {
+    strategy: 'inverse' | 'snapshot';
+    commands: BatchCommandResult[];
+    /** Whether the running config matches the pre-change snapshot again */
+    restored: boolean;
+    /** Commands still needed to reach the snapshot when restoration was incomplete */
+    remainingDelta: string[];
+  };
+  saved: boolean;
+}
+
+// Typed model of a parsed running-config
+export interface ParsedConfig {
+  global: ParsedGlobalSettings;
+  vlans: ParsedVlan[];
+  interfaces: ParsedInterface[];
+  lags: ParsedLag[];
+  acls: ACL[];
+  staticRoutes: StaticRoute[];
+  spanningTree: ParsedSpanningTree;
+  lldp: ParsedLldp;
+  dhcpSnooping: ParsedDhcpSnooping;
+  users: ParsedUser[];
+  snmp: ParsedSnmp;
+  /** Top-level lines (with their children) the parser does not model */
+  unparsed: string[];
+}
+
+export interface ParsedGlobalSettings {
+  version?: string;
+  hostname?: string;
+  defaultGateway?: string;
+  dnsDomain?: string;
+  dnsServers: string[];
+  ntpServers: string[];
+  syslogHosts: string[];
+  timezone?: string;
+  /** Stack units and their modules, as declared in "stack unit" blocks */
+  stackUnits: Array<{ unit: number; modules: string[] }>;
+}
+
+export interface ParsedVlan {
+  id: number;
+  name?: string;
+  tagged: string[];
+  untagged: string[];
+  routerInterface?: string;
+  spanningTree?: string;
+}
+
+export interface ParsedInterface {
+  /** Full interface name, e.g. "ethernet 1/1/1", "ve 10", "loopback 1" */
+  name: string;
+  type: 'ethernet' | 've' | 'loopback' | 'management' | 'other';
+  portName?: string;
+  speed?: string;
+  disabled: boolean;
+  ipAddresses: string[];
+  /** Default VLAN set with "dual-mode" */
+  dualMode?: number;
+  aclIn?: string;
+  aclOut?: string;
+  dhcpSnoopingTrust: boolean;
+  /** Lines the parser does not model */
+  other: string[];
+}
+
+export interface ParsedLag {
+  name: string;
+  id?: number;
+  type: 'static' | 'dynamic' | 'keep-alive';
+  ports: string[];
+  primaryPort?: string;
+  deployed: boolean;
+}
+
+export interface ParsedSpanningTree {
+  /** Global protocol: "802-1w", "802-1s", "stp" or undefined when disabled */
+  mode?: string;
+  priority?: number;
+  /** VLANs with a per-VLAN spanning-tree setting */
+  vlans: number[];
+  adminEdgePorts: string[];
+}
+
+export interface ParsedLldp {
+  enabled: boolean;
+  transmitInterval?: number;
+  holdMultiplier?: number;
+}
+
+export interface ParsedDhcpSnooping {
+  vlans: number[];
+  trustedPorts: string[];
+}
+
+export interface ParsedUser {
+  username: string;
+  privilege?: number;
+  /** Whether a (possibly encrypted) password is configured; the value itself is never returned */
+  hasPassword: boolean;
+}
+
+export interface ParsedSnmp {
+  communities: Array<{ access: 'ro' | 'rw'; acl?: string }>;
+  contact?: string;
+  location?: string;
+  hosts: Array<{ host: string; version?: string }>;
+  traps: string[];
+}
+
+// Declarative desired state for VLANs and ports
+export interface DesiredState {
+  vlans?: DesiredVlan[];
+  ports?: DesiredPort[];
+  /** Delete VLANs on the switch that the document does not list (VLAN 1 is never deleted) */
+  pruneVlans?: boolean;
+}
+
+export interface DesiredVlan {
+  id: number;
+  name?: string;
+  /** Complete tagged membership; ports not listed are removed (omit to leave unmanaged) */
+  tagged?: string[];
+  /** Complete untagged membership; ports not listed are removed (omit to leave unmanaged) */
+  untagged?: string[];
+}
+
+export interface DesiredPort {
+  port: string;
+  /** Port name; an empty string removes it */
+  description?: string;
+  enabled?: boolean;
+}
+
+export interface DesiredStateChange {
+  action: 'create_vlan' | 'rename_vlan' | 'delete_vlan' | 'add_port' | 'remove_port' | 'configure_port';
+  vlanId?: number;
+  port?: string;
+  detail: string;
+}
+
+export interface DesiredStatePlan {
+  changes: DesiredStateChange[];
+  /** Full CLI sequence, empty when the switch already matches */
+  commands: string[];
+}
+
+// Comparison of two configurations
+export interface ConfigSectionChange {
+  /** Block header, e.g. "vlan 10 name DATA by port" or "interface ethernet 1/1/1" */
+  section: string;
+  kind: 'vlan' | 'interface' | 'acl' | 'lag' | 'routing' | 'other';
+  change: 'added' | 'removed' | 'modified';
+  addedLines: string[];
+  removedLines: string[];
+}
+
+export interface ConfigDiff {
+  identical: boolean;
+  summary: {
+    linesAdded: number;
+    linesRemoved: number;
+    sectionsAdded: number;
+    sectionsRemoved: number;
+    sectionsModified: number;
+  };
+  /** Unified diff of the normalized configs */
+  unified: string;
+  /** Changed configuration blocks (VLANs, interfaces, ACLs, ...) */
+  sections: ConfigSectionChange[];
+  /** Changed top-level lines outside any block */
+  global: { added: string[]; removed: string[] };
+}
+
+// Versioned configuration backups
+export interface BackupEntry {
+  /** Per-device version number, starting at 1 */
+  version: number;
+  device: string;
+  timestamp: string;
+  /** SHA-256 of the configuration text */
+  hash: string;
+  size: number;
+  source: 'running' | 'startup';
+  trigger: {
+    type: 'manual' | 'auto';
+    /** Tool that caused an automatic snapshot */
+    tool?: string;
+    /** MCP client that made the request, when known */
+    client?: string;
+  };
+  message?: string;
+}
+
+// Audit log of CLI sent to switches
+export interface AuditEntry {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  timestamp: string;
+  device: string;
+  /** Tool call that caused the commands; absent for background work such as commit rollbacks */
+  tool?: string;
+  /** Identity of the caller (MCP client name or authenticated user) */
+  user?: string;
+  /** Shared by every entry written for one tool call */
+  callId?: string;
+  /** Approver of the change request being executed */
+  approvedBy?: string;
+  commands: string[];
+  /** Switch output per command, cut to the configured limit */
+  outputs: string[];
+  outputsTruncated?: boolean;
+  success: boolean;
+  error?: string;
+  durationMs: number;
+  /** Hash of the previous entry, all zeros for the first */
+  prevHash: string;
+  /** SHA-256 over this entry (without `hash`), chaining it to the previous one */
+  hash: string;
+}
+
+// Recorded switch sessions served back by the replay transport
+export interface SessionFixture {
+  /**
+   * Fixture format version: 1 is one JSON document, 2 is JSONL with this
+   * header (without `exchanges`) on the first line and one exchange per line after it
+   */
+  version: 1 | 2;
+  recordedAt: string;
+  host: string;
+  transport: 'ssh' | 'telnet';
+  /** Free text about the switch, e.g. "ICX7150-48P 08.0.95" */
+  description?: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface RecordedExchange {
+  command: string;
+  output: string;
+  /** Milliseconds from the start of the recording until the command was sent */
+  startMs: number;
+  durationMs: number;
+  /** Set when the command failed instead of returning output */
+  error?: string;
+}
@@ -0,0 +1,119 @@
+import winston from 'winston';
+import { parseAlertsConfig } from '../../src/core/alerts';
+import { type Alert, AlertEngine, breaches } from '../../src/lib/alert-engine';
+
+describe('breaches', () => {
+  const rule = (op: string, threshold?: number | string) =>
+    parseAlertsConfig({ rules: [{ name: 'r', metric: 'cpu', op, threshold }] }).rules[0];
+
+  it('should compare numbers and text', () => {
+    expect(breaches(rule('>', 80), 81)).toBe(true);
+    expect(breaches(rule('<=', -12), -11.5)).toBe(false);
+    expect(breaches(rule('!=', 'Established'), 'Idle')).toBe(true);
+  });
+
+  it('should compare with the previous value for trends', () => {
+    expect(breaches(rule('increasing'), 5)).toBe(false);
+    expect(breaches(rule('increasing'), 5, 3)).toBe(true);
+    expect(breaches(rule('decreasing'), 5, 5)).toBe(false);
+  });
+});
+
+describe('parseAlertsConfig', () => {
+  it('should reject rules without a threshold or with duplicate names', () => {
+    expect(() => parseAlertsConfig({ rules: [{ name: 'a', metric: 'cpu', op: '>' }] })).toThrow('threshold');
+    expect(() =>
+      parseAlertsConfig({
+        rules: [
+          { name: 'a', metric: 'cpu', op: '>', threshold: 80 },
+          { name: 'a', metric: 'memory', op: '>', threshold: 80 },
+        ],
+      }),
+    ).toThrow('Duplicate rule name');
+  });
+});
+
+describe('AlertEngine', () => {
+  const logger = winston.createLogger({ silent: true });
+
+  function setup(rules: unknown[], executor: Record<string, jest.Mock>) {
+    const devices = {
+      getDevices: () => [{ name: 'core-1' }],
+      resolve: () => ({ commandExecutor: executor }),
+    } as any;
+    const engine = new AlertEngine(parseAlertsConfig({ rules }), devices, logger);
+    const delivered: Alert[] = [];
+    engine.addSink({
+      name: 'test',
+      deliver: async (alert) => {
+        delivered.push(alert);
+      },
+    });
+    return { engine, delivered };
+  }
+
+  const health = (cpu: number) => ({ cpu: { current: cpu }, memory: { utilization: 10 } });
+
+  it('should fire after `for` breaches, report it once and resolve', async () => {
+    const getSystemHealth = jest
+      .fn()
+      .mockResolvedValueOnce(health(90))
+      .mockResolvedValueOnce(health(95))
+      .mockResolvedValueOnce(health(97))
+      .mockResolvedValueOnce(health(20));
+    const { engine, delivered } = setup([{ name: 'cpu-high', metric: 'cpu', op: '>', threshold: 80, for: 2 }], {
+      getSystemHealth,
+    });
+
+    await engine.evaluate();
+    expect(delivered).toEqual([]);
+    await engine.evaluate();
+    await engine.evaluate();
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0]).toMatchObject({ state: 'firing', device: 'core-1', value: 95 });
+    expect(engine.list({ state: 'firing' })[0]).toMatchObject({ value: 97 });
+
+    await engine.evaluate();
+    expect(delivered.map((alert) => alert.state)).toEqual(['firing', 'resolved']);
+    expect(engine.list()).toEqual([expect.objectContaining({ state: 'resolved', value: 20 })]);
+  });
+
+  it('should alert per instance and resolve instances that disappear', async () => {
+    const neighbor = (address: string, state: string) => ({ address, state });
+    const getBGPNeighbors = jest
+      .fn()
+      .mockResolvedValueOnce([neighbor('10.0.0.1', 'Established'), neighbor('10.0.0.2', 'Idle')])
+      .mockResolvedValueOnce([neighbor('10.0.0.1', 'Active')]);
+    const { engine, delivered } = setup(
+      [{ name: 'bgp-down', metric: 'bgp.state', op: '!=', threshold: 'Established', severity: 'critical' }],
+      { getBGPNeighbors },
+    );
+
+    await engine.evaluate();
+    await engine.evaluate();
+    expect(delivered.map((alert) => [alert.instance, alert.state])).toEqual([
+      ['10.0.0.2', 'firing'],
+      ['10.0.0.1', 'firing'],
+      ['10.0.0.2', 'resolved'],
+    ]);
+  });
+
+  it('should keep alert state when a source cannot be read', async () => {
+    const getInterfaceStatistics = jest
+      .fn()
+      .mockResolvedValueOnce([{ interface: '1/1/1', crcErrors: 1 }])
+      .mockResolvedValueOnce([{ interface: '1/1/1', crcErrors: 4 }])
+      .mockRejectedValueOnce(new Error('SSH down'))
+      .mockResolvedValueOnce([{ interface: '1/1/1', crcErrors: 4 }]);
+    const { engine, delivered } = setup([{ name: 'crc', metric: 'interface.crcErrors', op: 'increasing' }], {
+      getInterfaceStatistics,
+    });
+
+    await engine.evaluate();
+    await engine.evaluate();
+    await engine.evaluate();
+    expect(delivered.map((alert) => alert.state)).toEqual(['firing']);
+    await engine.evaluate();
+    expect(delivered.map((alert) => alert.state)).toEqual(['firing', 'resolved']);
+  });
+});
@@ -0,0 +1,60 @@
+import winston from 'winston';
+import { ApprovalQueue } from '../../src/lib/approval-queue';
+
+describe('ApprovalQueue', () => {
+  const logger = winston.createLogger({ silent: true });
+  let queue: ApprovalQueue;
+
+  beforeEach(() => {
+    queue = new ApprovalQueue(logger);
+  });
+
+  const submit = (tool = 'configure_vlan') =>
+    queue.submit({
+      device: 'core-1',
+      tool,
+      args: { vlanId: 20, device: 'core-1' },
+      commands: ['conf t', 'vlan 20', 'exit', 'write memory'],
+      requestedBy: 'agent',
+    });
+
+  it('should queue changes as pending and list them newest first', () => {
+    const first = submit();
+    const second = submit('add_port_to_vlan');
+
+    expect(first).toMatchObject({ status: 'pending', device: 'core-1', requestedBy: 'agent' });
+    expect(queue.list('pending').map((change) => change.id)).toEqual([second.id, first.id]);
+  });
+
+  it('should record approval and outcome, and allow only one decision', () => {
+    const { id } = submit();
+
+    expect(queue.beginApproval(id, 'alice', 'ok for tonight')).toMatchObject({
+      status: 'executing',
+      decidedBy: 'alice',
+      comment: 'ok for tonight',
+    });
+    expect(() => queue.reject(id, 'bob')).toThrow('already executing');
+    expect(queue.complete(id, { success: true, result: 'VLAN 20 configured' })).toMatchObject({
+      status: 'applied',
+      result: 'VLAN 20 configured',
+    });
+    expect(queue.list('pending')).toEqual([]);
+  });
+
+  it('should not let the requester approve its own change', () => {
+    const { id } = submit();
+
+    expect(() => queue.beginApproval(id, 'agent')).toThrow('was requested by agent and needs another approver');
+    expect(() => queue.beginApproval(id)).toThrow('needs another approver');
+    expect(queue.get(id).status).toBe('pending');
+  });
+
+  it('should reject pending changes', () => {
+    const { id } = submit();
+
+    expect(queue.reject(id, 'bob', 'change freeze')).toMatchObject({ status: 'rejected', comment: 'change freeze' });
+    expect(() => queue.beginApproval(id, 'alice')).toThrow('already rejected');
+    expect(() => queue.reject('missing')).toThrow('Unknown change request');
+  });
+});
@@ -0,0 +1,130 @@
+import { existsSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { AuditLog, runWithAuditContext } from '../../src/lib/audit-log';
+import { AuditedTransport } from '../../src/lib/audited-transport';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'brocade-audit-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const record = (device: string, command: string) => ({
+    device,
+    commands: [command],
+    outputs: ['ok'],
+    success: true,
+    durationMs: 3,
+  });
+
+  it('should chain entries and continue the chain after a restart', async () => {
+    const log = new AuditLog(file);
+    const first = await log.append(record('core-1', 'show version'), { tool: 'get_system_info', user: 'noc' });
+    const second = await log.append(record('idf-2', 'show vlan'));
+
+    expect(first).toMatchObject({ seq: 1, prevHash: '0'.repeat(64), tool: 'get_system_info', user: 'noc' });
+    expect(second).toMatchObject({ seq: 2, prevHash: first.hash });
+
+    const reopened = new AuditLog(file);
+    expect(await reopened.append(record('core-1', 'show clock'))).toMatchObject({ seq: 3, prevHash: second.hash });
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 3 });
+  });
+
+  it('should filter by device, tool and user, newest first', async () => {
+    const log = new AuditLog(file);
+    await log.append(record('core-1', 'show version'), { tool: 'get_system_info', user: 'noc' });
+    await log.append(record('core-1', 'show vlan'), { tool: 'get_vlans', user: 'desk' });
+    await log.append(record('idf-2', 'show vlan'), { tool: 'get_vlans', user: 'noc' });
+
+    expect((await log.query({ device: 'core-1' })).map((entry) => entry.seq)).toEqual([2, 1]);
+    expect((await log.query({ tool: 'get_vlans', user: 'noc' })).map((entry) => entry.seq)).toEqual([3]);
+    expect(await log.query({ until: '2000-01-01T00:00:00Z' })).toEqual([]);
+    expect(await log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should detect edited entries', async () => {
+    const log = new AuditLog(file);
+    await log.append(record('core-1', 'show version'));
+    await log.append(record('core-1', 'reload'));
+
+    writeFileSync(file, readFileSync(file, 'utf-8').replace('"reload"', '"show clock"'));
+    expect(await log.verify()).toEqual({ valid: false, entries: 2, brokenAt: 2 });
+  });
+
+  it('should redact secrets from commands, output and errors before hashing', async () => {
+    const log = new AuditLog(file);
+    await log.append({
+      device: 'core-1',
+      commands: ['username ops password 0 hunter2'],
+      outputs: ['snmp-server community s3cr3t ro'],
+      success: false,
+      error: 'Rejected: radius-server key 0 r4d1us',
+      durationMs: 3,
+    });
+
+    const text = readFileSync(file, 'utf-8');
+    for (const secret of ['hunter2', 's3cr3t', 'r4d1us']) {
+      expect(text).not.toContain(secret);
+    }
+    expect(JSON.parse(text).commands).toEqual(['username ops password 0 <redacted>']);
+    expect(await log.verify()).toEqual({ valid: true, entries: 1 });
+  });
+
+  it('should rotate at the size limit and keep the chain across files', async () => {
+    const log = new AuditLog(file, { maxBytes: 1000, maxFiles: 2 });
+    for (let i = 1; i <= 12; i++) {
+      await log.append(record('core-1', `show interface ethernet 1/1/${i}`));
+    }
+
+    expect(existsSync(`${file}.1`)).toBe(true);
+    expect(existsSync(`${file}.2`)).toBe(true);
+    expect(existsSync(`${file}.3`)).toBe(false);
+    expect((await log.query({ limit: 2 })).map((entry) => entry.seq)).toEqual([12, 11]);
+
+    const result = await log.verify();
+    expect(result).toMatchObject({ valid: true });
+    expect(result.firstSeq).toBeGreaterThan(1);
+    expect(result.entries).toBe(13 - (result.firstSeq ?? 1));
+
+    // A restart between rotating and the next write continues from the rotated file
+    renameSync(`${file}.1`, `${file}.2`);
+    renameSync(file, `${file}.1`);
+    const rotated = new AuditLog(file, { maxBytes: 1000, maxFiles: 2 });
+    expect(await rotated.append(record('core-1', 'show clock'))).toMatchObject({ seq: 13 });
+  });
+
+  it('should record commands sent through the transport with the caller and CLI errors', async () => {
+    const log = new AuditLog(file);
+    const inner = {
+      executeCommand: jest.fn().mockResolvedValue('Invalid input -> vlan 5000'),
+      executeMultipleCommands: jest.fn().mockRejectedValue(new Error('Connection lost')),
+    } as any;
+    const transport = new AuditedTransport(inner, 'core-1', log, winston.createLogger({ silent: true }));
+
+    await runWithAuditContext({ tool: 'execute_command', user: 'noc', callId: 'call-1' }, () =>
+      transport.executeCommand('vlan 5000'),
+    );
+    await expect(transport.executeMultipleCommands(['show vlan'])).rejects.toThrow('Connection lost');
+
+    const [failed, rejected] = await log.query();
+    expect(failed).toMatchObject({ device: 'core-1', commands: ['show vlan'], outputs: [], success: false });
+    expect(failed.error).toContain('Connection lost');
+    expect(rejected).toMatchObject({
+      tool: 'execute_command',
+      user: 'noc',
+      callId: 'call-1',
+      commands: ['vlan 5000'],
+      success: false,
+    });
+    expect(rejected.error).toBeDefined();
+  });
+});
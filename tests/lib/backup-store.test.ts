@@ -0,0 +1,60 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { BackupStore } from '../../src/lib/backup-store';
+
+const CONFIG_V1 = 'hostname ICX-LAB\nvlan 10 name DATA by port\n';
+const CONFIG_V2 = 'hostname ICX-LAB\nvlan 10 name USERS by port\n';
+
+describe('BackupStore', () => {
+  let dir: string;
+  let store: BackupStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'brocade-backups-'));
+    store = new BackupStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should number versions per device and return them newest first', async () => {
+    await store.save('core-1', CONFIG_V1, { source: 'running', trigger: { type: 'manual' }, message: 'baseline' });
+    await store.save('core-1', CONFIG_V2, { source: 'running', trigger: { type: 'auto', tool: 'configure_vlan' } });
+    await store.save('access-1', CONFIG_V1, { source: 'startup', trigger: { type: 'manual' } });
+
+    const versions = await store.list('core-1');
+    expect(versions.map((entry) => entry.version)).toEqual([2, 1]);
+    expect(versions[0]).toMatchObject({ device: 'core-1', trigger: { type: 'auto', tool: 'configure_vlan' } });
+    expect(versions[1]).toMatchObject({ message: 'baseline', size: CONFIG_V1.length });
+    expect(await store.list('access-1')).toHaveLength(1);
+
+    await expect(store.get('core-1', 1)).resolves.toMatchObject({ config: CONFIG_V1 });
+    await expect(store.get('core-1', 3)).rejects.toThrow('No backup version 3');
+  });
+
+  it('should store identical content once and skip unchanged automatic snapshots', async () => {
+    const first = await store.save('core-1', CONFIG_V1, { source: 'running', trigger: { type: 'manual' } });
+    const auto = await store.save('core-1', CONFIG_V1, { source: 'running', trigger: { type: 'auto' } });
+    const manual = await store.save('core-1', CONFIG_V1, { source: 'running', trigger: { type: 'manual' } });
+
+    expect(auto).toEqual({ entry: first.entry, created: false });
+    expect(manual).toMatchObject({ created: true, entry: { version: 2, hash: first.entry.hash } });
+    expect(readdirSync(path.join(dir, 'core-1', 'objects'))).toEqual([`${first.entry.hash}.cfg`]);
+  });
+
+  it('should give concurrent saves distinct versions', async () => {
+    const saves = await Promise.all(
+      ['a', 'b', 'c'].map((name) =>
+        store.save('core-1', `hostname ${name}\n`, { source: 'running', trigger: { type: 'manual' } }),
+      ),
+    );
+
+    expect(saves.map((save) => save.entry.version).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('should reject device names that escape the backup directory', async () => {
+    await expect(store.list('../etc')).rejects.toThrow('cannot be used as a backup directory');
+  });
+});
@@ -1,4 +1,5 @@
-import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { BrocadeCommandExecutor, buildPasteConfigCommands } from '../../src/lib/brocade-commands';
+import { CommandGuard } from '../../src/lib/command-guard';
 import type { BrocadeSSHClient } from '../../src/lib/ssh-client';
 
 jest.mock('../../src/lib/ssh-client');
@@ -155,4 +156,113 @@ Port   Link State  Dupl Speed  Trunk Tag Pvid Pri MAC
       });
     });
   });
+
+  describe('dry-run mode', () => {
+    it('should return the VLAN commands without sending them', async () => {
+      const commands = await commandExecutor.configureVlan(200, 'Test-VLAN', { dryRun: true });
+
+      expect(commands).toEqual(['conf t', 'vlan 200', 'name Test-VLAN', 'exit', 'write memory']);
+      expect(mockSSHClient.executeMultipleCommands).not.toHaveBeenCalled();
+    });
+
+    it('should return ACL commands without sending them', async () => {
+      const commands = await commandExecutor.configureACL(
+        {
+          name: 'BLOCK-SSH',
+          type: 'extended',
+          rules: [{ action: 'deny', protocol: 'tcp', sourceIp: 'any', destIp: 'any' }],
+        },
+        { dryRun: true },
+      );
+
+      expect(commands).toEqual([
+        'conf t',
+        'ip access-list extended BLOCK-SSH',
+        '10 deny tcp any any',
+        'exit',
+        'write memory',
+      ]);
+      expect(mockSSHClient.executeMultipleCommands).not.toHaveBeenCalled();
+    });
+
+    it('should return the applied commands when not in dry-run mode', async () => {
+      mockSSHClient.executeMultipleCommands.mockResolvedValue([]);
+
+      const commands = await commandExecutor.configureStack(true);
+
+      expect(mockSSHClient.executeMultipleCommands).toHaveBeenCalledWith(commands);
+    });
+  });
+
+  describe('restoreConfig', () => {
+    const RUNNING =
+      'hostname ICX-LAB\nip route 0.0.0.0/0 10.0.0.254\n!\nvlan 10 name DATA by port\n untagged ethe 1/1/1\n!';
+    const SAVED = 'hostname ICX-LAB\n!\nvlan 10 name DATA by port\n untagged ethe 1/1/1 to 1/1/2\n!';
+
+    it('should preview the delta including removals', async () => {
+      mockSSHClient.executeCommand.mockResolvedValue(RUNNING);
+
+      const { commands, report } = await commandExecutor.restoreConfig(SAVED, { dryRun: true, save: true });
+
+      expect(commands).toEqual([
+        'conf t',
+        'no ip route 0.0.0.0/0 10.0.0.254',
+        'vlan 10 name DATA by port',
+        'no untagged ethe 1/1/1',
+        'untagged ethe 1/1/1 to 1/1/2',
+        'exit',
+        'end',
+        'write memory',
+      ]);
+      expect(report).toBeUndefined();
+      expect(mockSSHClient.executeCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the delta through the guard before applying it', async () => {
+      mockSSHClient.executeCommand.mockResolvedValue(`${RUNNING}\nusername backdoor password 8 $1$abc`);
+      const guard = new CommandGuard({ mode: 'block', allow: [], deny: [] });
+
+      await expect(
+        commandExecutor.restoreConfig(SAVED, { guard: (commands) => guard.check('core-1', commands) }),
+      ).rejects.toThrow('"no username backdoor password 8 $1$abc" (removes a login account)');
+      expect(mockSSHClient.executeMultipleCommands).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when the running config already matches', async () => {
+      mockSSHClient.executeCommand.mockResolvedValue(SAVED);
+
+      await expect(commandExecutor.restoreConfig(`Current configuration:\n${SAVED}\nend`)).resolves.toEqual({
+        commands: [],
+      });
+    });
+  });
+
+  describe('applyDesiredState', () => {
+    it('should plan on the running config read now rather than the cached model', async () => {
+      mockSSHClient.executeCommand
+        .mockResolvedValueOnce('vlan 10 name DATA by port\n untagged ethe 1/1/1\n!')
+        .mockResolvedValueOnce('vlan 10 name DATA by port\n untagged ethe 1/1/1 to 1/1/2\n!');
+
+      await commandExecutor.getParsedConfig();
+      const plan = await commandExecutor.applyDesiredState(
+        { vlans: [{ id: 10, name: 'DATA', untagged: ['1/1/1', '1/1/2'] }] },
+        { dryRun: true },
+      );
+
+      expect(plan.commands).toEqual([]);
+      expect(mockSSHClient.executeCommand).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('buildPasteConfigCommands', () => {
+    it('should wrap config lines and drop comments', () => {
+      const commands = buildPasteConfigCommands('! uplink\nvlan 10 name DATA\n\n tagged ethe 1/1/1\n', true);
+
+      expect(commands).toEqual(['conf t', 'vlan 10 name DATA', 'tagged ethe 1/1/1', 'end', 'write memory']);
+    });
+
+    it('should return nothing for a comment-only block', () => {
+      expect(buildPasteConfigCommands('!\n! nothing here\n')).toEqual([]);
+    });
+  });
 });
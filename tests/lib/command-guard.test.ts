@@ -0,0 +1,54 @@
+import { createHash } from 'node:crypto';
+import { CommandGuard } from '../../src/lib/command-guard';
+
+describe('CommandGuard', () => {
+  it('should flag built-in dangerous commands', () => {
+    const guard = new CommandGuard({ mode: 'confirm', allow: [], deny: [] });
+
+    expect(
+      guard.inspect(['show version', 'reload after 00:05', ' no vlan 1', 'no vlan 10', 'erase startup-config']),
+    ).toEqual([
+      { command: 'reload after 00:05', reason: 'reboots the switch' },
+      { command: 'no vlan 1', reason: 'removes the default VLAN' },
+      { command: 'erase startup-config', reason: 'erases flash or the startup config' },
+    ]);
+  });
+
+  it('should apply configured deny and allow patterns', () => {
+    const guard = new CommandGuard({ mode: 'block', allow: ['^show ', '^reload$'], deny: ['^show running'] });
+
+    expect(guard.inspect(['conf t', 'show vlan', 'reload', 'show running-config', 'vlan 10', 'end'])).toEqual([
+      { command: 'show running-config', reason: 'matches a denied command pattern' },
+      { command: 'vlan 10', reason: 'not in the command allowlist' },
+    ]);
+    expect(() => guard.check('core-1', ['vlan 10'], 'anything')).toThrow('Blocked by command guard');
+  });
+
+  it('should require a confirm token tied to the device and commands', () => {
+    const guard = new CommandGuard({ mode: 'confirm', allow: [], deny: [] });
+    const token = guard.confirmToken('core-1', ['reload']);
+
+    expect(() => guard.check('core-1', ['reload'])).toThrow(`confirm: "${token}"`);
+    expect(() => guard.check('core-1', ['reload'], token)).not.toThrow();
+    expect(() => guard.check('idf-2', ['reload'], token)).toThrow('Confirmation required');
+    expect(() => guard.check('core-1', ['show version'])).not.toThrow();
+  });
+
+  it('should not accept tokens a client can compute', () => {
+    const guard = new CommandGuard({ mode: 'confirm', allow: [], deny: [] });
+    const other = new CommandGuard({ mode: 'confirm', allow: [], deny: [] });
+    const unsalted = createHash('sha256')
+      .update(JSON.stringify(['core-1', 'reload']))
+      .digest('hex')
+      .slice(0, 12);
+
+    expect(other.confirmToken('core-1', ['reload'])).not.toBe(guard.confirmToken('core-1', ['reload']));
+    expect(() => guard.check('core-1', ['reload'], unsalted)).toThrow('Confirmation required');
+  });
+
+  it('should let everything through when off', () => {
+    const guard = new CommandGuard({ mode: 'off', allow: [], deny: ['.*'] });
+
+    expect(() => guard.check('core-1', ['reload'])).not.toThrow();
+  });
+});
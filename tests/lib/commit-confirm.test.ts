@@ -0,0 +1,142 @@
+import winston from 'winston';
+import { CommitConfirmManager } from '../../src/lib/commit-confirm';
+
+const BEFORE = `hostname ICX-LAB
+!
+vlan 10 name DATA by port
+!`;
+
+describe('CommitConfirmManager', () => {
+  const logger = winston.createLogger({ silent: true });
+  let running: string;
+  let mockTransport: any;
+  let mockExecutor: any;
+  let manager: CommitConfirmManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    running = BEFORE;
+
+    mockTransport = {
+      disconnect: jest.fn(),
+      executeCommand: jest.fn(async () => running),
+    };
+    mockExecutor = {
+      applyTransaction: jest.fn(async (commands: string[]) => {
+        if (commands.includes('vlan 20 name MGMT by port')) running = `${BEFORE}\nvlan 20 name MGMT by port\n!`;
+        if (commands.includes('no vlan 20')) running = BEFORE;
+        return { success: true, applied: [], saved: false };
+      }),
+      saveConfig: jest.fn(),
+      reloadSwitch: jest.fn(),
+    };
+
+    const registry: any = {
+      resolve: jest.fn(() => ({ switchClient: mockTransport, commandExecutor: mockExecutor })),
+    };
+    manager = new CommitConfirmManager(registry, logger);
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    jest.useRealTimers();
+  });
+
+  const start = (rollbackStrategy: 'restore' | 'reload' = 'restore') =>
+    manager.start('core-1', 'configure_vlan', ['conf t', 'vlan 20 name MGMT by port', 'exit', 'write memory'], {
+      minutes: 5,
+      rollbackStrategy,
+    });
+
+  it('should apply the change without saving and list it as pending', async () => {
+    const { commit } = await start();
+
+    expect(mockExecutor.applyTransaction).toHaveBeenCalledWith(
+      ['conf t', 'vlan 20 name MGMT by port', 'exit'],
+      expect.objectContaining({ save: false }),
+    );
+    expect(manager.list().pending).toEqual([commit]);
+  });
+
+  it('should save and cancel the rollback when confirmed', async () => {
+    const { commit } = await start();
+
+    const confirmed = await manager.confirm('core-1', { commitId: commit?.id });
+    await jest.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(confirmed.status).toBe('confirmed');
+    expect(mockExecutor.saveConfig).toHaveBeenCalled();
+    expect(mockExecutor.applyTransaction).toHaveBeenCalledTimes(1);
+    expect(manager.list().pending).toEqual([]);
+  });
+
+  it('should restore the previous running config when the timer expires', async () => {
+    await start();
+
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(mockTransport.disconnect).toHaveBeenCalled();
+    expect(mockExecutor.applyTransaction).toHaveBeenLastCalledWith(
+      ['conf t', 'no vlan 20', 'end'],
+      expect.objectContaining({ rollback: false }),
+    );
+    expect(running).toBe(BEFORE);
+    expect(manager.list().recent[0]).toMatchObject({ status: 'rolled_back' });
+    await expect(manager.confirm('core-1')).rejects.toThrow('No pending commit');
+  });
+
+  it('should reload from startup config when restoring fails', async () => {
+    await start();
+    mockTransport.executeCommand.mockRejectedValue(new Error('Connection refused'));
+
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(mockExecutor.reloadSwitch).toHaveBeenCalledWith(true);
+    expect(manager.list().recent[0]).toMatchObject({ detail: 'reloaded from startup config' });
+  });
+
+  it('should allow only one pending commit per device', async () => {
+    await start('reload');
+
+    await expect(start()).rejects.toThrow('already has a pending commit');
+  });
+
+  it('should refuse a second commit started while the first is still being applied', async () => {
+    const [first, second] = await Promise.allSettled([start(), start()]);
+
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: expect.objectContaining({ field: 'commitConfirmed' }) });
+    expect(mockExecutor.applyTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should find a commit by id and refuse it for another device', async () => {
+    const { commit } = await start();
+
+    expect(manager.find(commit?.id ?? '')).toEqual(commit);
+    await expect(manager.confirm('idf-2', { commitId: commit?.id })).rejects.toThrow('is pending on device "core-1"');
+    expect(manager.list().pending).toEqual([commit]);
+  });
+
+  it('should keep the commit pending and its rollback timer when saving fails', async () => {
+    const { commit } = await start();
+    mockExecutor.saveConfig.mockRejectedValueOnce(new Error('Flash busy'));
+
+    await jest.advanceTimersByTimeAsync(2 * 60_000);
+    await expect(manager.confirm('core-1', { commitId: commit?.id })).rejects.toThrow('Flash busy');
+    expect(manager.list().pending).toEqual([commit]);
+
+    await jest.advanceTimersByTimeAsync(3 * 60_000);
+    expect(running).toBe(BEFORE);
+    expect(manager.list().recent[0]).toMatchObject({ id: commit?.id, status: 'rolled_back' });
+  });
+
+  it('should roll back every pending commit on shutdown', async () => {
+    const { commit } = await start();
+
+    const resolved = await manager.rollbackAll();
+
+    expect(resolved).toEqual([expect.objectContaining({ id: commit?.id, status: 'rolled_back' })]);
+    expect(running).toBe(BEFORE);
+    expect(manager.list().pending).toEqual([]);
+  });
+});
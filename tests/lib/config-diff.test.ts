@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { diffConfigs, readSavedConfig } from '../../src/lib/config-diff';
+
+const STARTUP = `Startup-config data location is flash memory
+!
+ver 08.0.95dT213
+!
+vlan 10 name DATA by port
+ untagged ethe 1/1/1 to 1/1/2
+!
+vlan 30 name OLD by port
+!
+hostname ICX-LAB
+!
+interface ethernet 1/1/1
+ port-name desk-1
+!
+end`;
+
+const RUNNING = `Current configuration:
+!
+ver 08.0.95dT213
+!
+vlan 10 name USERS by port
+ untagged ethe 1/1/1 to 1/1/3
+!
+vlan 20 name VOICE by port
+ tagged ethe 1/2/1
+!
+hostname ICX-LAB
+ip route 0.0.0.0/0 10.0.0.1
+!
+interface ethernet 1/1/1
+ port-name desk-1
+!
+end`;
+
+describe('diffConfigs', () => {
+  it('should report identical configs regardless of headers and separators', () => {
+    const diff = diffConfigs(STARTUP, STARTUP.replace('Startup-config data location is flash memory', ''), {
+      before: 'startup',
+      after: 'running',
+    });
+
+    expect(diff.identical).toBe(true);
+    expect(diff.unified).toBe('');
+    expect(diff.sections).toEqual([]);
+  });
+
+  it('should produce a unified diff and per-section changes', () => {
+    const diff = diffConfigs(STARTUP, RUNNING, { before: 'startup', after: 'running' });
+
+    expect(diff.identical).toBe(false);
+    expect(diff.unified).toContain('--- startup');
+    expect(diff.unified).toContain('+++ running');
+    expect(diff.unified).toContain('-vlan 10 name DATA by port');
+    expect(diff.unified).toContain('+ip route 0.0.0.0/0 10.0.0.1');
+
+    expect(diff.sections).toEqual([
+      { section: 'vlan 30 name OLD by port', kind: 'vlan', change: 'removed', addedLines: [], removedLines: [] },
+      {
+        section: 'vlan 10 name USERS by port',
+        kind: 'vlan',
+        change: 'modified',
+        addedLines: ['vlan 10 name USERS by port', 'untagged ethe 1/1/1 to 1/1/3'],
+        removedLines: ['vlan 10 name DATA by port', 'untagged ethe 1/1/1 to 1/1/2'],
+      },
+      {
+        section: 'vlan 20 name VOICE by port',
+        kind: 'vlan',
+        change: 'added',
+        addedLines: ['tagged ethe 1/2/1'],
+        removedLines: [],
+      },
+    ]);
+    expect(diff.global).toEqual({ added: ['ip route 0.0.0.0/0 10.0.0.1'], removed: [] });
+    expect(diff.summary).toMatchObject({ sectionsAdded: 1, sectionsRemoved: 1, sectionsModified: 1 });
+  });
+});
+
+describe('readSavedConfig', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'brocade-diff-'));
+    writeFileSync(path.join(dir, 'core-1.cfg'), STARTUP);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read files inside the backup directory', async () => {
+    await expect(readSavedConfig(dir, 'core-1.cfg')).resolves.toBe(STARTUP);
+  });
+
+  it('should refuse paths outside the backup directory', async () => {
+    await expect(readSavedConfig(dir, '../etc/passwd')).rejects.toThrow('must be inside');
+  });
+});
@@ -0,0 +1,198 @@
+import { expandPortList, parseRunningConfig } from '../../src/lib/config-parser';
+
+const RUNNING_CONFIG = `Current configuration:
+!
+ver 08.0.95dT213
+!
+stack unit 1
+  module 1 icx6450-48p-poe-port-management-module
+  module 2 icx6450-sfp-plus-4port-40g-module
+!
+lag uplink dynamic id 1
+ ports ethernet 1/2/1 ethernet 1/2/2
+ primary-port 1/2/1
+ deploy
+!
+vlan 1 name DEFAULT-VLAN by port
+!
+vlan 10 name DATA by port
+ tagged ethe 1/2/1 to 1/2/2
+ untagged ethe 1/1/1 to 1/1/4 ethe 1/1/10
+ router-interface ve 10
+ spanning-tree 802-1w
+!
+spanning-tree 802-1w priority 4096
+!
+aaa authentication login default local
+hostname ICX-LAB
+ip dhcp snooping vlan 10
+ip dns domain-list example.com
+ip dns server-address 10.0.0.53 10.0.0.54
+ip route 0.0.0.0/0 10.0.0.1
+ip route 172.16.0.0 255.255.0.0 10.0.0.2 5
+!
+no lldp run
+logging host 10.0.0.99
+username admin privilege 0 password 8 $1$abc$xyz
+snmp-server community 2 $Mi1pYg== ro MGMT
+snmp-server contact noc@example.com
+snmp-server location Lab Rack 4
+snmp-server host 10.0.0.98 version v2c 2 $Mi1pYg==
+clock timezone us Pacific
+!
+ntp
+ server 10.0.0.123
+!
+interface ethernet 1/1/1
+ port-name Server-01
+ speed-duplex 1000-full
+ spanning-tree 802-1w admin-edge-port
+!
+interface ethernet 1/1/48
+ port-name uplink-dhcp
+ disable
+ ip dhcp snooping trust
+ ip access-group WEB in
+ loop-detection
+!
+interface ve 10
+ ip address 10.0.10.1 255.255.255.0
+!
+ip access-list extended WEB
+ sequence 10 permit tcp any host 10.0.10.5 eq 80
+ sequence 20 deny ip 10.0.20.0 0.0.0.255 any
+!
+access-list 5 permit host 10.0.0.7
+!
+end`;
+
+describe('config-parser', () => {
+  const config = parseRunningConfig(RUNNING_CONFIG);
+
+  it('should expand port lists and ranges', () => {
+    expect(expandPortList('ethe 1/1/1 to 1/1/3 ethe 1/2/1')).toEqual(['1/1/1', '1/1/2', '1/1/3', '1/2/1']);
+    expect(expandPortList('ethernet 1/2/1 ethernet 1/2/2')).toEqual(['1/2/1', '1/2/2']);
+  });
+
+  it('should parse global settings', () => {
+    expect(config.global).toEqual({
+      version: '08.0.95dT213',
+      hostname: 'ICX-LAB',
+      dnsDomain: 'example.com',
+      dnsServers: ['10.0.0.53', '10.0.0.54'],
+      ntpServers: ['10.0.0.123'],
+      syslogHosts: ['10.0.0.99'],
+      timezone: 'us Pacific',
+      stackUnits: [
+        {
+          unit: 1,
+          modules: ['icx6450-48p-poe-port-management-module', 'icx6450-sfp-plus-4port-40g-module'],
+        },
+      ],
+    });
+  });
+
+  it('should parse VLANs with their ports and router interface', () => {
+    expect(config.vlans).toEqual([
+      { id: 1, name: 'DEFAULT-VLAN', tagged: [], untagged: [] },
+      {
+        id: 10,
+        name: 'DATA',
+        tagged: ['1/2/1', '1/2/2'],
+        untagged: ['1/1/1', '1/1/2', '1/1/3', '1/1/4', '1/1/10'],
+        routerInterface: 've 10',
+        spanningTree: '802-1w',
+      },
+    ]);
+  });
+
+  it('should parse interfaces', () => {
+    const [server, uplink, ve] = config.interfaces;
+
+    expect(server).toMatchObject({
+      name: 'ethernet 1/1/1',
+      type: 'ethernet',
+      portName: 'Server-01',
+      speed: '1000-full',
+    });
+    expect(uplink).toMatchObject({ disabled: true, aclIn: 'WEB', dhcpSnoopingTrust: true, other: ['loop-detection'] });
+    expect(ve).toMatchObject({ name: 've 10', type: 've', ipAddresses: ['10.0.10.1 255.255.255.0'] });
+  });
+
+  it('should parse LAGs, ACLs and static routes', () => {
+    expect(config.lags).toEqual([
+      { name: 'uplink', id: 1, type: 'dynamic', ports: ['1/2/1', '1/2/2'], primaryPort: '1/2/1', deployed: true },
+    ]);
+    expect(config.acls[0]).toEqual({
+      name: 'WEB',
+      type: 'extended',
+      rules: [
+        {
+          sequence: 10,
+          action: 'permit',
+          protocol: 'tcp',
+          sourceIp: 'any',
+          destIp: '10.0.10.5',
+          destWildcard: '0.0.0.0',
+          destPort: 'eq 80',
+        },
+        {
+          sequence: 20,
+          action: 'deny',
+          protocol: 'ip',
+          sourceIp: '10.0.20.0',
+          sourceWildcard: '0.0.0.255',
+          destIp: 'any',
+        },
+      ],
+    });
+    expect(config.acls[1]).toMatchObject({ name: '5', type: 'standard', rules: [{ sourceIp: '10.0.0.7' }] });
+    expect(config.staticRoutes).toEqual([
+      { destination: '0.0.0.0', netmask: '0.0.0.0', gateway: '10.0.0.1' },
+      { destination: '172.16.0.0', netmask: '255.255.0.0', gateway: '10.0.0.2', distance: 5 },
+    ]);
+  });
+
+  it('should parse protocol and management settings without exposing secrets', () => {
+    expect(config.spanningTree).toEqual({
+      mode: '802-1w',
+      priority: 4096,
+      vlans: [10],
+      adminEdgePorts: ['ethernet 1/1/1'],
+    });
+    expect(config.lldp).toEqual({ enabled: false });
+    expect(config.dhcpSnooping).toEqual({ vlans: [10], trustedPorts: ['ethernet 1/1/48'] });
+    expect(config.users).toEqual([{ username: 'admin', privilege: 0, hasPassword: true }]);
+    expect(config.snmp).toEqual({
+      communities: [{ access: 'ro', acl: 'MGMT' }],
+      contact: 'noc@example.com',
+      location: 'Lab Rack 4',
+      hosts: [{ host: '10.0.0.98', version: 'v2c' }],
+      traps: [],
+    });
+    expect(JSON.stringify(config)).not.toContain('$Mi1pYg==');
+  });
+
+  it('should keep unmodelled statements verbatim', () => {
+    expect(config.unparsed).toEqual(['aaa authentication login default local']);
+  });
+
+  it('should redact secrets from statements it keeps verbatim', () => {
+    const parsed = parseRunningConfig(`enable super-user-password 8 $c2VjcmV0
+radius-server host 10.0.0.5 auth-port 1812 key 2 $cmFkaXVz
+snmp-server community $Y29tbQ==
+snmp-server user admin group admin v3 encrypted auth md5 abcd1234 priv encrypted des ef015678
+!
+interface ve 10
+ ip ospf authentication-key 8 $b3NwZg==
+!`);
+
+    expect(parsed.unparsed).toEqual([
+      'enable super-user-password 8 <redacted>',
+      'radius-server host 10.0.0.5 auth-port 1812 key 2 <redacted>',
+      'snmp-server community <redacted>',
+      'snmp-server user admin group admin v3 encrypted auth md5 <redacted> priv encrypted des <redacted>',
+    ]);
+    expect(parsed.interfaces[0].other).toEqual(['ip ospf authentication-key 8 <redacted>']);
+  });
+});
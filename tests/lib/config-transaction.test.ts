@@ -0,0 +1,130 @@
+import { runConfigTransaction } from '../../src/lib/config-transaction';
+import { computeConfigDelta, invertAppliedCommands, parseConfigTree } from '../../src/lib/config-tree';
+
+const RUNNING_CONFIG = `Current configuration:
+!
+ver 08.0.95dT213
+!
+vlan 1 name DEFAULT-VLAN by port
+!
+vlan 10 name DATA by port
+ tagged ethe 1/1/1
+!
+hostname ICX-LAB
+!
+interface ethernet 1/1/2
+ port-name uplink
+!
+end`;
+
+describe('config-tree', () => {
+  it('should parse contexts with their indented children', () => {
+    const tree = parseConfigTree(RUNNING_CONFIG);
+
+    expect(tree.map((node) => node.line)).toEqual([
+      'ver 08.0.95dT213',
+      'vlan 1 name DEFAULT-VLAN by port',
+      'vlan 10 name DATA by port',
+      'hostname ICX-LAB',
+      'interface ethernet 1/1/2',
+    ]);
+    expect(tree[2].children).toEqual([{ line: 'tagged ethe 1/1/1', children: [] }]);
+  });
+
+  it('should compute the delta between two configs', () => {
+    const current = parseConfigTree(RUNNING_CONFIG);
+    const target = parseConfigTree(
+      RUNNING_CONFIG.replace('hostname ICX-LAB', 'hostname ICX-CORE').replace(
+        ' tagged ethe 1/1/1',
+        ' tagged ethe 1/1/3',
+      ),
+    );
+
+    expect(computeConfigDelta(current, target)).toEqual([
+      'no hostname ICX-LAB',
+      'vlan 10 name DATA by port',
+      'no tagged ethe 1/1/1',
+      'tagged ethe 1/1/3',
+      'exit',
+      'hostname ICX-CORE',
+    ]);
+  });
+
+  it('should invert applied commands, removing newly created VLANs whole', () => {
+    const inverse = invertAppliedCommands(
+      ['conf t', 'vlan 20 name VOICE', 'tagged ethe 1/1/5', 'exit', 'interface ethernet 1/1/2', 'disable', 'exit'],
+      parseConfigTree(RUNNING_CONFIG),
+    );
+
+    expect(inverse).toEqual(['interface ethernet 1/1/2', 'enable', 'exit', 'no vlan 20']);
+  });
+});
+
+describe('runConfigTransaction', () => {
+  let running: string;
+  let mockTransport: any;
+
+  beforeEach(() => {
+    running = RUNNING_CONFIG;
+    mockTransport = {
+      executeCommand: jest.fn(async (command: string) => {
+        if (command === 'show running-config') return running;
+        if (command === 'hostname bad name') return 'Invalid input -> bad name';
+        if (command === 'vlan 20 name VOICE by port')
+          running = running.replace('hostname', 'vlan 20 name VOICE by port\n!\nhostname');
+        if (command === 'no vlan 20') running = running.replace('vlan 20 name VOICE by port\n!\n', '');
+        if (command === 'hostname ICX-NEW') running = running.replace('hostname ICX-LAB', 'hostname ICX-NEW');
+        if (command === 'no hostname ICX-NEW') running = running.replace('hostname ICX-NEW\n', '');
+        if (command === 'hostname ICX-LAB' && !running.includes('hostname ICX-LAB')) {
+          running = running.replace('!\ninterface', 'hostname ICX-LAB\n!\ninterface');
+        }
+        return '';
+      }),
+    };
+  });
+
+  it('should apply every command and save when all lines succeed', async () => {
+    const report = await runConfigTransaction(mockTransport, ['conf t', 'hostname ICX-NEW', 'end', 'write memory']);
+
+    expect(report.success).toBe(true);
+    expect(report.saved).toBe(true);
+    expect(report.rollback).toBeUndefined();
+    expect(report.applied.map((line) => line.command)).toEqual(['conf t', 'hostname ICX-NEW', 'end', 'write memory']);
+  });
+
+  it('should stop at the first CLI error and roll back what was applied', async () => {
+    const report = await runConfigTransaction(mockTransport, [
+      'conf t',
+      'vlan 20 name VOICE by port',
+      'exit',
+      'hostname bad name',
+      'end',
+      'write memory',
+    ]);
+
+    expect(report.success).toBe(false);
+    expect(report.saved).toBe(false);
+    expect(report.failed).toMatchObject({ command: 'hostname bad name', error: 'Invalid input -> bad name' });
+    expect(report.rollback?.strategy).toBe('inverse');
+    expect(report.rollback?.commands.map((line) => line.command)).toEqual(['conf t', 'no vlan 20', 'end']);
+    expect(report.rollback?.restored).toBe(true);
+    expect(mockTransport.executeCommand).not.toHaveBeenCalledWith('write memory');
+  });
+
+  it('should restore the snapshot when the inverse commands are not enough', async () => {
+    const report = await runConfigTransaction(mockTransport, ['conf t', 'hostname ICX-NEW', 'hostname bad name']);
+
+    // "no hostname ICX-NEW" leaves no hostname at all; the snapshot delta puts the old one back
+    expect(report.rollback?.strategy).toBe('snapshot');
+    expect(report.rollback?.restored).toBe(true);
+    expect(mockTransport.executeCommand).toHaveBeenCalledWith('hostname ICX-LAB');
+  });
+
+  it('should refuse to start when the running config cannot be read', async () => {
+    mockTransport.executeCommand.mockRejectedValueOnce(new Error('Not connected'));
+
+    await expect(runConfigTransaction(mockTransport, ['conf t', 'hostname ICX-NEW'])).rejects.toThrow(
+      'Unable to snapshot running configuration',
+    );
+  });
+});
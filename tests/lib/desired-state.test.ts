@@ -0,0 +1,104 @@
+import { parseRunningConfig } from '../../src/lib/config-parser';
+import { planDesiredState } from '../../src/lib/desired-state';
+
+const RUNNING_CONFIG = `vlan 1 name DEFAULT-VLAN by port
+!
+vlan 10 name DATA by port
+ tagged ethe 1/2/1
+ untagged ethe 1/1/1 to 1/1/3
+!
+vlan 30 name OLD by port
+ untagged ethe 1/1/5
+!
+interface ethernet 1/1/1
+ port-name desk-1
+!
+interface ethernet 1/1/2
+ disable
+!`;
+
+describe('planDesiredState', () => {
+  const current = parseRunningConfig(RUNNING_CONFIG);
+
+  it('should return no commands when the switch already matches', () => {
+    const plan = planDesiredState(current, {
+      vlans: [{ id: 10, name: 'DATA', tagged: ['1/2/1'], untagged: ['ethernet 1/1/1', '1/1/2', '1/1/3'] }],
+      ports: [{ port: '1/1/1', description: 'desk-1' }],
+    });
+
+    expect(plan).toEqual({ changes: [], commands: [] });
+  });
+
+  it('should remove stale members before adding new ones', () => {
+    const plan = planDesiredState(current, {
+      vlans: [
+        { id: 10, name: 'DATA', tagged: ['1/2/1', '1/2/2'], untagged: ['1/1/1', '1/1/2'] },
+        { id: 20, name: 'VOICE', untagged: ['1/1/3', '1/1/5'] },
+      ],
+    });
+
+    expect(plan.commands).toEqual([
+      'conf t',
+      'vlan 10',
+      'no untagged ethe 1/1/3',
+      'exit',
+      'vlan 30',
+      'no untagged ethe 1/1/5',
+      'exit',
+      'vlan 10',
+      'tagged ethe 1/2/2',
+      'exit',
+      'vlan 20 name VOICE by port',
+      'untagged ethe 1/1/3',
+      'untagged ethe 1/1/5',
+      'exit',
+      'end',
+      'write memory',
+    ]);
+    expect(plan.changes.map((change) => change.action)).toEqual([
+      'remove_port',
+      'add_port',
+      'create_vlan',
+      'add_port',
+      'add_port',
+      'remove_port',
+    ]);
+  });
+
+  it('should leave omitted membership lists unmanaged', () => {
+    const plan = planDesiredState(current, { vlans: [{ id: 10, name: 'USERS' }] });
+
+    expect(plan.commands).toEqual(['conf t', 'vlan 10 name USERS', 'exit', 'end', 'write memory']);
+  });
+
+  it('should prune unlisted VLANs except the default VLAN', () => {
+    const plan = planDesiredState(current, { vlans: [{ id: 10 }], pruneVlans: true });
+
+    expect(plan.commands).toEqual(['conf t', 'no vlan 30', 'end', 'write memory']);
+  });
+
+  it('should converge port description and enable state', () => {
+    const plan = planDesiredState(current, {
+      ports: [
+        { port: '1/1/1', description: '' },
+        { port: '1/1/2', enabled: true },
+        { port: '1/1/4', description: 'printer', enabled: true },
+      ],
+    });
+
+    expect(plan.commands).toEqual([
+      'conf t',
+      'interface ethernet 1/1/1',
+      'no port-name',
+      'exit',
+      'interface ethernet 1/1/2',
+      'enable',
+      'exit',
+      'interface ethernet 1/1/4',
+      'port-name printer',
+      'exit',
+      'end',
+      'write memory',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { parseInventory } from '../../src/core/inventory';
+import { DeviceRegistry } from '../../src/lib/device-registry';
+
+describe('parseInventory', () => {
+  it('should merge defaults into each device', () => {
+    const inventory = parseInventory({
+      defaults: { username: 'admin', password: 'secret' },
+      devices: [
+        { name: 'core-1', host: '10.0.0.1', tags: ['core'] },
+        { name: 'idf-2', host: '10.0.0.2', transport: 'telnet' },
+      ],
+    });
+
+    expect(inventory.defaultDevice).toBe('core-1');
+    expect(inventory.devices[0].config).toMatchObject({
+      host: '10.0.0.1',
+      port: 22,
+      username: 'admin',
+      password: 'secret',
+      transport: 'ssh',
+    });
+    expect(inventory.devices[1].config).toMatchObject({ port: 23, transport: 'telnet' });
+    expect(inventory.devices[1].tags).toEqual([]);
+  });
+
+  it('should resolve passwords from environment variables', () => {
+    process.env.TEST_SWITCH_PASSWORD = 'from-env';
+
+    const inventory = parseInventory({
+      devices: [{ name: 'sw1', host: '10.0.0.1', username: 'admin', passwordEnv: 'TEST_SWITCH_PASSWORD' }],
+    });
+
+    expect(inventory.devices[0].config.password).toBe('from-env');
+    delete process.env.TEST_SWITCH_PASSWORD;
+  });
+
+  it('should accept replayed devices without credentials', () => {
+    const inventory = parseInventory({
+      devices: [{ name: 'icx7150', host: 'replay', transport: 'replay', replayFile: 'fixtures/icx7150.json' }],
+    });
+
+    expect(inventory.devices[0].config).toMatchObject({
+      transport: 'replay',
+      replayFile: 'fixtures/icx7150.json',
+      replaySpeed: 0,
+      username: 'admin',
+    });
+  });
+
+  it('should reject duplicate device names', () => {
+    expect(() =>
+      parseInventory({
+        defaults: { username: 'admin', password: 'secret' },
+        devices: [
+          { name: 'sw1', host: '10.0.0.1' },
+          { name: 'sw1', host: '10.0.0.2' },
+        ],
+      }),
+    ).toThrow('Duplicate device name');
+  });
+
+  it('should reject an unknown default device', () => {
+    expect(() =>
+      parseInventory({
+        defaultDevice: 'missing',
+        defaults: { username: 'admin', password: 'secret' },
+        devices: [{ name: 'sw1', host: '10.0.0.1' }],
+      }),
+    ).toThrow('Default device "missing"');
+  });
+});
+
+describe('DeviceRegistry', () => {
+  const inventory = parseInventory({
+    defaults: { username: 'admin', password: 'secret' },
+    defaultDevice: 'sw2',
+    devices: [
+      { name: 'sw1', host: '10.0.0.1' },
+      { name: 'sw2', host: '10.0.0.2', tags: ['lab'] },
+    ],
+  });
+
+  const logger = { child: jest.fn().mockReturnThis() } as any;
+
+  it('should create transports lazily and reuse them', () => {
+    const factory = jest.fn().mockImplementation(() => ({ isConnected: () => false, disconnect: jest.fn() }));
+    const registry = new DeviceRegistry(inventory, factory, logger);
+
+    expect(factory).not.toHaveBeenCalled();
+
+    const first = registry.resolve('sw1');
+    const second = registry.resolve('sw1');
+
+    expect(first).toBe(second);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory.mock.calls[0][0]).toMatchObject({ host: '10.0.0.1' });
+  });
+
+  it('should fall back to the default device', () => {
+    const factory = jest.fn().mockImplementation(() => ({ isConnected: () => false, disconnect: jest.fn() }));
+    const registry = new DeviceRegistry(inventory, factory, logger);
+
+    expect(registry.resolve().name).toBe('sw2');
+  });
+
+  it('should reject unknown devices', () => {
+    const registry = new DeviceRegistry(inventory, jest.fn(), logger);
+
+    expect(() => registry.resolve('nope')).toThrow('Unknown device "nope"');
+  });
+
+  it('should list devices without credentials', () => {
+    const registry = new DeviceRegistry(inventory, jest.fn(), logger);
+    const list = registry.list();
+
+    expect(list).toHaveLength(2);
+    expect(list[1]).toEqual({
+      name: 'sw2',
+      host: '10.0.0.2',
+      port: 22,
+      transport: 'ssh',
+      tags: ['lab'],
+      description: undefined,
+      requireApproval: false,
+      isDefault: true,
+      connected: false,
+    });
+    expect(JSON.stringify(list)).not.toContain('secret');
+  });
+});
@@ -0,0 +1,36 @@
+import { MemoryEventStore } from '../../src/lib/event-store';
+
+describe('MemoryEventStore', () => {
+  const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: {} });
+
+  async function replay(store: MemoryEventStore, lastEventId: string) {
+    const sent: string[] = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+      send: async (eventId) => {
+        sent.push(eventId);
+      },
+    });
+    return { streamId, sent };
+  }
+
+  it('should replay only later events of the same stream', async () => {
+    const store = new MemoryEventStore();
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    const third = await store.storeEvent('a', message(3));
+
+    expect(await store.getStreamIdForEventId(first)).toBe('a');
+    expect(await replay(store, first)).toEqual({ streamId: 'a', sent: [third] });
+  });
+
+  it('should forget the oldest events beyond its limit', async () => {
+    const store = new MemoryEventStore(2);
+    const first = await store.storeEvent('a', message(1));
+    const second = await store.storeEvent('a', message(2));
+    const third = await store.storeEvent('a', message(3));
+
+    expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+    expect(await replay(store, first)).toEqual({ streamId: '', sent: [] });
+    expect(await replay(store, second)).toEqual({ streamId: 'a', sent: [third] });
+  });
+});
@@ -0,0 +1,59 @@
+import { parseInventory } from '../../src/core/inventory';
+import { globToRegExp, mapWithConcurrency, selectDevices } from '../../src/lib/fleet';
+
+describe('fleet helpers', () => {
+  const { devices } = parseInventory({
+    defaults: { username: 'admin', password: 'secret' },
+    devices: [
+      { name: 'core-1', host: '10.0.0.1', tags: ['core', 'icx7450'] },
+      { name: 'idf-1', host: '10.0.1.1', tags: ['access', 'icx7150'] },
+      { name: 'idf-2', host: '10.0.2.1', tags: ['access', 'icx6450'] },
+    ],
+  });
+
+  describe('globToRegExp', () => {
+    it('should match shell-style wildcards', () => {
+      expect(globToRegExp('idf-*').test('idf-12')).toBe(true);
+      expect(globToRegExp('idf-?').test('idf-12')).toBe(false);
+      expect(globToRegExp('core.1').test('core-1')).toBe(false);
+    });
+  });
+
+  describe('selectDevices', () => {
+    it('should select every device for an empty selector', () => {
+      expect(selectDevices(devices, {})).toHaveLength(3);
+    });
+
+    it('should require all tags to match', () => {
+      const selected = selectDevices(devices, { tags: ['access', 'icx6450'] });
+      expect(selected.map((d) => d.name)).toEqual(['idf-2']);
+    });
+
+    it('should combine names and patterns', () => {
+      const selected = selectDevices(devices, { names: ['core-1', 'idf-1'], pattern: 'idf-*' });
+      expect(selected.map((d) => d.name)).toEqual(['idf-1']);
+    });
+
+    it('should reject unknown device names', () => {
+      expect(() => selectDevices(devices, { names: ['nope'] })).toThrow('Unknown device(s): nope');
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should never exceed the concurrency limit and keep result order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return index;
+      });
+
+      expect(maxInFlight).toBe(2);
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+});
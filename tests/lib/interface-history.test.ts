@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { counterDelta, downsample, InterfaceHistory, parseLinkSpeed } from '../../src/lib/interface-history';
+
+function counters(port: string, inputBytes: number, outputBytes = 0, crcErrors = 0) {
+  return {
+    interface: port,
+    status: 'up' as const,
+    inputPackets: inputBytes / 100,
+    outputPackets: outputBytes / 100,
+    inputBytes,
+    outputBytes,
+    inputErrors: 0,
+    outputErrors: 0,
+    crcErrors,
+    collisions: 0,
+  };
+}
+
+describe('counterDelta', () => {
+  it('should unwrap 32-bit counters and restart after a clear', () => {
+    expect(counterDelta(100, 350)).toBe(250);
+    expect(counterDelta(2 ** 32 - 100, 50)).toBe(150);
+    expect(counterDelta(5_000_000, 1200)).toBe(1200);
+  });
+});
+
+describe('parseLinkSpeed', () => {
+  it('should read speeds from show interfaces brief', () => {
+    expect(parseLinkSpeed('1G')).toBe(1e9);
+    expect(parseLinkSpeed('100M')).toBe(1e8);
+    expect(parseLinkSpeed('None')).toBeUndefined();
+  });
+});
+
+describe('downsample', () => {
+  it('should average samples per step and keep peaks and error totals', () => {
+    const sample = (t: number, inBps: number, crcErrors = 0) => ({
+      t,
+      port: '1/1/1',
+      inBps,
+      outBps: 0,
+      inPps: 0,
+      outPps: 0,
+      inErrors: 0,
+      outErrors: 0,
+      crcErrors,
+      speedBps: 1000,
+    });
+    const { stepMs, points } = downsample([sample(0, 100), sample(30_000, 300, 2), sample(90_000, 500, 1)], {
+      since: new Date(0),
+      until: new Date(120_000),
+      points: 2,
+    });
+
+    expect(stepMs).toBe(60_000);
+    expect(points).toEqual([
+      expect.objectContaining({
+        samples: 2,
+        inBps: 200,
+        inBpsMax: 300,
+        crcErrors: 2,
+        utilization: 20,
+        utilizationMax: 30,
+      }),
+      expect.objectContaining({ timestamp: '1970-01-01T00:01:00.000Z', samples: 1, inBps: 500, crcErrors: 1 }),
+    ]);
+  });
+
+  it('should take peaks of steps with more samples than fit on the stack', () => {
+    function* samples() {
+      for (let t = 0; t < 300_000; t++) {
+        yield { t, port: '1/1/1', inBps: t, outBps: 1, inPps: 0, outPps: 0, inErrors: 0, outErrors: 0, crcErrors: 0 };
+      }
+    }
+
+    const { points } = downsample(samples(), { since: new Date(0), until: new Date(300_000), points: 1 });
+
+    expect(points).toEqual([expect.objectContaining({ samples: 300_000, inBpsMax: 299_999, outBpsMax: 1 })]);
+  });
+});
+
+describe('InterfaceHistory', () => {
+  const logger = winston.createLogger({ silent: true });
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'brocade-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store rates between readings and answer range queries', async () => {
+    const executor = {
+      getInterfaceStatistics: jest
+        .fn()
+        .mockResolvedValueOnce([counters('1/1/48', 0), counters('1/1/1', 0)])
+        .mockResolvedValueOnce([counters('1/1/48', 1_250_000, 0, 4), counters('1/1/1', 0)]),
+      getInterfaces: jest.fn().mockResolvedValue([{ name: '1/1/48', status: 'up', speed: '1G' }]),
+    };
+    const devices = {
+      getDevices: () => [{ name: 'core-1' }],
+      resolve: () => ({ commandExecutor: executor }),
+    } as any;
+    const history = new InterfaceHistory(dir, devices, logger, { intervalSeconds: 60, retentionDays: 30 });
+
+    const start = Date.now();
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValueOnce(start)
+      .mockReturnValueOnce(start + 10_000);
+    await history.sample();
+    await history.sample();
+    jest.restoreAllMocks();
+
+    const result = await history.query('core-1', '1/1/48', {
+      since: new Date(start - 60_000),
+      until: new Date(start + 60_000),
+      points: 1,
+    });
+    expect(result.stepSeconds).toBe(120);
+    expect(result.points).toEqual([
+      expect.objectContaining({ samples: 1, inBps: 1_000_000, inPps: 1250, crcErrors: 4, utilization: 0.1 }),
+    ]);
+
+    const other = await history.query('core-1', '1/1/2', {
+      since: new Date(start - 60_000),
+      until: new Date(start + 60_000),
+      points: 10,
+    });
+    expect(other.points).toEqual([]);
+  });
+
+  it('should reject time ranges longer than 31 days', async () => {
+    const history = new InterfaceHistory(dir, { getDevices: () => [] } as any, logger, { retentionDays: 400 });
+
+    await expect(
+      history.query('core-1', '1/1/48', { since: new Date(0), until: new Date(32 * 24 * 3600_000), points: 10 }),
+    ).rejects.toThrow('The time range may span at most 31 days');
+  });
+});
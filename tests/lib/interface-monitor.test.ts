@@ -0,0 +1,102 @@
+import winston from 'winston';
+import { computeRates, InterfaceMonitor, type MonitorEvent } from '../../src/lib/interface-monitor';
+
+function counters(inputBytes: number, inputPackets: number, inputErrors = 0) {
+  return {
+    interface: '1/1/1',
+    status: 'up' as const,
+    inputPackets,
+    outputPackets: 0,
+    inputBytes,
+    outputBytes: 0,
+    inputErrors,
+    outputErrors: 0,
+    crcErrors: 0,
+    collisions: 0,
+  };
+}
+
+describe('computeRates', () => {
+  it('should convert counter deltas to per-second rates', () => {
+    expect(computeRates(counters(1000, 10), counters(6000, 60, 2), 5)).toEqual({
+      inputBps: 8000,
+      outputBps: 0,
+      inputPps: 10,
+      outputPps: 0,
+      inputErrors: 2,
+      outputErrors: 0,
+      crcErrors: 0,
+    });
+  });
+
+  it('should report no rates when counters were cleared', () => {
+    expect(computeRates(counters(6000, 60), counters(100, 1), 5)).toBeUndefined();
+  });
+});
+
+describe('InterfaceMonitor', () => {
+  const logger = winston.createLogger({ silent: true });
+  let monitor: InterfaceMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    monitor = new InterfaceMonitor(logger);
+  });
+
+  afterEach(() => {
+    monitor.stopAll();
+    jest.useRealTimers();
+  });
+
+  it('should push a sample every interval until stopped', async () => {
+    const poll = jest
+      .fn()
+      .mockResolvedValueOnce(counters(0, 0))
+      .mockResolvedValueOnce(counters(2500, 20))
+      .mockResolvedValue(counters(5000, 40));
+    const events: MonitorEvent[] = [];
+    const subscription = await monitor.start({
+      owner: 'session-1',
+      device: 'core-1',
+      interfaceName: '1/1/1',
+      intervalSeconds: 2,
+      poll,
+      send: async (event) => {
+        events.push(event);
+      },
+    });
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ type: 'sample', sample: { rates: { inputBps: 10000, inputPps: 10 } } });
+    expect(monitor.list('session-1')[0]).toMatchObject({ id: subscription.id, samples: 2 });
+
+    monitor.stop(subscription.id, 'session-1');
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(events.at(-1)).toEqual({ type: 'stopped', subscriptionId: subscription.id, reason: 'stopped by request' });
+    expect(poll).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop subscriptions when their session closes or polls keep failing', async () => {
+    const send = jest.fn().mockResolvedValue(undefined);
+    const start = (owner: string, poll: jest.Mock) =>
+      monitor.start({ owner, device: 'core-1', interfaceName: '1/1/1', intervalSeconds: 1, poll, send });
+
+    await start('session-1', jest.fn().mockResolvedValue(counters(0, 0)));
+    const failing = await start(
+      'session-2',
+      jest.fn().mockResolvedValueOnce(counters(0, 0)).mockRejectedValue(new Error('SSH down')),
+    );
+
+    expect(monitor.stopOwner('session-1')).toBe(1);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(monitor.list()).toEqual([]);
+    expect(send).toHaveBeenLastCalledWith({
+      type: 'stopped',
+      subscriptionId: failing.id,
+      reason: 'stopped after 3 failed polls: SSH down',
+    });
+    expect(() => monitor.stop(failing.id)).toThrow('Unknown monitoring subscription');
+  });
+});
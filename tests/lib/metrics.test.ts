@@ -0,0 +1,82 @@
+import winston from 'winston';
+import { MetricsRegistry } from '../../src/lib/metrics';
+
+describe('MetricsRegistry', () => {
+  const logger = winston.createLogger({ silent: true });
+
+  function setup(cacheSeconds = 30) {
+    const executor = {
+      getSystemHealth: jest.fn().mockResolvedValue({
+        cpu: { current: 42 },
+        memory: { utilization: 61 },
+        fans: [{ id: '1', status: 'failed' }],
+      }),
+      getInterfaceStatistics: jest.fn().mockResolvedValue([
+        {
+          interface: '1/1/1',
+          status: 'up',
+          inputBytes: 1000,
+          outputBytes: 2000,
+          inputPackets: 10,
+          outputPackets: 20,
+          inputErrors: 0,
+          outputErrors: 0,
+          crcErrors: 3,
+          collisions: 0,
+        },
+      ]),
+      getOpticalModuleInfo: jest.fn().mockResolvedValue([{ port: '1/2/1', present: true, rxPower: -4.2 }]),
+      getStackTopology: jest.fn().mockRejectedValue(new Error('stacking not enabled')),
+      getLLDPNeighbors: jest.fn().mockResolvedValue([{}, {}]),
+      getBGPNeighbors: jest.fn().mockResolvedValue([{ state: 'Established' }, { state: 'Idle' }, { state: 'Idle' }]),
+      getOSPFNeighbors: jest.fn().mockResolvedValue([]),
+    };
+    const switchClient = { getReconnectCount: () => 2 };
+    const devices = {
+      getDevices: () => [{ name: 'core-1' }],
+      resolve: () => ({ commandExecutor: executor }),
+      getConnections: () => [{ name: 'core-1', switchClient }],
+      list: () => [{ name: 'core-1', connected: true }],
+    } as any;
+    return { metrics: new MetricsRegistry(devices, logger, cacheSeconds), executor };
+  }
+
+  it('should expose switch readings labelled by device and port', async () => {
+    const { metrics } = setup();
+    const text = await metrics.metrics();
+
+    expect(text).toContain('brocade_cpu_utilization_percent{device="core-1"} 42');
+    expect(text).toContain('brocade_fan_up{device="core-1",fan="1"} 0');
+    expect(text).toContain('brocade_interface_bytes_total{device="core-1",port="1/1/1",direction="out"} 2000');
+    expect(text).toContain('brocade_interface_crc_errors_total{device="core-1",port="1/1/1"} 3');
+    expect(text).toContain('brocade_optic_rx_power_dbm{device="core-1",port="1/2/1"} -4.2');
+    expect(text).toContain('brocade_bgp_neighbors{device="core-1",state="Idle"} 2');
+    expect(text).toContain('brocade_lldp_neighbors{device="core-1"} 2');
+    expect(text).toContain('brocade_scrape_success{device="core-1",source="stack"} 0');
+    expect(text).toContain('brocade_transport_reconnects_total{device="core-1"} 2');
+    expect(text).toContain('brocade_device_connected{device="core-1"} 1');
+  });
+
+  it('should reuse switch readings within the cache period', async () => {
+    const { metrics, executor } = setup();
+    await metrics.metrics();
+    await metrics.metrics();
+    expect(executor.getSystemHealth).toHaveBeenCalledTimes(1);
+
+    const uncached = setup(0);
+    await uncached.metrics.metrics();
+    await uncached.metrics.metrics();
+    expect(uncached.executor.getSystemHealth).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count tool calls and their latency', async () => {
+    const { metrics } = setup();
+    metrics.recordToolCall('get_vlans', true, 300);
+    metrics.recordToolCall('get_vlans', false, 1500);
+    const text = await metrics.registry.metrics();
+
+    expect(text).toContain('brocade_mcp_tool_calls_total{tool="get_vlans",outcome="error"} 1');
+    expect(text).toContain('brocade_mcp_tool_call_duration_seconds_bucket{le="0.5",tool="get_vlans"} 1');
+    expect(text).toContain('brocade_mcp_tool_call_duration_seconds_count{tool="get_vlans"} 2');
+  });
+});
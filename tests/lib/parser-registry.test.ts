@@ -0,0 +1,101 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { BUILTIN_PARSERS, interfaceStatisticsParser } from '../../src/lib/output-parsers';
+import { collectParseWarnings, type OutputParser, ParserRegistry } from '../../src/lib/parser-registry';
+import { detectPlatform } from '../../src/lib/platform-profiles';
+
+const GOLDEN_DIR = path.join(process.cwd(), 'tests', 'golden');
+
+interface GoldenCase {
+  model: string;
+  firmwareVersion: string;
+  entries: unknown[];
+}
+
+const goldenCases = readdirSync(GOLDEN_DIR).flatMap((command) =>
+  readdirSync(path.join(GOLDEN_DIR, command))
+    .filter((file) => file.endsWith('.txt'))
+    .map((file) => [command, file.replace(/\.txt$/, '')] as const),
+);
+
+describe('Golden outputs', () => {
+  const registry = new ParserRegistry(BUILTIN_PARSERS);
+
+  it.each(goldenCases)('%s/%s should parse without warnings', (command, name) => {
+    const output = readFileSync(path.join(GOLDEN_DIR, command, `${name}.txt`), 'utf-8');
+    const expected = JSON.parse(readFileSync(path.join(GOLDEN_DIR, command, `${name}.json`), 'utf-8')) as GoldenCase;
+    const platform = detectPlatform({ hostname: '', serialNumber: '', uptime: '', ...expected });
+
+    const { entries, warnings } = registry.parse(command, output, platform);
+
+    expect(warnings).toEqual([]);
+    expect(entries).toEqual(expected.entries);
+  });
+
+  it('should cover every built-in parser', () => {
+    const covered = new Set(goldenCases.map(([command]) => command));
+    expect(BUILTIN_PARSERS.filter((parser) => !covered.has(parser.command)).map((parser) => parser.name)).toEqual([]);
+  });
+});
+
+describe('ParserRegistry', () => {
+  const statistics = readFileSync(path.join(GOLDEN_DIR, 'interfaceStatistics', 'icx6450-two-ports.txt'), 'utf-8');
+
+  it('should warn instead of returning a silently empty list', () => {
+    const registry = new ParserRegistry(BUILTIN_PARSERS);
+
+    expect(registry.parse('portChannels', 'Invalid input -> lag').warnings).toEqual([
+      'port-channels: the switch rejected the command: Invalid input -> lag',
+    ]);
+    expect(registry.parse('portChannels', 'LAG output\nin a layout\nnobody expected')).toEqual({
+      entries: [],
+      warnings: ['port-channels: no entries recognized in 3 lines of output'],
+    });
+    expect(registry.parse('portChannels', '').warnings).toEqual([]);
+  });
+
+  it('should drop entries that do not match the schema', () => {
+    const registry = new ParserRegistry(BUILTIN_PARSERS);
+    const withoutLinkState = statistics.split('\n').slice(2).join('\n');
+
+    const { entries, warnings } = registry.parse('interfaceStatistics', withoutLinkState);
+
+    expect(entries.map((entry: any) => entry.interface)).toEqual(['1/1/2']);
+    expect(warnings).toEqual([
+      'interface-statistics: no link state for port 1/1/1',
+      'interface-statistics: dropped entry 1, status: Invalid option: expected one of "up"|"down"',
+    ]);
+  });
+
+  it('should prefer a parser written for the platform', () => {
+    const icx7850: OutputParser<{ port: string }> = {
+      name: 'icx7850-statistics',
+      command: 'interfaceStatistics',
+      platforms: ['ICX7850'],
+      schema: z.object({ port: z.string() }),
+      parse: () => [{ port: '1/1/1' }],
+    };
+    const registry = new ParserRegistry(BUILTIN_PARSERS).register(icx7850);
+    const platform = (model: string) =>
+      detectPlatform({ hostname: '', serialNumber: '', uptime: '', model, firmwareVersion: 'Version 08.0.95bT213' });
+
+    expect(registry.resolve('interfaceStatistics', platform('Stackable ICX7850-48FS'))).toBe(icx7850);
+    expect(registry.resolve('interfaceStatistics', platform('Stackable ICX7250-48P'))).toBe(interfaceStatisticsParser);
+    expect(() => registry.resolve('transceivers')).toThrow('No parser registered for transceivers');
+  });
+
+  it('should report warnings raised by the executor to the collector', async () => {
+    const mockClient = {
+      executeCommand: jest.fn().mockResolvedValue('Error: LAG is not configured'),
+      executeMultipleCommands: jest.fn(),
+    };
+    const executor = new BrocadeCommandExecutor(mockClient as any);
+
+    const { result, warnings } = await collectParseWarnings(() => executor.getPortChannels());
+
+    expect(result).toEqual([]);
+    expect(warnings).toEqual(['port-channels: the switch rejected the command: Error: LAG is not configured']);
+  });
+});
@@ -0,0 +1,123 @@
+import { UnsupportedPlatformError } from '../../src/core/errors';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { detectPlatform, resolveCommand } from '../../src/lib/platform-profiles';
+
+const showVersion = (model: string, version: string) => `  HW: Stackable ${model}\n        SW: Version ${version}\n`;
+
+const OPTIC_TABLE = [
+  ' Port  Temperature         Tx Power            Rx Power          Tx Bias Current',
+  '+----+-----------+--------------------+--------------------+---------------+',
+  '1/2/1   32.4218 C  -002.5649 dBm       -003.0095 dBm        6.468 mA',
+  '        Normal      Normal              Normal              Normal',
+  '1/2/2   N/A',
+].join('\n');
+
+describe('detectPlatform', () => {
+  it('should detect family, firmware train and profiles', () => {
+    const info = { hostname: '', serialNumber: '', uptime: '' };
+
+    const icx6450 = detectPlatform({ ...info, model: 'Stackable ICX6450-24', firmwareVersion: 'Version 08.0.30hT311' });
+    expect(icx6450).toEqual({
+      family: 'ICX6450',
+      model: 'Stackable ICX6450-24',
+      firmwareVersion: 'Version 08.0.30hT311',
+      firmwareTrain: '08.0',
+      profiles: ['icx6400'],
+    });
+    expect(
+      detectPlatform({ ...info, model: 'Stackable ICX7150-48P-4X1G', firmwareVersion: 'Version 10.0.10T213' }),
+    ).toMatchObject({ family: 'ICX7150', firmwareTrain: '10.0', profiles: ['icx7150', 'fastiron-09'] });
+    expect(detectPlatform({ ...info, model: '', firmwareVersion: '' })).toMatchObject({
+      family: undefined,
+      profiles: [],
+    });
+  });
+
+  it('should explain commands the platform lacks', () => {
+    const platform = detectPlatform({
+      hostname: '',
+      serialNumber: '',
+      uptime: '',
+      model: 'Stackable ICX6450-24',
+      firmwareVersion: 'Version 08.0.30hT311',
+    });
+
+    expect(() => resolveCommand(platform, 'bgpNeighbors')).toThrow(
+      'BGP is not supported on this platform, ICX6450 (Version 08.0.30hT311)',
+    );
+    expect(resolveCommand(platform, 'ospfNeighbors').cli()).toBe('show ip ospf neighbor');
+  });
+
+  it('should give each ICX family its CLI variants', () => {
+    const platform = (model: string, version: string) =>
+      detectPlatform({ hostname: '', serialNumber: '', uptime: '', model, firmwareVersion: version });
+    const icx6450 = platform('Stackable ICX6450-24', 'Version 08.0.30hT311');
+    const icx7150 = platform('Stackable ICX7150-48ZP', 'Version 08.0.95bT211');
+    const icx7250 = platform('Stackable ICX7250-24', 'Version 08.0.95bT213');
+    const icx7450 = platform('Stackable ICX7450-48', 'Version 08.0.95bT213');
+    const icx7650 = platform('Stackable ICX7650-48P', 'Version 08.0.95bT233');
+
+    expect(resolveCommand(icx6450, 'cableDiagnostics').cli('1/1/3')).toBe('phy cable-diag tdr 1/1/3');
+    expect(resolveCommand(icx7250, 'cableDiagnostics').cli('1/1/3')).toBe(
+      'cable-diagnostics tdr interface ethernet 1/1/3',
+    );
+
+    expect(resolveCommand(icx6450, 'speedDuplex').cli('1000-full')).toBe('speed-duplex 1000-full');
+    expect(resolveCommand(icx7250, 'speedDuplex').cli('10000-full')).toBe('speed-duplex 10g-full');
+    expect(resolveCommand(icx7450, 'speedDuplex').cli('10G')).toBe('speed-duplex 10g-full');
+    expect(resolveCommand(icx7450, 'speedDuplex').cli('5g')).toBe('speed-duplex 5g');
+    expect(resolveCommand(icx7150, 'speedDuplex').cli('2.5g')).toBe('speed-duplex 2500-full');
+    expect(resolveCommand(icx7650, 'speedDuplex').cli('5000-full')).toBe('speed-duplex 5g-full');
+
+    for (const icx of [icx6450, icx7150, icx7250, icx7450, icx7650]) {
+      expect(resolveCommand(icx, 'chassis').cli()).toBe('show chassis');
+    }
+    expect(() => resolveCommand(icx7150, 'bgpNeighbors')).toThrow(
+      'BGP is not supported on this platform, ICX7150 (Version 08.0.95bT211): the ICX 7150 image routes with static routes, RIP and OSPF only',
+    );
+    expect(resolveCommand(icx7250, 'bgpNeighbors').cli()).toBe('show ip bgp neighbors');
+  });
+});
+
+describe('BrocadeCommandExecutor platform commands', () => {
+  const client = (version: string, responses: Record<string, string> = {}) => ({
+    executeCommand: jest.fn((command: string) =>
+      Promise.resolve(command === 'show version' ? version : (responses[command] ?? '')),
+    ),
+    executeMultipleCommands: jest.fn().mockResolvedValue([]),
+    getReconnectCount: jest.fn().mockReturnValue(0),
+  });
+
+  it('should reject unsupported commands without sending them', async () => {
+    const mockClient = client(showVersion('ICX6450-24', '08.0.30hT311'));
+    const executor = new BrocadeCommandExecutor(mockClient as any);
+
+    await expect(executor.getBGPNeighbors()).rejects.toBeInstanceOf(UnsupportedPlatformError);
+    expect(mockClient.executeCommand.mock.calls.map(([command]) => command)).toEqual(['show version']);
+  });
+
+  it('should use the command and parser of the firmware train', async () => {
+    const mockClient = client(showVersion('ICX7150-24P', '10.0.10T213'), { 'show optic 1/2/1': OPTIC_TABLE });
+    const executor = new BrocadeCommandExecutor(mockClient as any);
+
+    expect(await executor.getOpticalModuleInfo('1/2/1')).toEqual([
+      { port: '1/2/1', present: true, temperature: 32.4218, txPower: -2.5649, rxPower: -3.0095 },
+      { port: '1/2/2', present: false, temperature: undefined, txPower: undefined, rxPower: undefined },
+    ]);
+  });
+
+  it('should detect the platform again after a reconnect', async () => {
+    const mockClient = client(showVersion('ICX7450-48', '08.0.95bT213'));
+    const executor = new BrocadeCommandExecutor(mockClient as any);
+
+    expect((await executor.getPlatform()).firmwareTrain).toBe('08.0');
+    mockClient.executeCommand.mockImplementation(() => Promise.resolve(showVersion('ICX7450-48', '09.0.10aT213')));
+    expect((await executor.getPlatform()).firmwareTrain).toBe('08.0');
+
+    mockClient.getReconnectCount.mockReturnValue(1);
+    expect(await executor.getPlatform()).toMatchObject({
+      firmwareTrain: '09.0',
+      profiles: ['icx7250-7450', 'fastiron-09'],
+    });
+  });
+});
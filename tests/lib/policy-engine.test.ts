@@ -0,0 +1,111 @@
+import path from 'node:path';
+import { loadPolicyFile, parsePolicy } from '../../src/core/policy';
+import { type AuthorizationRequest, PolicyEngine } from '../../src/lib/policy-engine';
+
+function call(tool: string, args: Record<string, unknown> = {}, overrides: Partial<AuthorizationRequest> = {}) {
+  return {
+    tool,
+    category: 'vlan',
+    privileged: true,
+    device: 'idf-2',
+    args,
+    ...overrides,
+  };
+}
+
+describe('PolicyEngine', () => {
+  const engine = new PolicyEngine(
+    parsePolicy({
+      defaultRole: 'read-only',
+      clients: [{ match: 'noc-*', role: 'vlan-operator' }],
+      roles: {
+        'vlan-operator': {
+          inherits: ['read-only'],
+          rules: [
+            {
+              effect: 'allow',
+              tools: ['configure_vlan', 'add_port_to_vlan'],
+              args: { vlanId: { min: 100, max: 199 }, port: { pattern: '^(ethernet )?2/', optional: true } },
+            },
+            { effect: 'allow', tools: ['apply_desired_state'], args: { 'vlans.id': { min: 100 } } },
+            { effect: 'deny', devices: ['core-*'], privileged: true, description: 'Core is admin only' },
+          ],
+        },
+      },
+    }),
+  );
+
+  it('should map clients to roles by glob', () => {
+    expect(engine.resolveRole('noc-agent')).toBe('vlan-operator');
+    expect(engine.resolveRole('desktop')).toBe('read-only');
+    expect(engine.resolveRole(undefined)).toBe('read-only');
+  });
+
+  it('should allow only unprivileged tools for read-only', () => {
+    expect(engine.authorize('read-only', call('get_vlans', {}, { privileged: false })).allowed).toBe(true);
+    expect(engine.authorize('read-only', call('configure_vlan', { vlanId: 100 }))).toEqual({
+      allowed: false,
+      role: 'read-only',
+      reason: 'Role "read-only" is not allowed to use tool "configure_vlan"',
+    });
+  });
+
+  it('should enforce argument constraints, including nested and array values', () => {
+    expect(
+      engine.authorize('vlan-operator', call('add_port_to_vlan', { vlanId: 150, port: 'ethernet 2/1/4' })),
+    ).toMatchObject({ allowed: true });
+    expect(engine.authorize('vlan-operator', call('configure_vlan', { vlanId: 250 }))).toMatchObject({
+      allowed: false,
+      reason: 'vlanId 250 is not allowed (allowed: 100-199)',
+    });
+    expect(engine.authorize('vlan-operator', call('add_port_to_vlan', { vlanId: 150, port: '1/1/4' })).allowed).toBe(
+      false,
+    );
+    expect(
+      engine.authorize('vlan-operator', call('apply_desired_state', { vlans: [{ id: 120 }, { id: 5 }] })).reason,
+    ).toBe('vlans.id 5 is not allowed (allowed: 100-inf)');
+  });
+
+  it('should not let calls that leave a constrained argument out through', () => {
+    expect(engine.authorize('vlan-operator', call('configure_vlan', { name: 'GUEST' }))).toMatchObject({
+      allowed: false,
+      reason: 'vlanId is required by policy (allowed: 100-199)',
+    });
+    expect(engine.authorize('vlan-operator', call('configure_vlan', { vlanId: 120 })).allowed).toBe(true);
+    expect(engine.authorize('vlan-operator', call('apply_desired_state', { ports: [{ port: '1/1/1' }] })).reason).toBe(
+      'vlans.id is required by policy (allowed: 100-inf)',
+    );
+  });
+
+  it('should keep the example unit 2 operator to its VLANs and ports', () => {
+    const example = new PolicyEngine(loadPolicyFile(path.join(process.cwd(), 'policy.example.yaml')));
+    const allowed = (tool: string, args: Record<string, unknown>) =>
+      example.authorize('unit2-operator', call(tool, args, { device: 'idf-2' })).allowed;
+
+    // Desired state replaces whole member lists, so the example role leaves it out
+    expect(
+      allowed('apply_desired_state', { vlans: [{ id: 150, tagged: ['2/1/1'] }], ports: [{ port: '2/1/5' }] }),
+    ).toBe(false);
+    expect(allowed('create_vlan_full', { id: 150, name: 'LAB' })).toBe(true);
+    expect(allowed('create_vlan_full', { id: 150, name: 'LAB', untaggedPorts: ['ethe 2/1/1 to 1/1/4'] })).toBe(false);
+    expect(allowed('add_port_to_vlan', { vlanId: 150 })).toBe(false);
+    expect(allowed('configure_port_channel', { id: 150, ports: ['1/1/1'] })).toBe(false);
+  });
+
+  it('should let deny rules win over allow rules', () => {
+    expect(
+      engine.authorize('vlan-operator', call('configure_vlan', { vlanId: 150 }, { device: 'core-1' })),
+    ).toMatchObject({
+      allowed: false,
+      reason: 'Core is admin only',
+    });
+    expect(() => engine.assertAllowed('operator', call('apply_desired_state'))).toThrow(
+      'Desired state can delete VLANs',
+    );
+    expect(engine.authorize('admin', call('reload_switch', {}, { category: 'maintenance' })).allowed).toBe(true);
+  });
+
+  it('should reject policies that reference unknown roles', () => {
+    expect(() => parsePolicy({ clients: [{ match: '*', role: 'superuser' }] })).toThrow('Unknown role(s)');
+  });
+});
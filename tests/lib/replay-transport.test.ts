@@ -0,0 +1,145 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { RecordingTransport } from '../../src/lib/recording-transport';
+import { ReplayTransport } from '../../src/lib/replay-transport';
+import { BrocadeSSHClient } from '../../src/lib/ssh-client';
+import { IcxSimulator } from '../../src/simulator/icx-simulator';
+import type { SessionFixture } from '../../src/types';
+
+describe('Session recording and replay', () => {
+  const logger = winston.createLogger({ silent: true });
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'brocade-replay-'));
+    file = path.join(dir, 'session.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFixture = (exchanges: Partial<SessionFixture['exchanges'][number]>[]) =>
+    writeFileSync(
+      file,
+      JSON.stringify({
+        version: 1,
+        recordedAt: '2026-01-05T10:00:00.000Z',
+        host: '10.0.0.1',
+        transport: 'ssh',
+        exchanges,
+      }),
+    );
+
+  it('should record commands, outputs and failures into the fixture', async () => {
+    const inner = {
+      executeCommand: jest
+        .fn()
+        .mockResolvedValueOnce('VLAN 10 output')
+        .mockRejectedValueOnce(new Error('Command timed out')),
+    } as any;
+    const transport = new RecordingTransport(inner, file, { host: '10.0.0.1', transport: 'ssh' }, logger);
+
+    expect(await transport.executeCommand('show vlan 10')).toBe('VLAN 10 output');
+    await expect(transport.executeCommand('show tech')).rejects.toThrow('Command timed out');
+    await transport.flush();
+
+    const [header, ...exchanges] = readFileSync(file, 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(header).toMatchObject({ version: 2, host: '10.0.0.1', transport: 'ssh' });
+    expect(exchanges).toEqual([
+      expect.objectContaining({ command: 'show vlan 10', output: 'VLAN 10 output' }),
+      expect.objectContaining({ command: 'show tech', output: '', error: 'Command timed out' }),
+    ]);
+    expect(exchanges[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should redact secrets from the fixture and still replay the command', async () => {
+    const inner = {
+      executeCommand: jest
+        .fn()
+        .mockResolvedValueOnce('')
+        .mockResolvedValueOnce('snmp-server community s3cr3t ro\nhostname ICX'),
+    } as any;
+    const recorder = new RecordingTransport(inner, file, { host: '10.0.0.1', transport: 'ssh' }, logger);
+
+    await recorder.executeCommand('username ops password 0 hunter2');
+    await recorder.executeCommand('show running-config');
+    await recorder.flush();
+
+    const text = readFileSync(file, 'utf-8');
+    expect(text).not.toContain('hunter2');
+    expect(text).not.toContain('s3cr3t');
+
+    const replay = new ReplayTransport(file, logger);
+    expect(await replay.executeCommand('username ops password 0 hunter2')).toBe('');
+    expect(await replay.executeCommand('show running-config')).toBe(
+      'snmp-server community <redacted> ro\nhostname ICX',
+    );
+  });
+
+  it('should serve repeated commands in recording order and repeat the last one', async () => {
+    writeFixture([
+      { command: 'show vlan', output: 'before' },
+      { command: 'vlan 30', output: '' },
+      { command: 'show  vlan ', output: 'after' },
+    ]);
+    const transport = new ReplayTransport(file, logger);
+
+    await transport.connect();
+    expect(await transport.executeCommand('show vlan')).toBe('before');
+    expect(await transport.executeMultipleCommands(['vlan 30', 'show vlan'])).toEqual(['', 'after']);
+    expect(await transport.executeCommand('show vlan')).toBe('after');
+    await expect(transport.executeCommand('show version')).rejects.toThrow('No recorded output for "show version"');
+  });
+
+  it('should replay recorded failures and timing', async () => {
+    writeFixture([
+      { command: 'show tech', output: '', durationMs: 5000, error: 'Connection lost' },
+      { command: 'show clock', output: '10:00:00', durationMs: 400 },
+    ]);
+    const transport = new ReplayTransport(file, logger, { speed: 10 });
+
+    await expect(transport.executeCommand('show tech', 200)).rejects.toThrow('timed out after 200ms');
+    const start = Date.now();
+    expect(await transport.executeCommand('show clock')).toBe('10:00:00');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+  });
+
+  it('should reject fixtures that do not match the format', async () => {
+    writeFileSync(file, JSON.stringify({ version: 3, exchanges: [] }));
+    const transport = new ReplayTransport(file, logger);
+
+    await expect(transport.connect()).rejects.toThrow('Invalid replay fixture');
+    expect(await transport.healthCheck()).toBe(false);
+  });
+
+  it('should run the command executor against a session recorded from a switch', async () => {
+    const simulator = new IcxSimulator({ telnetPort: null });
+    const { sshPort } = await simulator.start();
+    const client = new BrocadeSSHClient(
+      { host: '127.0.0.1', port: sshPort, username: 'admin', password: 'admin', timeout: 5000, maxRetries: 1 },
+      logger,
+    );
+    try {
+      const recorder = new RecordingTransport(client, file, { host: '127.0.0.1', transport: 'ssh' }, logger);
+      const live = new BrocadeCommandExecutor(recorder);
+      const vlans = await live.getVlans();
+      const systemInfo = await live.getSystemInfo();
+      await recorder.flush();
+
+      const replay = new BrocadeCommandExecutor(new ReplayTransport(file, logger));
+      expect(await replay.getVlans()).toEqual(vlans);
+      expect(await replay.getSystemInfo()).toEqual(systemInfo);
+    } finally {
+      client.disconnect();
+      await simulator.stop();
+    }
+  });
+});
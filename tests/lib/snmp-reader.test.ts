@@ -0,0 +1,116 @@
+import winston from 'winston';
+import { SnmpConfigSchema } from '../../src/core/config';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { createSnmpReader, type SnmpReader } from '../../src/lib/snmp-reader';
+import { IcxSimulator } from '../../src/simulator/icx-simulator';
+
+describe('SnmpReader', () => {
+  const logger = winston.createLogger({ silent: true });
+  const readers: SnmpReader[] = [];
+  const user = { name: 'monitor', authKey: 'auth-secret', privKey: 'priv-secret' };
+  let simulator: IcxSimulator;
+  let port: number;
+
+  beforeAll(async () => {
+    simulator = new IcxSimulator({ telnetPort: null, snmpPort: 0, snmpUser: user });
+    port = (await simulator.start()).snmpPort ?? 0;
+  });
+
+  afterEach(() => {
+    for (const reader of readers.splice(0)) reader.close();
+  });
+
+  afterAll(() => simulator.stop());
+
+  function reader(config: Record<string, unknown> = {}): SnmpReader {
+    const snmp = createSnmpReader(
+      '127.0.0.1',
+      SnmpConfigSchema.parse({ port, timeout: 500, retries: 0, ...config }),
+      logger,
+    );
+    readers.push(snmp);
+    return snmp;
+  }
+
+  it('should read system info, health and optics over SNMPv2c', async () => {
+    const snmp = reader();
+
+    expect(await snmp.getSystemInfo()).toMatchObject({
+      hostname: 'ICX-SIM',
+      model: 'ICX6450-24',
+      serialNumber: 'BZS3234K0AB',
+      firmwareVersion: 'Version 08.0.30hT311',
+    });
+    expect(await snmp.getSystemHealth()).toEqual({
+      cpu: { current: 3, average1min: 2 },
+      memory: { total: 418398208, used: 203862016, free: 214536192, utilization: 48 },
+      temperature: { current: 42, status: 'normal' },
+    });
+    expect(await snmp.getOpticalModuleInfo()).toEqual([
+      {
+        port: '1/2/1',
+        present: true,
+        type: '10GE SR 300m',
+        vendor: 'BROCADE',
+        partNumber: '57-0000075-01',
+        serialNumber: 'AAF214380000ABC',
+        temperature: 33.2578,
+        txPower: -2.2403,
+        rxPower: -3.0729,
+      },
+    ]);
+  });
+
+  it('should read interface counters and LLDP neighbors over SNMPv3', async () => {
+    const snmp = reader({ version: '3', username: user.name, authKey: user.authKey, privKey: user.privKey });
+
+    const stats = await snmp.getInterfaceStatistics();
+    expect(stats).toHaveLength(28);
+    expect(stats.find((entry) => entry.interface === '1/1/3')).toMatchObject({ status: 'down', inputBytes: 0 });
+    const [uplink] = await snmp.getInterfaceStatistics('1/2/1');
+    expect(uplink).toMatchObject({ interface: '1/2/1', status: 'up', crcErrors: 0 });
+    expect(uplink.inputBytes).toBeGreaterThan(uplink.outputBytes);
+    await expect(snmp.getInterfaceStatistics('1/9/1')).rejects.toThrow('The agent has no interface 1/9/1');
+
+    expect(await snmp.getLLDPNeighbors()).toEqual([
+      expect.objectContaining({
+        localPort: '1/1/1',
+        chassisId: '748e.f8a1.0c00',
+        portId: '1/1/24',
+        systemName: 'core-1',
+        managementAddress: '10.0.10.1',
+        capabilities: ['bridge', 'router'],
+      }),
+      expect.objectContaining({ localPort: '1/2/1', systemName: 'dist-1', managementAddress: '10.0.10.2' }),
+    ]);
+  });
+
+  it('should fall back to the CLI and back off when the agent does not answer', async () => {
+    const snmp = reader({ community: 'wrong' });
+    const health = jest.spyOn(snmp, 'getSystemHealth');
+    const cli = {
+      executeCommand: jest.fn().mockResolvedValue('CPU utilization: 7%'),
+      executeMultipleCommands: jest.fn(),
+    };
+    const executor = new BrocadeCommandExecutor(cli as any, { snmp });
+
+    expect((await executor.getSystemHealth()).cpu.current).toBe(7);
+    expect((await executor.getSystemHealth()).cpu.current).toBe(7);
+    expect(health).toHaveBeenCalledTimes(1);
+    expect(cli.executeCommand).toHaveBeenCalledWith('show cpu');
+  });
+
+  it('should read only the tools selected for SNMP', async () => {
+    const snmp = reader({ tools: ['get_lldp_neighbors'] });
+    const cli = {
+      executeCommand: jest.fn().mockResolvedValue(''),
+      executeMultipleCommands: jest.fn(),
+    };
+    const executor = new BrocadeCommandExecutor(cli as any, { snmp });
+
+    expect(await executor.getLLDPNeighbors()).toHaveLength(2);
+    expect(cli.executeCommand).not.toHaveBeenCalled();
+    await executor.getSystemHealth();
+    expect(cli.executeCommand).toHaveBeenCalledWith('show cpu');
+  });
+});
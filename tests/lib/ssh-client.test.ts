@@ -0,0 +1,121 @@
+import winston from 'winston';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { BrocadeSSHClient } from '../../src/lib/ssh-client';
+import { IcxSimulator } from '../../src/simulator/icx-simulator';
+import type { BrocadeConfig } from '../../src/types';
+
+describe('BrocadeSSHClient', () => {
+  const logger = winston.createLogger({ silent: true });
+  const clients: BrocadeSSHClient[] = [];
+  let simulator: IcxSimulator;
+  let port: number;
+
+  beforeAll(async () => {
+    simulator = new IcxSimulator({ enablePassword: 'letmein', telnetPort: null });
+    ({ sshPort: port } = await simulator.start());
+  });
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) client.disconnect();
+  });
+
+  afterAll(() => simulator.stop());
+
+  async function connect(overrides: Partial<BrocadeConfig> = {}, sshPort = port): Promise<BrocadeSSHClient> {
+    const client = new BrocadeSSHClient(
+      {
+        host: '127.0.0.1',
+        port: sshPort,
+        username: 'admin',
+        password: 'admin',
+        enablePassword: 'letmein',
+        timeout: 5000,
+        maxRetries: 1,
+        ...overrides,
+      },
+      logger,
+    );
+    clients.push(client);
+    await client.connect();
+    return client;
+  }
+
+  it('should enter enable mode and run show commands', async () => {
+    const client = await connect();
+    const executor = new BrocadeCommandExecutor(client);
+
+    expect(client.isConnected()).toBe(true);
+    expect((await executor.getVlans()).map((vlan) => [vlan.id, vlan.name])).toEqual([
+      [1, 'DEFAULT-VLAN'],
+      [10, 'DATA'],
+      [20, 'VOICE'],
+    ]);
+    expect(await executor.getSystemInfo()).toMatchObject({
+      model: 'Stackable ICX6450-24',
+      firmwareVersion: 'Version 08.0.30hT311',
+    });
+    expect(await client.executeCommand('show running-config')).toContain('hostname ICX-SIM');
+  });
+
+  it('should change VLAN membership and read it back from the running config', async () => {
+    const client = await connect();
+    const executor = new BrocadeCommandExecutor(client);
+
+    await executor.createVlanFull({
+      id: 30,
+      name: 'CAMERAS',
+      taggedPorts: ['ethe 1/1/1'],
+      untaggedPorts: ['ethe 1/1/6 to 1/1/7'],
+    });
+
+    const vlan = (await executor.getParsedConfig()).vlans.find((entry) => entry.id === 30);
+    expect(vlan).toMatchObject({ name: 'CAMERAS', tagged: ['1/1/1'], untagged: ['1/1/6', '1/1/7'] });
+    expect(await executor.getStartupConfig()).toContain('vlan 30 name CAMERAS by port');
+  });
+
+  it('should roll back a transaction the switch rejects', async () => {
+    const client = await connect();
+    const executor = new BrocadeCommandExecutor(client);
+
+    const report = await executor.applyTransaction(['conf t', 'vlan 40 name LAB', 'untagged ethe 1/1/99', 'end']);
+
+    expect(report.success).toBe(false);
+    expect(report.failed).toMatchObject({ command: 'untagged ethe 1/1/99' });
+    expect(simulator.switch.vlans.has(40)).toBe(false);
+  });
+
+  it('should stay in user mode when the enable password is rejected', async () => {
+    const client = await connect({ enablePassword: 'wrong' });
+
+    expect(await client.executeCommand('configure terminal')).toContain('Invalid input -> configure terminal');
+  });
+
+  it('should reload from the startup config, answering the save and confirmation questions', async () => {
+    const client = await connect();
+    const executor = new BrocadeCommandExecutor(client);
+    await client.executeMultipleCommands(['conf t', 'hostname UNCONFIRMED', 'end']);
+
+    await executor.reloadSwitch(true);
+
+    expect(simulator.switch.reloads).toBe(1);
+    expect(simulator.switch.hostname).toBe('ICX-SIM');
+    expect(simulator.switch.startupConfig).not.toContain('UNCONFIRMED');
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should answer --More-- when paging cannot be turned off', async () => {
+    const paging = new IcxSimulator({ telnetPort: null, pageLength: 10, skipPageDisplay: false });
+    const { sshPort } = await paging.start();
+    try {
+      const client = await connect({ enablePassword: undefined }, sshPort);
+      const output = await client.executeCommand('show interfaces brief');
+
+      expect(output).not.toMatch(/More|\x08/);
+      expect(output.split('\n').filter((line) => /^1\/\d\/\d+\s/.test(line))).toHaveLength(28);
+      expect(output.trimEnd().split('\n').at(-1)).toMatch(/^1\/2\/4\s+Down/);
+    } finally {
+      for (const client of clients.splice(0)) client.disconnect();
+      await paging.stop();
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import winston from 'winston';
+import { BrocadeCommandExecutor } from '../../src/lib/brocade-commands';
+import { BrocadeTelnetClient } from '../../src/lib/telnet-client';
+import { IcxSimulator } from '../../src/simulator/icx-simulator';
+
+describe('BrocadeTelnetClient', () => {
+  const logger = winston.createLogger({ silent: true });
+  let simulator: IcxSimulator;
+  let client: BrocadeTelnetClient;
+
+  beforeAll(async () => {
+    simulator = new IcxSimulator({ enablePassword: 'letmein' });
+    const { telnetPort } = await simulator.start();
+    client = new BrocadeTelnetClient(
+      {
+        host: '127.0.0.1',
+        port: telnetPort as number,
+        username: 'admin',
+        password: 'admin',
+        enablePassword: 'letmein',
+        transport: 'telnet',
+        timeout: 5000,
+        maxRetries: 1,
+      },
+      logger,
+    );
+    await client.connect();
+  });
+
+  afterAll(async () => {
+    client.disconnect();
+    await simulator.stop();
+  });
+
+  it('should learn the prompt and enter enable mode', () => {
+    expect(client.getStats()).toMatchObject({ connected: true, enableMode: true, learnedPrompt: 'telnet@ICX-SIM' });
+  });
+
+  it('should page through output longer than a screen', async () => {
+    const output = await client.executeCommand('show vlan');
+
+    expect(output).not.toMatch(/More|\x08/);
+    expect(output).toContain('PORT-VLAN 20, Name VOICE');
+    expect(output.trimEnd().endsWith('Monitoring: None')).toBe(true);
+  });
+
+  it('should configure an interface', async () => {
+    const executor = new BrocadeCommandExecutor(client);
+
+    await executor.configureInterface('ethernet 1/1/6', { description: 'printer', enabled: false });
+
+    expect(simulator.switch.port('1/1/6')).toMatchObject({ description: 'printer', enabled: false });
+    expect(await client.executeCommand('show interfaces brief | include 1/1/6')).toMatch(/^1\/1\/6\s+Disable/);
+  });
+
+  it('should run overlapping commands one at a time', async () => {
+    const [vlans, ports] = await Promise.all([
+      client.executeCommand('show vlan'),
+      client.executeCommand('show interfaces brief'),
+    ]);
+
+    expect(vlans).toContain('PORT-VLAN 20, Name VOICE');
+    expect(vlans).not.toMatch(/^1\/1\/6\s+Disable/m);
+    expect(ports).toMatch(/^1\/1\/6\s+Disable/m);
+    expect(ports).not.toContain('PORT-VLAN');
+  });
+
+  it('should reload when the running config is unchanged', async () => {
+    await client.executeCommand('end');
+    await new BrocadeCommandExecutor(client).reloadSwitch(true);
+
+    expect(simulator.switch.reloads).toBe(1);
+    expect(simulator.switch.logs.at(-1)).toContain('System reload requested by CLI');
+  });
+});
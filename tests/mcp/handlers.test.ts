@@ -0,0 +1,208 @@
+import { CallToolRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import winston from 'winston';
+import { parsePolicy } from '../../src/core/policy';
+import { CommandGuard } from '../../src/lib/command-guard';
+import { PolicyEngine } from '../../src/lib/policy-engine';
+import { authorizeToolCall, type HandlerDependencies, setupHandlers } from '../../src/mcp/handlers';
+import { getToolCategory } from '../../src/mcp/tools';
+
+describe('MCP handlers', () => {
+  const logger = winston.createLogger({ silent: true });
+
+  function dependencies(overrides: Partial<HandlerDependencies> = {}): HandlerDependencies {
+    return {
+      devices: { getDefaultDeviceName: () => 'core-1' },
+      logger,
+      transportType: 'sse',
+      ...overrides,
+    } as any;
+  }
+
+  async function callTool(deps: HandlerDependencies, name: string, args: Record<string, unknown>) {
+    const handlers = new Map<unknown, (request: unknown) => Promise<{ content: Array<{ text: string }> }>>();
+    const server = {
+      setRequestHandler: (schema: unknown, handler: (request: unknown) => Promise<any>) => {
+        handlers.set(schema, handler);
+      },
+      getClientVersion: () => ({ name: 'noc-agent' }),
+    };
+    setupHandlers(server as any, deps);
+    const callToolHandler = handlers.get(CallToolRequestSchema) as (request: unknown) => Promise<any>;
+    const response = await callToolHandler({ params: { name, arguments: args } });
+    return JSON.parse(response.content[0].text);
+  }
+
+  describe('authorizeToolCall', () => {
+    it('should deny approval decisions to unauthenticated callers', () => {
+      const deps = dependencies();
+
+      expect(() => authorizeToolCall('approve_change', { id: 'abc' }, { client: 'alice' }, deps)).toThrow(
+        'approve_change requires a caller authenticated by the HTTP server',
+      );
+      expect(() => authorizeToolCall('reject_change', { id: 'abc' }, { client: 'alice' }, deps)).toThrow(
+        'reject_change requires',
+      );
+      expect(() =>
+        authorizeToolCall('approve_change', { id: 'abc' }, { client: 'alice', authenticated: true }, deps),
+      ).not.toThrow();
+    });
+
+    it('should map only authenticated client names to policy roles over HTTP', () => {
+      const policy = new PolicyEngine(
+        parsePolicy({ defaultRole: 'read-only', clients: [{ match: 'netops-*', role: 'admin' }] }),
+      );
+      const args = { vlanId: 100 };
+
+      expect(() =>
+        authorizeToolCall('configure_vlan', args, { client: 'netops-console' }, dependencies({ policy })),
+      ).toThrow('not allowed');
+      expect(() =>
+        authorizeToolCall(
+          'configure_vlan',
+          args,
+          { client: 'netops-console', authenticated: true },
+          dependencies({ policy }),
+        ),
+      ).not.toThrow();
+      expect(() =>
+        authorizeToolCall(
+          'configure_vlan',
+          args,
+          { client: 'netops-console' },
+          dependencies({ policy, transportType: 'stdio' }),
+        ),
+      ).not.toThrow();
+    });
+  });
+
+  describe('resources', () => {
+    it('should authorize resource reads as the tool returning the same data', async () => {
+      const policy = new PolicyEngine(
+        parsePolicy({
+          defaultRole: 'viewer',
+          roles: { viewer: { rules: [{ effect: 'allow', tools: ['get_vlans'] }] } },
+        }),
+      );
+      const commandExecutor = { getVlans: jest.fn().mockResolvedValue([]), getRunningConfig: jest.fn() };
+      const deps = dependencies({
+        devices: { getDefaultDeviceName: () => 'core-1', resolve: () => ({ commandExecutor }) },
+        policy,
+      } as any);
+      const handlers = new Map<unknown, (request: unknown) => Promise<any>>();
+      setupHandlers(
+        {
+          setRequestHandler: (schema: unknown, handler: (request: unknown) => Promise<any>) =>
+            handlers.set(schema, handler),
+          getClientVersion: () => ({ name: 'noc-agent' }),
+        } as any,
+        deps,
+      );
+      const read = handlers.get(ReadResourceRequestSchema) as (request: unknown) => Promise<any>;
+
+      await expect(read({ params: { uri: 'brocade://vlans' } })).resolves.toMatchObject({
+        contents: [{ uri: 'brocade://vlans' }],
+      });
+      await expect(read({ params: { uri: 'brocade://config/running' } })).rejects.toThrow('Not authorized');
+      expect(commandExecutor.getRunningConfig).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run_across_fleet', () => {
+    const inventory = ['core-1', 'idf-1', 'idf-2'].map((name) => ({ name, tags: ['lab'] }));
+    let getVlans: jest.Mock;
+
+    beforeEach(() => {
+      getVlans = jest.fn().mockImplementation(async function (this: { device: string }) {
+        if (this.device === 'idf-2') throw new Error('Connection refused');
+        return [{ id: 1, name: `${this.device}-default` }];
+      });
+    });
+
+    function fleetDependencies(policy?: PolicyEngine): HandlerDependencies {
+      return dependencies({
+        devices: {
+          getDefaultDeviceName: () => 'core-1',
+          getDevices: () => inventory,
+          resolve: (name = 'core-1') => ({
+            name,
+            requireApproval: false,
+            commandExecutor: { device: name, getVlans },
+          }),
+        },
+        commandGuard: new CommandGuard({ mode: 'block', allow: [], deny: [] }),
+        serverConfig: { autoBackup: false },
+        policy,
+      } as any);
+    }
+
+    it('should report per-device failures without failing the call', async () => {
+      const result = await callTool(fleetDependencies(), 'run_across_fleet', { tool: 'get_vlans', tags: ['lab'] });
+
+      expect(result.summary).toEqual({ selected: 3, succeeded: 2, failed: 1 });
+      expect(result.results['idf-1']).toMatchObject({ success: true, result: [{ id: 1, name: 'idf-1-default' }] });
+      expect(result.results['idf-2']).toMatchObject({
+        success: false,
+        error: expect.stringContaining('Connection refused'),
+      });
+    });
+
+    it('should authorize the tool separately for each device', async () => {
+      const policy = new PolicyEngine(
+        parsePolicy({
+          defaultRole: 'idf-reader',
+          roles: {
+            'idf-reader': {
+              rules: [
+                { effect: 'allow', tools: ['run_across_fleet', 'get_vlans'] },
+                { effect: 'deny', tools: ['get_vlans'], devices: ['core-*'] },
+              ],
+            },
+          },
+        }),
+      );
+
+      const result = await callTool(fleetDependencies(policy), 'run_across_fleet', { tool: 'get_vlans', pattern: '*' });
+
+      expect(result.results['core-1']).toMatchObject({ success: false });
+      expect(result.results['idf-1']).toMatchObject({ success: true });
+      expect(getVlans).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse tools that are not on the read-only allowlist', async () => {
+      for (const tool of ['run_cable_diagnostics', 'backup_config', 'configure_vlan', 'list_pending_changes']) {
+        await expect(callTool(fleetDependencies(), 'run_across_fleet', { tool, tags: ['lab'] })).rejects.toThrow(
+          `Tool "${tool}" cannot be run across the fleet`,
+        );
+      }
+      expect(getVlans).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('server-side tools', () => {
+    it('should run audit queries on approval-gated devices without queueing or backing up', async () => {
+      const deps = dependencies({
+        devices: {
+          getDefaultDeviceName: () => 'core-1',
+          resolve: () => ({ name: 'core-1', requireApproval: true, commandExecutor: {} }),
+        },
+        commandGuard: new CommandGuard({ mode: 'block', allow: [], deny: [] }),
+        approvals: { submit: jest.fn() },
+        backups: { save: jest.fn() },
+        auditLog: { query: jest.fn().mockResolvedValue([]) },
+        serverConfig: { autoBackup: true },
+      } as any);
+
+      await expect(callTool(deps, 'query_audit_log', { device: 'core-1' })).resolves.toEqual({ entries: [] });
+      expect(deps.approvals.submit).not.toHaveBeenCalled();
+      expect(deps.backups.save).not.toHaveBeenCalled();
+    });
+
+    it('should give server-side tools their own policy categories', () => {
+      expect(getToolCategory('list_pending_changes')).toBe('approval');
+      expect(getToolCategory('approve_change')).toBe('approval');
+      expect(getToolCategory('query_audit_log')).toBe('audit');
+      expect(getToolCategory('list_alerts')).toBe('alerts');
+      expect(getToolCategory('list_pending_commits')).toBe('config');
+    });
+  });
+});